@@ -1,20 +1,33 @@
 // API domain - Library public surface
-import puppeteer, { Browser } from 'puppeteer';
+import type { PuppeteerLaunchOptions } from 'puppeteer';
 import { normalize } from 'path';
+import { Readable } from 'stream';
 import { getDefaultBrowserOptions } from '../utils';
 import { DefaultBrowserManager } from '../printing/browser';
+import { DefaultConverter } from '../printing/converter';
+import { DefaultServiceFactory } from '../printing/service';
+import type { PrinteerService } from '../printing/types/service';
+import type { Configuration } from '../config/types/configuration';
+import type { PrinteerOptions, ConversionResult, OutputList } from '../printing/types/conversion';
+import { resolveInputSource, describeInput } from '../printing/input-source';
+import type { ConversionInput, InputSource } from '../printing/input-source';
+import { ConversionBudget, ConversionAbortedError } from '../printing/cancellation';
+import { OneshotBrowserStrategy, PooledBrowserStrategy } from '../printing/browser-strategy';
+import type { BrowserStrategy } from '../printing/browser-strategy';
+import { runRenderPipeline, releaseWhenDone } from '../printing/pipeline';
+import type { OutputTarget, RenderedOutput } from '../printing/pipeline';
+import { resolveOutputType, resolveFileOutputs, isImageOutput } from '../printing/output-format';
+import { resolveElementSelection } from '../printing/element-screenshot';
+import { resolveResponsiveOptions } from '../printing/responsive';
+import type { FileOutput } from '../printing/output-format';
+import { PluginRunner, getRegisteredPlugins, loadPlugins } from '../plugins';
+import type { PrinteerPlugin } from '../plugins';
+import { toPrinteerError, runWithFallbacks, createRetryPolicy, retryWithBackoff } from '../errors';
+import { ConfigurationError } from '../types/errors';
 
 // networkidle0 - consider navigation to be finished when there are no more than 0 network connections for at least 500 ms
 // networkidle2 - consider navigation to be finished when there are no more than 2 network connections for at least 500 ms.
 
-/**
- * Generate the report.
- * @param {string} url The URL to convert
- * @param {string} outputFile The output file path
- * @param {string|null} outputType The output type (pdf or png)
- * @param {any} browserOptions Browser launch options
- * @returns The promise of the report file.
- */
 /**
  * Determine the appropriate browser strategy based on usage context
  */
@@ -166,9 +179,9 @@ async function getBrowserManager(): Promise<DefaultBrowserManager> {
 }
 
 /**
- * One-shot browser creation (simple, clean, no pool)
+ * Launch options for one-shot browsers (simple, clean, no pool)
  */
-async function createOneshotBrowser(customOptions?: any): Promise<Browser> {
+function getOneshotLaunchOptions(customOptions?: any): PuppeteerLaunchOptions {
   let browserOptions = customOptions ? { ...customOptions } : getDefaultBrowserOptions();
 
   // Remove pipe option if false (only meaningful when true, causes issues when false)
@@ -195,317 +208,219 @@ async function createOneshotBrowser(customOptions?: any): Promise<Browser> {
   ].filter(Boolean) as string[];
   browserOptions.args = Array.from(new Set([...baseArgs, ...extraArgs]));
 
-  return await puppeteer.launch(browserOptions);
+  return browserOptions;
 }
 
-export default async (url: string, outputFile: string, outputType: string | null = null, browserOptions: any) => {
-  const silent = process.env.PRINTEER_SILENT === '1';
-  const strategy = getBrowserStrategy();
-
-  if (!silent) {
-    getPackageJson();
-    console.debug(`Using browser strategy: ${strategy}`);
+/**
+ * Render an input to a file and resolve with its path. The input may be an
+ * http(s) URL, a file:// URL, a local HTML file or directory (served from an
+ * ephemeral local server), or `{ html, baseUrl }` for in-memory HTML.
+ * Given a list of outputs, every file is rendered from one page load and the
+ * paths are resolved in order (see renderOutputs).
+ */
+export default async function printeer<T extends string | OutputList>(
+  input: ConversionInput,
+  outputFile: T,
+  outputType: string | null = null,
+  browserOptions?: any
+): Promise<OutputPaths<T>> {
+  if (Array.isArray(outputFile)) {
+    return await renderOutputs(input, outputFile, browserOptions) as OutputPaths<T>;
   }
+  return await runConversion(input, { kind: 'file', path: normalize(outputFile as string) }, outputType, browserOptions) as OutputPaths<T>;
+}
 
-  outputFile = normalize(outputFile);
-  if (!url.startsWith('http')) {
-    throw new Error('URL must start with http or https');
-  }
+/** One path for a single output file, every path for an output list */
+type OutputPaths<T> = T extends string ? string : string[];
 
+/**
+ * Render several files - say a PDF, a PNG thumbnail and the rendered HTML -
+ * from one navigation and wait cycle, so they all show the same data. Each
+ * output's settings apply to that file only; `browserOptions` applies to all.
+ * Resolves with the written paths in order.
+ */
+export async function renderOutputs(input: ConversionInput, outputs: OutputList, browserOptions: any = {}): Promise<string[]> {
+  let primary: FileOutput;
   try {
-    if (strategy === 'oneshot') {
-      // Simple one-shot approach: create → use → destroy
-      return await runOneshotConversion(url, outputFile, outputType, browserOptions);
-    } else {
-      // Pool-based approach for server/API usage
-      return await runPooledConversion(url, outputFile, outputType, browserOptions);
-    }
+    [primary] = resolveFileOutputs(outputs);
   } catch (error) {
-    // If pool strategy fails, fallback to oneshot
-    if (strategy === 'pool' && !silent) {
-      const errMsg = error instanceof Error ? error.message : String(error);
-      console.warn('Pool strategy failed, falling back to oneshot:', errMsg);
-      return await runOneshotConversion(url, outputFile, outputType, browserOptions);
-    }
-    throw error;
+    throw toPrinteerError(error);
   }
-}
 
-async function applyAdvancedPageOptions(page: any, opts: any) {
-  const headers = { ...opts.headers };
-  if (opts.locale) {
-    headers['Accept-Language'] = opts.locale;
-  }
-  if (Object.keys(headers).length > 0) {
-    await page.setExtraHTTPHeaders(headers);
-  }
+  const report = browserOptions.report || { timings: {} };
+  const output = await runConversion(input, { kind: 'file', path: primary.path }, primary.outputType, {
+    ...browserOptions,
+    ...primary.options,
+    outputs: outputs.slice(1),
+    report
+  });
+  return [output as string, ...(report.outputFiles || [])];
+}
 
-  if (opts.cookies) await page.setCookie(...(Array.isArray(opts.cookies) ? opts.cookies : [opts.cookies]));
-  if (opts.auth) await page.authenticate(opts.auth);
-  if (opts.userAgent) await page.setUserAgent(opts.userAgent);
-  if (opts.mediaType) await page.emulateMediaType(opts.mediaType);
-  if (opts.colorScheme) await page.emulateMediaFeatures([{ name: 'prefers-color-scheme', value: opts.colorScheme }]);
-  if (opts.timezone) await page.emulateTimezone(opts.timezone);
-  if (opts.javascriptEnabled === false) await page.setJavaScriptEnabled(false);
-  if (opts.cacheEnabled === false) await page.setCacheEnabled(false);
-
-  if (opts.blockResources && opts.blockResources.length > 0) {
-    await page.setRequestInterception(true);
-    page.on('request', (req: any) => {
-      if (opts.blockResources.includes(req.resourceType())) {
-        req.abort();
-      } else {
-        req.continue();
-      }
-    });
-  }
+/**
+ * Render a URL and resolve with the output bytes instead of writing a file.
+ * @param outputType 'pdf' (default), 'png', 'jpeg' (or 'jpg'), 'webp', 'html', 'mhtml', 'text' or 'markdown'; `browserOptions.imageType` refines 'png'
+ */
+export async function renderToBuffer(input: ConversionInput, outputType: string | null = 'pdf', browserOptions: any = {}): Promise<Buffer> {
+  return await runConversion(input, { kind: 'buffer' }, outputType, browserOptions) as Buffer;
 }
 
 /**
- * One-shot conversion: Simple, clean, no lingering processes
+ * Render a URL and resolve with a Readable of the output. PDFs are streamed
+ * from the browser via `page.createPDFStream`; the page (and its browser) are
+ * released once the stream ends, errors or is destroyed, so always consume or
+ * destroy the returned stream.
  */
-async function runOneshotConversion(
-  url: string,
-  outputFile: string,
-  outputType: string | null,
-  browserOptions: any
-): Promise<string> {
-  let browser: Browser | null = null;
-  let page: any = null;
+export async function renderToStream(input: ConversionInput, outputType: string | null = 'pdf', browserOptions: any = {}): Promise<Readable> {
+  return await runConversion(input, { kind: 'stream' }, outputType, browserOptions) as Readable;
+}
 
+/**
+ * Conversions reject with a PrinteerError carrying a stable code and remediation
+ */
+async function runConversion(input: ConversionInput, target: OutputTarget, outputType: string | null, browserOptions: any): Promise<RenderedOutput> {
   try {
-    // Create browser with custom options if provided
-    browser = await createOneshotBrowser(browserOptions);
-    page = await browser.newPage();
-
-    // Navigate and render
-    const waitUntil = browserOptions.waitUntil || 'networkidle0';
-    const timeout = browserOptions.waitTimeout || 30000;
-    const loadTimeout = browserOptions.loadTimeout || timeout;
-
-    // Apply viewport if provided
-    if (browserOptions.viewport) {
-      await page.setViewport({
-        width: browserOptions.viewport.width || 1920,
-        height: browserOptions.viewport.height || 1080,
-        deviceScaleFactor: browserOptions.viewport.deviceScaleFactor || 1,
-        isMobile: !!browserOptions.viewport.isMobile,
-        hasTouch: !!browserOptions.viewport.hasTouch,
-        isLandscape: !!browserOptions.viewport.isLandscape
-      });
-    }
-
-    await applyAdvancedPageOptions(page, browserOptions);
-
-    const res = await page.goto(url, { waitUntil, timeout: loadTimeout });
-
-    if (!res) {
-      throw new Error("Could not load the page.");
-    }
+    return await convertInput(input, target, outputType, browserOptions);
+  } catch (error) {
+    throw toPrinteerError(error);
+  }
+}
 
-    if (browserOptions.waitSelector) {
-      await page.waitForSelector(browserOptions.waitSelector, { timeout });
-    }
-    if (browserOptions.waitFunction) {
-      await page.waitForFunction(browserOptions.waitFunction, { timeout });
-    }
-    if (browserOptions.waitDelay) {
-      await new Promise(resolve => setTimeout(resolve, browserOptions.waitDelay));
-    }
+async function convertInput(input: ConversionInput, target: OutputTarget, outputType: string | null, browserOptions: any): Promise<RenderedOutput> {
+  const silent = process.env.PRINTEER_SILENT === '1';
+  const strategy = getBrowserStrategy();
+  browserOptions = browserOptions || {};
 
-    outputType = detectOutputType(outputFile, outputType);
+  if (!silent) {
+    getPackageJson();
+    console.debug(`Using browser strategy: ${strategy}`);
+  }
 
-    if (res.status() !== 200) {
-      throw new Error(`Error: ${res.status()}: ${res.statusText()}`);
-    }
+  const source = resolveInputSource(input);
+  const resolvedType = resolveOutputType(target.kind === 'file' ? target.path : '', outputType, browserOptions.imageType);
+  const outputs = browserOptions.outputs ? resolveFileOutputs(browserOptions.outputs) : undefined;
+  // Selector and breakpoint mistakes fail before a browser is launched
+  if (isImageOutput(resolvedType)) {
+    resolveElementSelection(browserOptions, target.kind === 'file');
+    resolveResponsiveOptions(browserOptions, target.kind === 'file' ? target.path : null);
+  } else if (browserOptions.breakpoints) {
+    throw new ConfigurationError(`Invalid configuration: breakpoints apply to image outputs, not ${resolvedType}`);
+  }
+  outputs?.filter(output => isImageOutput(output.outputType))
+    .forEach(output => resolveElementSelection({ ...browserOptions, ...output.options }, true));
+  const plugins = await createPluginRunner(source, resolvedType, browserOptions);
+
+  // One budget for the whole conversion, including pool -> oneshot and option fallbacks
+  const budget = new ConversionBudget({ signal: browserOptions.signal, deadline: browserOptions.deadline });
+
+  const render = (options: any, browserStrategy: BrowserStrategy) => runRenderPipeline({
+    source,
+    target,
+    outputType: resolvedType,
+    options,
+    outputs,
+    strategy: browserStrategy,
+    budget,
+    plugins,
+    // Callers that pass a report get the response status and warnings back
+    report: browserOptions.report
+  });
+  const oneshot = (options: any) => new OneshotBrowserStrategy(getOneshotLaunchOptions(options));
 
-    // Auto-scroll if requested or for full page screenshots
-    if (browserOptions.fullPage) {
-       await autoScroll(page);
+  const attempt = async (options: any): Promise<RenderedOutput> => {
+    // A fallback that replaced the launch flags needs a freshly launched browser
+    if (strategy === 'oneshot' || options.args !== browserOptions.args) {
+      return await render(options, oneshot(options));
     }
 
-    if (outputType === 'png') {
-      const screenshotOptions: any = {
-        path: outputFile,
-        fullPage: !!browserOptions.fullPage,
-        omitBackground: !!browserOptions.omitBackground,
-        type: browserOptions.imageType || 'png',
-        clip: browserOptions.clip,
-        optimizeForSize: browserOptions.optimizeForSize
-      };
-      if (screenshotOptions.type !== 'png' && browserOptions.quality !== undefined) {
-        screenshotOptions.quality = browserOptions.quality;
+    try {
+      // Pool: borrow from the shared manager
+      return await render(options, await getPooledStrategy());
+    } catch (error) {
+      // If pool strategy fails, fallback to oneshot - unless the caller gave up
+      if (silent || error instanceof ConversionAbortedError) {
+        throw error;
       }
-      await page.screenshot(screenshotOptions);
-    } else {
-      await page.pdf({
-        format: browserOptions.format || 'A4',
-        path: outputFile,
-        printBackground: browserOptions.printBackground !== undefined ? browserOptions.printBackground : true,
-        landscape: browserOptions.orientation === 'landscape',
-        margin: browserOptions.margin,
-        scale: browserOptions.scale,
-        displayHeaderFooter: browserOptions.displayHeaderFooter !== undefined ? browserOptions.displayHeaderFooter : (!!browserOptions.headerTemplate || !!browserOptions.footerTemplate),
-        headerTemplate: browserOptions.headerTemplate,
-        footerTemplate: browserOptions.footerTemplate,
-        preferCSSPageSize: browserOptions.preferCSSPageSize,
-        tagged: browserOptions.generateTaggedPDF,
-        outline: browserOptions.outline
-      });
+      const errMsg = error instanceof Error ? error.message : String(error);
+      console.warn('Pool strategy failed, falling back to oneshot:', errMsg);
+      return await render(options, oneshot(options));
     }
+  };
+
+  // Retryable failures run the whole conversion again, fallbacks included
+  const retryPolicy = createRetryPolicy({
+    attempts: browserOptions.retryAttempts,
+    initialDelay: browserOptions.retryDelay,
+    maxDelay: browserOptions.retryMaxDelay,
+    jitter: browserOptions.retryJitter
+  });
 
-    return normalize(outputFile);
-
-  } finally {
-    // Guaranteed cleanup - no pools, no lingering processes
-    if (page) {
-      try {
-        await page.close();
-      } catch (error) {
-        console.warn('Failed to close page:', error);
+  let output: RenderedOutput;
+  try {
+    output = await retryWithBackoff(() => runWithFallbacks(browserOptions, attempt, {
+      strategies: browserOptions.fallbacks === false ? [] : undefined,
+      onFallback: (applied, error) => {
+        if (!silent) {
+          console.warn(`Conversion failed (${applied.code}), retrying with fallback ${applied.name}:`, error.message);
+        }
+        browserOptions.onFallback?.(applied);
       }
-    }
-
-    if (browser) {
-      try {
-        await browser.close();
-
-        // Aggressive process cleanup for one-shot mode
-        const process = browser.process();
-        if (process && !process.killed) {
-          // Give it a moment to close gracefully
-          await new Promise(resolve => setTimeout(resolve, 500));
-
-          // Force kill if still alive
-          if (!process.killed) {
-            try {
-              process.kill('SIGKILL');
-            } catch (error) {
-              // Process might already be dead
-            }
-          }
+    }), retryPolicy, {
+      // The deadline covers every attempt, so an expired budget ends retrying
+      shouldRetry: error => error.retryable && !budget.aborted,
+      sleep: ms => budget.delay(ms),
+      onFailure: (error, attemptNumber, delay) => {
+        if (delay === undefined) {
+          return;
+        }
+        if (!silent) {
+          console.warn(`Attempt ${attemptNumber} failed (${error.code}), retrying in ${delay}ms:`, error.message);
         }
-      } catch (error) {
-        console.warn('Failed to close browser:', error);
+        browserOptions.onRetry?.(error, attemptNumber, delay);
       }
-    }
+    });
+  } catch (error) {
+    budget.dispose();
+    throw error;
+  }
+
+  // Streams stay cancellable until they are consumed
+  if (output instanceof Readable) {
+    const stream = output;
+    const stopListening = budget.onAbort(reason => stream.destroy(reason));
+    releaseWhenDone(stream, async () => {
+      stopListening();
+      budget.dispose();
+    });
+  } else {
+    budget.dispose();
   }
+
+  return output;
 }
 
 /**
- * Pool-based conversion: Efficient for high-throughput scenarios
+ * Plugins for one conversion: registered plugins, then `plugins` passed with
+ * the call, then plugins listed in the print configuration
  */
-async function runPooledConversion(
-  url: string,
-  outputFile: string,
-  outputType: string | null,
-  browserOptions: unknown
-): Promise<string> {
-  const opts = browserOptions as any;
-  const browserManager = await getBrowserManager();
-  const browserInstance = await browserManager.getBrowser();
-
-  let page: any = null;
-
-  try {
-    page = await browserInstance.browser.newPage();
-    const waitUntil = opts.waitUntil || 'networkidle0';
-    const timeout = opts.waitTimeout || 30000;
-    const loadTimeout = opts.loadTimeout || timeout;
-
-    // Apply viewport if provided
-    if (opts.viewport) {
-      await page.setViewport({
-        width: opts.viewport.width || 1920,
-        height: opts.viewport.height || 1080,
-        deviceScaleFactor: opts.viewport.deviceScaleFactor || 1,
-        isMobile: !!opts.viewport.isMobile,
-        hasTouch: !!opts.viewport.hasTouch,
-        isLandscape: !!opts.viewport.isLandscape
-      });
-    }
-
-    await applyAdvancedPageOptions(page, opts);
-
-    const res = await page.goto(url, { waitUntil, timeout: loadTimeout });
-
-    if (!res) {
-      throw new Error("Could not load the page.");
-    }
-
-    if (opts.waitSelector) {
-      await page.waitForSelector(opts.waitSelector, { timeout });
-    }
-    if (opts.waitFunction) {
-      await page.waitForFunction(opts.waitFunction, { timeout });
-    }
-    if (opts.waitDelay) {
-      await new Promise(resolve => setTimeout(resolve, opts.waitDelay));
-    }
-
-    outputType = detectOutputType(outputFile, outputType);
-
-    if (res.status() !== 200) {
-      throw new Error(`Error: ${res.status()}: ${res.statusText()}`);
-    }
-
-    // Auto-scroll if requested or for full page screenshots
-    if (opts.fullPage) {
-       await autoScroll(page);
-    }
-
-    if (outputType === 'png') {
-      const screenshotOptions: any = {
-        path: outputFile,
-        fullPage: !!opts.fullPage,
-        omitBackground: !!opts.omitBackground,
-        type: opts.imageType || 'png',
-        clip: opts.clip,
-        optimizeForSize: opts.optimizeForSize
-      };
-      if (screenshotOptions.type !== 'png' && opts.quality !== undefined) {
-        screenshotOptions.quality = opts.quality;
-      }
-      await page.screenshot(screenshotOptions);
-    } else {
-      await page.pdf({
-        format: opts.format || 'A4',
-        path: outputFile,
-        printBackground: opts.printBackground !== undefined ? opts.printBackground : true,
-        landscape: opts.orientation === 'landscape',
-        margin: opts.margin,
-        scale: opts.scale,
-        displayHeaderFooter: opts.displayHeaderFooter !== undefined ? opts.displayHeaderFooter : (!!opts.headerTemplate || !!opts.footerTemplate),
-        headerTemplate: opts.headerTemplate,
-        footerTemplate: opts.footerTemplate,
-        preferCSSPageSize: opts.preferCSSPageSize,
-        tagged: opts.generateTaggedPDF,
-        outline: opts.outline
-      });
-    }
-
-    return normalize(outputFile);
-
-  } finally {
-    // Close page
-    if (page) {
-      try {
-        await page.close();
-      } catch (error) {
-        console.warn('Failed to close page:', error);
-      }
-    }
+async function createPluginRunner(source: InputSource, outputType: string, opts: any): Promise<PluginRunner> {
+  const config = opts.printConfig || {};
+  const plugins: PrinteerPlugin[] = [
+    ...getRegisteredPlugins(),
+    ...(opts.plugins || []),
+    ...(config.plugins ? await loadPlugins(config.plugins) : [])
+  ];
 
-    // Return browser to pool
-    try {
-      await browserManager.releaseBrowser(browserInstance);
-    } catch (error) {
-      console.error('Failed to release browser to pool:', error);
-    }
+  return new PluginRunner(plugins, {
+    config,
+    input: describeInput(source),
+    outputType
+  });
+}
 
-    // Schedule cleanup for idle browsers
-    scheduleAutomaticCleanup(browserManager);
-  }
+async function getPooledStrategy(): Promise<PooledBrowserStrategy> {
+  const browserManager = await getBrowserManager();
+  return new PooledBrowserStrategy(browserManager, () => scheduleAutomaticCleanup(browserManager));
 }
 
 /**
@@ -539,20 +454,6 @@ function getPackageJson() {
   // Get package.json for version info
 }
 
-function detectOutputType(fname: string, outputType: string | null) {
-  const validOutputTypes: string[] = ['pdf', 'png']
-
-  if (!outputType) {
-    const ext = fname.split('.').pop()
-    if (!ext) { return 'pdf' }
-    if (validOutputTypes.includes(ext)) { return ext }
-    return 'pdf'
-  }
-
-  if (!validOutputTypes.includes(outputType)) { return 'pdf' }
-  return outputType
-}
-
 // Enhanced exports
 export * from '../types';
 // Export interfaces from their domain modules
@@ -582,6 +483,8 @@ export {
 export * from '../resources/types/resource';
 
 export * from '../diagnostics';
+export * from '../plugins';
+export * from '../errors';
 export * from '../utils';
 
 // Doctor functionality
@@ -591,9 +494,30 @@ export async function doctor(): Promise<unknown[]> {
   return await doctorModule.runFullDiagnostics();
 }
 
-// Enhanced conversion function (placeholder for future implementation)
-export async function convert(_options: unknown): Promise<unknown> {
-  throw new Error('Enhanced convert function not implemented yet - will be implemented in task 8');
+/**
+ * Structured conversion: returns a ConversionResult (file size, duration,
+ * page metadata) instead of a bare output path. Failures are reported through
+ * `success`/`error` rather than thrown.
+ */
+export async function convert(options: PrinteerOptions): Promise<ConversionResult> {
+  if (getBrowserStrategy() === 'oneshot') {
+    return await new DefaultConverter().convert(options);
+  }
+
+  const browserManager = await getBrowserManager();
+  try {
+    return await new DefaultConverter(browserManager).convert(options);
+  } finally {
+    scheduleAutomaticCleanup(browserManager);
+  }
+}
+
+/**
+ * Create a long-running service that owns its own browser pool, sized from
+ * `browser.pool`. Call `start()` before converting and `stop()` when done.
+ */
+export function createPrinteerService(config?: Partial<Configuration>): PrinteerService {
+  return new DefaultServiceFactory().createService(config);
 }
 
 // Utility function to get current browser strategy (for debugging)
@@ -605,28 +529,3 @@ export function getCurrentBrowserStrategy(): 'oneshot' | 'pool' {
 export function hasBrowserManager(): boolean {
   return globalBrowserManager !== null;
 }
-
-/**
- * Auto-scroll the page to trigger lazy loading
- */
-async function autoScroll(page: any) {
-  await page.evaluate(async () => {
-    // @ts-ignore
-    await new Promise<void>((resolve) => {
-      let totalHeight = 0;
-      const distance = 100;
-      const timer = setInterval(() => {
-        // @ts-ignore
-        const scrollHeight = document.body.scrollHeight;
-        // @ts-ignore
-        window.scrollBy(0, distance);
-        totalHeight += distance;
-
-        if (totalHeight >= scrollHeight) {
-          clearInterval(timer);
-          resolve();
-        }
-      }, 100);
-    });
-  });
-}
\ No newline at end of file
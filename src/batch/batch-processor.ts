@@ -9,12 +9,27 @@ import * as path from 'path';
 import * as yaml from 'yaml';
 import { EnhancedConfigurationManager } from '../config/enhanced-config-manager';
 import printeer from '../api';
+import type { ConversionInput } from '../printing/input-source';
+import { convertToLegacyConfig } from '../printing/legacy-config';
+import { resetReport } from '../printing/pipeline';
+import type { PipelineReport } from '../printing/pipeline';
+import { ConversionBudget } from '../printing/cancellation';
+import { mergePdfs, PAGE_NUMBERING_MODES } from '../printing/pdf-merge';
+import { resolveOutputType, resolveFileOutputs } from '../printing/output-format';
+import type { OutputList } from '../printing/types/conversion';
+import { mergeIncompleteError, toPrinteerError } from '../errors/error-handler';
+import { createRetryPolicy, retryWithBackoff } from '../errors/retry';
+import type { RetryPolicy } from '../errors/retry';
+import type { AppliedFallback, PrinteerError } from '../types/errors';
 import type {
+  BatchAttempt,
   BatchJob,
   BatchOptions,
   BatchResult,
   BatchData,
   BatchReport,
+  BatchMergeOptions,
+  BatchMergeResult,
   ResourceMetrics,
   ResourcePressure
 } from './types/batch.types';
@@ -32,6 +47,8 @@ export class BatchProcessor extends EventEmitter {
   private activeJobs = 0;
   private maxConcurrency: number;
   private resourceMetrics: ResourceMetrics[] = [];
+  private mergeResult?: BatchMergeResult;
+  private mergeError?: PrinteerError;
 
   constructor(public options: BatchOptions) {
     super();
@@ -61,8 +78,8 @@ export class BatchProcessor extends EventEmitter {
         );
       }
 
-      // Process the batch
-      return await this.processBatch(batchData.jobs, options);
+      // Process the batch; a merge section in the file wins over the options
+      return await this.processBatch(batchData.jobs, { ...options, merge: batchData.merge || options.merge });
     } catch (error) {
       this.emit('error', error);
       throw error;
@@ -88,6 +105,18 @@ export class BatchProcessor extends EventEmitter {
       // Validate and prepare jobs
       const processedJobs = await this.prepareJobs(jobs, options);
 
+      const outputErrors = this.validateOutputTypes(processedJobs);
+      if (outputErrors.length > 0) {
+        throw new BatchValidationError('Invalid job outputs', outputErrors);
+      }
+
+      if (options.merge) {
+        const mergeErrors = this.validateMergeOptions(options.merge, processedJobs);
+        if (mergeErrors.length > 0) {
+          throw new BatchValidationError('Invalid merge configuration', mergeErrors);
+        }
+      }
+
       // Execute dry run if requested
       if (options.dryRun) {
         return this.generateDryRunReport(processedJobs, options);
@@ -96,6 +125,16 @@ export class BatchProcessor extends EventEmitter {
       // Process jobs with resource optimization
       await this.processJobsWithResourceOptimization(processedJobs, options);
 
+      if (options.merge) {
+        try {
+          this.mergeResult = await this.mergeOutputs(processedJobs, options.merge, options);
+        } catch (error) {
+          // The jobs are done either way; the report carries the merge failure
+          this.mergeError = toPrinteerError(error);
+          this.emit('merge-failed', this.mergeError);
+        }
+      }
+
       // Generate final report
       return await this.generateBatchReport(options);
     } finally {
@@ -125,7 +164,11 @@ export class BatchProcessor extends EventEmitter {
       }
     });
 
-    while (jobQueue.length > 0 || processingJobs.size > 0) {
+    // Without continueOnError the first failure stops scheduling; jobs that
+    // are already running finish before the failure is rethrown
+    let stopError: unknown;
+
+    while ((jobQueue.length > 0 && !stopError) || processingJobs.size > 0) {
       // Calculate optimal concurrency based on resource availability
       const actualConcurrency = Math.min(
         this.maxConcurrency,
@@ -133,18 +176,15 @@ export class BatchProcessor extends EventEmitter {
       );
 
       // Process jobs while respecting resource limits
-      while (this.activeJobs < actualConcurrency && jobQueue.length > 0) {
+      while (!stopError && this.activeJobs < actualConcurrency && jobQueue.length > 0) {
         const job = jobQueue.shift()!;
 
         if (!processedJobs.has(job.id) && !processingJobs.has(job.id)) {
           processingJobs.add(job.id);
-          // Process job asynchronously
+          // Process job asynchronously; failures were already recorded and emitted
           this.processJobWithResourceMonitoring(job, options, processedJobs, processingJobs, jobQueue, jobs)
             .catch(error => {
-              this.emit('job-failed', job, error);
-              if (!options.continueOnError) {
-                throw error;
-              }
+              stopError = stopError || error;
             });
         }
       }
@@ -154,6 +194,10 @@ export class BatchProcessor extends EventEmitter {
         await new Promise(resolve => setTimeout(resolve, 50));
       }
     }
+
+    if (stopError) {
+      throw stopError;
+    }
   }
 
   /**
@@ -172,8 +216,12 @@ export class BatchProcessor extends EventEmitter {
     const totalJobs = allJobs.length;
     this.emit('job-started', job, { currentJobNumber, totalJobs });
 
+    const startTime = new Date();
+    const attempts: BatchAttempt[] = [];
+    const report: PipelineReport = { timings: {} };
+
     try {
-      const result = await this.executeJob(job, options);
+      const result = await this.executeJob(job, options, attempts, report);
       this.results.set(job.id, result);
       const completedJobNumber = processedJobs.size + 1;
       const totalJobs = allJobs.length;
@@ -197,21 +245,26 @@ export class BatchProcessor extends EventEmitter {
       });
 
     } catch (error) {
+      const failure = toPrinteerError(error);
+      const endTime = new Date();
       const failureResult: BatchResult = {
         jobId: job.id,
         status: 'failed',
-        startTime: new Date(),
-        endTime: new Date(),
-        duration: 0,
-        error: error instanceof Error ? error.message : 'Unknown error',
-        retryCount: job.retryCount || 0
+        startTime,
+        endTime,
+        duration: endTime.getTime() - startTime.getTime(),
+        error: failure.message,
+        errorInfo: failure.toJSON(),
+        retryCount: Math.max(0, attempts.length - 1),
+        ...(attempts.length > 1 ? { attempts } : {}),
+        ...reportFields(report)
       };
 
       this.results.set(job.id, failureResult);
-      this.emit('job-failed', job, error);
+      this.emit('job-failed', job, failure);
 
       if (!options.continueOnError) {
-        throw error;
+        throw failure;
       }
     } finally {
       this.activeJobs--;
@@ -225,37 +278,223 @@ export class BatchProcessor extends EventEmitter {
    */
   private async executeJob(
     job: BatchJob,
-    options: BatchOptions
+    options: BatchOptions,
+    attempts: BatchAttempt[] = [],
+    report: PipelineReport = { timings: {} }
   ): Promise<BatchResult> {
     const startTime = new Date();
 
+    // Apply job configuration
+    const config = await this.resolveJobConfiguration(job);
+
+    // Resolve output paths with output directory if specified
+    const output = this.resolveJobOutput(job.output, options.outputDirectory);
+    const outputPath = primaryOutput(output);
+    const jobWithResolvedOutput = { ...job, output };
+
+    // Execute real conversion, retrying transient failures with backoff
+    const policy = this.getRetryPolicy(job, config, options);
+    // A job timeout is one end-to-end deadline for every attempt and the waits between them
+    const budget = new ConversionBudget({ deadline: job.timeout || undefined });
+    let fallbacks: AppliedFallback[];
     try {
-      // Apply job configuration
-      const config = await this.resolveJobConfiguration(job);
+      fallbacks = await retryWithBackoff(
+        attempt => {
+          budget.enter(`attempt ${attempt}`);
+          resetReport(report);
+          // Each attempt only gets the time that is left
+          return this.executeRealConversion(jobWithResolvedOutput, config, report, options, job.timeout ? budget.timeout(job.timeout) : undefined);
+        },
+        policy,
+        {
+          // An expired deadline ends retrying, as it does for printeer()
+          shouldRetry: error => error.retryable && !budget.aborted,
+          sleep: ms => {
+            budget.enter('retry delay');
+            return budget.delay(ms);
+          },
+          onFailure: (error, attempt, delay) => {
+            attempts.push({ attempt, error: error.toJSON(), ...(delay !== undefined ? { retryDelay: delay } : {}) });
+            if (delay !== undefined) {
+              this.emit('job-retry', job, error, { attempt, maxAttempts: policy.attempts + 1, delay });
+            }
+          }
+        }
+      );
+    } finally {
+      budget.dispose();
+    }
 
-      // Resolve output path with output directory if specified
-      const outputPath = this.resolveOutputPath(job.output, options.outputDirectory);
-      const jobWithResolvedOutput = { ...job, output: outputPath };
+    const endTime = new Date();
+    const result: BatchResult = {
+      jobId: job.id,
+      status: 'completed',
+      startTime,
+      endTime,
+      duration: endTime.getTime() - startTime.getTime(),
+      outputFile: outputPath,
+      ...(Array.isArray(output) ? { outputFiles: [outputPath, ...(report.outputFiles || [])] } : {}),
+      retryCount: attempts.length,
+      ...(attempts.length > 0 ? { attempts } : {}),
+      ...(fallbacks.length > 0 ? { fallbacks } : {}),
+      ...reportFields(report)
+    };
 
-      // Execute real conversion
-      await this.executeRealConversion(jobWithResolvedOutput, config);
+    return result;
+  }
 
-      const endTime = new Date();
-      const result: BatchResult = {
-        jobId: job.id,
-        status: 'completed',
-        startTime,
-        endTime,
-        duration: endTime.getTime() - startTime.getTime(),
-        outputFile: outputPath,
-        retryCount: job.retryCount || 0
-      };
+  /**
+   * Retries and delays come from the job's `retryCount`, then its own
+   * configuration, then the batch options, then the resolved configuration
+   * (config file, preset and defaults).
+   */
+  private getRetryPolicy(job: BatchJob, config: EnhancedPrintConfiguration, options: BatchOptions): RetryPolicy {
+    const jobPerformance = job.config?.performance || {};
+    return createRetryPolicy({
+      attempts: job.retryCount ?? jobPerformance.retryAttempts ?? options.retryAttempts ?? config.performance?.retryAttempts,
+      initialDelay: jobPerformance.retryDelay ?? options.retryDelay ?? config.performance?.retryDelay,
+      maxDelay: jobPerformance.retryMaxDelay ?? options.retryMaxDelay ?? config.performance?.retryMaxDelay,
+      jitter: config.performance?.retryJitter
+    });
+  }
 
-      return result;
+  /**
+   * Select the jobs a merge covers, in batch order
+   */
+  private selectMergeJobs(merge: BatchMergeOptions, jobs: BatchJob[]): BatchJob[] {
+    if (!merge.jobs) {
+      return jobs.filter(job => path.extname(primaryOutput(job.output)).toLowerCase() === '.pdf');
+    }
 
-    } catch (error) {
-      throw new Error(`Job execution failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    return jobs.filter(job =>
+      merge.jobs!.some(id => job.id === id || job.parentId === id)
+    );
+  }
+
+  /**
+   * Every output extension must select an encoder; nothing falls back to PDF
+   */
+  private validateOutputTypes(jobs: BatchJob[]): string[] {
+    const errors: string[] = [];
+    for (const job of jobs) {
+      try {
+        if (Array.isArray(job.output)) {
+          resolveFileOutputs(job.output);
+        } else {
+          resolveOutputType(job.output);
+        }
+      } catch (error) {
+        errors.push(`Job ${job.id}: ${error instanceof Error ? error.message : String(error)}`);
+      }
     }
+    return errors;
+  }
+
+  /**
+   * Validate a merge section against the prepared jobs
+   */
+  private validateMergeOptions(merge: BatchMergeOptions, jobs: BatchJob[]): string[] {
+    const errors: string[] = [];
+
+    if (!merge.output) {
+      errors.push('Merge missing required field: output');
+    } else if (path.extname(merge.output).toLowerCase() !== '.pdf') {
+      errors.push(`Merge output must be a .pdf file: ${merge.output}`);
+    }
+
+    if (merge.pageNumbering && !PAGE_NUMBERING_MODES.includes(merge.pageNumbering)) {
+      errors.push(`Merge pageNumbering must be one of: ${PAGE_NUMBERING_MODES.join(', ')}`);
+    }
+
+    for (const id of merge.jobs || []) {
+      if (!jobs.some(job => job.id === id || job.parentId === id)) {
+        errors.push(`Merge references unknown job: ${id}`);
+      }
+    }
+
+    const selected = this.selectMergeJobs(merge, jobs);
+    if (selected.length === 0) {
+      errors.push('Merge has no PDF jobs to combine');
+    }
+    for (const job of selected) {
+      const output = primaryOutput(job.output);
+      if (path.extname(output).toLowerCase() !== '.pdf') {
+        errors.push(`Job ${job.id}: only PDF outputs can be merged (${output})`);
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * Combine completed PDF outputs into one document, in batch order
+   */
+  private async mergeOutputs(
+    jobs: BatchJob[],
+    merge: BatchMergeOptions,
+    options: BatchOptions
+  ): Promise<BatchMergeResult> {
+    const selected = this.selectMergeJobs(merge, jobs);
+    const completed = selected.filter(job => this.results.get(job.id)?.status === 'completed');
+    const skipped = selected.filter(job => !completed.includes(job)).map(job => job.id);
+
+    if (completed.length === 0) {
+      throw mergeIncompleteError('Merge failed: none of the selected jobs completed', skipped);
+    }
+    if (skipped.length > 0 && !(merge.allowPartial ?? options.continueOnError)) {
+      throw mergeIncompleteError(`Merge failed: jobs did not complete: ${skipped.join(', ')}`, skipped);
+    }
+
+    const sources = await Promise.all(completed.map(async job => ({
+      pdf: await fs.readFile(this.results.get(job.id)!.outputFile!),
+      title: job.title,
+      label: job.url || job.id
+    })));
+
+    const merged = await mergePdfs(sources, {
+      bookmarks: merge.bookmarks,
+      pageNumbering: merge.pageNumbering
+    });
+
+    const outputFile = this.resolveOutputPath(merge.output, options.outputDirectory);
+    await fs.mkdir(path.dirname(outputFile), { recursive: true });
+    await fs.writeFile(outputFile, merged.pdf as Uint8Array);
+
+    if (merge.keepSources === false) {
+      await Promise.all(completed.map(async job => {
+        const { outputFile: source, outputFiles, ...result } = this.results.get(job.id)!;
+        await fs.unlink(source!).catch(() => {
+          // Already gone
+        });
+        const remaining = outputFiles?.filter(file => file !== source);
+        this.results.set(job.id, {
+          ...result,
+          ...(remaining?.length ? { outputFile: remaining[0], outputFiles: remaining } : {}),
+          mergedInto: outputFile
+        });
+      }));
+    }
+
+    this.emit('merge-completed', outputFile, merged);
+
+    return {
+      outputFile,
+      pageCount: merged.pageCount,
+      sources: completed.map(job => job.id),
+      skipped
+    };
+  }
+
+  /**
+   * Resolve every path of a job's output against the output directory
+   */
+  private resolveJobOutput(output: string | OutputList, outputDirectory?: string): string | OutputList {
+    if (!Array.isArray(output)) {
+      return this.resolveOutputPath(output, outputDirectory);
+    }
+    return output.map(entry => typeof entry === 'string'
+      ? this.resolveOutputPath(entry, outputDirectory)
+      : { ...entry, file: this.resolveOutputPath(entry.file, outputDirectory) });
   }
 
   /**
@@ -280,38 +519,47 @@ export class BatchProcessor extends EventEmitter {
    */
   private async executeRealConversion(
     job: BatchJob,
-    config: EnhancedPrintConfiguration
-  ): Promise<void> {
-    // Ensure output directory exists
-    const outputDir = path.dirname(job.output);
-    await fs.mkdir(outputDir, { recursive: true }).catch(() => {
-      // Directory might already exist, ignore error
-    });
+    config: EnhancedPrintConfiguration,
+    report: PipelineReport,
+    options: BatchOptions,
+    deadline?: number
+  ): Promise<AppliedFallback[]> {
+    // Ensure output directories exist
+    for (const outputDir of new Set(outputFiles(job.output).map(file => path.dirname(file)))) {
+      await fs.mkdir(outputDir, { recursive: true }).catch(() => {
+        // Directory might already exist, ignore error
+      });
+    }
 
     // Convert enhanced config to legacy format for printeer API
-    const legacyConfig = this.convertToLegacyConfig(config);
+    const legacyConfig = convertToLegacyConfig(config);
+
+    // What is left of the job timeout (see executeJob)
+    if (deadline) {
+      legacyConfig.deadline = deadline;
+    }
+
+    const fallbacks: AppliedFallback[] = [];
+    legacyConfig.onFallback = (applied: AppliedFallback) => fallbacks.push(applied);
 
-    // Call the real printeer API
-    await printeer(job.url, job.output, null, legacyConfig);
+    // Jobs are retried here so every attempt is recorded in the result
+    legacyConfig.retryAttempts = 0;
+    legacyConfig.report = report;
+    // Fills in the job's pageMetrics; jobs that write a HAR log are recorded anyway
+    if (options.pageMetrics) {
+      legacyConfig.recordNetwork = true;
+    }
+
+    // Call the real printeer API; output lists render every file from one page load
+    await printeer(this.getJobInput(job), job.output, null, legacyConfig);
+    return fallbacks;
   }
 
   /**
-   * Convert enhanced configuration to legacy format for printeer API
+   * Inline HTML takes precedence over the job URL/path
    */
-  private convertToLegacyConfig(config: EnhancedPrintConfiguration): any {
-    return {
-      format: config.page?.format || 'A4',
-      orientation: config.page?.orientation || 'portrait',
-      margin: config.page?.margins,
-      scale: config.pdf?.scale,
-      quality: config.image?.quality,
-      printBackground: config.pdf?.printBackground,
-      viewport: config.viewport,
-      waitUntil: config.wait?.until,
-      waitTimeout: config.wait?.timeout,
-      headers: config.auth?.headers,
-      cookies: config.auth?.cookies
-    };
+  private getJobInput(job: BatchJob): ConversionInput {
+    return job.html !== undefined ? { html: job.html, baseUrl: job.baseUrl } : job.url;
   }
 
   /**
@@ -408,6 +656,15 @@ export class BatchProcessor extends EventEmitter {
       };
 
       // Parse optional fields
+      const html = this.getCSVValue(headers, values, 'html');
+      if (html) job.html = html;
+
+      const baseUrl = this.getCSVValue(headers, values, 'baseUrl');
+      if (baseUrl) job.baseUrl = baseUrl;
+
+      const title = this.getCSVValue(headers, values, 'title');
+      if (title) job.title = title;
+
       const preset = this.getCSVValue(headers, values, 'preset');
       if (preset) job.preset = preset;
 
@@ -426,7 +683,7 @@ export class BatchProcessor extends EventEmitter {
         if (!isNaN(priorityNum)) job.priority = priorityNum;
       }
 
-      if (job.url && job.output) {
+      if ((job.url || job.html) && job.output) {
         jobs.push(job);
       }
     }
@@ -499,19 +756,29 @@ export class BatchProcessor extends EventEmitter {
         job.id = `job-${i + 1}`;
       }
 
-      if (!job.url) {
-        errors.push(`Job ${job.id} missing required field: url`);
+      if (job.html !== undefined) {
+        if (typeof job.html !== 'string') {
+          errors.push(`Job ${job.id}: html must be a string`);
+        }
+        job.url = job.url || '';
+      } else if (!job.url) {
+        errors.push(`Job ${job.id} missing required field: url (or html)`);
       }
       if (!job.output) {
         errors.push(`Job ${job.id} missing required field: output`);
       }
 
-      // Validate URL format
-      if (job.url) {
-        try {
-          new URL(job.url);
-        } catch {
-          errors.push(`Job ${job.id}: Invalid URL format`);
+      // Validate URL format; plain paths are checked when the job runs,
+      // after variable substitution
+      if (job.url && /^[a-z][a-z\d+.-]*:/i.test(job.url) && !/^[a-z]:[\\/]/i.test(job.url)) {
+        if (!/^(https?|file):\/\//i.test(job.url)) {
+          errors.push(`Job ${job.id}: Invalid URL format (expected http(s)://, file:// or a local path)`);
+        } else {
+          try {
+            new URL(job.url);
+          } catch {
+            errors.push(`Job ${job.id}: Invalid URL format`);
+          }
         }
       }
     }
@@ -574,6 +841,7 @@ export class BatchProcessor extends EventEmitter {
       const variableSet = { ...job.variables, [arrayVar]: value };
       const expandedJob = this.substituteVariables(job, variableSet);
       expandedJob.id = `${job.id}-${value}`;
+      expandedJob.parentId = job.id;
       expandedJobs.push(expandedJob);
     }
 
@@ -590,10 +858,23 @@ export class BatchProcessor extends EventEmitter {
     const substituted = { ...job };
 
     // Substitute in URL
-    substituted.url = this.substituteString(job.url, variables);
+    substituted.url = this.substituteString(job.url || '', variables);
 
-    // Substitute in output path
-    substituted.output = this.substituteString(job.output, variables);
+    // Substitute in inline HTML
+    if (job.html !== undefined) {
+      substituted.html = this.substituteString(job.html, variables);
+    }
+
+    // Substitute in output paths
+    substituted.output = Array.isArray(job.output)
+      ? job.output.map(entry => typeof entry === 'string'
+        ? this.substituteString(entry, variables)
+        : { ...entry, file: this.substituteString(entry.file, variables) })
+      : this.substituteString(job.output, variables);
+
+    if (job.title !== undefined) {
+      substituted.title = this.substituteString(job.title, variables);
+    }
 
     return substituted;
   }
@@ -633,10 +914,20 @@ export class BatchProcessor extends EventEmitter {
       startTime: new Date(),
       endTime: new Date(),
       duration: 0,
-      outputFile: job.output,
+      outputFile: primaryOutput(job.output),
+      ...(Array.isArray(job.output) ? { outputFiles: outputFiles(job.output) } : {}),
       retryCount: 0
     }));
 
+    const merge: BatchMergeResult | undefined = options.merge
+      ? {
+        outputFile: this.resolveOutputPath(options.merge.output, options.outputDirectory),
+        pageCount: 0,
+        sources: this.selectMergeJobs(options.merge, jobs).map(job => job.id),
+        skipped: []
+      }
+      : undefined;
+
     return {
       totalJobs: jobs.length,
       successfulJobs: jobs.length,
@@ -645,7 +936,8 @@ export class BatchProcessor extends EventEmitter {
       totalDuration: 0,
       startTime: new Date(),
       endTime: new Date(),
-      results
+      results,
+      ...(merge ? { merge } : {})
     };
   }
 
@@ -659,6 +951,13 @@ export class BatchProcessor extends EventEmitter {
     const failedJobs = results.filter(r => r.status === 'failed').length;
     const skippedJobs = results.filter(r => r.status === 'skipped').length;
 
+    const errorSummary: Record<string, number> = {};
+    for (const result of results) {
+      if (result.errorInfo) {
+        errorSummary[result.errorInfo.code] = (errorSummary[result.errorInfo.code] || 0) + 1;
+      }
+    }
+
     const totalDuration = this.startTime
       ? new Date().getTime() - this.startTime.getTime()
       : 0;
@@ -672,6 +971,9 @@ export class BatchProcessor extends EventEmitter {
       startTime: this.startTime || new Date(),
       endTime: new Date(),
       results,
+      ...(failedJobs > 0 ? { errorSummary } : {}),
+      ...(this.mergeResult ? { merge: this.mergeResult } : {}),
+      ...(this.mergeError ? { mergeError: this.mergeError.toJSON() } : {}),
       jobs: results // Add jobs property for backward compatibility
     } as BatchReport;
 
@@ -686,9 +988,46 @@ export class BatchProcessor extends EventEmitter {
     this.results.clear();
     this.activeJobs = 0;
     this.resourceMetrics = [];
+    this.mergeResult = undefined;
+    this.mergeError = undefined;
 
     // Note: Browser cleanup is handled by the API layer's browser manager
     // Each individual job properly releases browsers back to the pool
     // The global browser manager handles final cleanup on process exit
   }
-}
\ No newline at end of file
+}
+
+/**
+ * The file a job's output list starts with; merges and reports refer to it
+ */
+function primaryOutput(output: string | OutputList): string {
+  return outputFiles(output)[0] || '';
+}
+
+/**
+ * Every file a job writes, in output-list order
+ */
+function outputFiles(output: string | OutputList): string[] {
+  if (!Array.isArray(output)) {
+    return [output];
+  }
+  return output.map(entry => typeof entry === 'string' ? entry : entry.file);
+}
+
+/**
+ * Response, warnings, page diagnostics and network totals recorded by the render pipeline
+ */
+function reportFields(report: PipelineReport): Pick<BatchResult, 'httpStatus' | 'httpStatusText' | 'finalUrl' | 'redirectChain' | 'warnings' | 'diagnostics' | 'pageMetrics' | 'harFile' | 'elementFiles' | 'breakpoints' | 'contactSheet'> {
+  const response = report.response;
+  return {
+    ...(response ? { httpStatus: response.status, httpStatusText: response.statusText, finalUrl: response.url } : {}),
+    ...(response && response.redirectChain.length > 0 ? { redirectChain: response.redirectChain } : {}),
+    ...(report.warnings ? { warnings: report.warnings } : {}),
+    ...(report.diagnostics ? { diagnostics: report.diagnostics } : {}),
+    ...(report.network ? { pageMetrics: report.network } : {}),
+    ...(report.harFile ? { harFile: report.harFile } : {}),
+    ...(report.elementFiles ? { elementFiles: report.elementFiles } : {}),
+    ...(report.breakpoints ? { breakpoints: report.breakpoints } : {}),
+    ...(report.contactSheet ? { contactSheet: report.contactSheet } : {})
+  };
+}
@@ -4,24 +4,48 @@
  */
 
 import type { EnhancedPrintConfiguration } from '../../config/types/enhanced-config.types';
+import type { PageNumbering } from '../../printing/pdf-merge';
+import type { RedirectHop } from '../../printing/redirects';
+import type { PageDiagnostics } from '../../printing/page-diagnostics';
+import type { BreakpointFile } from '../../printing/responsive';
+import type { OutputList } from '../../printing/types/conversion';
+import { ErrorType, PrinteerError } from '../../types/errors';
+import type { AppliedFallback, ErrorInfo, FailedAttempt } from '../../types/errors';
 
 export interface BatchJob {
   id: string;
+  /** http(s) URL, file:// URL, or local HTML file/directory path (empty when `html` is used) */
   url: string;
-  output: string;
+  /** Output file, or a list of files rendered from one page load (the first one is merged and reported) */
+  output: string | OutputList;
+  /** Raw HTML rendered instead of `url` */
+  html?: string;
+  /** Base URL for relative assets in `html` */
+  baseUrl?: string;
+  /** Bookmark title when the output is merged (defaults to the PDF title) */
+  title?: string;
   config?: Partial<EnhancedPrintConfiguration>;
   preset?: string;
   variables?: Record<string, any>;
   metadata?: Record<string, any>;
   priority?: number;
   dependencies?: string[];
+  /** Retries for this job, overriding the batch's retryAttempts */
   retryCount?: number;
+  /** End-to-end deadline for the job's conversion, in milliseconds */
   timeout?: number;
+  /** Id of the job this one was expanded from by an array variable */
+  parentId?: string;
 }
 
 export interface BatchOptions {
   concurrency: number;
-  retryAttempts: number;
+  /** Retries per job for failures classified as retryable (default: `performance.retryAttempts` of the configuration) */
+  retryAttempts?: number;
+  /** Delay before a job's first retry in milliseconds; doubles per retry (default 1000) */
+  retryDelay?: number;
+  /** Upper bound for a retry delay in milliseconds (default 30000) */
+  retryMaxDelay?: number;
   continueOnError: boolean;
   outputDirectory: string;
   reportFormat: 'json' | 'csv' | 'html';
@@ -29,6 +53,33 @@ export interface BatchOptions {
   dryRun: boolean;
   maxMemoryUsage?: string;
   cleanup: boolean;
+  /** Record every job's network activity to fill in `pageMetrics` (default false; jobs with `diagnostics.har` always have them) */
+  pageMetrics?: boolean;
+  /** Combine the PDF outputs into one document after all jobs finish */
+  merge?: BatchMergeOptions;
+}
+
+export interface BatchMergeOptions {
+  /** Merged PDF path, relative to the output directory */
+  output: string;
+  /** Job ids to include (variable-expanded jobs match their original id). Defaults to every PDF job */
+  jobs?: string[];
+  /** One top-level bookmark per source document (default true) */
+  bookmarks?: boolean;
+  pageNumbering?: PageNumbering;
+  /** Keep the per-job PDFs next to the merged file (default true) */
+  keepSources?: boolean;
+  /** Merge the jobs that completed even if others failed (default: continueOnError) */
+  allowPartial?: boolean;
+}
+
+export interface BatchMergeResult {
+  outputFile: string;
+  pageCount: number;
+  /** Job ids in the order they appear in the merged document */
+  sources: string[];
+  /** Selected jobs left out because they did not complete */
+  skipped: string[];
 }
 
 export interface BatchResult {
@@ -38,9 +89,40 @@ export interface BatchResult {
   endTime: Date;
   duration: number;
   outputFile?: string;
+  /** Every file the job wrote, when its output is a list */
+  outputFiles?: string[];
+  /** The merged PDF that replaced this job's PDF, when `merge.keepSources` is false */
+  mergedInto?: string;
+  /** One image per element matched by `image.selectorAll` */
+  elementFiles?: string[];
+  /** One image per breakpoint of `responsive.breakpoints` */
+  breakpoints?: BreakpointFile[];
+  /** Contact sheet of the breakpoint captures */
+  contactSheet?: string;
   error?: string;
+  /** Classification of the failure: stable code, retryable flag and remediation */
+  errorInfo?: ErrorInfo;
+  /** Fallbacks that were applied to get the job through */
+  fallbacks?: AppliedFallback[];
+  /** Retries that were performed */
   retryCount: number;
+  /** The failed attempts, in order, when the job was retried */
+  attempts?: BatchAttempt[];
+  /** Status of the main document response (http(s) inputs only) */
+  httpStatus?: number;
+  httpStatusText?: string;
+  /** URL that answered after following redirects */
+  finalUrl?: string;
+  /** Redirects of the main document, oldest first */
+  redirectChain?: RedirectHop[];
+  /** Problems that did not fail the job, e.g. a rendered error page */
+  warnings?: string[];
+  /** Console messages, uncaught page errors and failed requests of the last attempt */
+  diagnostics?: PageDiagnostics;
+  /** The job's HAR log, when its config sets `diagnostics.har` */
+  harFile?: string;
   memoryUsed?: number;
+  /** Network totals of the last attempt: load time (ms), requests and bytes transferred (see `BatchOptions.pageMetrics`) */
   pageMetrics?: {
     loadTime: number;
     resourceCount: number;
@@ -48,6 +130,8 @@ export interface BatchResult {
   };
 }
 
+export type BatchAttempt = FailedAttempt;
+
 export interface BatchData {
   metadata?: {
     name?: string;
@@ -58,6 +142,7 @@ export interface BatchData {
   defaults?: Partial<BatchJob>;
   variables?: Record<string, any>;
   jobs: BatchJob[];
+  merge?: BatchMergeOptions;
 }
 
 export interface BatchReport {
@@ -69,9 +154,14 @@ export interface BatchReport {
   startTime: Date;
   endTime: Date;
   results: BatchResult[];
+  /** Number of failed jobs per error code */
+  errorSummary?: Record<string, number>;
   resourceMetrics?: ResourceMetrics[];
   browserPoolMetrics?: BrowserPoolMetrics;
   optimizationInsights?: OptimizationInsights;
+  merge?: BatchMergeResult;
+  /** Why the merge failed; the job results are still reported */
+  mergeError?: ErrorInfo;
 }
 
 export interface ResourceMetrics {
@@ -107,16 +197,22 @@ export interface ResourcePressure {
   disk: boolean;
 }
 
-export class BatchValidationError extends Error {
+export class BatchValidationError extends PrinteerError {
   constructor(message: string, public errors: string[]) {
-    super(message);
+    super(message, ErrorType.CONFIGURATION, 'INVALID_CONFIGURATION', {
+      details: { errors },
+      remediation: 'Fix the reported jobs; `printeer batch --dry-run` validates a batch file.'
+    });
     this.name = 'BatchValidationError';
   }
 }
 
-export class JobValidationError extends Error {
+export class JobValidationError extends PrinteerError {
   constructor(message: string, public errors: string[]) {
-    super(message);
+    super(message, ErrorType.CONFIGURATION, 'INVALID_CONFIGURATION', {
+      details: { errors },
+      remediation: 'Fix the reported jobs; `printeer batch --dry-run` validates a batch file.'
+    });
     this.name = 'JobValidationError';
   }
 }
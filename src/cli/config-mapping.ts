@@ -6,6 +6,9 @@
 import type { EnhancedPrintConfiguration } from '../config/types/enhanced-config.types';
 import type { ConfigMapping, CliOptions, EquivalenceValidationResult } from './types/cli.types';
 import { EnhancedConfigurationManager } from '../config/enhanced-config-manager';
+import { parseStatusList } from '../printing/http-status';
+import { MOBILE_USER_AGENT, TABLET_USER_AGENT } from '../config/devices';
+import type { GeolocationConfig, HttpStatusRange, NetworkProfile, NetworkThrottling } from '../config/types/enhanced-config.types';
 
 /**
  * Configuration Mapping Registry
@@ -21,7 +24,7 @@ export const CONFIG_MAPPINGS: ConfigMapping[] = [
   // PDF Configuration
   { cliOption: 'scale', jsonPath: 'pdf.scale', type: 'number' },
   { cliOption: 'print-background', jsonPath: 'pdf.printBackground', type: 'boolean' },
-  { cliOption: 'no-print-background', jsonPath: 'pdf.printBackground', type: 'boolean', parser: () => false },
+  { cliOption: 'no-print-background', jsonPath: 'pdf.printBackground', type: 'boolean', parser: () => false, inverse: true },
   { cliOption: 'header-template', jsonPath: 'pdf.headerTemplate', type: 'string' },
   { cliOption: 'footer-template', jsonPath: 'pdf.footerTemplate', type: 'string' },
   { cliOption: 'header-footer', jsonPath: 'pdf.displayHeaderFooter', type: 'boolean' },
@@ -29,11 +32,17 @@ export const CONFIG_MAPPINGS: ConfigMapping[] = [
   { cliOption: 'tagged-pdf', jsonPath: 'pdf.generateTaggedPDF', type: 'boolean' },
   { cliOption: 'pdf-outline', jsonPath: 'pdf.outline', type: 'boolean' },
 
+  // Markdown Configuration
+  { cliOption: 'markdown-theme', jsonPath: 'markdown.theme', type: 'string' },
+
   // Image Configuration
   { cliOption: 'quality', jsonPath: 'image.quality', type: 'number' },
   { cliOption: 'image-type', jsonPath: 'image.type', type: 'string' },
   { cliOption: 'full-page', jsonPath: 'image.fullPage', type: 'boolean' },
   { cliOption: 'clip', jsonPath: 'image.clip', type: 'object', parser: parseClipRegion, serializer: serializeClipRegion },
+  { cliOption: 'selector', jsonPath: 'image.selector', type: 'string' },
+  { cliOption: 'selector-all', jsonPath: 'image.selectorAll', type: 'string' },
+  { cliOption: 'selector-padding', jsonPath: 'image.padding', type: 'number' },
   { cliOption: 'omit-background', jsonPath: 'image.omitBackground', type: 'boolean' },
   { cliOption: 'optimize-size', jsonPath: 'image.optimizeForSize', type: 'boolean' },
 
@@ -41,21 +50,30 @@ export const CONFIG_MAPPINGS: ConfigMapping[] = [
   { cliOption: 'viewport', jsonPath: 'viewport', type: 'object', parser: parseViewportConfig, serializer: serializeViewportConfig },
   { cliOption: 'device-scale', jsonPath: 'viewport.deviceScaleFactor', type: 'number' },
   { cliOption: 'mobile', jsonPath: 'viewport.isMobile', type: 'boolean' },
-  { cliOption: 'tablet', jsonPath: 'viewport.isTablet', type: 'boolean' },
   { cliOption: 'landscape-viewport', jsonPath: 'viewport.isLandscape', type: 'boolean' },
 
+  // Responsive Configuration
+  { cliOption: 'breakpoints', jsonPath: 'responsive.breakpoints', type: 'array', parser: parseResourceTypes, serializer: serializeResourceTypes },
+  { cliOption: 'contact-sheet', jsonPath: 'responsive.contactSheet', type: 'string' },
+
   // Wait Configuration
   { cliOption: 'wait-until', jsonPath: 'wait.until', type: 'string' },
   { cliOption: 'wait-timeout', jsonPath: 'wait.timeout', type: 'number' },
   { cliOption: 'wait-selector', jsonPath: 'wait.selector', type: 'string' },
   { cliOption: 'wait-delay', jsonPath: 'wait.delay', type: 'number' },
   { cliOption: 'wait-function', jsonPath: 'wait.customFunction', type: 'string' },
+  { cliOption: 'wait-stable', jsonPath: 'wait.stabilityCheck.enabled', type: 'boolean' },
+  { cliOption: 'wait-stable-threshold', jsonPath: 'wait.stabilityCheck.threshold', type: 'number' },
+  { cliOption: 'wait-stable-timeout', jsonPath: 'wait.stabilityCheck.timeout', type: 'number' },
 
   // Media & Emulation Configuration
+  { cliOption: 'device', jsonPath: 'emulation.device', type: 'string' },
   { cliOption: 'media-type', jsonPath: 'emulation.mediaType', type: 'string' },
   { cliOption: 'color-scheme', jsonPath: 'emulation.colorScheme', type: 'string' },
   { cliOption: 'timezone', jsonPath: 'emulation.timezone', type: 'string' },
   { cliOption: 'locale', jsonPath: 'emulation.locale', type: 'string' },
+  { cliOption: 'reduced-motion', jsonPath: 'emulation.reducedMotion', type: 'string' },
+  { cliOption: 'geolocation', jsonPath: 'emulation.geolocation', type: 'object', parser: parseGeolocation, serializer: serializeGeolocation, validator: isGeolocation },
   { cliOption: 'user-agent', jsonPath: 'auth.userAgent', type: 'string' },
 
   // Authentication Configuration
@@ -65,11 +83,34 @@ export const CONFIG_MAPPINGS: ConfigMapping[] = [
 
   // Performance Configuration
   { cliOption: 'block-resources', jsonPath: 'performance.blockResources', type: 'array', parser: parseResourceTypes, serializer: serializeResourceTypes },
-  { cliOption: 'disable-javascript', jsonPath: 'performance.javascriptEnabled', type: 'boolean', parser: () => false },
+  { cliOption: 'disable-javascript', jsonPath: 'performance.javascriptEnabled', type: 'boolean', parser: () => false, inverse: true },
   { cliOption: 'cache', jsonPath: 'performance.cacheEnabled', type: 'boolean' },
-  { cliOption: 'no-cache', jsonPath: 'performance.cacheEnabled', type: 'boolean', parser: () => false },
+  { cliOption: 'no-cache', jsonPath: 'performance.cacheEnabled', type: 'boolean', parser: () => false, inverse: true },
   { cliOption: 'load-timeout', jsonPath: 'performance.loadTimeout', type: 'number' },
-  { cliOption: 'retry', jsonPath: 'performance.retryAttempts', type: 'number' }
+  { cliOption: 'network-throttling', jsonPath: 'performance.networkThrottling', type: 'object', parser: parseNetworkThrottling, serializer: serializeNetworkThrottling },
+  { cliOption: 'retry', jsonPath: 'performance.retryAttempts', type: 'number' },
+  { cliOption: 'retry-delay', jsonPath: 'performance.retryDelay', type: 'number' },
+  { cliOption: 'retry-max-delay', jsonPath: 'performance.retryMaxDelay', type: 'number' },
+
+  // HTTP Configuration
+  { cliOption: 'accept-status', jsonPath: 'http.acceptedStatuses', type: 'array', parser: parseStatusList, serializer: serializeStatusList },
+  { cliOption: 'render-error-pages', jsonPath: 'http.renderErrorPages', type: 'boolean' },
+  { cliOption: 'max-redirects', jsonPath: 'http.redirects.maxRedirects', type: 'number' },
+  { cliOption: 'same-origin-redirects', jsonPath: 'http.redirects.allowCrossOrigin', type: 'boolean', parser: () => false, inverse: true },
+  { cliOption: 'login-url-pattern', jsonPath: 'http.redirects.loginUrlPatterns', type: 'array', parser: parseResourceTypes, serializer: serializeResourceTypes },
+
+  // Diagnostics Configuration
+  { cliOption: 'console-level', jsonPath: 'diagnostics.consoleLevels', type: 'array', parser: parseResourceTypes, serializer: serializeResourceTypes },
+  { cliOption: 'max-page-errors', jsonPath: 'diagnostics.failOn.maxPageErrors', type: 'number' },
+  { cliOption: 'max-console-errors', jsonPath: 'diagnostics.failOn.maxConsoleErrors', type: 'number' },
+  { cliOption: 'max-failed-requests', jsonPath: 'diagnostics.failOn.maxFailedRequests', type: 'number' },
+  { cliOption: 'max-broken-images', jsonPath: 'diagnostics.failOn.maxBrokenImages', type: 'number' },
+  { cliOption: 'har', jsonPath: 'diagnostics.har', type: 'string', optionalValue: true },
+
+  // Content Extraction Configuration
+  { cliOption: 'reader-mode', jsonPath: 'extraction.readerMode', type: 'boolean' },
+  { cliOption: 'extract-links', jsonPath: 'extraction.links', type: 'string' },
+  { cliOption: 'extract-tables', jsonPath: 'extraction.tables', type: 'string' }
 ];
 
 /**
@@ -102,8 +143,8 @@ export async function buildConfigFromCliOptions(
     }
   }
 
-  // Apply mobile defaults when --mobile is set (unless viewport is explicitly specified)
-  if ((options as any).mobile && !(options as any).viewport) {
+  // Apply mobile defaults when --mobile is set (unless viewport or device is explicitly specified)
+  if (options.mobile && !options.viewport && !options.device) {
     // Get current viewport or create new one with mobile defaults
     const existingViewport = config.viewport || {};
     config.viewport = {
@@ -114,10 +155,11 @@ export async function buildConfigFromCliOptions(
       hasTouch: existingViewport.hasTouch ?? true,
       isLandscape: existingViewport.isLandscape ?? false
     };
+    config.auth = { ...config.auth, userAgent: config.auth?.userAgent ?? MOBILE_USER_AGENT };
   }
 
-  // Apply tablet defaults when --tablet is set (unless viewport is explicitly specified)
-  if ((options as any).tablet && !(options as any).viewport && !(options as any).mobile) {
+  // Apply tablet defaults when --tablet is set (unless viewport or device is explicitly specified)
+  if (options.tablet && !options.viewport && !options.mobile && !options.device) {
     // Get current viewport or create new one with tablet defaults
     const existingViewport = config.viewport || {};
     config.viewport = {
@@ -128,6 +170,7 @@ export async function buildConfigFromCliOptions(
       hasTouch: existingViewport.hasTouch ?? true,
       isLandscape: existingViewport.isLandscape ?? false
     };
+    config.auth = { ...config.auth, userAgent: config.auth?.userAgent ?? TABLET_USER_AGENT };
   }
 
   return config;
@@ -142,15 +185,17 @@ export function buildCliOptionsFromConfig(config: Partial<EnhancedPrintConfigura
   for (const mapping of CONFIG_MAPPINGS) {
     const jsonValue = getNestedValue(config, mapping.jsonPath);
 
-    if (jsonValue !== undefined && jsonValue !== null) {
+    if (mapping.optionalValue && typeof jsonValue === 'boolean') {
+      if (jsonValue) {
+        cliOptions.push(`--${mapping.cliOption}`);
+      }
+    } else if (jsonValue !== undefined && jsonValue !== null) {
       // Serialize the value if a serializer is provided
       const serializedValue = mapping.serializer ? mapping.serializer(jsonValue) : String(jsonValue);
 
-      // Handle boolean flags
+      // Handle boolean flags; inverse flags stand for `false`
       if (mapping.type === 'boolean') {
-        if (jsonValue === true) {
-          cliOptions.push(`--${mapping.cliOption}`);
-        } else if (jsonValue === false && mapping.cliOption.startsWith('no-')) {
+        if (jsonValue === !mapping.inverse) {
           cliOptions.push(`--${mapping.cliOption}`);
         }
       } else {
@@ -394,6 +439,36 @@ function serializeClipRegion(clip: any): string {
   return `${clip.x},${clip.y},${clip.width},${clip.height}`;
 }
 
+function parseGeolocation(geolocationStr: string): GeolocationConfig {
+  const [latitude, longitude, accuracy] = geolocationStr.split(',').map(s => parseFloat(s.trim()));
+  return { latitude, longitude, ...(accuracy !== undefined ? { accuracy } : {}) };
+}
+
+function serializeGeolocation(geolocation: GeolocationConfig): string {
+  return [geolocation.latitude, geolocation.longitude, geolocation.accuracy].filter(value => value !== undefined).join(',');
+}
+
+function isGeolocation(geolocation: GeolocationConfig): boolean {
+  return Object.values(geolocation).every(Number.isFinite);
+}
+
+/** A profile name, or "download,upload,latency" in kbit/s and milliseconds */
+function parseNetworkThrottling(throttlingStr: string): NetworkProfile | NetworkThrottling {
+  if (!/^[\d.\s]+,[\d.\s]+,[\d.\s]+$/.test(throttlingStr)) {
+    return throttlingStr.trim() as NetworkProfile;
+  }
+  const [download, upload, latency] = throttlingStr.split(',').map(s => parseFloat(s.trim()));
+  return { downloadThroughput: download * 1000 / 8, uploadThroughput: upload * 1000 / 8, latency };
+}
+
+function serializeNetworkThrottling(throttling: NetworkProfile | NetworkThrottling): string {
+  if (typeof throttling === 'string') {
+    return throttling;
+  }
+  const kbps = (bytes = -1) => bytes < 0 ? -1 : bytes * 8 / 1000;
+  return `${kbps(throttling.downloadThroughput)},${kbps(throttling.uploadThroughput)},${throttling.latency ?? 0}`;
+}
+
 function parseBasicAuth(authStr: string): { username: string; password: string } {
   const [username, password] = authStr.split(':');
   return { username, password };
@@ -409,4 +484,8 @@ function parseResourceTypes(typesStr: string): string[] {
 
 function serializeResourceTypes(types: string[]): string {
   return types.join(',');
+}
+
+function serializeStatusList(statuses: HttpStatusRange[]): string {
+  return statuses.join(',');
 }
\ No newline at end of file
@@ -7,6 +7,7 @@ import { Command } from 'commander';
 import { EnhancedConfigurationManager, ConfigurationError } from '../config/enhanced-config-manager';
 import { BatchProcessor } from '../batch/batch-processor';
 import { TemplateManager } from '../templates/template-manager';
+import { BUILT_IN_DEVICES } from '../config/devices';
 import { ConfigurationConverter, buildConfigFromCliOptions } from './config-mapping';
 import printeer from '../api';
 import {
@@ -19,10 +20,19 @@ import {
 import type { UrlOutputPair, CliOptions, ConversionResult } from './types/cli.types';
 import type { BatchJob, BatchOptions } from '../batch/types/batch.types';
 import type { EnhancedPrintConfiguration } from '../config/types/enhanced-config.types';
+import type { ConversionInput } from '../printing/input-source';
+import { convertToLegacyConfig } from '../printing/legacy-config';
+import type { PipelineReport } from '../printing/pipeline';
+import type { PageDiagnostics } from '../printing/page-diagnostics';
+import { resolveFileOutputs } from '../printing/output-format';
 import { SkipFileError } from './types/cli.types';
+import { PrinteerError } from '../types/errors';
+import { toPrinteerError, formatError } from '../errors';
 import * as fs from 'fs/promises';
+import * as os from 'os';
 import * as path from 'path';
 import * as yaml from 'yaml';
+import { pathToFileURL } from 'url';
 
 const program = new Command();
 
@@ -49,20 +59,35 @@ function collect(value: string, previous: string[] = []): string[] {
   return previous.concat([value]);
 }
 
+// Read all of stdin (for `--html -`)
+async function readStdin(): Promise<string> {
+  let content = '';
+  process.stdin.setEncoding('utf8');
+  for await (const chunk of process.stdin) {
+    content += chunk;
+  }
+  return content;
+}
+
 // Enhanced convert command with flexible URL-output pairing
 program
   .command('convert')
   .alias('c')
   .description('Convert web page(s) to PDF/PNG with flexible URL-output pairing')
-  .argument('[url]', 'URL to convert')
+  .argument('[url]', 'URL, file:// URL, or local HTML file/directory to convert')
   .argument('[output]', 'Output filename')
-  .option('-u, --url <url>', 'URL to convert (can be used multiple times)', collect, [])
+  .option('-u, --url <url>', 'URL or local path to convert (can be used multiple times)', collect, [])
   .option('-o, --output <filename>', 'Output filename for preceding --url (optional)', collect, [])
+  .option('--also <filename>', 'Also write this file from the same page load, e.g. thumb.png or page.html (repeatable)', collect, [])
+  .option('--html <content>', 'Raw HTML to convert ("-" reads from stdin)')
+  .option('--base-url <url>', 'Base URL for relative assets in --html (default: current directory)')
   .option('--output-dir <dir>', 'Output directory for generated filenames')
   .option('--output-pattern <pattern>', 'Filename pattern for auto-generated names (e.g., "{title}.pdf", "{domain}_{timestamp}.png")')
   .option('--output-conflict <strategy>', 'Conflict resolution: "override", "copy", "skip", "prompt"', 'copy')
   .option('--title-fallback', 'Use webpage title for filename when --output not specified (default behavior)')
   .option('--url-fallback', 'Use URL-based algorithm when title unavailable')
+  .option('--merge <output>', 'Combine all inputs, in order, into one PDF with a bookmark per input')
+  .option('--merge-page-numbering <mode>', 'Page numbers for --merge: "none", "continue", "restart"', 'none')
   .option('-c, --config <path>', 'Configuration file path')
   .option('-p, --preset <name>', 'Use configuration preset')
   .option('-e, --env <environment>', 'Environment (development, production)')
@@ -76,8 +101,9 @@ program
   // Viewport options
   .option('--viewport <size>', 'Viewport size (e.g., "1920x1080")')
   .option('--device-scale <factor>', 'Device scale factor (0.1-3.0)', parseFloat)
-  .option('--mobile', 'Emulate mobile device')
-  .option('--tablet', 'Emulate tablet device')
+  .option('--device <name>', 'Emulate a device: viewport, scale, touch and user agent (see `printeer devices list`)')
+  .option('--mobile', 'Emulate a generic phone (375x812, touch, mobile user agent)')
+  .option('--tablet', 'Emulate a generic tablet (768x1024, touch, tablet user agent)')
   .option('--landscape-viewport', 'Use landscape viewport')
 
   // Wait conditions
@@ -86,10 +112,15 @@ program
   .option('--wait-selector <selector>', 'Wait for CSS selector to appear')
   .option('--wait-delay <ms>', 'Additional delay in milliseconds', parseInt)
   .option('--wait-function <js>', 'Custom JavaScript function to wait for')
+  .option('--wait-stable', 'Wait until the DOM, layout and pixels stop changing')
+  .option('--wait-stable-threshold <ms>', 'How long the page has to stay unchanged (default 500)', parseInt)
+  .option('--wait-stable-timeout <ms>', 'Render anyway, with a warning, after this long (default 10000)', parseInt)
 
   // Media and emulation
   .option('--media-type <type>', 'Emulate media type (screen/print)')
   .option('--color-scheme <scheme>', 'Color scheme (light/dark/no-preference)')
+  .option('--reduced-motion <value>', 'Emulate prefers-reduced-motion (reduce/no-preference)')
+  .option('--geolocation <position>', 'Position reported to the page, "latitude,longitude[,accuracy]"; grants the permission')
   .option('--timezone <tz>', 'Timezone (e.g., "America/New_York")')
   .option('--locale <locale>', 'Locale (e.g., "en-US")')
   .option('--user-agent <ua>', 'Custom user agent string')
@@ -105,11 +136,19 @@ program
   .option('--tagged-pdf', 'Generate tagged PDF (accessibility)')
   .option('--pdf-outline', 'Generate PDF outline/bookmarks')
 
+  // Markdown inputs
+  .option('--markdown-theme <theme>', 'Markdown theme (default/github/minimal/academic) or .css file path')
+
   // Image specific options
-  .option('--quality <number>', 'Image quality (1-100, JPEG/WebP only)', parseInt)
-  .option('--image-type <type>', 'Image type (png/jpeg/webp)')
+  .option('--quality <number>', 'Image quality (1-100, JPEG/WebP only; default 90 for JPEG, 80 for WebP)', parseInt)
+  .option('--image-type <type>', 'Image type for generated filenames (png/jpeg/webp)')
   .option('--full-page', 'Capture full page')
   .option('--clip <region>', 'Clip region (x,y,width,height)')
+  .option('--selector <css>', 'Capture the first element matching this CSS selector')
+  .option('--selector-all <css>', 'Capture every matching element into its own file; name the output with {index} or {attr:name}')
+  .option('--selector-padding <px>', 'Pixels captured around selected elements', parseFloat)
+  .option('--breakpoints <list>', 'Capture one screenshot per breakpoint (mobile,tablet,desktop,wide or widths like 1280x800)')
+  .option('--contact-sheet <file>', 'Contact sheet of the breakpoint captures (.html or an image; default: next to the output)')
   .option('--omit-background', 'Transparent background (PNG only)')
   .option('--optimize-size', 'Optimize image file size')
 
@@ -124,7 +163,30 @@ program
   .option('--cache', 'Enable caching')
   .option('--no-cache', 'Disable caching')
   .option('--load-timeout <ms>', 'Page load timeout', parseInt)
+  .option('--network-throttling <profile>', 'Throttle the network (offline, slow-3g, fast-3g, 4g, or "download,upload,latency" in kbit/s and ms)')
   .option('--retry <attempts>', 'Retry attempts on failure', parseInt)
+  .option('--retry-delay <ms>', 'Delay before the first retry; doubles per retry', parseInt)
+  .option('--retry-max-delay <ms>', 'Upper bound for a retry delay', parseInt)
+
+  // HTTP status policy
+  .option('--accept-status <list>', 'Accepted document statuses, e.g. "2xx,304,404" (default 2xx,304)')
+  .option('--render-error-pages', 'Render pages with other statuses and warn instead of failing')
+  .option('--max-redirects <n>', 'Fail when the page redirects more often', parseInt)
+  .option('--same-origin-redirects', 'Fail when the page redirects to another origin')
+  .option('--login-url-pattern <patterns>', 'Fail when a redirect lands on a URL matching these regular expressions (comma-separated)')
+
+  // Page diagnostics
+  .option('--console-level <levels>', 'Console levels to record (debug,log,info,warn,error)')
+  .option('--max-page-errors <n>', 'Fail when the page throws more uncaught errors (0 = any)', parseInt)
+  .option('--max-console-errors <n>', 'Fail when the page logs more console errors', parseInt)
+  .option('--max-failed-requests <n>', 'Fail when more subresource requests fail or return 4xx/5xx', parseInt)
+  .option('--max-broken-images <n>', 'Fail when more images fail to load', parseInt)
+  .option('--har [file]', 'Record the network activity as a HAR file (default: next to the output)')
+
+  // Text and Markdown outputs
+  .option('--reader-mode', 'Keep only the main content and drop navigation, sidebars and footers')
+  .option('--extract-links <style>', 'Links in text/Markdown outputs (inline/reference/none)')
+  .option('--extract-tables <style>', 'Tables in text/Markdown outputs (markdown/text/none)')
 
   // Processing options
   .option('--concurrency <num>', 'Concurrent processes for multiple URLs', parseInt)
@@ -140,6 +202,19 @@ program
 
   .action(async (url, output, options) => {
     try {
+      // With --html the only positional argument is the output filename
+      let htmlOutput: string | undefined;
+      if (options.html !== undefined && url && !output) {
+        htmlOutput = url;
+        url = undefined;
+      }
+
+      // With --merge both positional arguments are inputs
+      if (options.merge && output) {
+        options.url = [output, ...(options.url || [])];
+        output = undefined;
+      }
+
       // Handle positional arguments
       if (url) {
         options.url = options.url || [];
@@ -153,19 +228,38 @@ program
         }
       }
 
+      if (options.html !== undefined) {
+        if (options.html === '-') {
+          options.html = await readStdin();
+        }
+        options.baseUrl = options.baseUrl || pathToFileURL(process.cwd() + path.sep).href;
+
+        // The HTML input is paired after all --url inputs
+        if (htmlOutput) {
+          const outputs = options.output || [];
+          outputs[options.url?.length || 0] = htmlOutput;
+          options.output = outputs;
+        }
+      }
+
       // Validate URL-output pairing
-      if (!options.url || options.url.length === 0) {
-        throw new Error('At least one URL must be specified (via argument or --url)');
+      const inputCount = (options.url?.length || 0) + (options.html !== undefined ? 1 : 0);
+      if (inputCount === 0) {
+        throw new Error('At least one URL, path or --html must be specified (via argument, --url or --html)');
       }
 
-      // Ensure output array doesn't exceed url array
-      if (options.output && options.output.length > options.url.length) {
-        throw new Error('Number of --output options cannot exceed number of --url options');
+      if (options.merge && options.output?.length) {
+        throw new Error('--output cannot be combined with --merge; the merged file is the only output');
+      }
+
+      // Ensure output array doesn't exceed input count
+      if (options.output && options.output.length > inputCount) {
+        throw new Error('Number of --output options cannot exceed number of inputs');
       }
 
       await runEnhancedConvertWithPairing(options);
     } catch (error) {
-      console.error('Conversion failed:', error instanceof Error ? error.message : 'Unknown error');
+      printFailure('Conversion failed:', error);
       process.exit(1);
     }
   });
@@ -182,7 +276,10 @@ program
   .option('--continue-on-error', 'Continue processing on individual failures')
   .option('--report <format>', 'Report format (json, csv, html)', 'json')
   .option('--report-file <path>', 'Report output file')
-  .option('--retry <attempts>', 'Retry attempts for failed jobs', '2')
+  .option('--retry <attempts>', 'Retry attempts for failed jobs (default: performance.retryAttempts, 2)')
+  .option('--retry-delay <ms>', 'Delay before the first retry; doubles per retry')
+  .option('--retry-max-delay <ms>', 'Upper bound for a retry delay')
+  .option('--page-metrics', 'Record the network totals of each job in the report')
   .option('--progress', 'Show progress bar')
   .option('--dry-run', 'Validate batch file without processing')
   .option('--cleanup', 'Cleanup temporary files after processing')
@@ -192,7 +289,7 @@ program
     try {
       await runBatchProcess(batchFile, options);
     } catch (error) {
-      console.error('Batch processing failed:', error instanceof Error ? error.message : 'Unknown error');
+      printFailure('Batch processing failed:', error);
       process.exit(1);
     }
   });
@@ -268,6 +365,21 @@ configCmd
     await generateCliFromConfig(configFile, options);
   });
 
+// Device catalog
+const devicesCmd = program
+  .command('devices')
+  .description('Device emulation profiles');
+
+devicesCmd
+  .command('list')
+  .description('List the devices --device and emulation.device accept')
+  .option('--built-in', 'Show built-in devices only')
+  .option('--custom', 'Show custom devices only')
+  .option('--config <path>', 'Configuration file to read devices from')
+  .action(async (options) => {
+    await listDevices(options);
+  });
+
 // Template management commands
 const templateCmd = program
   .command('template')
@@ -327,6 +439,14 @@ async function runEnhancedConvertWithPairing(options: CliOptions): Promise<void>
   // Create URL-output pairs
   const urlOutputPairs = await createUrlOutputPairs(urls, outputs, options);
 
+  if (options.also?.length && (urlOutputPairs.length !== 1 || options.merge)) {
+    throw new ConfigurationError('Invalid configuration: --also needs a single input and cannot be combined with --merge');
+  }
+
+  if (options.merge) {
+    return await runMergedConversion(urlOutputPairs, options, configManager);
+  }
+
   if (urlOutputPairs.length === 1) {
     // Single URL conversion
     return await runSingleUrlConversion(urlOutputPairs[0], options, configManager);
@@ -350,24 +470,68 @@ async function runSingleUrlConversion(
   // Determine final output filename
   const outputFilename = await determineOutputFilename(pair, options);
 
+  const extraFilenames = (options.also || []).map(file => options.outputDir ? path.join(options.outputDir, file) : file);
+
+  // Unsupported extensions fail before anything is rendered or overwritten
+  resolveFileOutputs([outputFilename, ...extraFilenames]);
+
   // Handle conflicts
   const finalOutput = await handleOutputConflicts(outputFilename, options);
+  const extraOutputs: string[] = [];
+  for (const filename of extraFilenames) {
+    extraOutputs.push(await handleOutputConflicts(filename, options));
+  }
+  const allOutputs = [finalOutput, ...extraOutputs];
 
   // Dry run check
   if (options.dryRun) {
     console.log('Configuration validation successful');
-    console.log(`Would convert: ${pair.url} -> ${finalOutput}`);
+    console.log(`Would convert: ${pair.html !== undefined ? 'inline HTML' : pair.url} -> ${allOutputs.join(', ')}`);
     console.log(JSON.stringify(config, null, 2));
     return;
   }
 
   // Execute conversion with real printeer API
-  const result = await executeRealConversion(pair.url, finalOutput, config);
+  const input: ConversionInput = pair.html !== undefined ? { html: pair.html, baseUrl: pair.baseUrl } : pair.url;
+  const report: PipelineReport = { timings: {} };
+  let result: ConversionResult;
+  try {
+    // Extra outputs are rendered from the same page load as the main one
+    result = await executeRealConversion(input, extraOutputs.length > 0 ? allOutputs : finalOutput, config, report);
+  } catch (error) {
+    // What the page logged usually explains a failed render
+    if (options.verbose) {
+      printDiagnostics(report.diagnostics);
+    }
+    if (report.harFile) {
+      console.error(`Network log: ${report.harFile}`);
+    }
+    throw error;
+  }
 
   if (!options.quiet) {
-    console.log(`✓ Conversion complete: ${result.outputFile}`);
+    console.log(`✓ Conversion complete: ${(result.outputFiles || [result.outputFile]).join(', ')}`);
+    if (result.elementFiles) {
+      console.log(`  Element screenshots (${result.elementFiles.length}): ${result.elementFiles.join(', ')}`);
+    }
+    if (result.breakpoints) {
+      console.log(`  Breakpoints (${result.breakpoints.length}): ${result.breakpoints.map(capture => `${capture.name} ${capture.path}`).join(', ')}`);
+    }
+    if (result.contactSheet) {
+      console.log(`  Contact sheet: ${result.contactSheet}`);
+    }
+    result.warnings?.forEach(warning => console.warn(`⚠ ${warning}`));
+    if (result.harFile) {
+      console.log(`  Network log: ${result.harFile}`);
+    }
+    if (options.verbose) {
+      printDiagnostics(result.diagnostics);
+    }
     if (options.outputMetadata && result.metadata) {
       console.log('Metadata:', JSON.stringify(result.metadata, null, 2));
+      if (result.diagnostics) {
+        console.log('Diagnostics:', JSON.stringify(result.diagnostics, null, 2));
+      }
     }
   }
 }
@@ -390,7 +554,7 @@ async function runMultiUrlConversion(
     // Use the batch processor for multiple URLs
     const batchProcessor = new BatchProcessor({
       concurrency: options.concurrency || Math.min(3, pairs.length),
-      retryAttempts: options.retry || 2,
+      retryAttempts: options.retry,
       continueOnError: options.continueOnError || true,
       outputDirectory: options.outputDir || process.cwd(),
       reportFormat: 'json',
@@ -402,11 +566,22 @@ async function runMultiUrlConversion(
     // Set up progress tracking
     if (!options.quiet) {
       batchProcessor.on('job-completed', (job, result) => {
-        console.log(`✓ Completed: ${job.url} -> ${result.outputFile} (${result.duration}ms)`);
+        console.log(`✓ Completed: ${job.url || 'inline HTML'} -> ${result.outputFile} (${result.duration}ms)`);
+        result.warnings?.forEach((warning: string) => console.warn(`  ⚠ ${warning}`));
+        if (result.harFile) {
+          console.log(`  Network log: ${result.harFile}`);
+        }
+        if (options.verbose) {
+          printDiagnostics(result.diagnostics, '  ');
+        }
       });
 
       batchProcessor.on('job-failed', (job, error) => {
-        console.error(`✗ Failed: ${job.url} - ${error.message}`);
+        console.error(`✗ Failed: ${job.url || 'inline HTML'} - [${error.code}] ${error.message}`);
+      });
+
+      batchProcessor.on('job-retry', (job, error, retry) => {
+        console.warn(`↻ Retrying: ${job.url || 'inline HTML'} in ${retry.delay}ms (attempt ${retry.attempt + 1}/${retry.maxAttempts}) - [${error.code}] ${error.message}`);
       });
     }
 
@@ -420,6 +595,9 @@ async function runMultiUrlConversion(
       console.log(`  Duration: ${report.totalDuration}ms`);
     }
   } catch (error) {
+    if (error instanceof PrinteerError) {
+      throw error;
+    }
     throw new Error(`Multi-URL conversion failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
   } finally {
     // Clean up batch mode flag
@@ -427,6 +605,111 @@ async function runMultiUrlConversion(
   }
 }
 
+/**
+ * Convert every input to a temporary PDF and merge them, in order, into --merge
+ */
+async function runMergedConversion(
+  pairs: UrlOutputPair[],
+  options: CliOptions,
+  configManager: EnhancedConfigurationManager
+): Promise<void> {
+  const mergeOutput = path.resolve(options.outputDir || process.cwd(), options.merge!);
+
+  if (options.dryRun) {
+    await loadAndPrepareConfig(options, configManager);
+    console.log('Configuration validation successful');
+    pairs.forEach(pair => console.log(`Would convert: ${pair.html !== undefined ? 'inline HTML' : pair.url}`));
+    console.log(`Would merge ${pairs.length} document(s) -> ${mergeOutput}`);
+    return;
+  }
+
+  process.env.PRINTEER_BATCH_MODE = '1';
+  const workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'printeer-merge-'));
+
+  try {
+    const jobs: BatchJob[] = [];
+    for (const pair of pairs) {
+      const job: BatchJob = {
+        id: `url-${pair.index + 1}`,
+        url: pair.url,
+        output: path.join(workDir, `${String(pair.index + 1).padStart(4, '0')}.pdf`),
+        ...(pair.html !== undefined ? { html: pair.html, baseUrl: pair.baseUrl } : {})
+      };
+      if (options.preset) {
+        job.preset = options.preset;
+      }
+      if (needsJobSpecificConfig(options)) {
+        job.config = await buildConfigFromCliOptions(options, configManager);
+      }
+      jobs.push(job);
+    }
+
+    const batchProcessor = new BatchProcessor({
+      concurrency: options.concurrency || Math.min(3, pairs.length),
+      retryAttempts: options.retry,
+      continueOnError: true,
+      outputDirectory: workDir,
+      reportFormat: 'json',
+      progressTracking: !options.quiet,
+      dryRun: false,
+      cleanup: options.cleanup !== false,
+      merge: {
+        output: mergeOutput,
+        pageNumbering: options.mergePageNumbering,
+        keepSources: false,
+        allowPartial: !!options.continueOnError
+      }
+    });
+
+    if (!options.quiet) {
+      batchProcessor.on('job-completed', (job, result) => {
+        console.log(`✓ Rendered: ${job.url || 'inline HTML'} (${result.duration}ms)`);
+        result.warnings?.forEach((warning: string) => console.warn(`  ⚠ ${warning}`));
+        if (result.harFile) {
+          console.log(`  Network log: ${result.harFile}`);
+        }
+        if (options.verbose) {
+          printDiagnostics(result.diagnostics, '  ');
+        }
+      });
+    }
+    batchProcessor.on('job-failed', (job, error) => {
+      console.error(`✗ Failed: ${job.url || 'inline HTML'} - [${error.code}] ${error.message}`);
+    });
+    batchProcessor.on('job-retry', (job, error, retry) => {
+      console.warn(`↻ Retrying: ${job.url || 'inline HTML'} in ${retry.delay}ms (attempt ${retry.attempt + 1}/${retry.maxAttempts}) - [${error.code}] ${error.message}`);
+    });
+
+    let mergeFailure: PrinteerError | undefined;
+    batchProcessor.on('merge-failed', error => {
+      mergeFailure = error;
+    });
+
+    const report = await batchProcessor.processBatch(jobs, batchProcessor.options);
+    if (mergeFailure) {
+      throw mergeFailure;
+    }
+    if (!report.merge) {
+      throw new Error('No documents were merged');
+    }
+
+    if (!options.quiet) {
+      console.log(`✓ Merged ${report.merge.sources.length} document(s), ${report.merge.pageCount} pages: ${report.merge.outputFile}`);
+      if (report.merge.skipped.length > 0) {
+        console.warn(`  Left out after failing: ${report.merge.skipped.join(', ')}`);
+      }
+    }
+  } catch (error) {
+    if (error instanceof PrinteerError) {
+      throw error;
+    }
+    throw new Error(`Merged conversion failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  } finally {
+    delete process.env.PRINTEER_BATCH_MODE;
+    await fs.rm(workDir, { recursive: true, force: true });
+  }
+}
+
 /**
  * Create batch jobs from URL-output pairs
  */
@@ -453,6 +736,7 @@ async function createBatchJobsFromPairs(
         id: `url-${pair.index + 1}`,
         url: pair.url,
         output: finalOutput,
+        ...(pair.html !== undefined ? { html: pair.html, baseUrl: pair.baseUrl } : {}),
         metadata: {
           index: pair.index + 1,
           totalUrls: pairs.length,
@@ -517,7 +801,7 @@ async function loadAndPrepareConfig(
   // Validate final configuration
   const validation = configManager.validateConfiguration(config);
   if (!validation.valid) {
-    throw new Error(`Invalid configuration: ${validation.formattedErrors.join(', ')}`);
+    throw new ConfigurationError(`Invalid configuration: ${validation.formattedErrors.join(', ')}`);
   }
 
   return config;
@@ -530,7 +814,12 @@ function needsJobSpecificConfig(options: CliOptions): boolean {
   return !!(
     options.viewport || options.margins || options.scale ||
     options.quality || options.mediaType || options.colorScheme ||
-    options.waitUntil || options.waitTimeout || options.printBackground
+    options.reducedMotion || options.geolocation || options.networkThrottling ||
+    options.waitUntil || options.waitTimeout || options.printBackground ||
+    options.waitStable || options.waitStableThreshold || options.waitStableTimeout ||
+    options.device || options.mobile || options.tablet ||
+    options.har || options.selector || options.selectorAll || options.readerMode || options.extractLinks || options.extractTables ||
+    options.breakpoints || options.contactSheet
   );
 }
 
@@ -538,78 +827,85 @@ function needsJobSpecificConfig(options: CliOptions): boolean {
  * Simulate conversion process (placeholder for actual implementation)
  */
 async function executeRealConversion(
-  url: string,
-  output: string,
-  config: EnhancedPrintConfiguration
+  input: ConversionInput,
+  output: string | string[],
+  config: EnhancedPrintConfiguration,
+  report: PipelineReport = { timings: {} }
 ): Promise<ConversionResult> {
   const startTime = Date.now();
 
   try {
     // Convert enhanced config to simple config for legacy API
     const legacyConfig = convertToLegacyConfig(config);
+    legacyConfig.report = report;
 
     // Call the real printeer API
-    const result = await printeer(url, output, null, legacyConfig);
+    const result = await printeer(input, output, null, legacyConfig);
 
     const duration = Date.now() - startTime;
 
     return {
-      outputFile: result,
+      outputFile: Array.isArray(result) ? result[0] : result,
+      ...(Array.isArray(result) ? { outputFiles: result } : {}),
       success: true,
       duration,
       metadata: {
         pageCount: 1, // TODO: Extract from actual PDF
         fileSize: 0,  // TODO: Get actual file size
         dimensions: { width: 595, height: 842 }, // TODO: Get from config
-        loadTime: duration
-      }
+        loadTime: duration,
+        ...(report.response ? {
+          httpStatus: report.response.status,
+          httpStatusText: report.response.statusText,
+          finalUrl: report.response.url,
+          ...(report.response.redirectChain.length > 0 ? { redirectChain: report.response.redirectChain } : {})
+        } : {})
+      },
+      ...(report.warnings ? { warnings: report.warnings } : {}),
+      ...(report.diagnostics ? { diagnostics: report.diagnostics } : {}),
+      ...(report.harFile ? { harFile: report.harFile } : {}),
+      ...(report.elementFiles ? { elementFiles: report.elementFiles } : {}),
+      ...(report.breakpoints ? { breakpoints: report.breakpoints } : {}),
+      ...(report.contactSheet ? { contactSheet: report.contactSheet } : {})
     };
   } catch (error) {
-    const duration = Date.now() - startTime;
-    throw new Error(`Conversion failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    // printeer() rejects with a classified PrinteerError; keep its code
+    throw toPrinteerError(error);
+  }
+}
+
+
+/**
+ * Print a one-line summary of what the page reported, then each recorded entry
+ */
+function printDiagnostics(diagnostics: PageDiagnostics | undefined, indent = ''): void {
+  if (!diagnostics) {
+    return;
+  }
+
+  const { summary } = diagnostics;
+  console.log(`${indent}Page diagnostics: ${summary.consoleMessages} console messages (${summary.consoleErrors} errors, ${summary.consoleWarnings} warnings), ` +
+    `${summary.pageErrors} page errors, ${summary.failedRequests} failed requests (${summary.brokenImages} broken images)`);
+  diagnostics.console.forEach(entry => {
+    console.log(`${indent}  [console.${entry.level}] ${entry.text}${entry.location ? ` (${entry.location})` : ''}`);
+  });
+  diagnostics.pageErrors.forEach(entry => console.log(`${indent}  [page error] ${entry.message}`));
+  diagnostics.failedRequests.forEach(entry => {
+    const reason = entry.status !== undefined ? `${entry.status} ${entry.statusText || ''}`.trim() : entry.errorText;
+    console.log(`${indent}  [failed ${entry.resourceType}] ${entry.method} ${entry.url} - ${reason}`);
+  });
+  if (diagnostics.truncated) {
+    console.log(`${indent}  (more entries were left out)`);
   }
 }
 
 /**
- * Convert enhanced configuration to legacy format for printeer API
+ * Print a failure with its error code and remediation hint. Errors that
+ * could not be classified are printed as plain messages.
  */
-function convertToLegacyConfig(config: EnhancedPrintConfiguration): any {
-  return {
-    format: config.page?.format || 'A4',
-    orientation: config.page?.orientation || 'portrait',
-    margin: config.page?.margins,
-    scale: config.pdf?.scale,
-    quality: config.image?.quality,
-    printBackground: config.pdf?.printBackground,
-    viewport: config.viewport,
-    waitUntil: config.wait?.until,
-    waitTimeout: config.wait?.timeout,
-    waitSelector: config.wait?.selector,
-    waitDelay: config.wait?.delay,
-    waitFunction: config.wait?.customFunction,
-    headers: config.auth?.headers,
-    cookies: config.auth?.cookies,
-    auth: config.auth?.basic,
-    userAgent: config.auth?.userAgent,
-    fullPage: config.image?.fullPage,
-    mediaType: config.emulation?.mediaType,
-    colorScheme: config.emulation?.colorScheme,
-    timezone: config.emulation?.timezone,
-    locale: config.emulation?.locale,
-    blockResources: config.performance?.blockResources,
-    javascriptEnabled: config.performance?.javascriptEnabled,
-    cacheEnabled: config.performance?.cacheEnabled,
-    loadTimeout: config.performance?.loadTimeout,
-    preferCSSPageSize: config.pdf?.preferCSSPageSize,
-    generateTaggedPDF: config.pdf?.generateTaggedPDF,
-    outline: config.pdf?.outline,
-    imageType: config.image?.type,
-    clip: config.image?.clip,
-    optimizeForSize: config.image?.optimizeForSize,
-    displayHeaderFooter: config.pdf?.displayHeaderFooter,
-    headerTemplate: config.pdf?.headerTemplate,
-    footerTemplate: config.pdf?.footerTemplate
-  };
+function printFailure(prefix: string, error: unknown): void {
+  const failure = toPrinteerError(error);
+  console.error(prefix, failure.code === 'UNKNOWN_ERROR' ? failure.message : formatError(failure));
 }
 
 /**
@@ -618,13 +914,16 @@ function convertToLegacyConfig(config: EnhancedPrintConfiguration): any {
 async function runBatchProcess(batchFile: string, options: any): Promise<void> {
   const batchProcessor = new BatchProcessor({
     concurrency: parseInt(options.concurrency, 10),
-    retryAttempts: parseInt(options.retry, 10),
+    retryAttempts: options.retry !== undefined ? parseInt(options.retry, 10) : undefined,
+    retryDelay: options.retryDelay !== undefined ? parseInt(options.retryDelay, 10) : undefined,
+    retryMaxDelay: options.retryMaxDelay !== undefined ? parseInt(options.retryMaxDelay, 10) : undefined,
     continueOnError: options.continueOnError,
     outputDirectory: options.outputDir,
     reportFormat: options.report,
     progressTracking: options.progress,
     dryRun: options.dryRun,
-    cleanup: options.cleanup
+    cleanup: options.cleanup,
+    pageMetrics: options.pageMetrics
   });
 
   // Set up event listeners for progress tracking
@@ -638,10 +937,21 @@ async function runBatchProcess(batchFile: string, options: any): Promise<void> {
 
     batchProcessor.on('job-completed', (job, result, progress) => {
       console.log(`✓ Completed: ${job.id} (${result.duration}ms)`);
+      result.warnings?.forEach((warning: string) => console.warn(`  ⚠ ${warning}`));
+      if (result.harFile) {
+        console.log(`  Network log: ${result.harFile}`);
+      }
+      if (options.verbose) {
+        printDiagnostics(result.diagnostics, '  ');
+      }
     });
 
     batchProcessor.on('job-failed', (job, error) => {
-      console.error(`✗ Failed: ${job.id} - ${error.message}`);
+      console.error(`✗ Failed: ${job.id} - [${error.code}] ${error.message}`);
+    });
+
+    batchProcessor.on('job-retry', (job, error, retry) => {
+      console.warn(`↻ Retrying: ${job.id} in ${retry.delay}ms (attempt ${retry.attempt + 1}/${retry.maxAttempts}) - [${error.code}] ${error.message}`);
     });
   }
 
@@ -658,6 +968,12 @@ async function runBatchProcess(batchFile: string, options: any): Promise<void> {
     console.log(`  Successful: ${report.successfulJobs}`);
     console.log(`  Failed: ${report.failedJobs}`);
     console.log(`  Duration: ${report.totalDuration}ms`);
+    if (report.merge) {
+      console.log(`  Merged: ${report.merge.outputFile} (${report.merge.sources.length} documents, ${report.merge.pageCount} pages)`);
+    }
+    if (report.mergeError) {
+      console.error(`  Merge failed: [${report.mergeError.code}] ${report.mergeError.message}`);
+    }
 
     // Also output in the format expected by tests
     if (report.totalJobs > 1) {
@@ -805,6 +1121,35 @@ async function listPresets(options: any): Promise<void> {
   }
 }
 
+/**
+ * List the device catalog
+ */
+async function listDevices(options: any): Promise<void> {
+  const configManager = new EnhancedConfigurationManager();
+
+  try {
+    await configManager.loadConfiguration(options.config);
+
+    console.log('Available devices:');
+    for (const [name, device] of Object.entries(configManager.getAvailableDevices())) {
+      const isBuiltIn = BUILT_IN_DEVICES[name] === device;
+      const type = isBuiltIn ? '[built-in]' : '[custom]';
+
+      if (options.builtIn && !isBuiltIn) continue;
+      if (options.custom && isBuiltIn) continue;
+
+      const { width, height, deviceScaleFactor = 1, hasTouch } = device.viewport;
+      console.log(`  ${name} ${type} ${width}x${height} @${deviceScaleFactor}x${hasTouch ? ', touch' : ''}`);
+      if (device.description) {
+        console.log(`    ${device.description}`);
+      }
+    }
+  } catch (error) {
+    console.error('✗ Failed to list devices:', error instanceof Error ? error.message : 'Unknown error');
+    process.exit(1);
+  }
+}
+
 /**
  * Show resolved configuration
  */
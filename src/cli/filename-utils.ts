@@ -5,6 +5,7 @@
 
 import * as fs from 'fs/promises';
 import * as path from 'path';
+import { fileURLToPath } from 'url';
 import type { UrlOutputPair, CliOptions } from './types/cli.types';
 import { SkipFileError } from './types/cli.types';
 
@@ -72,9 +73,7 @@ export async function generateFilenameFromTitle(
  * Generate filename from URL structure
  */
 export function generateFilenameFromUrl(url: string, options: CliOptions): string {
-  const urlObj = new URL(url);
-  const domain = urlObj.hostname.replace(/^www\./, '');
-  const pathname = urlObj.pathname === '/' ? 'index' : urlObj.pathname.replace(/[^\w-]/g, '_');
+  const { domain, pathname } = getUrlNameParts(url);
 
   const extension = detectOutputExtension(options);
   const baseName = `${domain}${pathname}`;
@@ -82,6 +81,29 @@ export function generateFilenameFromUrl(url: string, options: CliOptions): strin
   return `${baseName}.${extension}`;
 }
 
+/**
+ * Split an input into the domain/path parts used for filenames. Local files
+ * and directories have no domain and use their basename; inline HTML (empty
+ * url) is named "document".
+ */
+function getUrlNameParts(url: string): { domain: string; pathname: string } {
+  if (/^https?:\/\//i.test(url)) {
+    const urlObj = new URL(url);
+    return {
+      domain: urlObj.hostname.replace(/^www\./, ''),
+      pathname: urlObj.pathname === '/' ? 'index' : urlObj.pathname.replace(/[^\w-]/g, '_')
+    };
+  }
+
+  if (!url) {
+    return { domain: '', pathname: 'document' };
+  }
+
+  const localPath = /^file:\/\//i.test(url) ? fileURLToPath(url) : url;
+  const baseName = path.basename(localPath.replace(/[\\/]+$/, ''), path.extname(localPath));
+  return { domain: '', pathname: baseName.replace(/[^\w-]/g, '_') || 'document' };
+}
+
 /**
  * Generate filename from custom pattern
  */
@@ -89,9 +111,7 @@ export async function generateFilenameFromPattern(
   pair: UrlOutputPair,
   options: CliOptions
 ): Promise<string> {
-  const urlObj = new URL(pair.url);
-  const domain = urlObj.hostname.replace(/^www\./, '');
-  const pathname = urlObj.pathname === '/' ? 'index' : urlObj.pathname.replace(/[^\w-]/g, '_');
+  const { domain, pathname } = getUrlNameParts(pair.url);
   const extension = detectOutputExtension(options);
 
   // Try to get title for pattern
@@ -281,5 +301,16 @@ export async function createUrlOutputPairs(
     });
   }
 
+  // Inline HTML (--html) is paired after all URLs
+  if (options.html !== undefined) {
+    pairs.push({
+      url: '',
+      output: outputs[urls.length],
+      index: urls.length,
+      html: options.html,
+      baseUrl: options.baseUrl
+    });
+  }
+
   return pairs;
 }
\ No newline at end of file
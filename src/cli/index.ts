@@ -3,6 +3,8 @@
 import { Command } from 'commander';
 import printeer from '../api';
 import { DefaultDoctorModule } from '../diagnostics/doctor';
+import { toPrinteerError, formatError } from '../errors';
+import { OUTPUT_EXTENSIONS } from '../printing/output-format';
 import type { DiagnosticResult } from '../diagnostics/types/diagnostics';
 import { program as enhancedProgram } from './enhanced-cli';
 import { readFileSync } from 'fs';
@@ -73,13 +75,16 @@ async function runInteractiveConvert() {
     process.exit(0);
   }
 
-  const format = output.toString().split('.').pop()?.toLowerCase();
-  if (!['pdf', 'png'].includes(format || '')) {
+  let outputFile = output.toString();
+  const format = outputFile.split('.').pop()?.toLowerCase();
+  if (!OUTPUT_EXTENSIONS[format || '']) {
     const selectedFormat = await ui.select({
       message: 'What format would you like?',
       options: [
         { value: 'pdf', label: 'PDF Document' },
-        { value: 'png', label: 'PNG Image' }
+        { value: 'png', label: 'PNG Image' },
+        { value: 'jpg', label: 'JPEG Image' },
+        { value: 'webp', label: 'WebP Image' }
       ]
     });
 
@@ -87,18 +92,20 @@ async function runInteractiveConvert() {
       ui.cancel('Operation cancelled.');
       process.exit(0);
     }
+    outputFile = `${outputFile}.${selectedFormat}`;
   }
 
   const s = ui.spinner();
   s.start('Converting webpage...');
 
   try {
-    const result = await printeer(url.toString(), output.toString(), null, {});
+    const result = await printeer(url.toString(), outputFile, null, {});
     s.stop('✓ Conversion complete!');
     ui.outro(`📄 Saved to: ${result}`);
   } catch (error) {
     s.stop('❌ Conversion failed');
-    ui.outro(`Error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    const failure = toPrinteerError(error);
+    ui.outro(`Error: ${failure.code === 'UNKNOWN_ERROR' ? failure.message : formatError(failure)}`);
     process.exit(1);
   }
 }
@@ -580,7 +587,7 @@ export async function runCLI() {
       !args[0].startsWith('-') &&
       !args[1].startsWith('-') &&
       !legacyCommands.includes(args[0]) &&
-      !['convert', 'c', 'batch', 'b', 'config', 'template', 'tpl'].includes(args[0]);
+      !['convert', 'c', 'batch', 'b', 'config', 'devices', 'template', 'tpl'].includes(args[0]);
 
     if (isLegacyCommand || isDirectConversion) {
       // Use legacy CLI for backward compatibility (doctor, interactive, direct conversion)
@@ -3,15 +3,15 @@
 // - Page Print Options (Export Type, Page Size, Etc)
 // - General Application Options (Verbose, Etc)
 
-const validOutputTypes = ['pdf', 'png'] as const;
-type ValidOutputType = typeof validOutputTypes[number];
+import { resolveOutputType } from '../printing/output-format';
+import type { OutputType } from '../printing/types/conversion';
 
 // Options is a class that holds the options required for puppeteer
 // for generating the output.
 export class Options {
   public waitUntil: string;
   public format: string;
-  public outputType: ValidOutputType | null;
+  public outputType: OutputType | null;
   public outputFile: string | null;
 
   constructor() {
@@ -21,19 +21,7 @@ export class Options {
     this.outputFile = null;
   }
 
-  detectOutputType(fname: string, outputType?: ValidOutputType | null): ValidOutputType {
-    if (!outputType) {
-      const ext = fname.split('.').pop();
-      if (ext && validOutputTypes.includes(ext as ValidOutputType)) {
-        return ext as ValidOutputType;
-      }
-      throw new Error(`Invalid output file name: ${fname}`);
-    }
-
-    if (!validOutputTypes.includes(outputType)) {
-      throw new Error(`Invalid output type: ${outputType}`);
-    }
-
-    return outputType;
+  detectOutputType(fname: string, outputType?: string | null): OutputType {
+    return resolveOutputType(fname, outputType);
   }
 }
@@ -4,11 +4,17 @@
  */
 
 import type { EnhancedPrintConfiguration } from '../../config/types/enhanced-config.types';
+import type { RedirectHop } from '../../printing/redirects';
+import type { PageDiagnostics } from '../../printing/page-diagnostics';
+import type { BreakpointFile } from '../../printing/responsive';
 
 export interface UrlOutputPair {
   url: string;
   output?: string;
   index: number;
+  /** Raw HTML rendered instead of `url` (url is empty) */
+  html?: string;
+  baseUrl?: string;
 }
 
 export interface ConfigMapping {
@@ -18,17 +24,28 @@ export interface ConfigMapping {
   parser?: (value: any) => any;
   serializer?: (value: any) => string;
   validator?: (value: any) => boolean;
+  /** A boolean flag that turns the option off, so it is written only for `false` */
+  inverse?: boolean;
+  /** A flag whose value may be left out (`--har [file]`): `true` is written as the bare flag */
+  optionalValue?: boolean;
 }
 
 export interface CliOptions {
   // URLs and outputs
   url?: string[];
   output?: string[];
+  /** More files written from the same page load as the single output */
+  also?: string[];
+  html?: string;
+  baseUrl?: string;
   outputDir?: string;
   outputPattern?: string;
   outputConflict?: 'override' | 'copy' | 'skip' | 'prompt';
   titleFallback?: boolean;
   urlFallback?: boolean;
+  /** Combine every input into this single PDF */
+  merge?: string;
+  mergePageNumbering?: 'none' | 'continue' | 'restart';
 
   // Configuration
   config?: string;
@@ -43,8 +60,11 @@ export interface CliOptions {
 
   // Viewport options
   viewport?: string;
+  /** Name of a device in the catalog */
+  device?: string;
   deviceScale?: number;
   mobile?: boolean;
+  tablet?: boolean;
   landscapeViewport?: boolean;
 
   // Wait conditions
@@ -53,10 +73,16 @@ export interface CliOptions {
   waitSelector?: string;
   waitDelay?: number;
   waitFunction?: string;
+  waitStable?: boolean;
+  waitStableThreshold?: number;
+  waitStableTimeout?: number;
 
   // Media and emulation
   mediaType?: string;
   colorScheme?: string;
+  reducedMotion?: string;
+  /** "latitude,longitude[,accuracy]" */
+  geolocation?: string;
   timezone?: string;
   locale?: string;
   userAgent?: string;
@@ -72,13 +98,23 @@ export interface CliOptions {
   taggedPdf?: boolean;
   pdfOutline?: boolean;
 
+  // Markdown inputs
+  markdownTheme?: string;
+
   // Image specific
   quality?: number;
   imageType?: string;
   fullPage?: boolean;
   clip?: string;
+  selector?: string;
+  selectorAll?: string;
+  selectorPadding?: number;
   optimizeSize?: boolean;
 
+  // Responsive screenshots
+  breakpoints?: string;
+  contactSheet?: string;
+
   // Authentication
   auth?: string;
   headers?: string;
@@ -90,7 +126,31 @@ export interface CliOptions {
   cache?: boolean;
   noCache?: boolean;
   loadTimeout?: number;
+  networkThrottling?: string;
   retry?: number;
+  retryDelay?: number;
+  retryMaxDelay?: number;
+
+  // HTTP status policy
+  acceptStatus?: string;
+  renderErrorPages?: boolean;
+  maxRedirects?: number;
+  sameOriginRedirects?: boolean;
+  loginUrlPattern?: string;
+
+  // Page diagnostics
+  consoleLevel?: string;
+  maxPageErrors?: number;
+  maxConsoleErrors?: number;
+  maxFailedRequests?: number;
+  maxBrokenImages?: number;
+  /** `true` writes the HAR next to the output */
+  har?: boolean | string;
+
+  // Text and Markdown outputs
+  readerMode?: boolean;
+  extractLinks?: string;
+  extractTables?: string;
 
   // Processing options
   concurrency?: number;
@@ -107,6 +167,13 @@ export interface CliOptions {
 
 export interface ConversionResult {
   outputFile: string;
+  /** Every file written, when extra outputs were requested */
+  outputFiles?: string[];
+  /** One image per element matched by --selector-all */
+  elementFiles?: string[];
+  /** One image per breakpoint of --breakpoints */
+  breakpoints?: BreakpointFile[];
+  contactSheet?: string;
   success: boolean;
   duration: number;
   metadata?: {
@@ -114,7 +181,15 @@ export interface ConversionResult {
     fileSize?: number;
     dimensions?: { width: number; height: number };
     loadTime?: number;
+    httpStatus?: number;
+    httpStatusText?: string;
+    finalUrl?: string;
+    redirectChain?: RedirectHop[];
   };
+  /** Problems that did not fail the conversion, e.g. a rendered error page */
+  warnings?: string[];
+  diagnostics?: PageDiagnostics;
+  harFile?: string;
 }
 
 export interface EquivalenceValidationResult {
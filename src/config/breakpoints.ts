@@ -0,0 +1,72 @@
+// Breakpoints - named viewports of responsive captures
+
+import type { NamedViewport, ViewportConfiguration } from './types/enhanced-config.types';
+import { ConfigurationError } from '../types/errors';
+
+/** A resolved breakpoint: its name and a viewport with width and height */
+export interface Breakpoint {
+  name: string;
+  viewport: ViewportConfiguration & { width: number; height: number };
+}
+
+/**
+ * Built-in breakpoints in capture order. `mobile` is the viewport of the
+ * `mobile-responsive` preset.
+ */
+export const BUILT_IN_BREAKPOINTS: Record<string, Breakpoint['viewport']> = {
+  mobile: { width: 375, height: 667, deviceScaleFactor: 2, isMobile: true, hasTouch: true, isLandscape: false },
+  tablet: { width: 768, height: 1024, deviceScaleFactor: 2, isMobile: true, hasTouch: true, isLandscape: false },
+  desktop: { width: 1440, height: 900, deviceScaleFactor: 1 },
+  wide: { width: 1920, height: 1080, deviceScaleFactor: 1 }
+};
+
+/** Height of custom breakpoints given only by their width */
+const DEFAULT_BREAKPOINT_HEIGHT = 900;
+
+/**
+ * Resolve a breakpoint list. Entries are built-in names, widths ("1024") or
+ * sizes ("1280x800"), or viewports with a `name`, which override the
+ * built-in breakpoint of that name. Unknown names and duplicates throw.
+ */
+export function resolveBreakpoints(entries: Array<string | NamedViewport>): Breakpoint[] {
+  if (entries.length === 0) {
+    throw new ConfigurationError('Invalid configuration: at least one breakpoint is required');
+  }
+
+  const breakpoints = entries.map(entry => typeof entry === 'string' ? parseBreakpoint(entry.trim()) : namedBreakpoint(entry));
+  const seen = new Set<string>();
+  for (const { name } of breakpoints) {
+    if (seen.has(name)) {
+      throw new ConfigurationError(`Invalid configuration: breakpoint ${name} is listed twice`);
+    }
+    seen.add(name);
+  }
+  return breakpoints;
+}
+
+function parseBreakpoint(entry: string): Breakpoint {
+  const builtIn = BUILT_IN_BREAKPOINTS[entry.toLowerCase()];
+  if (builtIn) {
+    return { name: entry.toLowerCase(), viewport: { ...builtIn } };
+  }
+  const size = /^(\d+)(?:x(\d+))?$/i.exec(entry);
+  if (!size) {
+    throw new ConfigurationError(`Invalid configuration: unknown breakpoint ${entry} (built-in: ${Object.keys(BUILT_IN_BREAKPOINTS).join(', ')}; or a width like 1024 or 1280x800)`);
+  }
+  return {
+    name: entry.toLowerCase(),
+    viewport: { width: Number(size[1]), height: size[2] ? Number(size[2]) : DEFAULT_BREAKPOINT_HEIGHT }
+  };
+}
+
+function namedBreakpoint({ name, ...viewport }: NamedViewport): Breakpoint {
+  const builtIn = BUILT_IN_BREAKPOINTS[name];
+  const width = viewport.width ?? builtIn?.width;
+  if (!width) {
+    throw new ConfigurationError(`Invalid configuration: breakpoint ${name} needs a width`);
+  }
+  return {
+    name,
+    viewport: { ...builtIn, ...viewport, width, height: viewport.height ?? builtIn?.height ?? DEFAULT_BREAKPOINT_HEIGHT }
+  };
+}
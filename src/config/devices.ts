@@ -0,0 +1,103 @@
+// Devices - the catalog behind `emulation.device`
+
+import type { DeviceDescriptor, EnhancedPrintConfiguration } from './types/enhanced-config.types';
+import { ConfigurationError } from '../types/errors';
+
+const IOS_USER_AGENT = 'Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 Mobile/15E148 Safari/604.1';
+const IPADOS_USER_AGENT = 'Mozilla/5.0 (iPad; CPU OS 17_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 Mobile/15E148 Safari/604.1';
+const androidUserAgent = (model: string) => `Mozilla/5.0 (Linux; Android 14; ${model}) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Mobile Safari/537.36`;
+const WINDOWS_USER_AGENT = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36';
+const MAC_USER_AGENT = 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36';
+
+/** User agents of `--mobile` and `--tablet`, which only set a viewport of their own */
+export const MOBILE_USER_AGENT = IOS_USER_AGENT;
+export const TABLET_USER_AGENT = IPADOS_USER_AGENT;
+
+const handheld = (width: number, height: number, deviceScaleFactor: number, userAgent: string, description: string): DeviceDescriptor => ({
+  viewport: { width, height, deviceScaleFactor, isMobile: true, hasTouch: true, isLandscape: false },
+  userAgent,
+  description
+});
+
+const desktop = (width: number, height: number, deviceScaleFactor: number, userAgent: string, description: string): DeviceDescriptor => ({
+  viewport: { width, height, deviceScaleFactor, isMobile: false, hasTouch: false, isLandscape: false },
+  userAgent,
+  description
+});
+
+/** Built-in devices; viewports are portrait, in CSS pixels */
+export const BUILT_IN_DEVICES: Record<string, DeviceDescriptor> = {
+  'iPhone SE': handheld(375, 667, 2, IOS_USER_AGENT, 'iPhone SE (3rd generation), Safari'),
+  'iPhone 15': handheld(393, 852, 3, IOS_USER_AGENT, 'iPhone 15, Safari'),
+  'iPhone 15 Pro': handheld(393, 852, 3, IOS_USER_AGENT, 'iPhone 15 Pro, Safari'),
+  'iPhone 15 Pro Max': handheld(430, 932, 3, IOS_USER_AGENT, 'iPhone 15 Pro Max, Safari'),
+  'Pixel 8': handheld(412, 915, 2.625, androidUserAgent('Pixel 8'), 'Google Pixel 8, Chrome'),
+  'Galaxy S24': handheld(360, 780, 3, androidUserAgent('SM-S921B'), 'Samsung Galaxy S24, Chrome'),
+  'iPad': handheld(820, 1180, 2, IPADOS_USER_AGENT, 'iPad (10th generation), Safari'),
+  'iPad Mini': handheld(744, 1133, 2, IPADOS_USER_AGENT, 'iPad mini (6th generation), Safari'),
+  'iPad Pro 12.9': handheld(1024, 1366, 2, IPADOS_USER_AGENT, 'iPad Pro 12.9-inch, Safari'),
+  'Laptop': desktop(1366, 768, 1, WINDOWS_USER_AGENT, 'HD laptop, Chrome on Windows'),
+  'MacBook Air': desktop(1470, 956, 2, MAC_USER_AGENT, 'MacBook Air 15-inch, Chrome on macOS'),
+  'Desktop': desktop(1920, 1080, 1, WINDOWS_USER_AGENT, 'Full HD desktop, Chrome on Windows')
+};
+
+/**
+ * Every device by name: the built-in ones and the configured ones, which
+ * replace built-in devices of the same name
+ */
+export function deviceCatalog(custom: Record<string, DeviceDescriptor> = {}): Record<string, DeviceDescriptor> {
+  const catalog: Record<string, DeviceDescriptor> = {};
+  for (const [name, device] of Object.entries({ ...BUILT_IN_DEVICES, ...custom })) {
+    const existing = findName(catalog, name);
+    if (existing) {
+      delete catalog[existing];
+    }
+    catalog[name] = device;
+  }
+  return catalog;
+}
+
+/** Look a device up by name, ignoring case and repeated spaces */
+export function findDevice(name: string, custom: Record<string, DeviceDescriptor> = {}): DeviceDescriptor {
+  const catalog = deviceCatalog(custom);
+  const match = findName(catalog, name);
+  if (!match) {
+    throw new ConfigurationError(`Invalid configuration: unknown device ${name} (\`printeer devices list\` shows the catalog)`);
+  }
+  return catalog[match];
+}
+
+/**
+ * Expand `emulation.device` of one configuration layer into its viewport
+ * and user agent. Viewport settings and a user agent of the same layer win
+ * over the device's; a landscape viewport turns the device sideways.
+ */
+export function applyDevice(
+  config: Partial<EnhancedPrintConfiguration>,
+  custom: Record<string, DeviceDescriptor> = {}
+): Partial<EnhancedPrintConfiguration> {
+  const name = config.emulation?.device;
+  if (!name) {
+    return config;
+  }
+
+  const device = findDevice(name, custom);
+  const viewport = { ...device.viewport };
+  if (config.viewport?.isLandscape && viewport.width < viewport.height) {
+    [viewport.width, viewport.height] = [viewport.height, viewport.width];
+  }
+  return {
+    ...config,
+    viewport: { ...viewport, ...config.viewport },
+    ...(device.userAgent ? { auth: { ...config.auth, userAgent: config.auth?.userAgent ?? device.userAgent } } : {})
+  };
+}
+
+function findName(catalog: Record<string, DeviceDescriptor>, name: string): string | undefined {
+  const key = normalizeName(name);
+  return Object.keys(catalog).find(candidate => normalizeName(candidate) === key);
+}
+
+function normalizeName(name: string): string {
+  return name.trim().replace(/\s+/g, ' ').toLowerCase();
+}
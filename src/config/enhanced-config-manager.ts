@@ -8,22 +8,23 @@ import Ajv from 'ajv';
 import addFormats from 'ajv-formats';
 import * as fs from 'fs/promises';
 import * as yaml from 'yaml';
+import { dirname, isAbsolute, resolve } from 'path';
+import type { PluginSpec } from '../plugins/types/plugin.types';
+import { BUILT_IN_BREAKPOINTS } from './breakpoints';
+import { applyDevice, deviceCatalog } from './devices';
+import { ConfigurationError } from '../types/errors';
 import type {
     EnhancedPrintConfiguration,
     ConfigurationFile,
     ConfigurationPreset,
+    DeviceDescriptor,
     ValidationResult,
     ValidationError,
     ResolvedConfiguration,
     ConfigurationSource
 } from './types/enhanced-config.types';
 
-export class ConfigurationError extends Error {
-    constructor(message: string, public errors?: ValidationError[]) {
-        super(message);
-        this.name = 'ConfigurationError';
-    }
-}
+export { ConfigurationError };
 
 export class EnhancedConfigurationManager {
     private explorer = cosmiconfig('printeer');
@@ -75,15 +76,17 @@ export class EnhancedConfigurationManager {
                 );
             }
 
+            resolvePluginPaths(result.config, dirname(result.filepath));
+
             // Start with defaults
             if (result.config.defaults) {
-                config = merge(config as Record<string, any>, result.config.defaults as Record<string, any>) as Partial<EnhancedPrintConfiguration>;
+                config = merge(config as Record<string, any>, this.applyDevice(result.config.defaults) as Record<string, any>) as Partial<EnhancedPrintConfiguration>;
                 sources.push({ type: 'default' });
             }
 
             // Apply environment-specific overrides
             if (environment && result.config.environments?.[environment]) {
-                config = merge(config as Record<string, any>, result.config.environments[environment] as Record<string, any>) as Partial<EnhancedPrintConfiguration>;
+                config = merge(config as Record<string, any>, this.applyDevice(result.config.environments[environment]) as Record<string, any>) as Partial<EnhancedPrintConfiguration>;
                 sources.push({
                     type: 'environment',
                     name: environment
@@ -139,7 +142,7 @@ export class EnhancedConfigurationManager {
      */
     validateConfiguration(config: any): ValidationResult {
         // Check if this looks like a configuration file (has expected structure)
-        const isConfigFile = config && (config.defaults || config.environments || config.presets || config.$schema);
+        const isConfigFile = config && (config.defaults || config.environments || config.presets || config.devices || config.$schema);
 
         // If it's a configuration file, validate against the config file schema
         // If it's a configuration object, validate against the configuration schema
@@ -159,7 +162,7 @@ export class EnhancedConfigurationManager {
 
         // Additional validation for unknown properties in config files
         if (isConfigFile && config) {
-            const allowedKeys = ['$schema', 'defaults', 'environments', 'presets'];
+            const allowedKeys = ['$schema', 'defaults', 'environments', 'presets', 'devices'];
             const unknownKeys = Object.keys(config).filter(key => !allowedKeys.includes(key));
             if (unknownKeys.length > 0) {
                 errors.push({
@@ -204,13 +207,21 @@ export class EnhancedConfigurationManager {
     }
 
     /**
-     * Merge multiple configurations with proper precedence
+     * Get the device catalog (built-in + custom)
+     */
+    getAvailableDevices(): Record<string, DeviceDescriptor> {
+        return deviceCatalog(this.loadedConfig?.devices);
+    }
+
+    /**
+     * Merge multiple configurations with proper precedence. A device in an
+     * override replaces the viewport and user agent merged so far.
      */
     mergeConfigurations(
         base: Partial<EnhancedPrintConfiguration>,
         ...overrides: Partial<EnhancedPrintConfiguration>[]
     ): EnhancedPrintConfiguration {
-        const merged = merge({} as Record<string, any>, base as Record<string, any>, ...overrides.map(o => o as Record<string, any>)) as Partial<EnhancedPrintConfiguration>;
+        const merged = merge({} as Record<string, any>, base as Record<string, any>, ...overrides.map(o => this.applyDevice(o) as Record<string, any>)) as Partial<EnhancedPrintConfiguration>;
         return this.ensureCompleteConfiguration(merged);
     }
 
@@ -264,14 +275,7 @@ export class EnhancedConfigurationManager {
                 }
             },
             'mobile-responsive': {
-                viewport: {
-                    width: 375,
-                    height: 667,
-                    isMobile: true,
-                    hasTouch: true,
-                    isLandscape: false,
-                    deviceScaleFactor: 2
-                },
+                viewport: { ...BUILT_IN_BREAKPOINTS.mobile },
                 page: {
                     format: 'A4',
                     orientation: 'portrait',
@@ -368,7 +372,7 @@ export class EnhancedConfigurationManager {
             },
             image: {
                 fullPage: false,
-                quality: 90,
+                // quality defaults per format (see DEFAULT_IMAGE_QUALITY)
                 type: 'png',
                 encoding: 'binary',
                 optimizeForSize: false
@@ -402,6 +406,13 @@ export class EnhancedConfigurationManager {
         };
     }
 
+    /**
+     * Expand the device of one configuration layer with the loaded custom devices
+     */
+    private applyDevice(config: Partial<EnhancedPrintConfiguration>): Partial<EnhancedPrintConfiguration> {
+        return applyDevice(config, this.loadedConfig?.devices);
+    }
+
     /**
      * Ensure configuration is complete with all required fields
      */
@@ -438,6 +449,10 @@ export class EnhancedConfigurationManager {
                 presets: {
                     type: 'object',
                     additionalProperties: { $ref: '#/definitions/ConfigurationPreset' }
+                },
+                devices: {
+                    type: 'object',
+                    additionalProperties: { $ref: '#/definitions/DeviceDescriptor' }
                 }
             },
             definitions: {
@@ -451,7 +466,28 @@ export class EnhancedConfigurationManager {
                         wait: { $ref: '#/definitions/WaitConfiguration' },
                         auth: { $ref: '#/definitions/AuthConfiguration' },
                         emulation: { $ref: '#/definitions/EmulationConfiguration' },
-                        performance: { $ref: '#/definitions/PerformanceConfiguration' }
+                        performance: { $ref: '#/definitions/PerformanceConfiguration' },
+                        markdown: { $ref: '#/definitions/MarkdownConfiguration' },
+                        http: { $ref: '#/definitions/HttpConfiguration' },
+                        diagnostics: { $ref: '#/definitions/DiagnosticsConfiguration' },
+                        extraction: { $ref: '#/definitions/ExtractionConfiguration' },
+                        responsive: { $ref: '#/definitions/ResponsiveConfiguration' },
+                        plugins: {
+                            type: 'array',
+                            items: {
+                                oneOf: [
+                                    { type: 'string', minLength: 1 },
+                                    {
+                                        type: 'object',
+                                        properties: {
+                                            module: { type: 'string', minLength: 1 },
+                                            options: { type: 'object' }
+                                        },
+                                        required: ['module']
+                                    }
+                                ]
+                            }
+                        }
                     }
                 },
                 PageConfiguration: {
@@ -505,13 +541,27 @@ export class EnhancedConfigurationManager {
                         generateTaggedPDF: { type: 'boolean' },
                         scale: { type: 'number', minimum: 0.1, maximum: 2.0 },
                         omitBackground: { type: 'boolean' },
-                        outline: { type: 'boolean' }
+                        outline: { type: 'boolean' },
+                        metadata: {
+                            type: 'object',
+                            properties: {
+                                title: { type: 'string' },
+                                author: { type: 'string' },
+                                subject: { type: 'string' },
+                                keywords: { type: 'string' },
+                                creator: { type: 'string' },
+                                producer: { type: 'string' }
+                            }
+                        }
                     }
                 },
                 ImageConfiguration: {
                     type: 'object',
                     properties: {
                         fullPage: { type: 'boolean' },
+                        selector: { type: 'string', minLength: 1 },
+                        selectorAll: { type: 'string', minLength: 1 },
+                        padding: { type: 'number', minimum: 0 },
                         quality: { type: 'number', minimum: 1, maximum: 100 },
                         type: { type: 'string', enum: ['png', 'jpeg', 'webp'] },
                         encoding: { type: 'string', enum: ['base64', 'binary'] },
@@ -536,7 +586,15 @@ export class EnhancedConfigurationManager {
                         timeout: { type: 'number', minimum: 1000 },
                         selector: { type: 'string' },
                         delay: { type: 'number', minimum: 0 },
-                        customFunction: { type: 'string' }
+                        customFunction: { type: 'string' },
+                        stabilityCheck: {
+                            type: 'object',
+                            properties: {
+                                enabled: { type: 'boolean' },
+                                threshold: { type: 'number', minimum: 0 },
+                                timeout: { type: 'number', minimum: 0 }
+                            }
+                        }
                     }
                 },
                 AuthConfiguration: {
@@ -573,11 +631,21 @@ export class EnhancedConfigurationManager {
                 EmulationConfiguration: {
                     type: 'object',
                     properties: {
+                        device: { type: 'string', minLength: 1 },
                         mediaType: { type: 'string', enum: ['screen', 'print'] },
                         colorScheme: { type: 'string', enum: ['light', 'dark', 'no-preference'] },
                         reducedMotion: { type: 'string', enum: ['reduce', 'no-preference'] },
                         timezone: { type: 'string' },
-                        locale: { type: 'string' }
+                        locale: { type: 'string' },
+                        geolocation: {
+                            type: 'object',
+                            properties: {
+                                latitude: { type: 'number', minimum: -90, maximum: 90 },
+                                longitude: { type: 'number', minimum: -180, maximum: 180 },
+                                accuracy: { type: 'number', minimum: 0 }
+                            },
+                            required: ['latitude', 'longitude']
+                        }
                     }
                 },
                 PerformanceConfiguration: {
@@ -592,11 +660,131 @@ export class EnhancedConfigurationManager {
                         },
                         maxConcurrent: { type: 'number', minimum: 1 },
                         retryAttempts: { type: 'number', minimum: 0 },
+                        retryDelay: { type: 'number', minimum: 0 },
+                        retryMaxDelay: { type: 'number', minimum: 0 },
+                        retryJitter: { type: 'number', minimum: 0, maximum: 1 },
                         cacheEnabled: { type: 'boolean' },
                         javascriptEnabled: { type: 'boolean' },
-                        loadTimeout: { type: 'number', minimum: 1000 }
+                        loadTimeout: { type: 'number', minimum: 1000 },
+                        networkThrottling: {
+                            anyOf: [
+                                { type: 'string', enum: ['offline', 'slow-3g', 'fast-3g', '4g'] },
+                                {
+                                    type: 'object',
+                                    properties: {
+                                        offline: { type: 'boolean' },
+                                        downloadThroughput: { type: 'number', minimum: -1 },
+                                        uploadThroughput: { type: 'number', minimum: -1 },
+                                        latency: { type: 'number', minimum: 0 }
+                                    }
+                                }
+                            ]
+                        }
+                    }
+                },
+                MarkdownConfiguration: {
+                    type: 'object',
+                    properties: {
+                        theme: { type: 'string' },
+                        highlight: { type: 'boolean' }
+                    }
+                },
+                HttpConfiguration: {
+                    type: 'object',
+                    properties: {
+                        acceptedStatuses: {
+                            type: 'array',
+                            items: {
+                                anyOf: [
+                                    { type: 'integer', minimum: 100, maximum: 599 },
+                                    { type: 'string', pattern: '^([1-5]xx|\\d{3}(-\\d{3})?)$' }
+                                ]
+                            }
+                        },
+                        renderErrorPages: { type: 'boolean' },
+                        redirects: {
+                            type: 'object',
+                            properties: {
+                                maxRedirects: { type: 'integer', minimum: 0 },
+                                allowCrossOrigin: { type: 'boolean' },
+                                loginUrlPatterns: { type: 'array', items: { type: 'string', minLength: 1 } }
+                            }
+                        }
+                    }
+                },
+                DiagnosticsConfiguration: {
+                    type: 'object',
+                    properties: {
+                        consoleLevels: {
+                            type: 'array',
+                            items: { type: 'string', enum: ['debug', 'log', 'info', 'warn', 'error'] }
+                        },
+                        failOn: {
+                            type: 'object',
+                            properties: {
+                                maxPageErrors: { type: 'integer', minimum: 0 },
+                                maxConsoleErrors: { type: 'integer', minimum: 0 },
+                                maxFailedRequests: { type: 'integer', minimum: 0 },
+                                maxBrokenImages: { type: 'integer', minimum: 0 }
+                            }
+                        },
+                        har: {
+                            anyOf: [{ type: 'boolean' }, { type: 'string', minLength: 1 }]
+                        }
+                    }
+                },
+                ExtractionConfiguration: {
+                    type: 'object',
+                    properties: {
+                        readerMode: { type: 'boolean' },
+                        links: { type: 'string', enum: ['inline', 'reference', 'none'] },
+                        tables: { type: 'string', enum: ['markdown', 'text', 'none'] }
                     }
                 },
+                ResponsiveConfiguration: {
+                    type: 'object',
+                    properties: {
+                        breakpoints: {
+                            type: 'array',
+                            minItems: 1,
+                            items: {
+                                anyOf: [
+                                    { type: 'string', minLength: 1 },
+                                    {
+                                        type: 'object',
+                                        properties: {
+                                            name: { type: 'string', minLength: 1 },
+                                            width: { type: 'number', minimum: 1 },
+                                            height: { type: 'number', minimum: 1 },
+                                            deviceScaleFactor: { type: 'number', minimum: 0.1, maximum: 3.0 },
+                                            isMobile: { type: 'boolean' },
+                                            hasTouch: { type: 'boolean' },
+                                            isLandscape: { type: 'boolean' }
+                                        },
+                                        required: ['name']
+                                    }
+                                ]
+                            }
+                        },
+                        contactSheet: {
+                            anyOf: [{ type: 'boolean' }, { type: 'string', minLength: 1 }]
+                        }
+                    }
+                },
+                DeviceDescriptor: {
+                    type: 'object',
+                    properties: {
+                        viewport: {
+                            allOf: [
+                                { $ref: '#/definitions/ViewportConfiguration' },
+                                { type: 'object', required: ['width', 'height'] }
+                            ]
+                        },
+                        userAgent: { type: 'string', minLength: 1 },
+                        description: { type: 'string' }
+                    },
+                    required: ['viewport']
+                },
                 ConfigurationPreset: {
                     type: 'object',
                     properties: {
@@ -621,6 +809,28 @@ export class EnhancedConfigurationManager {
     }
 }
 
+/**
+ * Make relative plugin module paths absolute so they keep pointing next to
+ * the configuration file whatever the working directory is
+ */
+function resolvePluginPaths(file: ConfigurationFile, baseDir: string): void {
+    const resolveSpecs = (config?: Partial<EnhancedPrintConfiguration>) => {
+        if (!config?.plugins) return;
+        config.plugins = config.plugins.map((spec: PluginSpec) => {
+            const modulePath = typeof spec === 'string' ? spec : spec.module;
+            if (!modulePath.startsWith('.') || isAbsolute(modulePath)) {
+                return spec;
+            }
+            const resolved = resolve(baseDir, modulePath);
+            return typeof spec === 'string' ? resolved : { ...spec, module: resolved };
+        });
+    };
+
+    resolveSpecs(file.defaults);
+    Object.values(file.environments || {}).forEach(resolveSpecs);
+    Object.values(file.presets || {}).forEach(preset => resolveSpecs(preset.config));
+}
+
 // Simple merge function to replace lodash-es dependency
 function merge(target: Record<string, any>, ...sources: Record<string, any>[]): Record<string, any> {
     if (!target) target = {};
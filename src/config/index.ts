@@ -266,7 +266,7 @@ export class ConfigurationLoader {
   /**
    * Get default configuration based on environment
    */
-  private static getDefaultConfiguration(environment: Environment): Configuration {
+  static getDefaultConfiguration(environment: Environment): Configuration {
     const isProduction = environment === 'production';
     const isTest = environment === 'test';
     const isHeadless = EnvironmentDetector.isHeadlessEnvironment();
@@ -318,7 +318,7 @@ export class ConfigurationLoader {
   /**
    * Deep merge configuration objects
    */
-  private static mergeConfigurations(...configs: Array<Partial<Configuration> | null>): Configuration {
+  static mergeConfigurations(...configs: Array<Partial<Configuration> | null>): Configuration {
     const environment = EnvironmentDetector.detectEnvironment();
     let merged = this.getDefaultConfiguration(environment);
 
@@ -3,14 +3,18 @@
  * Comprehensive type definitions for professional web-to-print capabilities
  */
 
+import type { PluginSpec } from '../../plugins/types/plugin.types';
+
 export type PageFormat = 'A4' | 'A3' | 'A2' | 'A1' | 'A0' | 'Letter' | 'Legal' | 'Tabloid' | 'Ledger';
 export type PageOrientation = 'portrait' | 'landscape';
 export type WaitCondition = 'load' | 'domcontentloaded' | 'networkidle0' | 'networkidle2';
 export type MediaType = 'screen' | 'print';
 export type ColorScheme = 'light' | 'dark' | 'no-preference';
 export type ReducedMotion = 'reduce' | 'no-preference';
+export type NetworkProfile = 'offline' | 'slow-3g' | 'fast-3g' | '4g';
 export type ImageType = 'png' | 'jpeg' | 'webp';
 export type ImageEncoding = 'base64' | 'binary';
+export type ConsoleLevel = 'debug' | 'log' | 'info' | 'warn' | 'error';
 export type ResourceType = 'document' | 'stylesheet' | 'image' | 'media' | 'font' | 'script' | 'texttrack' | 'xhr' | 'fetch' | 'eventsource' | 'websocket' | 'manifest' | 'other';
 
 export interface MarginConfig {
@@ -65,6 +69,15 @@ export interface ClipRegion {
 export interface ImageConfiguration {
   fullPage?: boolean;
   clip?: ClipRegion;
+  /** CSS selector of the element to capture instead of the viewport (first match) */
+  selector?: string;
+  /**
+   * CSS selector whose every match is captured into a file of its own; the
+   * output name is a pattern with `{index}` (1-based) or `{attr:name}`
+   */
+  selectorAll?: string;
+  /** Pixels captured around selected elements (default 0) */
+  padding?: number;
   quality?: number;
   type?: ImageType;
   encoding?: ImageEncoding;
@@ -80,10 +93,39 @@ export interface ViewportConfiguration {
   isLandscape?: boolean;
 }
 
+/** A device to emulate: its screen and the user agent of its browser */
+export interface DeviceDescriptor {
+  /** Portrait viewport; `isLandscape` in the configuration's viewport rotates it */
+  viewport: ViewportConfiguration & { width: number; height: number };
+  userAgent?: string;
+  description?: string;
+}
+
+/** A viewport with a name, e.g. a custom breakpoint */
+export interface NamedViewport extends ViewportConfiguration {
+  name: string;
+}
+
+export interface ResponsiveConfiguration {
+  /**
+   * Viewports to capture in one navigation, in order: built-in names (mobile,
+   * tablet, desktop, wide), widths like "1024" or "1280x800", or named viewports
+   */
+  breakpoints?: Array<string | NamedViewport>;
+  /**
+   * Summary of the captures: `true` (default) writes `<output>-contact-sheet.html`,
+   * a string is the sheet's file (.html, or an image rendered by the browser)
+   */
+  contactSheet?: boolean | string;
+}
+
 export interface StabilityCheck {
-  enabled: boolean;
-  threshold: number;
-  timeout: number;
+  /** Default true when the check is configured */
+  enabled?: boolean;
+  /** Milliseconds without DOM mutations, layout shifts or pixel changes (default 500) */
+  threshold?: number;
+  /** Milliseconds after which the page is rendered anyway, with a warning (default 10000) */
+  timeout?: number;
 }
 
 export interface WaitConfiguration {
@@ -121,33 +163,114 @@ export interface AuthConfiguration {
 export interface GeolocationConfig {
   latitude: number;
   longitude: number;
-  accuracy: number;
+  /** Meters (default 0) */
+  accuracy?: number;
 }
 
 export interface EmulationConfiguration {
+  /** Name of a built-in or configured device; sets the viewport and user agent */
+  device?: string;
   mediaType?: MediaType;
   colorScheme?: ColorScheme;
   reducedMotion?: ReducedMotion;
   timezone?: string;
   locale?: string;
+  /** Position reported to the page; the geolocation permission is granted with it */
   geolocation?: GeolocationConfig;
 }
 
 export interface NetworkThrottling {
-  offline: boolean;
-  downloadThroughput: number;
-  uploadThroughput: number;
-  latency: number;
+  offline?: boolean;
+  /** Bytes per second; unset or -1 is unthrottled */
+  downloadThroughput?: number;
+  /** Bytes per second; unset or -1 is unthrottled */
+  uploadThroughput?: number;
+  /** Added round-trip time in milliseconds */
+  latency?: number;
 }
 
 export interface PerformanceConfiguration {
   blockResources?: ResourceType[];
   maxConcurrent?: number;
+  /** Retries for failures classified as retryable (timeouts, disconnects, 5xx) */
   retryAttempts?: number;
+  /** Delay before the first retry in milliseconds; doubles per retry (default 1000) */
+  retryDelay?: number;
+  /** Upper bound for a retry delay in milliseconds (default 30000) */
+  retryMaxDelay?: number;
+  /** Randomized fraction of each delay, 0-1 (default 0.5) */
+  retryJitter?: number;
   cacheEnabled?: boolean;
   javascriptEnabled?: boolean;
   loadTimeout?: number;
-  networkThrottling?: NetworkThrottling;
+  /** A named profile or custom network conditions */
+  networkThrottling?: NetworkProfile | NetworkThrottling;
+}
+
+export interface MarkdownConfiguration {
+  /** Built-in theme name (default, github, minimal, academic) or path to a .css file */
+  theme?: string;
+  /** Syntax-highlight fenced code blocks (default true) */
+  highlight?: boolean;
+}
+
+/**
+ * A status code (304), a class ("2xx") or an inclusive range ("200-299")
+ */
+export type HttpStatusRange = number | string;
+
+export interface RedirectConfiguration {
+  /** Fail when the document is redirected more often than this (default: no limit) */
+  maxRedirects?: number;
+  /** Follow redirects to another scheme, host or port (default true) */
+  allowCrossOrigin?: boolean;
+  /** Regular expressions (case-insensitive); fail when a redirect lands on a matching URL, e.g. "/login" */
+  loginUrlPatterns?: string[];
+}
+
+export interface HttpConfiguration {
+  /** Statuses that count as a successful load (default 2xx and 304) */
+  acceptedStatuses?: HttpStatusRange[];
+  /** Render pages with any other status and mark the result with a warning instead of failing */
+  renderErrorPages?: boolean;
+  redirects?: RedirectConfiguration;
+}
+
+export interface DiagnosticThresholds {
+  /** Most uncaught page errors allowed; 0 fails on any JavaScript error */
+  maxPageErrors?: number;
+  /** Most console.error messages allowed */
+  maxConsoleErrors?: number;
+  /** Most failed subresource requests allowed (network errors and 4xx/5xx responses) */
+  maxFailedRequests?: number;
+  /** Most failed image requests allowed */
+  maxBrokenImages?: number;
+}
+
+export interface DiagnosticsConfiguration {
+  /** Console levels recorded in the result (default: all) */
+  consoleLevels?: ConsoleLevel[];
+  /** Fail the conversion when the page exceeds any of these counts */
+  failOn?: DiagnosticThresholds;
+  /**
+   * Record the network activity as a HAR 1.2 file: `true` writes it next to
+   * the output file (`report.pdf` → `report.har`), a string is the HAR path
+   */
+  har?: boolean | string;
+}
+
+/** How text and Markdown outputs keep links: `[text](url)`, numbered references at the end, or text only */
+export type ExtractedLinkStyle = 'inline' | 'reference' | 'none';
+/** How text and Markdown outputs keep tables: pipe tables, tab-separated rows, or not at all */
+export type ExtractedTableStyle = 'markdown' | 'text' | 'none';
+
+export interface ExtractionConfiguration {
+  /** Keep only the main content (article or main) and drop navigation, sidebars and footers */
+  readerMode?: boolean;
+  /** Default inline */
+  links?: ExtractedLinkStyle;
+  /** Default markdown for .md outputs, text for .txt outputs */
+  tables?: ExtractedTableStyle;
 }
 
 export interface EnhancedPrintConfiguration {
@@ -159,6 +282,15 @@ export interface EnhancedPrintConfiguration {
   auth?: AuthConfiguration;
   emulation?: EmulationConfiguration;
   performance?: PerformanceConfiguration;
+  markdown?: MarkdownConfiguration;
+  http?: HttpConfiguration;
+  diagnostics?: DiagnosticsConfiguration;
+  /** Content of text and Markdown outputs */
+  extraction?: ExtractionConfiguration;
+  /** Screenshots at several breakpoints from one page load */
+  responsive?: ResponsiveConfiguration;
+  /** Plugin modules; relative paths resolve against the configuration file */
+  plugins?: PluginSpec[];
 }
 
 export interface ConfigurationPreset {
@@ -177,6 +309,8 @@ export interface ConfigurationFile {
   defaults?: Partial<EnhancedPrintConfiguration>;
   environments?: EnvironmentConfig;
   presets?: Record<string, ConfigurationPreset>;
+  /** Devices for `emulation.device`, next to the built-in ones */
+  devices?: Record<string, DeviceDescriptor>;
 }
 
 export interface ValidationError {
@@ -7,6 +7,7 @@ import { execSync } from 'child_process';
 import { DoctorModule, DiagnosticResult, SystemEnvironment, BrowserInfo } from './types/diagnostics';
 import { DefaultBrowserFactory } from '../printing/browser';
 import printeer from '../api';
+import { CONTAINER_LAUNCH_ARGS } from '../errors/fallback-strategies';
 import type { PuppeteerLaunchOptions } from 'puppeteer';
 type ExtraLaunchOptions = PuppeteerLaunchOptions & { waitForInitialPage?: boolean; dumpio?: boolean };
 
@@ -804,14 +805,7 @@ export class DefaultDoctorModule implements DoctorModule {
       },
       {
         name: 'container-optimized',
-        args: [
-          '--no-sandbox',
-          '--disable-setuid-sandbox',
-          '--disable-dev-shm-usage',
-          '--disable-gpu',
-          '--disable-web-security',
-          '--disable-features=VizDisplayCompositor'
-        ]
+        args: [...CONTAINER_LAUNCH_ARGS, '--disable-web-security']
       }
     ];
 
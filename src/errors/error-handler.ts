@@ -0,0 +1,382 @@
+/**
+ * Error Handler
+ * Classifies Puppeteer, Chrome, network and file-system failures into
+ * PrinteerErrors with stable codes, retryable flags and remediation text
+ */
+
+import { ErrorType, PrinteerError } from '../types/errors';
+import type { ErrorHandler } from '../types/errors';
+
+interface ErrorRule {
+  code: string;
+  type: ErrorType;
+  retryable: boolean;
+  remediation: string;
+  /** Matched against "<name>: <message> <errno code>" of the error */
+  pattern: RegExp;
+}
+
+const DOCTOR_HINT = 'Run `printeer doctor` to check the environment.';
+
+/**
+ * Ordered most specific first; the first matching rule wins
+ */
+const ERROR_RULES: ErrorRule[] = [
+  {
+    code: 'BROWSER_NOT_FOUND',
+    type: ErrorType.BROWSER_LAUNCH,
+    retryable: false,
+    remediation: 'Install Chrome with `npx puppeteer browsers install chrome`, or set PUPPETEER_EXECUTABLE_PATH to an installed Chrome or Chromium. ' + DOCTOR_HINT,
+    pattern: /Could not find (Chrom(e|ium)|expected browser)|Browser was not found|Tried to find the browser|spawn \S+ ENOENT/i
+  },
+  {
+    code: 'BROWSER_SANDBOX',
+    type: ErrorType.BROWSER_LAUNCH,
+    retryable: false,
+    remediation: 'Run as a non-root user, or add --no-sandbox to the browser args (usually needed in containers).',
+    pattern: /No usable sandbox|Running as root without --no-sandbox|setuid sandbox/i
+  },
+  {
+    code: 'BROWSER_MISSING_LIBRARIES',
+    type: ErrorType.BROWSER_LAUNCH,
+    retryable: false,
+    remediation: 'Install the system libraries Chrome needs (see the Puppeteer troubleshooting guide). ' + DOCTOR_HINT,
+    pattern: /error while loading shared libraries/i
+  },
+  {
+    code: 'BROWSER_LAUNCH_FAILED',
+    type: ErrorType.BROWSER_LAUNCH,
+    retryable: true,
+    remediation: 'Check that Chrome can start on this machine and stop stray Chrome processes (`printeer cleanup`). ' + DOCTOR_HINT,
+    pattern: /Failed to launch the browser process|Timed out after \d+ ms while (trying to connect to|waiting for) the browser|WS endpoint/i
+  },
+  {
+    code: 'OUT_OF_MEMORY',
+    type: ErrorType.RESOURCE_EXHAUSTION,
+    retryable: true,
+    remediation: 'Lower --concurrency or the viewport size, or give the process more memory. In containers also enlarge /dev/shm or pass --disable-dev-shm-usage.',
+    pattern: /out of memory|ENOMEM|Cannot allocate memory/i
+  },
+  {
+    code: 'DISK_FULL',
+    type: ErrorType.RESOURCE_EXHAUSTION,
+    retryable: false,
+    remediation: 'Free disk space where output and temporary files are written.',
+    pattern: /ENOSPC|no space left on device/i
+  },
+  {
+    code: 'TOO_MANY_OPEN_FILES',
+    type: ErrorType.RESOURCE_EXHAUSTION,
+    retryable: true,
+    remediation: 'Lower --concurrency or raise the open-file limit (ulimit -n).',
+    pattern: /EMFILE|ENFILE|too many open files/i
+  },
+  {
+    code: 'NAVIGATION_TIMEOUT',
+    type: ErrorType.PAGE_LOAD,
+    retryable: true,
+    remediation: 'Raise --load-timeout or --wait-timeout, or use --wait-until load for pages that keep connections open.',
+    pattern: /Navigation timeout of \d+ ms exceeded|net::ERR_TIMED_OUT/i
+  },
+  {
+    code: 'WAIT_TIMEOUT',
+    type: ErrorType.PAGE_LOAD,
+    retryable: true,
+    remediation: 'Check that --wait-selector or --wait-function can succeed on this page, or raise --wait-timeout.',
+    pattern: /Waiting for selector .* failed|waiting for function failed|Waiting failed: \d+ ?ms exceeded/i
+  },
+  {
+    code: 'ELEMENT_NOT_FOUND',
+    type: ErrorType.RENDERING,
+    retryable: false,
+    remediation: 'Check the --selector or --selector-all value, or add --wait-selector so the element exists before the screenshot.',
+    pattern: /No element matches screenshot selector/i
+  },
+  {
+    code: 'NO_RESPONSE',
+    type: ErrorType.PAGE_LOAD,
+    retryable: true,
+    remediation: 'The page returned no response. Check the URL and retry.',
+    pattern: /Could not load the page/i
+  },
+  {
+    code: 'TOO_MANY_REDIRECTS',
+    type: ErrorType.PAGE_LOAD,
+    retryable: false,
+    remediation: 'The page redirects in a loop. Open the URL in a browser; login pages that bounce back often need --cookies or --auth.',
+    pattern: /net::ERR_TOO_MANY_REDIRECTS/
+  },
+  {
+    code: 'DNS_LOOKUP_FAILED',
+    type: ErrorType.NETWORK,
+    retryable: false,
+    remediation: 'Check the host name for typos and that this machine can resolve it.',
+    pattern: /net::ERR_NAME_NOT_RESOLVED|ENOTFOUND/
+  },
+  {
+    code: 'TLS_ERROR',
+    type: ErrorType.NETWORK,
+    retryable: false,
+    remediation: "The site's TLS certificate was rejected. Fix the certificate, or launch the browser with --ignore-certificate-errors for trusted internal hosts.",
+    pattern: /net::ERR_(CERT|SSL)_|certificate/i
+  },
+  {
+    code: 'REQUEST_BLOCKED',
+    type: ErrorType.SECURITY,
+    retryable: false,
+    remediation: 'The request was blocked by the browser, a proxy or the server. Check --block-resources and network policy.',
+    pattern: /net::ERR_BLOCKED_BY_/
+  },
+  {
+    code: 'CONNECTION_FAILED',
+    type: ErrorType.NETWORK,
+    retryable: true,
+    remediation: 'Check that the server is reachable from this machine (proxy, firewall, VPN) and retry.',
+    pattern: /net::ERR_(CONNECTION_\w+|INTERNET_DISCONNECTED|NETWORK_CHANGED|ADDRESS_UNREACHABLE|PROXY_\w+|EMPTY_RESPONSE)|ECONNREFUSED|ECONNRESET|ETIMEDOUT|EAI_AGAIN|EPIPE|socket hang up/
+  },
+  {
+    code: 'REQUEST_ABORTED',
+    type: ErrorType.NETWORK,
+    retryable: false,
+    remediation: 'The navigation was aborted, often because the URL is a download. Check the URL.',
+    pattern: /net::ERR_ABORTED/
+  },
+  {
+    code: 'NETWORK_ERROR',
+    type: ErrorType.NETWORK,
+    retryable: true,
+    remediation: 'Check network access to the page and retry.',
+    pattern: /net::ERR_/
+  },
+  {
+    code: 'RENDERER_CRASHED',
+    type: ErrorType.RENDERING,
+    retryable: true,
+    remediation: 'The page crashed the renderer. Retry; for heavy pages lower the viewport or device scale factor.',
+    pattern: /Page crashed|Target crashed/i
+  },
+  {
+    code: 'BROWSER_DISCONNECTED',
+    type: ErrorType.RENDERING,
+    retryable: true,
+    remediation: 'The browser or page closed during the conversion. Retry; if it keeps happening, ' + DOCTOR_HINT.charAt(0).toLowerCase() + DOCTOR_HINT.slice(1),
+    pattern: /Target closed|Session closed|Browser (has )?disconnected|Connection closed|frame (got|was) detached/i
+  },
+  {
+    code: 'RENDER_FAILED',
+    type: ErrorType.RENDERING,
+    retryable: true,
+    remediation: 'Chrome could not produce the output. Retry; very long pages may need a smaller scale or page range.',
+    pattern: /Printing failed|Page\.printToPDF|Page\.captureScreenshot|Unable to capture screenshot/i
+  },
+  {
+    code: 'PERMISSION_DENIED',
+    type: ErrorType.SECURITY,
+    retryable: false,
+    remediation: 'Check write permission for the output path and read permission for local inputs.',
+    pattern: /EACCES|EPERM|permission denied/i
+  },
+  {
+    code: 'FILE_NOT_FOUND',
+    type: ErrorType.SYSTEM,
+    retryable: false,
+    remediation: 'Check that the path exists.',
+    pattern: /ENOENT|no such file or directory/i
+  }
+];
+
+const UNKNOWN_ERROR = {
+  code: 'UNKNOWN_ERROR',
+  type: ErrorType.SYSTEM,
+  retryable: false,
+  remediation: 'Re-run with --verbose for details. ' + DOCTOR_HINT
+};
+
+/** Code and defaults used by createError for each error type */
+const TYPE_DEFAULTS: Record<ErrorType, { code: string; retryable: boolean }> = {
+  [ErrorType.CONFIGURATION]: { code: 'INVALID_CONFIGURATION', retryable: false },
+  [ErrorType.BROWSER_LAUNCH]: { code: 'BROWSER_LAUNCH_FAILED', retryable: true },
+  [ErrorType.PAGE_LOAD]: { code: 'PAGE_LOAD_FAILED', retryable: true },
+  [ErrorType.RENDERING]: { code: 'RENDER_FAILED', retryable: true },
+  [ErrorType.RESOURCE_EXHAUSTION]: { code: 'RESOURCE_EXHAUSTED', retryable: true },
+  [ErrorType.NETWORK]: { code: 'NETWORK_ERROR', retryable: true },
+  [ErrorType.SECURITY]: { code: 'SECURITY_ERROR', retryable: false },
+  [ErrorType.SYSTEM]: { code: 'UNKNOWN_ERROR', retryable: false }
+};
+
+export class DefaultErrorHandler implements ErrorHandler {
+  /**
+   * @param log Where handleError reports failures (default console.error)
+   */
+  constructor(private log: (message: string) => void = message => console.error(message)) {}
+
+  async handleError(error: PrinteerError): Promise<void> {
+    this.log(formatError(error));
+  }
+
+  classifyError(error: Error): ErrorType {
+    return this.normalize(error).type;
+  }
+
+  createError(type: ErrorType, message: string, details: Record<string, any> = {}): PrinteerError {
+    const defaults = TYPE_DEFAULTS[type];
+    if (!defaults) {
+      throw new Error(`Unknown error type: ${type}`);
+    }
+    return new PrinteerError(message, type, defaults.code, { details, retryable: defaults.retryable });
+  }
+
+  shouldRetry(error: PrinteerError): boolean {
+    return error.retryable;
+  }
+
+  /**
+   * Turn any thrown value into a PrinteerError. Errors that are already
+   * classified are returned as-is; others keep their message and become the
+   * `cause` of the classified error.
+   */
+  normalize(error: unknown): PrinteerError {
+    if (error instanceof PrinteerError) {
+      return error;
+    }
+
+    const original = error instanceof Error ? error : new Error(String(error));
+    const errno = (original as { code?: unknown }).code;
+    const subject = `${original.name}: ${original.message}${errno ? ` ${errno}` : ''}`;
+
+    const legacyStatus = /^Error: (\d{3}): (.*)$/.exec(original.message);
+    if (legacyStatus) {
+      return httpStatusError(Number(legacyStatus[1]), legacyStatus[2]);
+    }
+
+    const rule = ERROR_RULES.find(candidate => candidate.pattern.test(subject)) || UNKNOWN_ERROR;
+    const details: Record<string, any> = {};
+    if (original.name && original.name !== 'Error') details.name = original.name;
+    if (errno) details.errno = errno;
+
+    return new PrinteerError(original.message, rule.type, rule.code, {
+      details,
+      retryable: rule.retryable,
+      remediation: rule.remediation,
+      cause: original
+    });
+  }
+}
+
+/**
+ * Classify a non-success HTTP status of the main document
+ */
+export function httpStatusError(status: number, statusText: string, url?: string): PrinteerError {
+  const details: Record<string, any> = { status, statusText };
+  if (url) details.url = url;
+  const message = `Error: ${status}: ${statusText}`;
+
+  if (status === 401 || status === 403) {
+    return new PrinteerError(message, ErrorType.SECURITY, 'HTTP_ACCESS_DENIED', {
+      details,
+      remediation: 'The server refused access. Pass credentials with --auth, --headers or --cookies.'
+    });
+  }
+  if (status === 404 || status === 410) {
+    return new PrinteerError(message, ErrorType.PAGE_LOAD, 'HTTP_NOT_FOUND', {
+      details,
+      remediation: 'Check the URL; the page does not exist.'
+    });
+  }
+  if (status === 408 || status === 429) {
+    return new PrinteerError(message, ErrorType.PAGE_LOAD, 'HTTP_RATE_LIMITED', {
+      details,
+      retryable: true,
+      remediation: 'The server asked to slow down. Retry later or lower --concurrency.'
+    });
+  }
+  if (status >= 500) {
+    return new PrinteerError(message, ErrorType.PAGE_LOAD, 'HTTP_SERVER_ERROR', {
+      details,
+      retryable: true,
+      remediation: 'The server failed to answer. Retry later.'
+    });
+  }
+  return new PrinteerError(message, ErrorType.PAGE_LOAD, 'HTTP_CLIENT_ERROR', {
+    details,
+    remediation: 'The server rejected the request. Check the URL, headers and cookies.'
+  });
+}
+
+export type RedirectViolation = 'limit' | 'cross-origin' | 'login';
+
+const REDIRECT_ERRORS: Record<RedirectViolation, { code: string; type: ErrorType; remediation: string }> = {
+  limit: {
+    code: 'REDIRECT_LIMIT_EXCEEDED',
+    type: ErrorType.PAGE_LOAD,
+    remediation: 'Request the final URL directly, or raise http.redirects.maxRedirects (--max-redirects).'
+  },
+  'cross-origin': {
+    code: 'REDIRECT_CROSS_ORIGIN',
+    type: ErrorType.SECURITY,
+    remediation: 'Request the other origin directly, or allow it with http.redirects.allowCrossOrigin.'
+  },
+  login: {
+    code: 'REDIRECT_TO_LOGIN',
+    type: ErrorType.SECURITY,
+    remediation: 'The page requires a session. Pass credentials with --cookies, --headers or --auth.'
+  }
+};
+
+/**
+ * A document redirect that the redirect policy does not allow
+ */
+export function redirectPolicyError(violation: RedirectViolation, message: string, details: Record<string, any>): PrinteerError {
+  const { code, type, remediation } = REDIRECT_ERRORS[violation];
+  return new PrinteerError(message, type, code, { details, remediation });
+}
+
+/**
+ * An input that cannot be rendered: a missing path, an unsupported URL scheme
+ * or a document that cannot be parsed
+ */
+export function invalidInputError(message: string): PrinteerError {
+  return new PrinteerError(message, ErrorType.CONFIGURATION, 'INVALID_INPUT', {
+    remediation: 'Pass an http(s) URL, a file:// URL, an existing local file, a directory with index.html, or --html.'
+  });
+}
+
+/**
+ * A batch merge whose selected jobs did not all complete
+ */
+export function mergeIncompleteError(message: string, skipped: string[]): PrinteerError {
+  return new PrinteerError(message, ErrorType.RENDERING, 'MERGE_INCOMPLETE', {
+    details: { skipped },
+    remediation: 'Fix the failed jobs, or set merge.allowPartial to merge the jobs that completed.'
+  });
+}
+
+/**
+ * The page logged more errors or failed requests than the configured thresholds allow
+ */
+export function diagnosticThresholdError(violations: string[], details: Record<string, any>): PrinteerError {
+  return new PrinteerError(`Page diagnostics exceeded thresholds: ${violations.join('; ')}`, ErrorType.RENDERING, 'DIAGNOSTICS_THRESHOLD_EXCEEDED', {
+    details,
+    remediation: "Inspect the page's console, errors and failed requests (--verbose or --output-metadata), or raise the diagnostics.failOn thresholds."
+  });
+}
+
+/**
+ * One-line-per-field description for logs and the CLI
+ */
+export function formatError(error: PrinteerError): string {
+  const lines = [`${error.message}`, `  Error code: ${error.code} (${error.type}${error.retryable ? ', retryable' : ''})`];
+  if (error.remediation) {
+    lines.push(`  Hint: ${error.remediation}`);
+  }
+  return lines.join('\n');
+}
+
+export const errorHandler = new DefaultErrorHandler();
+
+/**
+ * Shorthand for `errorHandler.normalize(error)`
+ */
+export function toPrinteerError(error: unknown): PrinteerError {
+  return errorHandler.normalize(error);
+}
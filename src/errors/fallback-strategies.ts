@@ -0,0 +1,257 @@
+/**
+ * Fallback Strategies
+ * A prioritized registry of option adjustments that retry a failed conversion
+ */
+
+import { PrinteerError } from '../types/errors';
+import type { AppliedFallback, FallbackStrategy } from '../types/errors';
+import { ConversionAbortedError } from '../printing/cancellation';
+import type { PageOptions } from '../printing/pipeline';
+import { toPrinteerError } from './error-handler';
+
+/**
+ * Launch flags that make Chrome start in containers and restricted sandboxes.
+ * The doctor tests the same set (plus --disable-web-security, which a
+ * conversion never turns on by itself).
+ */
+export const CONTAINER_LAUNCH_ARGS = [
+  '--no-sandbox',
+  '--disable-setuid-sandbox',
+  '--disable-dev-shm-usage',
+  '--disable-gpu',
+  '--disable-features=VizDisplayCompositor'
+];
+
+/**
+ * Relaunch with container-optimized flags when Chrome fails to start
+ */
+export class ContainerFlagsFallback implements FallbackStrategy {
+  readonly name = 'container-flags';
+
+  canHandle(error: PrinteerError): boolean {
+    return error.code === 'BROWSER_SANDBOX' || error.code === 'BROWSER_LAUNCH_FAILED';
+  }
+
+  async execute(originalOptions: PageOptions): Promise<PageOptions | null> {
+    const args = Array.isArray(originalOptions.args) ? originalOptions.args : [];
+    if (CONTAINER_LAUNCH_ARGS.every(arg => args.includes(arg))) {
+      return null;
+    }
+    return { ...originalOptions, args: Array.from(new Set([...args, ...CONTAINER_LAUNCH_ARGS])) };
+  }
+
+  getPriority(): number {
+    return 100;
+  }
+}
+
+/**
+ * Wait for the load event instead of network idle when navigation times out;
+ * pages with polling or open connections never become idle
+ */
+export class LoadEventFallback implements FallbackStrategy {
+  readonly name = 'wait-until-load';
+
+  canHandle(error: PrinteerError): boolean {
+    return error.code === 'NAVIGATION_TIMEOUT';
+  }
+
+  async execute(originalOptions: PageOptions): Promise<PageOptions | null> {
+    const waitUntil = originalOptions.waitUntil || 'networkidle0';
+    if (waitUntil === 'load' || waitUntil === 'domcontentloaded') {
+      return null;
+    }
+    return { ...originalOptions, waitUntil: 'load' };
+  }
+
+  getPriority(): number {
+    return 80;
+  }
+}
+
+/**
+ * Render the static document when a page's scripts crash the renderer
+ */
+export class DisableJavaScriptFallback implements FallbackStrategy {
+  readonly name = 'disable-javascript';
+
+  canHandle(error: PrinteerError): boolean {
+    return error.code === 'RENDERER_CRASHED';
+  }
+
+  async execute(originalOptions: PageOptions): Promise<PageOptions | null> {
+    if (originalOptions.javascriptEnabled === false) {
+      return null;
+    }
+    return { ...originalOptions, javascriptEnabled: false };
+  }
+
+  getPriority(): number {
+    return 60;
+  }
+}
+
+/**
+ * Render at 1x when a high device scale factor runs out of memory
+ */
+export class LowerScaleFactorFallback implements FallbackStrategy {
+  readonly name = 'lower-scale-factor';
+
+  canHandle(error: PrinteerError): boolean {
+    return error.code === 'OUT_OF_MEMORY';
+  }
+
+  async execute(originalOptions: PageOptions): Promise<PageOptions | null> {
+    const viewport = originalOptions.viewport;
+    if (!viewport || !((viewport.deviceScaleFactor ?? 1) > 1)) {
+      return null;
+    }
+    return { ...originalOptions, viewport: { ...viewport, deviceScaleFactor: 1 } };
+  }
+
+  getPriority(): number {
+    return 40;
+  }
+}
+
+export function createDefaultFallbacks(): FallbackStrategy[] {
+  return [
+    new ContainerFlagsFallback(),
+    new LoadEventFallback(),
+    new DisableJavaScriptFallback(),
+    new LowerScaleFactorFallback()
+  ];
+}
+
+export class FallbackRegistry {
+  private strategies: FallbackStrategy[];
+
+  constructor(strategies: FallbackStrategy[] = []) {
+    this.strategies = [];
+    strategies.forEach(strategy => this.register(strategy));
+  }
+
+  /**
+   * Register a strategy; names must be unique
+   */
+  register(strategy: FallbackStrategy): void {
+    if (!strategy || typeof strategy.name !== 'string' || strategy.name.trim() === '') {
+      throw new Error('Fallback strategies must have a non-empty name');
+    }
+    if (typeof strategy.canHandle !== 'function' || typeof strategy.execute !== 'function' || typeof strategy.getPriority !== 'function') {
+      throw new Error(`Fallback strategy '${strategy.name}' must implement canHandle, execute and getPriority`);
+    }
+    if (this.strategies.some(existing => existing.name === strategy.name)) {
+      throw new Error(`Fallback strategy '${strategy.name}' is already registered`);
+    }
+
+    this.strategies.push(strategy);
+  }
+
+  unregister(name: string): boolean {
+    const before = this.strategies.length;
+    this.strategies = this.strategies.filter(strategy => strategy.name !== name);
+    return this.strategies.length !== before;
+  }
+
+  /**
+   * Registered strategies, highest priority first
+   */
+  getStrategies(): FallbackStrategy[] {
+    return sortByPriority(this.strategies);
+  }
+
+  clear(): void {
+    this.strategies = [];
+  }
+}
+
+// The built-in fallbacks apply to every conversion unless unregistered
+const globalFallbacks = new FallbackRegistry(createDefaultFallbacks());
+
+export function registerFallback(strategy: FallbackStrategy): void {
+  globalFallbacks.register(strategy);
+}
+
+export function unregisterFallback(name: string): boolean {
+  return globalFallbacks.unregister(name);
+}
+
+export function getRegisteredFallbacks(): FallbackStrategy[] {
+  return globalFallbacks.getStrategies();
+}
+
+/**
+ * Drop custom strategies and restore the built-in ones
+ */
+export function resetFallbacks(): void {
+  globalFallbacks.clear();
+  createDefaultFallbacks().forEach(strategy => globalFallbacks.register(strategy));
+}
+
+export interface FallbackRunOptions {
+  /** Strategies to consider, highest priority first (default: the registered ones) */
+  strategies?: FallbackStrategy[];
+  /** Called before each retry with the fallback that was applied */
+  onFallback?: (applied: AppliedFallback, error: PrinteerError) => void;
+}
+
+/**
+ * Run `attempt` with `options`. When it fails, the highest-priority strategy
+ * that can handle the error adjusts the options and the attempt is repeated.
+ * Each strategy is applied at most once; cancellation is never retried. The
+ * last failure is rethrown as a PrinteerError.
+ *
+ * @param attempt Receives the options and the zero-based attempt number
+ */
+export async function runWithFallbacks<T, O extends object>(
+  options: O,
+  attempt: (options: O, attemptNumber: number) => Promise<T>,
+  run: FallbackRunOptions = {}
+): Promise<T> {
+  const strategies = run.strategies ? sortByPriority(run.strategies) : getRegisteredFallbacks();
+  const used = new Set<FallbackStrategy>();
+  let current = options;
+
+  for (let attemptNumber = 0; ; attemptNumber++) {
+    try {
+      return await attempt(current, attemptNumber);
+    } catch (error) {
+      if (error instanceof ConversionAbortedError) {
+        throw error;
+      }
+
+      const failure = toPrinteerError(error);
+      const next = await selectFallback(strategies, used, failure, current);
+      if (!next) {
+        throw failure;
+      }
+
+      used.add(next.strategy);
+      current = next.options;
+      run.onFallback?.({ name: next.strategy.name || 'anonymous', code: failure.code }, failure);
+    }
+  }
+}
+
+async function selectFallback<O extends object>(
+  strategies: FallbackStrategy[],
+  used: Set<FallbackStrategy>,
+  failure: PrinteerError,
+  options: O
+): Promise<{ strategy: FallbackStrategy; options: O } | null> {
+  for (const strategy of strategies) {
+    if (used.has(strategy) || !strategy.canHandle(failure)) {
+      continue;
+    }
+    const adjusted = await strategy.execute(options);
+    if (adjusted) {
+      return { strategy, options: adjusted };
+    }
+  }
+  return null;
+}
+
+function sortByPriority(strategies: FallbackStrategy[]): FallbackStrategy[] {
+  return [...strategies].sort((a, b) => b.getPriority() - a.getPriority());
+}
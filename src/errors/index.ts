@@ -0,0 +1,36 @@
+// Errors domain - Classification of failures into PrinteerErrors
+
+export {
+  DefaultErrorHandler,
+  errorHandler,
+  toPrinteerError,
+  httpStatusError,
+  redirectPolicyError,
+  diagnosticThresholdError,
+  formatError
+} from './error-handler';
+export type { RedirectViolation } from './error-handler';
+
+export {
+  FallbackRegistry,
+  ContainerFlagsFallback,
+  LoadEventFallback,
+  DisableJavaScriptFallback,
+  LowerScaleFactorFallback,
+  CONTAINER_LAUNCH_ARGS,
+  createDefaultFallbacks,
+  registerFallback,
+  unregisterFallback,
+  getRegisteredFallbacks,
+  resetFallbacks,
+  runWithFallbacks
+} from './fallback-strategies';
+export type { FallbackRunOptions } from './fallback-strategies';
+
+export {
+  DEFAULT_RETRY_POLICY,
+  createRetryPolicy,
+  computeBackoff,
+  retryWithBackoff
+} from './retry';
+export type { RetryPolicy, RetryHooks } from './retry';
@@ -0,0 +1,104 @@
+/**
+ * Retry
+ * Exponential backoff with jitter for errors classified as retryable
+ */
+
+import { ConfigurationError } from '../types/errors';
+import type { PrinteerError } from '../types/errors';
+import { toPrinteerError } from './error-handler';
+
+export interface RetryPolicy {
+  /** Retries after the first attempt (0 disables retrying) */
+  attempts: number;
+  /** Delay before the first retry, in milliseconds */
+  initialDelay: number;
+  /** Upper bound for any single delay, in milliseconds */
+  maxDelay: number;
+  /** Growth of the delay per retry */
+  factor: number;
+  /** Fraction of each delay that is randomized: 0 is fixed, 1 is anywhere between 0 and the delay */
+  jitter: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  attempts: 0,
+  initialDelay: 1000,
+  maxDelay: 30000,
+  factor: 2,
+  jitter: 0.5
+};
+
+export interface RetryHooks {
+  /**
+   * Called after every failed attempt (1-based). `delay` is the wait before
+   * the next attempt, or undefined when no retry follows.
+   */
+  onFailure?: (error: PrinteerError, attempt: number, delay?: number) => void;
+  /** Decide whether a failure is retried (default: `error.retryable`) */
+  shouldRetry?: (error: PrinteerError) => boolean;
+  /** Wait between attempts; pass a cancellable delay to stop retrying early */
+  sleep?: (ms: number) => Promise<void>;
+  /** Source of randomness for jitter (default Math.random) */
+  random?: () => number;
+}
+
+/**
+ * Build a policy from partial settings; undefined values keep the defaults
+ */
+export function createRetryPolicy(settings: Partial<RetryPolicy> = {}): RetryPolicy {
+  const policy = { ...DEFAULT_RETRY_POLICY };
+  for (const key of Object.keys(policy) as (keyof RetryPolicy)[]) {
+    const value = settings[key];
+    if (value !== undefined && value !== null) {
+      if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+        throw new ConfigurationError(`Retry ${key} must be a non-negative number, got ${value}`);
+      }
+      policy[key] = value;
+    }
+  }
+
+  policy.attempts = Math.floor(policy.attempts);
+  policy.jitter = Math.min(1, policy.jitter);
+  policy.factor = Math.max(1, policy.factor);
+  return policy;
+}
+
+/**
+ * Delay before retry number `retry` (1-based)
+ */
+export function computeBackoff(retry: number, policy: RetryPolicy, random: () => number = Math.random): number {
+  const base = Math.min(policy.maxDelay, policy.initialDelay * Math.pow(policy.factor, Math.max(0, retry - 1)));
+  return Math.round(base * (1 - policy.jitter) + base * policy.jitter * random());
+}
+
+/**
+ * Run `operation` until it succeeds, the error is not retryable or the
+ * policy's attempts are used up. The last failure is rethrown as a
+ * PrinteerError.
+ *
+ * @param operation Receives the 1-based attempt number
+ */
+export async function retryWithBackoff<T>(
+  operation: (attempt: number) => Promise<T>,
+  policy: RetryPolicy,
+  hooks: RetryHooks = {}
+): Promise<T> {
+  const shouldRetry = hooks.shouldRetry || ((error: PrinteerError) => error.retryable);
+  const sleep = hooks.sleep || (ms => new Promise<void>(resolve => setTimeout(resolve, ms)));
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation(attempt);
+    } catch (error) {
+      const failure = toPrinteerError(error);
+      if (attempt > policy.attempts || !shouldRetry(failure)) {
+        hooks.onFailure?.(failure, attempt);
+        throw failure;
+      }
+
+      const delay = computeBackoff(attempt, policy, hooks.random);
+      hooks.onFailure?.(failure, attempt, delay);
+      await sleep(delay);
+    }
+  }
+}
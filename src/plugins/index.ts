@@ -0,0 +1,14 @@
+// Plugins domain - Hooks around the render pipeline
+
+export {
+  PluginManager,
+  PluginRunner,
+  registerPlugin,
+  unregisterPlugin,
+  getRegisteredPlugins,
+  clearPlugins,
+  loadPlugin,
+  loadPlugins
+} from './plugin-manager';
+
+export * from './types/plugin.types';
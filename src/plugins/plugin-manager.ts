@@ -0,0 +1,256 @@
+/**
+ * Plugin Manager
+ * Registers plugins, loads them from configuration files and runs their hooks
+ */
+
+import { createRequire } from 'module';
+import { isAbsolute, join, resolve } from 'path';
+import { pathToFileURL } from 'url';
+import type { Browser, HTTPResponse, Page } from 'puppeteer';
+import type { Readable } from 'stream';
+import type {
+  PrinteerPlugin,
+  PluginContext,
+  PluginHookName,
+  PluginSpec,
+  PluginModuleExport
+} from './types/plugin.types';
+import { PluginError, PluginLoadError } from './types/plugin.types';
+
+const HOOK_NAMES: PluginHookName[] = [
+  'onBrowserLaunch',
+  'onPageCreated',
+  'beforeNavigate',
+  'afterNavigate',
+  'beforeRender',
+  'afterRender',
+  'onError'
+];
+
+export class PluginManager {
+  private plugins: PrinteerPlugin[] = [];
+
+  /**
+   * Register a plugin; names must be unique
+   */
+  register(plugin: PrinteerPlugin): void {
+    validatePlugin(plugin);
+
+    if (this.plugins.some(existing => existing.name === plugin.name)) {
+      throw new PluginError(`Plugin '${plugin.name}' is already registered`, plugin.name);
+    }
+
+    this.plugins.push(plugin);
+  }
+
+  unregister(name: string): boolean {
+    const before = this.plugins.length;
+    this.plugins = this.plugins.filter(plugin => plugin.name !== name);
+    return this.plugins.length !== before;
+  }
+
+  getPlugins(): PrinteerPlugin[] {
+    return [...this.plugins];
+  }
+
+  clear(): void {
+    this.plugins = [];
+  }
+}
+
+// Plugins registered from library code apply to every conversion in the process
+const globalPlugins = new PluginManager();
+
+export function registerPlugin(plugin: PrinteerPlugin): void {
+  globalPlugins.register(plugin);
+}
+
+export function unregisterPlugin(name: string): boolean {
+  return globalPlugins.unregister(name);
+}
+
+export function getRegisteredPlugins(): PrinteerPlugin[] {
+  return globalPlugins.getPlugins();
+}
+
+export function clearPlugins(): void {
+  globalPlugins.clear();
+}
+
+const moduleCache = new Map<string, Promise<PrinteerPlugin>>();
+
+/**
+ * Load a plugin from a module path or package name. Relative paths resolve
+ * against `baseDir` (the config file's directory when loaded from config).
+ */
+export async function loadPlugin(spec: PluginSpec, baseDir: string = process.cwd()): Promise<PrinteerPlugin> {
+  const modulePath = typeof spec === 'string' ? spec : spec?.module;
+  const options = typeof spec === 'string' ? {} : spec?.options || {};
+
+  if (!modulePath || typeof modulePath !== 'string') {
+    throw new PluginLoadError('Plugin entries need a module path', String(modulePath));
+  }
+
+  let resolved: string;
+  try {
+    resolved = isPathSpecifier(modulePath)
+      ? resolve(baseDir, modulePath)
+      : createRequire(join(baseDir, 'noop.js')).resolve(modulePath);
+  } catch (error) {
+    throw new PluginLoadError(
+      `Cannot find plugin module '${modulePath}' from ${baseDir}`,
+      modulePath,
+      error instanceof Error ? error : undefined
+    );
+  }
+
+  const cacheKey = `${resolved}|${JSON.stringify(options)}`;
+  let loading = moduleCache.get(cacheKey);
+  if (!loading) {
+    loading = importPlugin(resolved, modulePath, options);
+    moduleCache.set(cacheKey, loading);
+    loading.catch(() => moduleCache.delete(cacheKey));
+  }
+  return await loading;
+}
+
+/**
+ * Load every plugin listed in a configuration, in order
+ */
+export async function loadPlugins(specs: PluginSpec[] = [], baseDir?: string): Promise<PrinteerPlugin[]> {
+  const plugins: PrinteerPlugin[] = [];
+  for (const spec of specs) {
+    plugins.push(await loadPlugin(spec, baseDir));
+  }
+  return plugins;
+}
+
+async function importPlugin(resolved: string, modulePath: string, options: Record<string, unknown>): Promise<PrinteerPlugin> {
+  let loaded: Record<string, unknown>;
+  try {
+    loaded = await import(pathToFileURL(resolved).href);
+  } catch (error) {
+    throw new PluginLoadError(
+      `Failed to load plugin module '${modulePath}': ${error instanceof Error ? error.message : String(error)}`,
+      modulePath,
+      error instanceof Error ? error : undefined
+    );
+  }
+
+  // Plugins may be the default export (object or factory) or the module itself
+  const exported = (loaded.default ?? loaded) as PluginModuleExport;
+  const plugin = typeof exported === 'function' ? await exported(options) : exported;
+
+  try {
+    validatePlugin(plugin);
+  } catch (error) {
+    throw new PluginLoadError(
+      `Plugin module '${modulePath}' does not export a valid plugin: ${error instanceof Error ? error.message : String(error)}`,
+      modulePath
+    );
+  }
+  return plugin;
+}
+
+function isPathSpecifier(modulePath: string): boolean {
+  return modulePath.startsWith('.') || isAbsolute(modulePath) || modulePath.startsWith('file:');
+}
+
+function validatePlugin(plugin: PrinteerPlugin): void {
+  if (!plugin || typeof plugin !== 'object') {
+    throw new PluginError('Plugin must be an object', 'unknown');
+  }
+  if (typeof plugin.name !== 'string' || plugin.name.trim() === '') {
+    throw new PluginError('Plugin must have a name', 'unknown');
+  }
+  for (const hook of HOOK_NAMES) {
+    if (plugin[hook] !== undefined && typeof plugin[hook] !== 'function') {
+      throw new PluginError(`Plugin '${plugin.name}' hook ${hook} must be a function`, plugin.name, hook);
+    }
+  }
+}
+
+// Browsers each plugin has already seen, so onBrowserLaunch fires once per browser
+const launchedBrowsers = new WeakMap<Browser, Set<PrinteerPlugin>>();
+
+/**
+ * Runs plugin hooks for one conversion
+ */
+export class PluginRunner {
+  constructor(private readonly plugins: PrinteerPlugin[], private readonly context: PluginContext) {}
+
+  get size(): number {
+    return this.plugins.length;
+  }
+
+  async browserLaunched(browser: Browser): Promise<void> {
+    let seen = launchedBrowsers.get(browser);
+    if (!seen) {
+      seen = new Set();
+      launchedBrowsers.set(browser, seen);
+    }
+
+    for (const plugin of this.plugins) {
+      if (plugin.onBrowserLaunch && !seen.has(plugin)) {
+        seen.add(plugin);
+        await this.invoke(plugin, 'onBrowserLaunch', () => plugin.onBrowserLaunch!(browser, this.context));
+      }
+    }
+  }
+
+  async pageCreated(page: Page): Promise<void> {
+    await this.run('onPageCreated', plugin => plugin.onPageCreated?.({ ...this.context, page }));
+  }
+
+  async beforeNavigate(page: Page): Promise<void> {
+    await this.run('beforeNavigate', plugin => plugin.beforeNavigate?.({ ...this.context, page }));
+  }
+
+  async afterNavigate(page: Page, response: HTTPResponse | null): Promise<void> {
+    await this.run('afterNavigate', plugin => plugin.afterNavigate?.({ ...this.context, page, response }));
+  }
+
+  async beforeRender(page: Page): Promise<void> {
+    await this.run('beforeRender', plugin => plugin.beforeRender?.({ ...this.context, page }));
+  }
+
+  async afterRender(page: Page, output: string | Buffer | Readable): Promise<void> {
+    await this.run('afterRender', plugin => plugin.afterRender?.({ ...this.context, page, output }));
+  }
+
+  /**
+   * Tell plugins about a failure. Never throws, so the original error surfaces.
+   */
+  async error(error: unknown, page: Page | null): Promise<void> {
+    const failure = error instanceof Error ? error : new Error(String(error));
+    for (const plugin of this.plugins) {
+      if (!plugin.onError) continue;
+      try {
+        await plugin.onError(failure, { ...this.context, page });
+      } catch (hookError) {
+        console.warn(`Plugin '${plugin.name}' onError hook failed:`, hookError);
+      }
+    }
+  }
+
+  private async run(hook: PluginHookName, call: (plugin: PrinteerPlugin) => unknown): Promise<void> {
+    for (const plugin of this.plugins) {
+      if (plugin[hook]) {
+        await this.invoke(plugin, hook, () => call(plugin));
+      }
+    }
+  }
+
+  private async invoke(plugin: PrinteerPlugin, hook: PluginHookName, call: () => unknown): Promise<void> {
+    try {
+      await call();
+    } catch (error) {
+      throw new PluginError(
+        `Plugin '${plugin.name}' failed in ${hook}: ${error instanceof Error ? error.message : String(error)}`,
+        plugin.name,
+        hook,
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+}
@@ -0,0 +1,97 @@
+/**
+ * Plugin System Types
+ * Hooks that run around the render pipeline stages
+ */
+
+import type { Browser, HTTPResponse, Page } from 'puppeteer';
+import type { Readable } from 'stream';
+import type { EnhancedPrintConfiguration } from '../../config/types/enhanced-config.types';
+import { ErrorType, PrinteerError } from '../../types/errors';
+
+export type PluginHookName =
+  | 'onBrowserLaunch'
+  | 'onPageCreated'
+  | 'beforeNavigate'
+  | 'afterNavigate'
+  | 'beforeRender'
+  | 'afterRender'
+  | 'onError';
+
+export interface PluginContext {
+  /** Resolved print configuration for this conversion */
+  config: EnhancedPrintConfiguration;
+  /** Where the page is loaded from (URL, file:// URL or about:blank for raw HTML) */
+  input: string;
+  outputType: string;
+}
+
+export interface PageHookContext extends PluginContext {
+  page: Page;
+}
+
+export interface NavigationHookContext extends PageHookContext {
+  /** Main document response; null for raw HTML and some file inputs */
+  response: HTTPResponse | null;
+}
+
+export interface RenderHookContext extends PageHookContext {
+  /** Output path, bytes or stream, as returned to the caller */
+  output: string | Buffer | Readable;
+}
+
+export interface ErrorHookContext extends PluginContext {
+  /** The page, when the error happened after it was created */
+  page: Page | null;
+}
+
+/**
+ * A plugin is a named set of optional hooks. Hooks run in registration
+ * order and may be async; a hook that throws fails the conversion.
+ */
+export interface PrinteerPlugin {
+  name: string;
+  /** Once per browser, the first time a conversion uses it */
+  onBrowserLaunch?(browser: Browser, context: PluginContext): void | Promise<void>;
+  /** After the page is created and configured, before navigation */
+  onPageCreated?(context: PageHookContext): void | Promise<void>;
+  beforeNavigate?(context: PageHookContext): void | Promise<void>;
+  /** After the page has loaded and all wait conditions are met */
+  afterNavigate?(context: NavigationHookContext): void | Promise<void>;
+  beforeRender?(context: PageHookContext): void | Promise<void>;
+  afterRender?(context: RenderHookContext): void | Promise<void>;
+  /** Observe failures; errors thrown here are logged and ignored */
+  onError?(error: Error, context: ErrorHookContext): void | Promise<void>;
+}
+
+/**
+ * Plugin reference in a configuration file: a module path (relative to the
+ * config file) or package name, optionally with options for a factory export
+ */
+export type PluginSpec = string | { module: string; options?: Record<string, unknown> };
+
+/**
+ * What a plugin module may export (as default): a plugin or a factory
+ */
+export type PluginModuleExport = PrinteerPlugin | ((options: Record<string, unknown>) => PrinteerPlugin | Promise<PrinteerPlugin>);
+
+export class PluginError extends PrinteerError {
+  constructor(message: string, public pluginName: string, public hook?: PluginHookName, public cause?: Error) {
+    super(message, ErrorType.SYSTEM, 'PLUGIN_FAILED', {
+      details: hook ? { plugin: pluginName, hook } : { plugin: pluginName },
+      remediation: `Fix or remove the plugin '${pluginName}'.`,
+      cause
+    });
+    this.name = 'PluginError';
+  }
+}
+
+export class PluginLoadError extends PrinteerError {
+  constructor(message: string, public modulePath: string, public cause?: Error) {
+    super(message, ErrorType.CONFIGURATION, 'PLUGIN_LOAD_FAILED', {
+      details: { module: modulePath },
+      remediation: 'Check the plugin path or install the plugin package next to the configuration file.',
+      cause
+    });
+    this.name = 'PluginLoadError';
+  }
+}
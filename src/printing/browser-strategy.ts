@@ -0,0 +1,80 @@
+// Browser strategies - how the render pipeline acquires a browser and releases it
+
+import puppeteer, { Browser, PuppeteerLaunchOptions } from 'puppeteer';
+import type { BrowserManager } from './types/browser';
+
+export interface BrowserLease {
+  browser: Browser;
+  /** Give the browser back: close it (one-shot) or return it to the pool */
+  release(): Promise<void>;
+}
+
+export interface BrowserStrategy {
+  readonly name: 'oneshot' | 'pool';
+  acquire(): Promise<BrowserLease>;
+}
+
+/**
+ * Launch a browser per conversion and make sure its process is gone afterwards
+ */
+export class OneshotBrowserStrategy implements BrowserStrategy {
+  readonly name = 'oneshot';
+
+  constructor(private launchOptions: PuppeteerLaunchOptions) {}
+
+  async acquire(): Promise<BrowserLease> {
+    const browser = await puppeteer.launch(this.launchOptions);
+    return { browser, release: () => closeBrowser(browser) };
+  }
+}
+
+/**
+ * Borrow browsers from a pool
+ */
+export class PooledBrowserStrategy implements BrowserStrategy {
+  readonly name = 'pool';
+
+  /**
+   * @param onRelease Called after every release, e.g. to schedule idle cleanup
+   */
+  constructor(private manager: BrowserManager, private onRelease?: () => void) {}
+
+  async acquire(): Promise<BrowserLease> {
+    const instance = await this.manager.getBrowser();
+    return {
+      browser: instance.browser,
+      release: async () => {
+        try {
+          await this.manager.releaseBrowser(instance);
+        } catch (error) {
+          console.error('Failed to release browser to pool:', error);
+        }
+        this.onRelease?.();
+      }
+    };
+  }
+}
+
+async function closeBrowser(browser: Browser): Promise<void> {
+  try {
+    await browser.close();
+
+    // Aggressive process cleanup for one-shot mode
+    const process = browser.process();
+    if (process && !process.killed) {
+      // Give it a moment to close gracefully
+      await new Promise(resolve => setTimeout(resolve, 500));
+
+      // Force kill if still alive
+      if (!process.killed) {
+        try {
+          process.kill('SIGKILL');
+        } catch (error) {
+          // Process might already be dead
+        }
+      }
+    }
+  } catch (error) {
+    console.warn('Failed to close browser:', error);
+  }
+}
@@ -65,8 +65,8 @@ export class DefaultBrowserManager implements BrowserManager {
       // Pre-warm the pool with minimum browsers
       await this.warmUp();
 
-      // Check if we have any browsers after warm-up
-      if (this.pool.total === 0) {
+      // Check if we have any browsers after warm-up (an empty pool is valid when minSize is 0)
+      if (this.pool.minSize > 0 && this.pool.total === 0) {
         throw new Error('Failed to create any browsers during initialization');
       }
 
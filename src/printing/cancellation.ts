@@ -0,0 +1,177 @@
+// Cancellation - an AbortSignal and one end-to-end deadline shared by every conversion stage
+
+import { ConfigurationError, ErrorType, PrinteerError } from '../types/errors';
+
+export interface CancellationOptions {
+  /** Abort the conversion when this signal fires (e.g. the HTTP client disconnected) */
+  signal?: AbortSignal;
+  /** Total time budget in milliseconds for the whole conversion */
+  deadline?: number;
+}
+
+export class ConversionAbortedError extends PrinteerError {
+  constructor(message: string, public reason: 'aborted' | 'deadline', public stage?: string) {
+    super(
+      message,
+      ErrorType.SYSTEM,
+      reason === 'deadline' ? 'DEADLINE_EXCEEDED' : 'CONVERSION_ABORTED',
+      {
+        details: stage ? { stage } : {},
+        retryable: reason === 'deadline',
+        remediation: reason === 'deadline' ? 'Raise --deadline or the timeouts of the slow stage.' : undefined
+      }
+    );
+    this.name = 'ConversionAbortedError';
+  }
+}
+
+/**
+ * Tracks the remaining budget of one conversion. Stages clamp their own
+ * timeouts to what is left, and long operations are raced against
+ * cancellation so the caller can close the page and release the browser
+ * as soon as the signal fires or the deadline passes.
+ */
+export class ConversionBudget {
+  private readonly controller = new AbortController();
+  private readonly deadlineAt?: number;
+  private readonly timer?: ReturnType<typeof setTimeout>;
+  private readonly detach?: () => void;
+  private stage = 'start';
+
+  constructor(options: CancellationOptions = {}) {
+    if (options.deadline !== undefined && options.deadline !== null) {
+      if (!(options.deadline > 0)) {
+        throw new ConfigurationError(`Deadline must be a positive number of milliseconds, got ${options.deadline}`);
+      }
+      this.deadlineAt = Date.now() + options.deadline;
+      this.timer = setTimeout(() => {
+        this.abort(new ConversionAbortedError(
+          `Conversion exceeded its ${options.deadline}ms deadline during ${this.stage}`,
+          'deadline',
+          this.stage
+        ));
+      }, options.deadline);
+      this.timer.unref?.();
+    }
+
+    const signal = options.signal;
+    if (signal) {
+      const onAbort = () => {
+        this.abort(new ConversionAbortedError(`Conversion aborted during ${this.stage}`, 'aborted', this.stage));
+      };
+      if (signal.aborted) {
+        onAbort();
+      } else {
+        signal.addEventListener('abort', onAbort, { once: true });
+        this.detach = () => signal.removeEventListener('abort', onAbort);
+      }
+    }
+  }
+
+  get signal(): AbortSignal {
+    return this.controller.signal;
+  }
+
+  get aborted(): boolean {
+    return this.controller.signal.aborted;
+  }
+
+  /**
+   * Name the stage that is running, for error messages
+   */
+  enter(stage: string): void {
+    this.throwIfAborted();
+    this.stage = stage;
+  }
+
+  throwIfAborted(): void {
+    if (this.aborted) {
+      throw this.controller.signal.reason;
+    }
+  }
+
+  /**
+   * Clamp a stage timeout to the remaining budget. Never returns 0, which
+   * puppeteer treats as "no timeout".
+   */
+  timeout(stageTimeout: number): number {
+    this.throwIfAborted();
+    if (this.deadlineAt === undefined) {
+      return stageTimeout;
+    }
+    return Math.max(1, Math.min(stageTimeout, this.deadlineAt - Date.now()));
+  }
+
+  /**
+   * Resolve with `promise`, or reject as soon as the conversion is cancelled.
+   * `onLateResult` receives a value that arrives after cancellation so it can
+   * be released (e.g. a browser that finished launching).
+   */
+  async race<T>(promise: Promise<T>, onLateResult?: (value: T) => void | Promise<void>): Promise<T> {
+    this.throwIfAborted();
+
+    let removeListener = () => {};
+    const cancelled = new Promise<never>((_, reject) => {
+      const onAbort = () => reject(this.controller.signal.reason);
+      this.controller.signal.addEventListener('abort', onAbort, { once: true });
+      removeListener = () => this.controller.signal.removeEventListener('abort', onAbort);
+    });
+
+    try {
+      return await Promise.race([promise, cancelled]);
+    } catch (error) {
+      if (this.aborted && onLateResult) {
+        promise.then(value => onLateResult(value)).catch(() => {
+          // The operation failed on its own; nothing to release
+        });
+      }
+      throw error;
+    } finally {
+      removeListener();
+    }
+  }
+
+  /**
+   * Sleep for `ms`, cut short by cancellation
+   */
+  async delay(ms: number): Promise<void> {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    try {
+      await this.race(new Promise<void>(resolve => {
+        timer = setTimeout(resolve, ms);
+      }));
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Run `listener` when the conversion is cancelled. Returns an unsubscribe function.
+   */
+  onAbort(listener: (reason: ConversionAbortedError) => void): () => void {
+    const signal = this.controller.signal;
+    if (signal.aborted) {
+      listener(signal.reason);
+      return () => {};
+    }
+    const handler = () => listener(signal.reason);
+    signal.addEventListener('abort', handler, { once: true });
+    return () => signal.removeEventListener('abort', handler);
+  }
+
+  /**
+   * Stop the deadline timer and detach from the caller's signal
+   */
+  dispose(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+    this.detach?.();
+  }
+
+  private abort(reason: ConversionAbortedError): void {
+    if (!this.aborted) {
+      this.controller.abort(reason);
+    }
+  }
+}
@@ -0,0 +1,427 @@
+// Content extraction - the readable text of the rendered page as plain text or Markdown
+
+import type { Page } from 'puppeteer';
+import type { ExtractedLinkStyle, ExtractedTableStyle } from '../config/types/enhanced-config.types';
+
+export type ExtractionFormat = 'text' | 'markdown';
+
+export interface ExtractionOptions {
+  /** Keep only the main content of the page */
+  readerMode?: boolean;
+  /** Default inline */
+  links?: ExtractedLinkStyle;
+  /** Default markdown for Markdown and text for plain text */
+  tables?: ExtractedTableStyle;
+}
+
+/**
+ * A visible node of the rendered DOM: an element by its lowercase tag name,
+ * or `#text`. Links carry their absolute URL, images their source and
+ * preformatted blocks their text as laid out.
+ */
+export interface ContentNode {
+  tag: string;
+  text?: string;
+  href?: string;
+  src?: string;
+  alt?: string;
+  /** Language of a code block, from a `language-*` or `lang-*` class */
+  language?: string;
+  children?: ContentNode[];
+}
+
+export interface ContentSnapshot {
+  title: string;
+  url: string;
+  root: ContentNode;
+}
+
+/** Elements that start a block of their own; everything else flows inline */
+const BLOCK_TAGS = new Set([
+  'address', 'article', 'aside', 'blockquote', 'body', 'center', 'dd', 'details', 'div', 'dl', 'dt',
+  'fieldset', 'figcaption', 'figure', 'footer', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'header', 'hr',
+  'li', 'main', 'nav', 'ol', 'p', 'pre', 'section', 'summary', 'table', 'ul'
+]);
+
+interface RenderContext {
+  format: ExtractionFormat;
+  links: ExtractedLinkStyle;
+  tables: ExtractedTableStyle;
+  /** Link targets of reference-style links, numbered from 1 */
+  references: string[];
+}
+
+/**
+ * Extract the readable content of the loaded page. Runs after scripts and
+ * waits, so the result is what the page shows, not its source.
+ */
+export async function extractContent(page: Page, format: ExtractionFormat, options: ExtractionOptions = {}): Promise<string> {
+  const snapshot = await page.evaluate(snapshotContent, !!options.readerMode);
+  return renderContent(snapshot, format, options);
+}
+
+/**
+ * Write a content snapshot as plain text or Markdown. The page title becomes
+ * the first heading when the content has no `h1` of its own.
+ */
+export function renderContent(snapshot: ContentSnapshot, format: ExtractionFormat, options: ExtractionOptions = {}): string {
+  const context: RenderContext = {
+    format,
+    links: options.links || 'inline',
+    tables: options.tables || (format === 'markdown' ? 'markdown' : 'text'),
+    references: []
+  };
+
+  const blocks = renderBlocks(snapshot.root.children || [], context);
+  const title = snapshot.title.trim();
+  if (title && !hasHeading(snapshot.root)) {
+    blocks.unshift(format === 'markdown' ? `# ${escapeMarkdown(title)}` : title);
+  }
+  if (context.references.length > 0) {
+    blocks.push(context.references
+      .map((href, index) => format === 'markdown' ? `[${index + 1}]: ${href}` : `[${index + 1}] ${href}`)
+      .join('\n'));
+  }
+
+  const text = blocks.join('\n\n').replace(/\n{3,}/g, '\n\n').trim();
+  return text ? `${text}\n` : '';
+}
+
+function renderBlocks(nodes: ContentNode[], context: RenderContext): string[] {
+  const blocks: string[] = [];
+  let inline = '';
+  const flush = () => {
+    const paragraph = tidyInline(inline);
+    if (paragraph) {
+      blocks.push(paragraph);
+    }
+    inline = '';
+  };
+
+  for (const node of nodes) {
+    if (BLOCK_TAGS.has(node.tag)) {
+      flush();
+      blocks.push(...renderBlock(node, context));
+    } else {
+      inline += renderInline(node, context);
+    }
+  }
+  flush();
+  return blocks;
+}
+
+function renderBlock(node: ContentNode, context: RenderContext): string[] {
+  const markdown = context.format === 'markdown';
+  const children = node.children || [];
+
+  switch (node.tag) {
+    case 'h1':
+    case 'h2':
+    case 'h3':
+    case 'h4':
+    case 'h5':
+    case 'h6': {
+      const text = tidyInline(renderInlineChildren(children, context)).replace(/\n/g, ' ');
+      if (!text) {
+        return [];
+      }
+      return [markdown ? `${'#'.repeat(Number(node.tag[1]))} ${text}` : text];
+    }
+    case 'ul':
+    case 'ol':
+      return renderList(node, context);
+    case 'pre':
+      return renderPreformatted(node, markdown);
+    case 'blockquote': {
+      const quoted = renderBlocks(children, context).join('\n\n');
+      if (!quoted) {
+        return [];
+      }
+      return [markdown ? quoted.split('\n').map(line => line ? `> ${line}` : '>').join('\n') : quoted];
+    }
+    case 'hr':
+      return markdown ? ['---'] : [];
+    case 'table':
+      return renderTable(node, context);
+    default:
+      return renderBlocks(children, context);
+  }
+}
+
+/** Nested lists are indented under their item */
+function renderList(node: ContentNode, context: RenderContext): string[] {
+  const items = (node.children || []).filter(child => child.tag === 'li');
+  const lines = items.map((item, index) => {
+    const marker = node.tag === 'ol' ? `${index + 1}. ` : '- ';
+    const content = renderBlocks(item.children || [], context).join('\n');
+    return content
+      .split('\n')
+      .map((line, lineIndex) => lineIndex === 0 ? marker + line : line ? ' '.repeat(marker.length) + line : line)
+      .join('\n');
+  }).filter(line => line.trim().length > 0);
+  return lines.length > 0 ? [lines.join('\n')] : [];
+}
+
+function renderPreformatted(node: ContentNode, markdown: boolean): string[] {
+  const code = (node.text || '').replace(/^\n+|\s+$/g, '');
+  if (!code) {
+    return [];
+  }
+  if (!markdown) {
+    return [code];
+  }
+  // The fence has to be longer than any backtick run in the code
+  const longestRun = Math.max(0, ...(code.match(/`+/g) || []).map(run => run.length));
+  const fence = '`'.repeat(Math.max(3, longestRun + 1));
+  return [`${fence}${node.language || ''}\n${code}\n${fence}`];
+}
+
+/**
+ * Tables become pipe tables whose first row is the header, or tab-separated
+ * rows. Cells are flattened to one line.
+ */
+function renderTable(node: ContentNode, context: RenderContext): string[] {
+  if (context.tables === 'none') {
+    return [];
+  }
+
+  const rows: string[][] = [];
+  const collectRows = (parent: ContentNode) => {
+    for (const child of parent.children || []) {
+      if (child.tag === 'tr') {
+        rows.push((child.children || [])
+          .filter(cell => cell.tag === 'td' || cell.tag === 'th')
+          .map(cell => tidyInline(renderInlineChildren(cell.children || [], context)).replace(/\s*\n\s*/g, ' ')));
+      } else if (child.tag === 'thead' || child.tag === 'tbody' || child.tag === 'tfoot') {
+        collectRows(child);
+      }
+    }
+  };
+  collectRows(node);
+
+  const columns = Math.max(0, ...rows.map(row => row.length));
+  if (columns === 0) {
+    return [];
+  }
+  const padded = rows.map(row => [...row, ...Array(columns - row.length).fill('')]);
+
+  if (context.tables === 'text') {
+    return [padded.map(row => row.join('\t').trimEnd()).join('\n')];
+  }
+  const line = (row: string[]) => `| ${row.map(cell => cell.replace(/\|/g, '\\|')).join(' | ')} |`;
+  const [header, ...body] = padded;
+  return [[line(header), line(Array(columns).fill('---')), ...body.map(line)].join('\n')];
+}
+
+function renderInlineChildren(nodes: ContentNode[], context: RenderContext): string {
+  return nodes.map(node => renderInline(node, context)).join('');
+}
+
+function renderInline(node: ContentNode, context: RenderContext): string {
+  const markdown = context.format === 'markdown';
+
+  switch (node.tag) {
+    case '#text': {
+      const text = (node.text || '').replace(/\s+/g, ' ');
+      return markdown ? escapeMarkdown(text) : text;
+    }
+    case 'br':
+      return '\n';
+    case 'img':
+      // Inlined images (data URIs) would only add noise
+      return markdown && node.src && !node.src.startsWith('data:')
+        ? `![${escapeMarkdown((node.alt || '').replace(/\s+/g, ' ').trim())}](${node.src})`
+        : '';
+    case 'a':
+      return renderLink(node, context);
+    case 'code':
+    case 'kbd':
+    case 'samp': {
+      const code = plainText(node).replace(/\s+/g, ' ');
+      if (!markdown || !code.trim()) {
+        return code;
+      }
+      return code.includes('`') ? `\`\` ${code} \`\`` : `\`${code}\``;
+    }
+    case 'strong':
+    case 'b':
+      return emphasize(renderInlineChildren(node.children || [], context), markdown ? '**' : '');
+    case 'em':
+    case 'i':
+      return emphasize(renderInlineChildren(node.children || [], context), markdown ? '*' : '');
+    case 'del':
+    case 's':
+      return emphasize(renderInlineChildren(node.children || [], context), markdown ? '~~' : '');
+    default: {
+      const content = renderInlineChildren(node.children || [], context);
+      // Block elements nested in inline ones (cards inside links) still separate words
+      return BLOCK_TAGS.has(node.tag) || node.tag === 'td' || node.tag === 'th' ? ` ${content} ` : content;
+    }
+  }
+}
+
+function renderLink(node: ContentNode, context: RenderContext): string {
+  const content = renderInlineChildren(node.children || [], context);
+  const label = content.trim();
+  const href = node.href;
+  if (!label || !href || context.links === 'none' || /^javascript:/i.test(href)) {
+    return content;
+  }
+
+  const [leading] = content.match(/^\s*/) as RegExpMatchArray;
+  const [trailing] = content.match(/\s*$/) as RegExpMatchArray;
+  let link: string;
+  if (context.links === 'reference') {
+    let number = context.references.indexOf(href) + 1;
+    if (number === 0) {
+      number = context.references.push(href);
+    }
+    link = context.format === 'markdown' ? `[${label}][${number}]` : `${label} [${number}]`;
+  } else if (context.format === 'markdown') {
+    link = `[${label}](${href.replace(/[()\s]/g, char => encodeURIComponent(char))})`;
+  } else {
+    link = label === href ? href : `${label} (${href})`;
+  }
+  return leading + link + trailing;
+}
+
+/** Keep surrounding spaces outside the markers, or Markdown ignores them */
+function emphasize(content: string, marker: string): string {
+  if (!marker || !content.trim()) {
+    return content;
+  }
+  const [leading] = content.match(/^\s*/) as RegExpMatchArray;
+  const [trailing] = content.match(/\s*$/) as RegExpMatchArray;
+  return `${leading}${marker}${content.trim()}${marker}${trailing}`;
+}
+
+function plainText(node: ContentNode): string {
+  if (node.tag === '#text') {
+    return node.text || '';
+  }
+  return (node.children || []).map(plainText).join('');
+}
+
+function tidyInline(text: string): string {
+  return text
+    .split('\n')
+    .map(line => line.replace(/[ \t]+/g, ' ').trim())
+    .join('\n')
+    .replace(/^\n+|\n+$/g, '');
+}
+
+function escapeMarkdown(text: string): string {
+  return text.replace(/([\\`*_[\]])/g, '\\$1');
+}
+
+function hasHeading(node: ContentNode): boolean {
+  return node.tag === 'h1' || (node.children || []).some(hasHeading);
+}
+
+/**
+ * Runs in the page: the visible content tree of the document, or in reader
+ * mode of its main content without navigation, sidebars and footers
+ */
+function snapshotContent(readerMode: boolean): ContentSnapshot {
+  const doc = globalThis.document;
+  const view = globalThis.window;
+  type PageElement = typeof doc.body;
+  type PageNode = typeof doc.body.childNodes[number];
+  const skipped = new Set([
+    'script', 'style', 'noscript', 'template', 'svg', 'canvas', 'iframe', 'object', 'embed', 'video', 'audio',
+    'input', 'select', 'textarea', 'button', 'dialog', 'head', 'meta', 'link'
+  ]);
+  const boilerplate = 'nav, aside, footer, form, [role="navigation"], [role="complementary"], [role="contentinfo"], [role="banner"], [role="search"]';
+
+  const textLength = (element: PageElement): number => (element.innerText || '').trim().length;
+
+  // One article is the content; on pages with several (listings) main holds them
+  const findMainContent = (): PageElement | null => {
+    const articles = Array.from(doc.querySelectorAll('article')).filter(article => textLength(article) >= 200);
+    if (articles.length === 1) {
+      return articles[0];
+    }
+    const main = doc.querySelector<PageElement>('main, [role="main"]');
+    if (main && textLength(main) >= 200) {
+      return main;
+    }
+    // Otherwise the element holding the most paragraph text
+    const scores = new Map<PageElement, number>();
+    doc.querySelectorAll('p').forEach(paragraph => {
+      const parent = paragraph.parentElement;
+      if (parent) {
+        scores.set(parent, (scores.get(parent) || 0) + textLength(paragraph));
+      }
+    });
+    let best: PageElement | null = null;
+    let bestScore = 0;
+    scores.forEach((score, element) => {
+      if (score > bestScore) {
+        best = element;
+        bestScore = score;
+      }
+    });
+    return best && bestScore >= 200 ? best : doc.body;
+  };
+
+  const isHidden = (element: PageElement): boolean => {
+    if (element.hidden || element.getAttribute('aria-hidden') === 'true') {
+      return true;
+    }
+    const style = view.getComputedStyle(element);
+    return style.display === 'none' || style.visibility === 'hidden';
+  };
+
+  const languageOf = (element: PageElement): string | undefined => {
+    for (const candidate of [element, element.querySelector('code')]) {
+      const match = /(?:^|\s)lang(?:uage)?-([\w+#-]+)/.exec(candidate?.className || '');
+      if (match) {
+        return match[1];
+      }
+    }
+    return undefined;
+  };
+
+  const walk = (node: PageNode): ContentNode | null => {
+    if (node.nodeType === 3) {
+      return node.textContent ? { tag: '#text', text: node.textContent } : null;
+    }
+    if (node.nodeType !== 1) {
+      return null;
+    }
+    const element = node as PageElement;
+    const tag = element.tagName.toLowerCase();
+    if (skipped.has(tag) || isHidden(element) || (readerMode && element.matches(boilerplate))) {
+      return null;
+    }
+
+    const result: ContentNode = { tag };
+    if (tag === 'img') {
+      const image = element as typeof doc.images[number];
+      result.src = image.currentSrc || image.src;
+      result.alt = image.getAttribute('alt') || '';
+      return result;
+    }
+    if (tag === 'pre') {
+      result.text = element.innerText;
+      result.language = languageOf(element);
+      return result;
+    }
+    const link = element as typeof doc.links[number];
+    if (tag === 'a' && link.href) {
+      result.href = link.href;
+    }
+    const children = Array.from(element.childNodes).map(walk).filter(Boolean) as ContentNode[];
+    if (children.length > 0) {
+      result.children = children;
+    }
+    return result;
+  };
+
+  const root = (readerMode ? findMainContent() : doc.body) || doc.documentElement;
+  return {
+    title: doc.title || '',
+    url: doc.URL,
+    root: walk(root) || { tag: 'body' }
+  };
+}
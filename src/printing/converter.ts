@@ -1,20 +1,347 @@
-// Converter implementation placeholder
+// Conversion engine - renders a URL, local file or HTML to PDF, an image or an archive and reports a structured result
 
-import { PrinteerOptions, ConversionResult } from './types/conversion';
+import type { PuppeteerLaunchOptions } from 'puppeteer';
+import { stat } from 'fs/promises';
+import { normalize } from 'path';
+import { getDefaultBrowserOptions } from '../utils';
+import { BrowserManager } from './types/browser';
+import { resolveInputSource, describeInput, InputSource } from './input-source';
+import { ConversionBudget } from './cancellation';
+import { OneshotBrowserStrategy, PooledBrowserStrategy } from './browser-strategy';
+import { runRenderPipeline, resetReport, PipelineReport } from './pipeline';
+import type { PageOptions } from './pipeline';
+import { parseStatusRanges } from './http-status';
+import { parseLoginUrlPatterns } from './redirects';
+import { resolveOutputType, resolveFileOutputs } from './output-format';
+import { PluginRunner, getRegisteredPlugins } from '../plugins/plugin-manager';
+import { toPrinteerError } from '../errors/error-handler';
+import { runWithFallbacks } from '../errors/fallback-strategies';
+import { createRetryPolicy, retryWithBackoff } from '../errors/retry';
+import { ConfigurationError } from '../types/errors';
+import {
+  PrinteerOptions,
+  ConversionResult,
+  ConversionMetrics,
+  OutputType,
+  BrowserOptions
+} from './types/conversion';
+
+const VALID_WAIT_UNTIL = ['load', 'networkidle0', 'networkidle2'];
 
 export class DefaultConverter {
-  async convert(_options: PrinteerOptions): Promise<ConversionResult> {
-    // Implementation placeholder - will be implemented in task 7
-    throw new Error('Not implemented yet - will be implemented in task 7');
+  private metrics: ConversionMetrics = createEmptyMetrics();
+
+  /**
+   * @param browserManager Optional pool to borrow browsers from. When omitted,
+   * each conversion launches and closes its own browser (one-shot).
+   */
+  constructor(private browserManager?: BrowserManager) {}
+
+  async convert(options: PrinteerOptions): Promise<ConversionResult> {
+    const startTime = Date.now();
+    const outputFile = options.outputFile ? normalize(options.outputFile) : '';
+    const outputType = this.detectOutputType(outputFile, options.outputType);
+
+    const result: ConversionResult = {
+      outputFile,
+      outputType,
+      fileSize: 0,
+      duration: 0,
+      success: false
+    };
+
+    let source: InputSource | null = null;
+    let budget: ConversionBudget | null = null;
+    const report: PipelineReport = { timings: {} };
+
+    try {
+      const conversionBudget = new ConversionBudget({ signal: options.signal, deadline: options.deadline });
+      budget = conversionBudget;
+
+      const errors = this.getValidationErrors(options);
+      if (errors.length > 0) {
+        throw new ConfigurationError(`Invalid conversion options: ${errors.join(', ')}`);
+      }
+
+      const input = resolveInputSource(options.html !== undefined
+        ? { html: options.html, baseUrl: options.baseUrl }
+        : options.url as string);
+      source = input;
+
+      const plugins = new PluginRunner(getRegisteredPlugins(), { config: {}, input: describeInput(source), outputType });
+      const launchOptions = this.getLaunchOptions(options.browserOptions);
+      const pageOptions = { ...this.getPageOptions(options), args: launchOptions.args };
+      const outputs = options.outputs ? resolveFileOutputs(options.outputs) : undefined;
+
+      // Retryable failures run the whole conversion again, fallbacks included
+      const retryPolicy = createRetryPolicy({
+        attempts: options.retryAttempts,
+        initialDelay: options.retryDelay,
+        maxDelay: options.retryMaxDelay,
+        jitter: options.retryJitter
+      });
+      const output = await retryWithBackoff(() => {
+        resetReport(report);
+        return runWithFallbacks(pageOptions, attemptOptions => runRenderPipeline({
+          source: input,
+          target: outputFile ? { kind: 'file', path: outputFile } : { kind: 'buffer' },
+          outputType,
+          options: attemptOptions,
+          outputs,
+          // A fallback that replaced the launch flags needs a freshly launched browser
+          strategy: this.browserManager && attemptOptions.args === pageOptions.args
+            ? new PooledBrowserStrategy(this.browserManager)
+            : new OneshotBrowserStrategy({ ...launchOptions, args: attemptOptions.args }),
+          budget: conversionBudget,
+          plugins,
+          report,
+          describePage: true
+        }), {
+          strategies: options.fallbacks === false ? [] : undefined,
+          onFallback: applied => {
+            result.fallbacks = [...(result.fallbacks || []), applied];
+          }
+        });
+      }, retryPolicy, {
+        // The deadline covers every attempt, so an expired budget ends retrying
+        shouldRetry: error => error.retryable && !conversionBudget.aborted,
+        sleep: ms => conversionBudget.delay(ms),
+        onFailure: (error, attempt, delay) => {
+          if (retryPolicy.attempts > 0) {
+            result.attempts = [...(result.attempts || []), { attempt, error: error.toJSON(), ...(delay !== undefined ? { retryDelay: delay } : {}) }];
+          }
+        }
+      });
+
+      result.metadata = {
+        pageTitle: report.page?.title,
+        pageUrl: report.page?.url || describeInput(source),
+        timestamp: new Date(),
+        browserVersion: report.page?.browserVersion,
+        ...responseMetadata(report)
+      };
+      if (outputFile) {
+        result.fileSize = (await stat(outputFile)).size;
+      } else {
+        result.buffer = output as Buffer;
+        result.fileSize = (output as Buffer).length;
+      }
+      result.success = true;
+    } catch (error) {
+      const failure = toPrinteerError(error);
+      result.error = failure.message;
+      result.errorInfo = failure.toJSON();
+      const requested = source ? describeInput(source) : options.url || '';
+      result.metadata = {
+        pageUrl: report.page?.url || requested,
+        timestamp: new Date(),
+        ...responseMetadata(report)
+      };
+    } finally {
+      budget?.dispose();
+    }
+
+    result.timings = report.timings;
+    if (report.warnings) {
+      result.warnings = report.warnings;
+    }
+    if (report.diagnostics) {
+      result.diagnostics = report.diagnostics;
+    }
+    if (report.harFile) {
+      result.harFile = report.harFile;
+    }
+    if (report.outputFiles) {
+      result.outputFiles = report.outputFiles;
+    }
+    result.duration = Date.now() - startTime;
+    this.recordMetrics(result);
+
+    return result;
+  }
+
+  async validateOptions(options: PrinteerOptions): Promise<boolean> {
+    return this.getValidationErrors(options).length === 0;
   }
 
-  async validateOptions(_options: PrinteerOptions): Promise<boolean> {
-    // Implementation placeholder - will be implemented in task 7
-    throw new Error('Not implemented yet - will be implemented in task 7');
+  /**
+   * Running totals across every conversion performed by this converter
+   */
+  getMetrics(): ConversionMetrics {
+    return { ...this.metrics };
   }
 
-  private detectOutputType(_filename: string, _outputType?: string): string {
-    // Implementation placeholder - will be implemented in task 7
-    throw new Error('Not implemented yet - will be implemented in task 7');
+  resetMetrics(): void {
+    this.metrics = createEmptyMetrics();
   }
-}
\ No newline at end of file
+
+  private getValidationErrors(options: PrinteerOptions): string[] {
+    const errors: string[] = [];
+
+    if (!options || typeof options !== 'object') {
+      return ['options are required'];
+    }
+
+    if (options.html !== undefined) {
+      if (typeof options.html !== 'string') {
+        errors.push('html must be a string');
+      }
+    } else if (!options.url) {
+      errors.push('url or html is required');
+    } else {
+      try {
+        resolveInputSource(options.url);
+      } catch (error) {
+        errors.push(error instanceof Error ? error.message : String(error));
+      }
+    }
+
+    try {
+      resolveOutputType(options.outputFile || '', options.outputType);
+    } catch (error) {
+      errors.push(error instanceof Error ? error.message : String(error));
+    }
+    if (options.outputs) {
+      try {
+        resolveFileOutputs(options.outputFile ? [options.outputFile, ...options.outputs] : options.outputs);
+      } catch (error) {
+        errors.push(error instanceof Error ? error.message : String(error));
+      }
+    }
+
+    const renderOptions = options.renderOptions;
+    if (renderOptions?.waitUntil && !VALID_WAIT_UNTIL.includes(renderOptions.waitUntil)) {
+      errors.push(`renderOptions.waitUntil must be one of: ${VALID_WAIT_UNTIL.join(', ')}`);
+    }
+    if (renderOptions?.timeout !== undefined && renderOptions.timeout <= 0) {
+      errors.push('renderOptions.timeout must be positive');
+    }
+    if (renderOptions?.quality !== undefined && (renderOptions.quality < 1 || renderOptions.quality > 100)) {
+      errors.push('renderOptions.quality must be between 1 and 100');
+    }
+    if (renderOptions?.acceptedStatuses) {
+      try {
+        parseStatusRanges(renderOptions.acceptedStatuses);
+      } catch (error) {
+        errors.push(`renderOptions.acceptedStatuses: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+    const redirects = renderOptions?.redirects;
+    if (redirects?.maxRedirects !== undefined && !(redirects.maxRedirects >= 0)) {
+      errors.push('renderOptions.redirects.maxRedirects must not be negative');
+    }
+    if (redirects?.loginUrlPatterns) {
+      try {
+        parseLoginUrlPatterns(redirects.loginUrlPatterns);
+      } catch (error) {
+        errors.push(`renderOptions.redirects: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
+    const viewport = options.browserOptions?.viewport;
+    if (viewport && (viewport.width <= 0 || viewport.height <= 0)) {
+      errors.push('browserOptions.viewport width and height must be positive');
+    }
+
+    return errors;
+  }
+
+  /**
+   * Unsupported types are reported by validation; until then the result says PDF
+   */
+  private detectOutputType(filename: string, outputType?: string): OutputType {
+    try {
+      return resolveOutputType(filename, outputType);
+    } catch {
+      return 'pdf';
+    }
+  }
+
+  /**
+   * Map structured options onto the render pipeline's page options
+   */
+  private getPageOptions(options: PrinteerOptions): PageOptions {
+    const browserOptions = options.browserOptions || {};
+    const renderOptions = options.renderOptions || {};
+
+    return {
+      viewport: browserOptions.viewport,
+      userAgent: browserOptions.userAgent,
+      waitUntil: renderOptions.waitUntil,
+      waitTimeout: renderOptions.timeout || browserOptions.timeout,
+      stabilityCheck: renderOptions.stabilityCheck,
+      format: renderOptions.format,
+      margin: renderOptions.margin,
+      quality: renderOptions.quality,
+      fullPage: renderOptions.fullPage,
+      omitBackground: renderOptions.omitBackground,
+      markdownTheme: renderOptions.markdown?.theme,
+      markdownHighlight: renderOptions.markdown?.highlight,
+      acceptedStatuses: renderOptions.acceptedStatuses,
+      renderErrorPages: renderOptions.renderErrorPages,
+      maxRedirects: renderOptions.redirects?.maxRedirects,
+      allowCrossOriginRedirects: renderOptions.redirects?.allowCrossOrigin,
+      loginUrlPatterns: renderOptions.redirects?.loginUrlPatterns,
+      consoleLevels: renderOptions.diagnostics?.consoleLevels,
+      diagnosticThresholds: renderOptions.diagnostics?.failOn,
+      har: renderOptions.diagnostics?.har,
+      readerMode: renderOptions.extraction?.readerMode,
+      extractLinks: renderOptions.extraction?.links,
+      extractTables: renderOptions.extraction?.tables
+    };
+  }
+
+  private getLaunchOptions(browserOptions?: BrowserOptions): PuppeteerLaunchOptions {
+    const launchOptions: PuppeteerLaunchOptions = getDefaultBrowserOptions();
+
+    if (browserOptions?.headless !== undefined && browserOptions.headless !== 'auto') {
+      launchOptions.headless = browserOptions.headless;
+    }
+    if (browserOptions?.executablePath) {
+      launchOptions.executablePath = browserOptions.executablePath;
+    }
+    if (browserOptions?.timeout) {
+      launchOptions.timeout = browserOptions.timeout;
+    }
+    if (browserOptions?.args) {
+      launchOptions.args = Array.from(new Set([...(launchOptions.args || []), ...browserOptions.args]));
+    }
+
+    return launchOptions;
+  }
+
+  private recordMetrics(result: ConversionResult): void {
+    this.metrics.totalConversions++;
+    if (result.success) {
+      this.metrics.successfulConversions++;
+    } else {
+      this.metrics.failedConversions++;
+    }
+    this.metrics.totalProcessingTime += result.duration;
+    this.metrics.averageDuration = this.metrics.totalProcessingTime / this.metrics.totalConversions;
+    this.metrics.lastConversion = new Date();
+  }
+}
+
+function responseMetadata(report: PipelineReport): Partial<NonNullable<ConversionResult['metadata']>> {
+  if (!report.response) {
+    return {};
+  }
+  const { status, statusText, url, redirectChain } = report.response;
+  return {
+    httpStatus: status,
+    httpStatusText: statusText,
+    finalUrl: url,
+    ...(redirectChain.length > 0 ? { redirectChain } : {})
+  };
+}
+
+function createEmptyMetrics(): ConversionMetrics {
+  return {
+    totalConversions: 0,
+    successfulConversions: 0,
+    failedConversions: 0,
+    averageDuration: 0,
+    totalProcessingTime: 0
+  };
+}
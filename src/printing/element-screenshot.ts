@@ -0,0 +1,146 @@
+// Element screenshots - capture the page regions of elements chosen by CSS selector
+
+import { basename, dirname, extname, join } from 'path';
+import type { Page } from 'puppeteer';
+import { ConfigurationError } from '../types/errors';
+import type { PageOptions } from './pipeline';
+
+/** Screenshot target of an image output */
+export interface ElementSelection {
+  selector: string;
+  /** One image per matched element instead of the first match */
+  all: boolean;
+  /** Pixels added around each element */
+  padding: number;
+}
+
+/** Where a matched element is on the page (document coordinates) and its attributes */
+export interface ElementRegion {
+  clip: { x: number; y: number; width: number; height: number };
+  attributes: Record<string, string>;
+}
+
+/** One image of a selector-all screenshot and the file it is written to */
+export interface ElementImage {
+  path: string;
+  data: Buffer;
+}
+
+/**
+ * The element selection of the legacy options (`selector`, `selectorAll`,
+ * `selectorPadding`), or null for ordinary screenshots. Selector-all
+ * screenshots write several files, so they need an output file to name them.
+ */
+export function resolveElementSelection(
+  opts: Pick<PageOptions, 'selector' | 'selectorAll' | 'selectorPadding' | 'clip'>,
+  toFile: boolean
+): ElementSelection | null {
+  if (opts.selector && opts.selectorAll) {
+    throw new ConfigurationError('Invalid configuration: image.selector and image.selectorAll cannot be combined');
+  }
+  const selector: string | undefined = opts.selector || opts.selectorAll;
+  if (!selector) {
+    return null;
+  }
+  if (opts.clip) {
+    throw new ConfigurationError('Invalid configuration: image.clip cannot be combined with a selector');
+  }
+  const padding = opts.selectorPadding ?? 0;
+  if (typeof padding !== 'number' || !Number.isFinite(padding) || padding < 0) {
+    throw new ConfigurationError('Invalid configuration: image.padding must be a non-negative number of pixels');
+  }
+  if (opts.selectorAll && !toFile) {
+    throw new ConfigurationError('Invalid configuration: image.selectorAll writes one file per element and needs an output file');
+  }
+  return { selector, all: !!opts.selectorAll, padding };
+}
+
+/**
+ * Measure the first element matching the selector, or every visible match
+ * in document order. No match fails the conversion.
+ */
+export async function locateElements(page: Page, selection: ElementSelection): Promise<ElementRegion[]> {
+  const regions = await page.evaluate(measureElements, selection.selector, selection.all, selection.padding);
+  if (regions.length === 0) {
+    throw new Error(`No element matches screenshot selector ${selection.selector}`);
+  }
+  return regions;
+}
+
+/**
+ * The file of the element at `index` (0-based) of a selector-all screenshot.
+ * `{index}` becomes its 1-based position and `{attr:name}` the value of its
+ * attribute, made filename-safe; elements without the attribute use their
+ * position. Patterns without placeholders get `-{index}` before the extension.
+ */
+export function elementFilename(pattern: string, index: number, attributes: Record<string, string>): string {
+  const position = String(index + 1);
+  const name = basename(pattern);
+  if (!/\{index\}|\{attr:[^}]+\}/.test(name)) {
+    const extension = extname(name);
+    return join(dirname(pattern), `${basename(name, extension)}-${position}${extension}`);
+  }
+  const resolved = name
+    .replace(/\{index\}/g, position)
+    .replace(/\{attr:([^}]+)\}/g, (_match, attribute: string) => sanitizeAttribute(attributes[attribute.trim()]) || position);
+  return join(dirname(pattern), resolved);
+}
+
+/**
+ * Files for every region of a selector-all screenshot; names that collide
+ * (elements sharing an attribute value) get their position appended
+ */
+export function elementFilenames(pattern: string, regions: ElementRegion[]): string[] {
+  const seen = new Set<string>();
+  return regions.map((region, index) => {
+    let file = elementFilename(pattern, index, region.attributes);
+    if (seen.has(file)) {
+      const extension = extname(file);
+      file = join(dirname(file), `${basename(file, extension)}-${index + 1}${extension}`);
+    }
+    seen.add(file);
+    return file;
+  });
+}
+
+function sanitizeAttribute(value: string | undefined): string {
+  return (value || '')
+    .replace(/[^\w.-]+/g, '-')
+    .replace(/^[-.]+|-+$/g, '')
+    .substring(0, 100);
+}
+
+/**
+ * Runs in the page: the padded regions of the matched elements, clamped to
+ * the document. Elements without a box (hidden, empty) are left out.
+ */
+function measureElements(selector: string, all: boolean, padding: number): ElementRegion[] {
+  const doc = globalThis.document;
+  const view = globalThis.window;
+  const root = doc.documentElement;
+  const documentWidth = Math.max(root.scrollWidth, root.clientWidth);
+  const documentHeight = Math.max(root.scrollHeight, root.clientHeight);
+
+  const first = doc.querySelector(selector);
+  const elements = all ? Array.from(doc.querySelectorAll(selector)) : first ? [first] : [];
+  const regions: ElementRegion[] = [];
+  for (const element of elements) {
+    const rect = element.getBoundingClientRect();
+    if (rect.width === 0 || rect.height === 0) {
+      continue;
+    }
+    const left = Math.max(0, rect.left + view.scrollX - padding);
+    const top = Math.max(0, rect.top + view.scrollY - padding);
+    const right = Math.min(documentWidth, rect.right + view.scrollX + padding);
+    const bottom = Math.min(documentHeight, rect.bottom + view.scrollY + padding);
+    const attributes: Record<string, string> = {};
+    for (const { name, value } of Array.from(element.attributes)) {
+      attributes[name] = value;
+    }
+    regions.push({
+      clip: { x: left, y: top, width: Math.max(1, right - left), height: Math.max(1, bottom - top) },
+      attributes
+    });
+  }
+  return regions;
+}
@@ -0,0 +1,106 @@
+// Emulation - media features, geolocation and network conditions of a page
+
+import type { Browser, Page } from 'puppeteer';
+import type { GeolocationConfig, NetworkProfile, NetworkThrottling } from '../config/types/enhanced-config.types';
+import { ConfigurationError } from '../types/errors';
+import type { PageOptions } from './pipeline';
+
+/** Network conditions of the named profiles, as Chrome DevTools throttles them */
+export const NETWORK_PROFILES: Record<NetworkProfile, Required<NetworkThrottling>> = {
+  'offline': { offline: true, downloadThroughput: 0, uploadThroughput: 0, latency: 0 },
+  'slow-3g': { offline: false, downloadThroughput: 500 * 1000 / 8 * 0.8, uploadThroughput: 500 * 1000 / 8 * 0.8, latency: 400 * 5 },
+  'fast-3g': { offline: false, downloadThroughput: 1.6 * 1000 * 1000 / 8 * 0.9, uploadThroughput: 750 * 1000 / 8 * 0.9, latency: 150 * 3.75 },
+  '4g': { offline: false, downloadThroughput: 9 * 1000 * 1000 / 8 * 0.9, uploadThroughput: 1.5 * 1000 * 1000 / 8 * 0.9, latency: 60 * 2.75 }
+};
+
+/** The network conditions of a profile name or of custom settings */
+export function resolveNetworkThrottling(throttling: NetworkProfile | NetworkThrottling): Required<NetworkThrottling> {
+  if (typeof throttling === 'string') {
+    const profile = NETWORK_PROFILES[throttling];
+    if (!profile) {
+      throw new ConfigurationError(`Invalid configuration: unknown network profile ${throttling} (supported: ${Object.keys(NETWORK_PROFILES).join(', ')})`);
+    }
+    return profile;
+  }
+  return {
+    offline: !!throttling.offline,
+    downloadThroughput: throttling.downloadThroughput ?? -1,
+    uploadThroughput: throttling.uploadThroughput ?? -1,
+    latency: throttling.latency ?? 0
+  };
+}
+
+/**
+ * Apply the emulation options of the legacy options (`colorScheme`,
+ * `reducedMotion`, `geolocation`, `networkThrottling`) before navigation.
+ * Geolocation also grants the permission, so pages get the position
+ * without a prompt.
+ */
+export async function applyEmulation(
+  page: Page,
+  opts: Pick<PageOptions, 'colorScheme' | 'reducedMotion' | 'geolocation' | 'networkThrottling'>
+): Promise<void> {
+  // Every call replaces all emulated media features, so they are set together
+  const features = [
+    ...(opts.colorScheme ? [{ name: 'prefers-color-scheme', value: opts.colorScheme }] : []),
+    ...(opts.reducedMotion ? [{ name: 'prefers-reduced-motion', value: opts.reducedMotion }] : [])
+  ];
+  if (features.length > 0) {
+    await page.emulateMediaFeatures(features);
+  }
+
+  if (opts.geolocation) {
+    await emulateGeolocation(page, opts.geolocation);
+  }
+
+  if (opts.networkThrottling) {
+    const { offline, ...conditions } = resolveNetworkThrottling(opts.networkThrottling);
+    if (offline) {
+      await page.setOfflineMode(true);
+    } else {
+      await page.emulateNetworkConditions({
+        download: conditions.downloadThroughput,
+        upload: conditions.uploadThroughput,
+        latency: conditions.latency
+      });
+    }
+  }
+}
+
+/**
+ * Open the page of a conversion. Geolocation conversions get a browser
+ * context of their own: the permission they grant, and its removal, reach
+ * no other conversion running in a pooled browser.
+ */
+export async function openPage(browser: Browser, opts: Pick<PageOptions, 'geolocation'>): Promise<Page> {
+  if (!opts.geolocation) {
+    return browser.newPage();
+  }
+  const context = await browser.createIncognitoBrowserContext();
+  try {
+    return await context.newPage();
+  } catch (error) {
+    await context.close().catch(() => undefined);
+    throw error;
+  }
+}
+
+/** Close the page, and the context opened for it with its permissions */
+export async function closePage(page: Page): Promise<void> {
+  const context = page.browserContext();
+  await page.close();
+  if (context.isIncognito()) {
+    await context.close();
+  }
+}
+
+async function emulateGeolocation(page: Page, { latitude, longitude, accuracy = 0 }: GeolocationConfig): Promise<void> {
+  // Local inputs are served from an origin that is not known yet, so the grant covers the page's context (see openPage)
+  const session = await page.browser().target().createCDPSession();
+  try {
+    await session.send('Browser.grantPermissions', { permissions: ['geolocation'], browserContextId: page.browserContext().id });
+  } finally {
+    await session.detach().catch(() => undefined);
+  }
+  await page.setGeolocation({ latitude, longitude, accuracy });
+}
@@ -0,0 +1,379 @@
+// HAR export - records the network activity of a page as a HAR 1.2 log
+
+import type { CDPSession, Page, Protocol } from 'puppeteer';
+import { writeFile } from 'fs/promises';
+import { extname } from 'path';
+
+export interface HarHeader {
+  name: string;
+  value: string;
+}
+
+export interface HarTimings {
+  blocked: number;
+  dns: number;
+  connect: number;
+  send: number;
+  wait: number;
+  receive: number;
+  ssl: number;
+}
+
+export interface HarEntry {
+  pageref: string;
+  startedDateTime: string;
+  /** Total milliseconds, the sum of the non-negative timings */
+  time: number;
+  request: {
+    method: string;
+    url: string;
+    httpVersion: string;
+    cookies: unknown[];
+    headers: HarHeader[];
+    queryString: HarHeader[];
+    postData?: { mimeType: string; text: string };
+    headersSize: number;
+    bodySize: number;
+  };
+  response: {
+    status: number;
+    statusText: string;
+    httpVersion: string;
+    cookies: unknown[];
+    headers: HarHeader[];
+    content: { size: number; mimeType: string };
+    redirectURL: string;
+    headersSize: number;
+    bodySize: number;
+    /** Bytes received over the network, headers included */
+    _transferSize: number;
+  };
+  cache: Record<string, never>;
+  timings: HarTimings;
+  serverIPAddress?: string;
+  _resourceType: string;
+  /** Why the request failed, e.g. net::ERR_NAME_NOT_RESOLVED */
+  _error?: string;
+  /** The request was aborted because its resource type is in `blockResources` */
+  _blockedByConfig?: boolean;
+}
+
+export interface HarLog {
+  log: {
+    version: '1.2';
+    creator: { name: string; version: string };
+    browser?: { name: string; version: string };
+    pages: Array<{
+      startedDateTime: string;
+      id: string;
+      title: string;
+      pageTimings: { onContentLoad: number; onLoad: number };
+    }>;
+    entries: HarEntry[];
+  };
+}
+
+/**
+ * Totals of a recording; the batch reports them as `pageMetrics`
+ */
+export interface NetworkSummary {
+  /** Requests the page made, including failed and blocked ones */
+  resourceCount: number;
+  /** Bytes transferred over the network */
+  totalSize: number;
+  /** Milliseconds from the first request to the load event (or the last response, without one) */
+  loadTime: number;
+}
+
+export interface NetworkRecorderOptions {
+  /** Resource types the conversion blocks on purpose; their entries are marked `_blockedByConfig` */
+  blockedResourceTypes?: string[];
+}
+
+const PAGE_ID = 'page_1';
+
+interface PendingEntry {
+  entry: HarEntry;
+  /** Monotonic seconds the request was sent */
+  sentAt: number;
+  timing?: Protocol.Network.ResourceTiming;
+  /** Monotonic seconds the response headers arrived */
+  respondedAt?: number;
+  /** Encoded bytes received with the response headers */
+  headerBytes: number;
+}
+
+/**
+ * Records every request of a page through its own DevTools session. Response
+ * bodies are not kept, only their sizes.
+ */
+export class NetworkRecorder {
+  private entries: PendingEntry[] = [];
+  private inFlight = new Map<string, PendingEntry>();
+  private startedAt?: { timestamp: number; wallTime: number };
+  private lastActivity = 0;
+  private contentLoadedAt?: number;
+  private loadedAt?: number;
+  private documentUrl = '';
+
+  private constructor(private session: CDPSession, private options: NetworkRecorderOptions) {}
+
+  static async start(page: Page, options: NetworkRecorderOptions = {}): Promise<NetworkRecorder> {
+    const session = await page.target().createCDPSession();
+    const recorder = new NetworkRecorder(session, options);
+    recorder.listen();
+    await session.send('Network.enable');
+    await session.send('Page.enable');
+    return recorder;
+  }
+
+  /**
+   * Stop recording; the entries collected so far are kept
+   */
+  async stop(): Promise<void> {
+    try {
+      await this.session.detach();
+    } catch {
+      // The session ends with the page
+    }
+  }
+
+  summary(): NetworkSummary {
+    const start = this.startedAt?.timestamp;
+    const end = this.loadedAt ?? this.lastActivity;
+    return {
+      resourceCount: this.entries.length,
+      totalSize: this.entries.reduce((total, { entry }) => total + Math.max(0, entry.response._transferSize), 0),
+      loadTime: start !== undefined && end >= start ? toMs(end - start) : 0
+    };
+  }
+
+  /**
+   * @param page - Page title and `browser.version()` string, when known
+   */
+  toHar(page: { title?: string; browserVersion?: string } = {}): HarLog {
+    const start = this.startedAt;
+    const [browserName, browserVersion] = (page.browserVersion || '').split('/');
+    const since = (timestamp?: number) => (start && timestamp !== undefined ? toMs(timestamp - start.timestamp) : -1);
+    return {
+      log: {
+        version: '1.2',
+        creator: { name: 'printeer', version: '' },
+        ...(browserVersion ? { browser: { name: browserName, version: browserVersion } } : {}),
+        pages: start ? [{
+          startedDateTime: new Date(start.wallTime * 1000).toISOString(),
+          id: PAGE_ID,
+          title: page.title || this.documentUrl,
+          pageTimings: { onContentLoad: since(this.contentLoadedAt), onLoad: since(this.loadedAt) }
+        }] : [],
+        entries: this.entries.map(({ entry }) => entry)
+      }
+    };
+  }
+
+  private listen(): void {
+    this.session.on('Network.requestWillBeSent', (event: Protocol.Network.RequestWillBeSentEvent) => {
+      // A redirect reuses the request id; the previous hop ends with the redirect response
+      const previous = this.inFlight.get(event.requestId);
+      if (previous && event.redirectResponse) {
+        this.applyResponse(previous, event.redirectResponse, event.timestamp);
+        previous.entry.response.redirectURL = event.request.url;
+        this.finish(event.requestId, event.timestamp, event.redirectResponse.encodedDataLength);
+      }
+
+      if (!this.startedAt) {
+        this.startedAt = { timestamp: event.timestamp, wallTime: event.wallTime };
+        this.documentUrl = event.request.url;
+      }
+      this.lastActivity = Math.max(this.lastActivity, event.timestamp);
+
+      const pending: PendingEntry = {
+        entry: createEntry(event),
+        sentAt: event.timestamp,
+        headerBytes: 0
+      };
+      this.entries.push(pending);
+      this.inFlight.set(event.requestId, pending);
+    });
+
+    this.session.on('Network.responseReceived', (event: Protocol.Network.ResponseReceivedEvent) => {
+      const pending = this.inFlight.get(event.requestId);
+      if (pending) {
+        this.applyResponse(pending, event.response, event.timestamp);
+      }
+    });
+
+    this.session.on('Network.dataReceived', (event: Protocol.Network.DataReceivedEvent) => {
+      const pending = this.inFlight.get(event.requestId);
+      if (pending) {
+        pending.entry.response.content.size += event.dataLength;
+      }
+    });
+
+    this.session.on('Network.loadingFinished', (event: Protocol.Network.LoadingFinishedEvent) => {
+      this.finish(event.requestId, event.timestamp, event.encodedDataLength);
+    });
+
+    this.session.on('Network.loadingFailed', (event: Protocol.Network.LoadingFailedEvent) => {
+      const pending = this.inFlight.get(event.requestId);
+      if (!pending) {
+        return;
+      }
+      pending.entry._error = event.errorText;
+      if ((this.options.blockedResourceTypes || []).includes(pending.entry._resourceType)) {
+        pending.entry._blockedByConfig = true;
+      }
+      this.finish(event.requestId, event.timestamp, 0);
+    });
+
+    this.session.on('Page.domContentEventFired', (event: Protocol.Page.DomContentEventFiredEvent) => {
+      this.contentLoadedAt ??= event.timestamp;
+    });
+
+    this.session.on('Page.loadEventFired', (event: Protocol.Page.LoadEventFiredEvent) => {
+      this.loadedAt ??= event.timestamp;
+    });
+  }
+
+  private applyResponse(pending: PendingEntry, response: Protocol.Network.Response, timestamp: number): void {
+    const { entry } = pending;
+    const httpVersion = response.protocol || '';
+    entry.request.httpVersion = httpVersion;
+    entry.response = {
+      ...entry.response,
+      status: response.status,
+      statusText: response.statusText,
+      httpVersion,
+      headers: toHeaders(response.headers),
+      content: { size: entry.response.content.size, mimeType: response.mimeType || '' }
+    };
+    if (response.requestHeaders) {
+      entry.request.headers = toHeaders(response.requestHeaders);
+    }
+    if (response.remoteIPAddress) {
+      entry.serverIPAddress = response.remoteIPAddress;
+    }
+    pending.timing = response.timing;
+    pending.respondedAt = timestamp;
+    pending.headerBytes = response.encodedDataLength || 0;
+  }
+
+  private finish(requestId: string, timestamp: number, encodedDataLength: number): void {
+    const pending = this.inFlight.get(requestId);
+    if (!pending) {
+      return;
+    }
+    this.inFlight.delete(requestId);
+    this.lastActivity = Math.max(this.lastActivity, timestamp);
+
+    const { entry } = pending;
+    entry.response._transferSize = encodedDataLength;
+    entry.response.bodySize = encodedDataLength > 0 ? Math.max(0, encodedDataLength - pending.headerBytes) : -1;
+    entry.timings = computeTimings(pending, timestamp);
+    entry.time = Object.entries(entry.timings)
+      .filter(([phase, ms]) => phase !== 'ssl' && ms > 0)
+      .reduce((total, [, ms]) => total + ms, 0);
+  }
+}
+
+/**
+ * `report.pdf` → `report.har`
+ */
+export function harPathFor(outputPath: string): string {
+  const extension = extname(outputPath);
+  return `${extension ? outputPath.slice(0, -extension.length) : outputPath}.har`;
+}
+
+export async function writeHar(path: string, har: HarLog): Promise<void> {
+  await writeFile(path, JSON.stringify(har, null, 2));
+}
+
+function createEntry(event: Protocol.Network.RequestWillBeSentEvent): HarEntry {
+  const { request } = event;
+  const postData = request.postData;
+  return {
+    pageref: PAGE_ID,
+    startedDateTime: new Date(event.wallTime * 1000).toISOString(),
+    time: 0,
+    request: {
+      method: request.method,
+      url: request.url,
+      httpVersion: '',
+      cookies: [],
+      headers: toHeaders(request.headers),
+      queryString: toQueryString(request.url),
+      ...(postData !== undefined ? {
+        postData: { mimeType: headerValue(request.headers, 'content-type') || '', text: postData }
+      } : {}),
+      headersSize: -1,
+      bodySize: postData !== undefined ? Buffer.byteLength(postData) : 0
+    },
+    response: {
+      status: 0,
+      statusText: '',
+      httpVersion: '',
+      cookies: [],
+      headers: [],
+      content: { size: 0, mimeType: '' },
+      redirectURL: '',
+      headersSize: -1,
+      bodySize: -1,
+      _transferSize: 0
+    },
+    cache: {},
+    timings: { blocked: -1, dns: -1, connect: -1, send: 0, wait: 0, receive: 0, ssl: -1 },
+    _resourceType: (event.type || 'other').toLowerCase()
+  };
+}
+
+/**
+ * HAR phases from Chrome's resource timing. Requests without one (cache hits,
+ * failures before a response) only get wait and receive from the event times.
+ */
+function computeTimings(pending: PendingEntry, finishedAt: number): HarTimings {
+  const { timing, sentAt, respondedAt } = pending;
+  if (!timing) {
+    const wait = respondedAt !== undefined ? toMs(respondedAt - sentAt) : toMs(finishedAt - sentAt);
+    const receive = respondedAt !== undefined ? toMs(finishedAt - respondedAt) : 0;
+    return { blocked: -1, dns: -1, connect: -1, send: 0, wait, receive, ssl: -1 };
+  }
+
+  const span = (start: number, end: number) => (start >= 0 && end >= start ? round(end - start) : -1);
+  const firstPhase = [timing.dnsStart, timing.connectStart, timing.sendStart].find(ms => ms >= 0);
+  return {
+    blocked: firstPhase !== undefined ? round(firstPhase) : -1,
+    dns: span(timing.dnsStart, timing.dnsEnd),
+    connect: span(timing.connectStart, timing.connectEnd),
+    send: Math.max(0, round(timing.sendEnd - timing.sendStart)),
+    wait: Math.max(0, round(timing.receiveHeadersEnd - timing.sendEnd)),
+    receive: Math.max(0, toMs(finishedAt - timing.requestTime) - round(timing.receiveHeadersEnd)),
+    ssl: span(timing.sslStart, timing.sslEnd)
+  };
+}
+
+function toHeaders(headers: Record<string, unknown> = {}): HarHeader[] {
+  // Chrome joins repeated headers with newlines
+  return Object.entries(headers).flatMap(([name, value]) =>
+    String(value).split('\n').map(line => ({ name, value: line })));
+}
+
+function headerValue(headers: Record<string, unknown>, name: string): string | undefined {
+  const key = Object.keys(headers).find(header => header.toLowerCase() === name);
+  return key !== undefined ? String(headers[key]) : undefined;
+}
+
+function toQueryString(url: string): HarHeader[] {
+  try {
+    return [...new URL(url).searchParams].map(([name, value]) => ({ name, value }));
+  } catch {
+    return [];
+  }
+}
+
+function toMs(seconds: number): number {
+  return round(seconds * 1000);
+}
+
+function round(ms: number): number {
+  return Math.round(ms * 1000) / 1000;
+}
@@ -0,0 +1,221 @@
+// Page archives - MHTML snapshots and self-contained HTML with every asset inlined as a data URI
+
+import type { CDPSession, Page, Protocol } from 'puppeteer';
+
+/** Resources larger than this keep their URL instead of being inlined */
+export const MAX_INLINED_RESOURCE_SIZE = 10 * 1024 * 1024;
+
+/** Resource types worth inlining; scripts are dropped and media stays remote */
+const INLINED_RESOURCE_TYPES = new Set(['Stylesheet', 'Image', 'Font']);
+
+/**
+ * What the browser loaded, by absolute URL: data URIs for images and fonts,
+ * and the text of stylesheets so their own references can be rewritten
+ */
+export interface ArchiveResources {
+  dataUris: Record<string, string>;
+  stylesheets: Record<string, string>;
+}
+
+/**
+ * Capture the page as MHTML (`Page.captureSnapshot`): the document, frames
+ * and subresources in one multipart file
+ */
+export async function captureMhtml(page: Page): Promise<Buffer> {
+  const session = await page.target().createCDPSession();
+  try {
+    const { data } = await session.send('Page.captureSnapshot', { format: 'mhtml' });
+    return Buffer.from(data, 'utf8');
+  } finally {
+    await session.detach().catch(() => undefined);
+  }
+}
+
+/**
+ * Capture the rendered DOM as one HTML file that opens offline: stylesheets
+ * become `<style>` blocks and images, fonts and CSS references become data
+ * URIs taken from what the browser already loaded. Scripts are removed, since
+ * the DOM is already their result; canvases are saved as images.
+ */
+export async function captureHtmlArchive(page: Page): Promise<Buffer> {
+  const session = await page.target().createCDPSession();
+  let resources: ArchiveResources;
+  try {
+    resources = await collectResources(session);
+  } finally {
+    await session.detach().catch(() => undefined);
+  }
+
+  const html = await page.evaluate(inlineDocument, resources);
+  return Buffer.from(html, 'utf8');
+}
+
+/**
+ * Read the content of every stylesheet, image and font in the page's frames.
+ * Resources the browser no longer holds are left out and keep their URL.
+ */
+export async function collectResources(session: CDPSession): Promise<ArchiveResources> {
+  await session.send('Page.enable');
+  const { frameTree } = await session.send('Page.getResourceTree');
+  const resources: ArchiveResources = { dataUris: {}, stylesheets: {} };
+
+  const pending = new Map<string, { frameId: string; resource: Protocol.Page.FrameResource }>();
+  const visit = (tree: Protocol.Page.FrameResourceTree) => {
+    for (const resource of tree.resources) {
+      if (isInlinable(resource) && !pending.has(resource.url)) {
+        pending.set(resource.url, { frameId: tree.frame.id, resource });
+      }
+    }
+    tree.childFrames?.forEach(visit);
+  };
+  visit(frameTree);
+
+  for (const { frameId, resource } of pending.values()) {
+    try {
+      const { content, base64Encoded } = await session.send('Page.getResourceContent', { frameId, url: resource.url });
+      const bytes = Buffer.from(content, base64Encoded ? 'base64' : 'utf8');
+      if (resource.type === 'Stylesheet') {
+        resources.stylesheets[resource.url] = bytes.toString('utf8');
+      } else {
+        resources.dataUris[resource.url] = `data:${resource.mimeType || 'application/octet-stream'};base64,${bytes.toString('base64')}`;
+      }
+    } catch {
+      // Evicted from memory; the archive links to the original URL
+    }
+  }
+  return resources;
+}
+
+function isInlinable(resource: Protocol.Page.FrameResource): boolean {
+  return INLINED_RESOURCE_TYPES.has(resource.type)
+    && !resource.failed
+    && !resource.canceled
+    && !resource.url.startsWith('data:')
+    && (resource.contentSize === undefined || resource.contentSize <= MAX_INLINED_RESOURCE_SIZE);
+}
+
+/**
+ * Runs in the page: serialize a copy of the document with its resources inlined
+ */
+function inlineDocument(resources: ArchiveResources): string {
+  const doc = globalThis.document;
+  const base: string = doc.baseURI;
+
+  const absolute = (value: string, from: string): string | null => {
+    try {
+      return new URL(value, from).href;
+    } catch {
+      return null;
+    }
+  };
+  // Fragment references (SVG filters, anchors) point into the document itself
+  const inline = (value: string, from: string): string => {
+    const trimmed = value.trim();
+    if (!trimmed || trimmed.startsWith('data:') || trimmed.startsWith('#')) {
+      return value;
+    }
+    const url = absolute(trimmed, from);
+    return url ? resources.dataUris[url] || url : value;
+  };
+  const rewriteCss = (css: string, from: string, depth: number): string => css
+    .replace(/@import\s+(?:url\(\s*)?(['"]?)([^'")\s;]+)\1(?:\s*\))?/g, (match, _quote, href) => {
+      const url = absolute(href, from);
+      const text = url ? resources.stylesheets[url] : undefined;
+      if (text === undefined || depth > 8) {
+        return match;
+      }
+      // Escaped parentheses keep the url() rewrite below out of the imported sheet
+      const encoded = encodeURIComponent(rewriteCss(text, url as string, depth + 1)).replace(/[()']/g, char => `%${char.charCodeAt(0).toString(16)}`);
+      return `@import url("data:text/css;charset=utf-8,${encoded}")`;
+    })
+    .replace(/url\(\s*(['"]?)([^'")]+)\1\s*\)/g, (match, _quote, href) =>
+      href.startsWith('data:') ? match : `url("${inline(href, from)}")`);
+  const rewriteSrcset = (srcset: string): string => srcset
+    .split(',')
+    .map(candidate => {
+      const [url, ...descriptors] = candidate.trim().split(/\s+/);
+      return [inline(url, base), ...descriptors].join(' ');
+    })
+    .join(', ');
+
+  const root = doc.documentElement.cloneNode(true) as typeof doc.documentElement;
+  // Only called for elements selected by the attribute
+  const attribute = (element: { getAttribute(name: string): string | null }, name: string): string => element.getAttribute(name) || '';
+
+  // Styles added through the CSSOM (CSS-in-JS) have no text of their own
+  const clonedStyles = root.querySelectorAll('style');
+  doc.querySelectorAll('style').forEach((style, index) => {
+    const text = style.textContent || Array.from(style.sheet?.cssRules || []).map(rule => rule.cssText).join('\n');
+    clonedStyles[index].textContent = rewriteCss(text, base, 0);
+  });
+
+  // Canvases (charts) only exist as pixels
+  const clonedCanvases = root.querySelectorAll('canvas');
+  doc.querySelectorAll('canvas').forEach((canvas, index) => {
+    try {
+      const image = doc.createElement('img');
+      for (const { name, value } of Array.from(canvas.attributes)) {
+        image.setAttribute(name, value);
+      }
+      image.setAttribute('src', canvas.toDataURL());
+      clonedCanvases[index].replaceWith(image);
+    } catch {
+      // Tainted by cross-origin content; left blank
+    }
+  });
+
+  root.querySelectorAll('script').forEach(script => {
+    if (!/json/i.test(script.type || '')) {
+      script.remove();
+    }
+  });
+
+  root.querySelectorAll('link[rel~="stylesheet"][href]').forEach(link => {
+    const url = absolute(attribute(link, 'href'), base);
+    const css = url ? resources.stylesheets[url] : undefined;
+    if (css === undefined) {
+      link.setAttribute('href', url || attribute(link, 'href'));
+      return;
+    }
+    const style = doc.createElement('style');
+    if (link.getAttribute('media')) {
+      style.setAttribute('media', attribute(link, 'media'));
+    }
+    style.textContent = rewriteCss(css, url as string, 0);
+    link.replaceWith(style);
+  });
+  root.querySelectorAll('link[rel~="preload"], link[rel~="modulepreload"], link[rel~="prefetch"]').forEach(link => link.remove());
+
+  root.querySelectorAll('[src]:not(iframe):not(frame)').forEach(element => {
+    element.setAttribute('src', inline(attribute(element, 'src'), base));
+  });
+  root.querySelectorAll('[srcset]').forEach(element => {
+    element.setAttribute('srcset', rewriteSrcset(attribute(element, 'srcset')));
+  });
+  root.querySelectorAll('[poster]').forEach(element => {
+    element.setAttribute('poster', inline(attribute(element, 'poster'), base));
+  });
+  root.querySelectorAll('link[rel~="icon"][href], link[rel~="apple-touch-icon"][href], image[href]').forEach(element => {
+    element.setAttribute('href', inline(attribute(element, 'href'), base));
+  });
+  root.querySelectorAll('[style]').forEach(element => {
+    element.setAttribute('style', rewriteCss(attribute(element, 'style'), base, 0));
+  });
+
+  // The archive is UTF-8 and its remaining links resolve against the page
+  const head = root.querySelector('head');
+  if (head) {
+    head.querySelectorAll('meta[charset], meta[http-equiv="Content-Type" i]').forEach(meta => meta.remove());
+    if (!head.querySelector('base[href]')) {
+      const baseElement = doc.createElement('base');
+      baseElement.setAttribute('href', base);
+      head.prepend(baseElement);
+    }
+    const charset = doc.createElement('meta');
+    charset.setAttribute('charset', 'utf-8');
+    head.prepend(charset);
+  }
+
+  const doctype = doc.doctype ? `<!DOCTYPE ${doc.doctype.name}>\n` : '';
+  return doctype + root.outerHTML;
+}
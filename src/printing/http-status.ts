@@ -0,0 +1,53 @@
+// HTTP status policy - decides which response statuses count as a successful load
+
+import type { HttpStatusRange } from '../config/types/enhanced-config.types';
+import { ConfigurationError } from '../types/errors';
+
+/** Accepted when no policy is configured: any 2xx, plus 304 for cached documents */
+export const DEFAULT_ACCEPTED_STATUSES: HttpStatusRange[] = ['2xx', 304];
+
+/**
+ * Resolve each entry (304, "2xx", "200-299") to an inclusive [min, max] pair
+ */
+export function parseStatusRanges(ranges: HttpStatusRange[]): Array<[number, number]> {
+  return ranges.map(range => {
+    const text = String(range).trim().toLowerCase();
+
+    const statusClass = /^([1-5])xx$/.exec(text);
+    if (statusClass) {
+      const base = Number(statusClass[1]) * 100;
+      return [base, base + 99] as [number, number];
+    }
+
+    const bounds = /^(\d{3})(?:-(\d{3}))?$/.exec(text);
+    if (bounds) {
+      const min = Number(bounds[1]);
+      const max = Number(bounds[2] ?? bounds[1]);
+      if (min >= 100 && max <= 599 && min <= max) {
+        return [min, max] as [number, number];
+      }
+    }
+
+    throw new ConfigurationError(`Invalid HTTP status range: ${range}`);
+  });
+}
+
+/**
+ * Whether `status` falls in any of the accepted ranges (default 2xx and 304)
+ */
+export function isAcceptedStatus(status: number, accepted: HttpStatusRange[] = DEFAULT_ACCEPTED_STATUSES): boolean {
+  return parseStatusRanges(accepted).some(([min, max]) => status >= min && status <= max);
+}
+
+/**
+ * Parse a comma-separated CLI list such as "2xx,304,404"; plain codes become numbers
+ */
+export function parseStatusList(value: string): HttpStatusRange[] {
+  const ranges: HttpStatusRange[] = value
+    .split(',')
+    .map(item => item.trim())
+    .filter(Boolean)
+    .map(item => (/^\d{3}$/.test(item) ? Number(item) : item));
+  parseStatusRanges(ranges);
+  return ranges;
+}
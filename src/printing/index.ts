@@ -6,6 +6,38 @@ export { DefaultBrowserManager, DefaultBrowserFactory } from './browser';
 // Converter
 export { DefaultConverter } from './converter';
 
+// Input sources (URLs, local files/directories, raw HTML)
+export { resolveInputSource, describeInput, loadInput } from './input-source';
+export { StaticFileServer } from './static-server';
+
+// Markdown and PDF metadata
+export { renderMarkdown, renderMarkdownFile, parseFrontMatter, frontMatterToMetadata, isMarkdownPath } from './markdown';
+export { DEFAULT_MARKDOWN_THEME, getMarkdownThemeNames } from './markdown-themes';
+export { applyPdfMetadata, hasPdfMetadata } from './pdf-metadata';
+export { mergePdfs, PAGE_NUMBERING_MODES } from './pdf-merge';
+
+// Cancellation
+export { ConversionBudget, ConversionAbortedError } from './cancellation';
+
+// Render pipeline and browser strategies
+export { runRenderPipeline, resetReport, PIPELINE_STAGES } from './pipeline';
+export { OneshotBrowserStrategy, PooledBrowserStrategy } from './browser-strategy';
+export { convertToLegacyConfig, convertOutputSettings } from './legacy-config';
+export { DEFAULT_ACCEPTED_STATUSES, isAcceptedStatus, parseStatusRanges, parseStatusList } from './http-status';
+export { getRedirectChain, checkRedirectPolicy, parseLoginUrlPatterns } from './redirects';
+export { OUTPUT_TYPES, OUTPUT_EXTENSIONS, DEFAULT_IMAGE_QUALITY, resolveOutputType, normalizeOutputType, isImageOutput, imageQuality, resolveFileOutputs } from './output-format';
+export { collectPageDiagnostics, checkDiagnosticThresholds, createEmptyDiagnostics, CONSOLE_LEVELS, MAX_DIAGNOSTIC_ENTRIES } from './page-diagnostics';
+export { NetworkRecorder, harPathFor, writeHar } from './har';
+export { captureMhtml, captureHtmlArchive, collectResources, MAX_INLINED_RESOURCE_SIZE } from './html-archive';
+export { extractContent, renderContent } from './content-extraction';
+export { resolveElementSelection, locateElements, elementFilename, elementFilenames } from './element-screenshot';
+export { resolveResponsiveOptions, captureBreakpoints, breakpointFilename, contactSheetHtml } from './responsive';
+export { applyEmulation, openPage, closePage, resolveNetworkThrottling, NETWORK_PROFILES } from './emulation';
+export { resolveStabilityCheck, waitForStability, DEFAULT_STABILITY_THRESHOLD, DEFAULT_STABILITY_TIMEOUT } from './stability';
+
+// Long-running service
+export { DefaultPrinteerService, DefaultServiceFactory } from './service';
+
 // Types
 export type {
     BrowserInstance,
@@ -24,10 +56,37 @@ export type {
     BrowserOptions,
     RenderOptions,
     PrinteerOptions,
+    OutputSpec,
+    OutputList,
     ConversionResult,
     ConversionMetrics
 } from './types/conversion';
 
+export type {
+    ConversionInput,
+    HtmlInput,
+    InputSource,
+    LoadedInput,
+    LoadedDocument,
+    LoadInputOptions
+} from './input-source';
+
+export type { MarkdownRenderOptions, MarkdownDocument } from './markdown';
+export type { CancellationOptions } from './cancellation';
+export type { PipelineStage, StageTimings, PipelineReport, PageOptions, RenderRequest, OutputTarget, RenderedOutput } from './pipeline';
+export type { LegacyOptions } from './legacy-config';
+export type { BrowserStrategy, BrowserLease } from './browser-strategy';
+export type { RedirectHop, RedirectPolicy } from './redirects';
+export type { ImageOutputType, FileOutput } from './output-format';
+export type { PageDiagnostics, DiagnosticsSummary, DiagnosticsOptions, ConsoleEntry, PageErrorEntry, FailedRequestEntry } from './page-diagnostics';
+export type { ArchiveResources } from './html-archive';
+export type { ContentNode, ContentSnapshot, ExtractionFormat, ExtractionOptions } from './content-extraction';
+export type { ElementSelection, ElementRegion, ElementImage } from './element-screenshot';
+export type { ResponsiveOptions, BreakpointFile, ResponsiveCaptures } from './responsive';
+export type { StabilityOptions } from './stability';
+export type { HarLog, HarEntry, HarHeader, HarTimings, NetworkSummary, NetworkRecorderOptions } from './har';
+export type { PageNumbering, PdfMergeSource, PdfMergeOptions, PdfMergeSection, PdfMergeResult } from './pdf-merge';
+
 export type {
     PrinteerService,
     ServiceFactory
@@ -0,0 +1,233 @@
+// Input sources - remote URLs, local files, local directories and raw HTML
+
+import { existsSync, statSync } from 'fs';
+import { basename, dirname, join, resolve } from 'path';
+import { fileURLToPath, pathToFileURL } from 'url';
+import type { HTTPResponse, Page, PuppeteerLifeCycleEvent } from 'puppeteer';
+import type { PDFMetadata } from '../config/types/enhanced-config.types';
+import { invalidInputError } from '../errors/error-handler';
+import { StaticFileServer } from './static-server';
+import { isMarkdownPath, renderMarkdownFile, MarkdownRenderOptions } from './markdown';
+
+export interface HtmlInput {
+  html: string;
+  /** Base URL that relative links, stylesheets and images resolve against */
+  baseUrl?: string;
+}
+
+/**
+ * What callers may pass as an input: an http(s) URL, a file:// URL, a local
+ * file or directory path, or raw HTML content
+ */
+export type ConversionInput = string | HtmlInput;
+
+export type InputSource =
+  | { type: 'url'; url: string }
+  | { type: 'file'; url: string; path: string }
+  | { type: 'markdown'; url: string; path: string }
+  | { type: 'directory'; path: string; entry: string }
+  | { type: 'html'; html: string; baseUrl?: string };
+
+export interface LoadedInput {
+  response: HTTPResponse | null;
+  /** Whether the response status is meaningful (http(s) inputs only; served local inputs are not) */
+  isHttp: boolean;
+  /** Document details known before rendering (Markdown front-matter) */
+  document?: LoadedDocument;
+  /** Where a page URL points in the input: pages of served local inputs map back to their files */
+  sourceUrl(url: string): string;
+  /** Release anything the input needed while rendering (e.g. the static server) */
+  close(): Promise<void>;
+}
+
+export interface LoadedDocument {
+  title?: string;
+  metadata: PDFMetadata;
+  /** Variables for header/footer templates */
+  variables: Record<string, unknown>;
+}
+
+export interface LoadInputOptions {
+  waitUntil?: PuppeteerLifeCycleEvent;
+  timeout?: number;
+  /** Theme and highlighting for Markdown inputs */
+  markdown?: MarkdownRenderOptions;
+}
+
+const DIRECTORY_ENTRY = 'index.html';
+const INLINE_DOCUMENT = '__printeer_inline__.html';
+
+/**
+ * Classify an input. Local paths must exist; directories must contain an
+ * index.html; .md/.markdown files are rendered as Markdown.
+ */
+export function resolveInputSource(input: ConversionInput): InputSource {
+  if (typeof input === 'object' && input !== null) {
+    if (typeof input.html !== 'string') {
+      throw invalidInputError('HTML input requires an html string');
+    }
+    return { type: 'html', html: input.html, baseUrl: input.baseUrl };
+  }
+
+  if (typeof input !== 'string' || input.trim() === '') {
+    throw invalidInputError('An input URL, path or HTML content is required');
+  }
+
+  if (/^https?:\/\//i.test(input)) {
+    return { type: 'url', url: input };
+  }
+
+  let localPath: string;
+  if (/^file:\/\//i.test(input)) {
+    localPath = fileURLToPath(input);
+  } else if (/^[a-z][a-z\d+.-]*:\/\//i.test(input)) {
+    throw invalidInputError(`Unsupported URL scheme: ${input}. Use http(s)://, file:// or a local path`);
+  } else {
+    localPath = resolve(input);
+  }
+
+  if (!existsSync(localPath)) {
+    throw invalidInputError(`Input not found: ${input}. Use an http(s) URL, a file:// URL or an existing local path`);
+  }
+
+  if (statSync(localPath).isDirectory()) {
+    if (!existsSync(join(localPath, DIRECTORY_ENTRY))) {
+      throw invalidInputError(`Directory ${localPath} has no ${DIRECTORY_ENTRY} to render`);
+    }
+    return { type: 'directory', path: localPath, entry: DIRECTORY_ENTRY };
+  }
+
+  const url = pathToFileURL(localPath).href;
+  return isMarkdownPath(localPath)
+    ? { type: 'markdown', url, path: localPath }
+    : { type: 'file', url, path: localPath };
+}
+
+/**
+ * Human-readable location of an input, for logs and result metadata
+ */
+export function describeInput(source: InputSource): string {
+  switch (source.type) {
+    case 'url':
+    case 'file':
+    case 'markdown':
+      return source.url;
+    case 'directory':
+      return pathToFileURL(join(source.path, source.entry)).href;
+    case 'html':
+      return source.baseUrl || 'about:blank';
+  }
+}
+
+/**
+ * Load an input into the page: navigate to URLs and files, serve directories
+ * from an ephemeral local server, and set raw HTML through `page.setContent`.
+ * Markdown, and HTML whose base URL is a local directory, are served as
+ * generated documents next to their assets so relative links keep working.
+ */
+export async function loadInput(page: Page, source: InputSource, options: LoadInputOptions = {}): Promise<LoadedInput> {
+  const navigation = { waitUntil: options.waitUntil, timeout: options.timeout };
+
+  switch (source.type) {
+    case 'url': {
+      const response = await page.goto(source.url, navigation);
+      if (!response) {
+        throw new Error('Could not load the page.');
+      }
+      return { response, isHttp: true, sourceUrl: url => url, close: async () => {} };
+    }
+
+    case 'file': {
+      const response = await page.goto(source.url, navigation);
+      return { response, isHttp: false, sourceUrl: url => url, close: async () => {} };
+    }
+
+    case 'directory':
+      return await serveDirectory(page, new StaticFileServer(source.path), source.path, source.entry, describeInput(source), navigation);
+
+    case 'markdown': {
+      const markdown = await renderMarkdownFile(source.path, options.markdown);
+      const entry = basename(source.path);
+      const server = new StaticFileServer(dirname(source.path));
+      server.addVirtualFile(entry, markdown.html);
+
+      const loaded = await serveDirectory(page, server, dirname(source.path), entry, source.url, navigation);
+      loaded.document = {
+        title: markdown.title,
+        metadata: markdown.metadata,
+        variables: { ...markdown.frontMatter, title: markdown.title }
+      };
+      return loaded;
+    }
+
+    case 'html': {
+      const localBase = source.baseUrl && /^file:\/\//i.test(source.baseUrl)
+        ? fileURLToPath(source.baseUrl)
+        : null;
+
+      // about:blank may not load file:// assets, so serve local bases over http
+      if (localBase && existsSync(localBase) && statSync(localBase).isDirectory()) {
+        const server = new StaticFileServer(localBase);
+        server.addVirtualFile(INLINE_DOCUMENT, source.html);
+        return await serveDirectory(page, server, localBase, INLINE_DOCUMENT, describeInput(source), navigation);
+      }
+
+      await page.setContent(withBaseHref(source.html, source.baseUrl), navigation);
+      return { response: null, isHttp: false, sourceUrl: url => url, close: async () => {} };
+    }
+  }
+}
+
+/**
+ * Navigate to `entry` of a local server for `root`. The server is an
+ * implementation detail: its responses are not http(s) responses of the
+ * input, and its URLs map back to the files they serve (the entry to
+ * `entryUrl`).
+ */
+async function serveDirectory(
+  page: Page,
+  server: StaticFileServer,
+  root: string,
+  entry: string,
+  entryUrl: string,
+  navigation: { waitUntil?: PuppeteerLifeCycleEvent; timeout?: number }
+): Promise<LoadedInput> {
+  const baseUrl = await server.start();
+  const sourceUrl = (url: string) => {
+    if (!url.startsWith(baseUrl)) {
+      return url;
+    }
+    const file = decodeURI(url.slice(baseUrl.length).split(/[?#]/)[0]);
+    return file === entry ? entryUrl : pathToFileURL(join(root, file)).href;
+  };
+
+  try {
+    const response = await page.goto(baseUrl + encodeURI(entry), navigation);
+    if (!response) {
+      throw new Error('Could not load the page.');
+    }
+    return { response, isHttp: false, sourceUrl, close: () => server.stop() };
+  } catch (error) {
+    await server.stop();
+    throw error;
+  }
+}
+
+/**
+ * Inject a <base href> so relative assets resolve against baseUrl. An existing
+ * <base> element in the document wins.
+ */
+function withBaseHref(html: string, baseUrl?: string): string {
+  if (!baseUrl || /<base[\s>]/i.test(html)) {
+    return html;
+  }
+
+  const baseTag = `<base href="${baseUrl.replace(/"/g, '&quot;')}">`;
+  const head = /<head(\s[^>]*)?>/i.exec(html);
+  if (head) {
+    const insertAt = head.index + head[0].length;
+    return html.slice(0, insertAt) + baseTag + html.slice(insertAt);
+  }
+
+  return baseTag + html;
+}
@@ -0,0 +1,107 @@
+// Legacy options - flattens EnhancedPrintConfiguration into the printeer API's options bag
+
+import type { EnhancedPrintConfiguration } from '../config/types/enhanced-config.types';
+import type { PageOptions, PipelineReport } from './pipeline';
+import type { AppliedFallback } from '../types/errors';
+
+/**
+ * The printeer API's options bag: page options plus how to retry and report
+ * a conversion
+ */
+export interface LegacyOptions extends PageOptions {
+  retryAttempts?: number;
+  retryDelay?: number;
+  retryMaxDelay?: number;
+  retryJitter?: number;
+  /** End-to-end deadline of the conversion in milliseconds */
+  deadline?: number;
+  /** Filled in with the response, warnings and timings of the conversion */
+  report?: PipelineReport;
+  onFallback?: (applied: AppliedFallback) => void;
+}
+
+type OutputSettings = Pick<EnhancedPrintConfiguration, 'page' | 'pdf' | 'image' | 'extraction'>;
+
+/**
+ * Convert enhanced configuration to the legacy options format accepted by the
+ * printeer API and the render pipeline
+ */
+export function convertToLegacyConfig(config: EnhancedPrintConfiguration): LegacyOptions {
+  return {
+    ...convertOutputSettings(config),
+    format: config.page?.format || 'A4',
+    orientation: config.page?.orientation || 'portrait',
+    viewport: config.viewport,
+    waitUntil: config.wait?.until,
+    waitTimeout: config.wait?.timeout,
+    waitSelector: config.wait?.selector,
+    waitDelay: config.wait?.delay,
+    waitFunction: config.wait?.customFunction,
+    stabilityCheck: config.wait?.stabilityCheck,
+    headers: config.auth?.headers,
+    cookies: config.auth?.cookies,
+    auth: config.auth?.basic,
+    userAgent: config.auth?.userAgent,
+    mediaType: config.emulation?.mediaType,
+    colorScheme: config.emulation?.colorScheme,
+    reducedMotion: config.emulation?.reducedMotion,
+    geolocation: config.emulation?.geolocation,
+    timezone: config.emulation?.timezone,
+    locale: config.emulation?.locale,
+    blockResources: config.performance?.blockResources,
+    javascriptEnabled: config.performance?.javascriptEnabled,
+    cacheEnabled: config.performance?.cacheEnabled,
+    networkThrottling: config.performance?.networkThrottling,
+    loadTimeout: config.performance?.loadTimeout,
+    retryAttempts: config.performance?.retryAttempts,
+    retryDelay: config.performance?.retryDelay,
+    retryMaxDelay: config.performance?.retryMaxDelay,
+    retryJitter: config.performance?.retryJitter,
+    markdownTheme: config.markdown?.theme,
+    markdownHighlight: config.markdown?.highlight,
+    acceptedStatuses: config.http?.acceptedStatuses,
+    renderErrorPages: config.http?.renderErrorPages,
+    maxRedirects: config.http?.redirects?.maxRedirects,
+    allowCrossOriginRedirects: config.http?.redirects?.allowCrossOrigin,
+    loginUrlPatterns: config.http?.redirects?.loginUrlPatterns,
+    consoleLevels: config.diagnostics?.consoleLevels,
+    diagnosticThresholds: config.diagnostics?.failOn,
+    har: config.diagnostics?.har,
+    breakpoints: config.responsive?.breakpoints,
+    contactSheet: config.responsive?.contactSheet,
+    // Hooks receive the resolved configuration; config plugins are loaded from it
+    printConfig: config
+  };
+}
+
+/**
+ * The page, PDF, image and extraction settings in the legacy format, without defaults, so
+ * an output spec only overrides what it sets
+ */
+export function convertOutputSettings(config: OutputSettings): PageOptions {
+  return {
+    format: config.page?.format,
+    orientation: config.page?.orientation,
+    margin: config.page?.margins,
+    scale: config.pdf?.scale,
+    printBackground: config.pdf?.printBackground,
+    preferCSSPageSize: config.pdf?.preferCSSPageSize,
+    generateTaggedPDF: config.pdf?.generateTaggedPDF,
+    outline: config.pdf?.outline,
+    displayHeaderFooter: config.pdf?.displayHeaderFooter,
+    headerTemplate: config.pdf?.headerTemplate,
+    footerTemplate: config.pdf?.footerTemplate,
+    metadata: config.pdf?.metadata,
+    quality: config.image?.quality,
+    fullPage: config.image?.fullPage,
+    imageType: config.image?.type,
+    clip: config.image?.clip,
+    selector: config.image?.selector,
+    selectorAll: config.image?.selectorAll,
+    selectorPadding: config.image?.padding,
+    optimizeForSize: config.image?.optimizeForSize,
+    readerMode: config.extraction?.readerMode,
+    extractLinks: config.extraction?.links,
+    extractTables: config.extraction?.tables
+  };
+}
@@ -0,0 +1,97 @@
+// Built-in stylesheets for Markdown documents
+
+const BASE_CSS = `
+  @page { margin: 18mm 16mm; }
+  *, *::before, *::after { box-sizing: border-box; }
+  body { margin: 0; -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+  img { max-width: 100%; }
+  pre, table, blockquote, img { page-break-inside: avoid; }
+  h1, h2, h3, h4, h5, h6 { page-break-after: avoid; }
+  table { border-collapse: collapse; width: 100%; margin: 1em 0; }
+  th, td { padding: 6px 10px; text-align: left; vertical-align: top; }
+  pre { overflow-x: auto; white-space: pre-wrap; word-wrap: break-word; }
+  .task-list-item { list-style: none; }
+`;
+
+// highlight.js token colors (GitHub light palette)
+const HIGHLIGHT_CSS = `
+  .hljs-comment, .hljs-quote { color: #6a737d; font-style: italic; }
+  .hljs-keyword, .hljs-selector-tag, .hljs-type, .hljs-doctag { color: #d73a49; }
+  .hljs-string, .hljs-regexp, .hljs-addition, .hljs-meta .hljs-string { color: #032f62; }
+  .hljs-number, .hljs-literal, .hljs-variable, .hljs-template-variable, .hljs-attr { color: #005cc5; }
+  .hljs-title, .hljs-title.class_, .hljs-title.function_, .hljs-section { color: #6f42c1; }
+  .hljs-built_in, .hljs-symbol, .hljs-selector-id, .hljs-selector-class { color: #e36209; }
+  .hljs-name, .hljs-tag, .hljs-selector-pseudo { color: #22863a; }
+  .hljs-deletion { color: #b31d28; background: #ffeef0; }
+  .hljs-emphasis { font-style: italic; }
+  .hljs-strong { font-weight: bold; }
+`;
+
+const THEMES: Record<string, string> = {
+  default: `
+    body { font: 11pt/1.6 -apple-system, "Segoe UI", Helvetica, Arial, sans-serif; color: #24292e; }
+    h1, h2 { border-bottom: 1px solid #eaecef; padding-bottom: .3em; }
+    a { color: #0366d6; text-decoration: none; }
+    code { font: 9.5pt "SFMono-Regular", Consolas, "Liberation Mono", monospace; background: #f3f4f6; padding: .15em .35em; border-radius: 3px; }
+    pre { background: #f6f8fa; padding: 12px 14px; border-radius: 6px; }
+    pre code { background: none; padding: 0; }
+    th, td { border: 1px solid #dfe2e5; }
+    th { background: #f6f8fa; font-weight: 600; }
+    blockquote { margin: 1em 0; padding: 0 1em; color: #6a737d; border-left: 4px solid #dfe2e5; }
+  `,
+  github: `
+    body { font: 10.5pt/1.5 -apple-system, "Segoe UI", Helvetica, Arial, sans-serif; color: #1f2328; }
+    h1, h2 { border-bottom: 1px solid #d1d9e0; padding-bottom: .3em; font-weight: 600; }
+    a { color: #0969da; }
+    code { font: 9pt ui-monospace, "SFMono-Regular", Consolas, monospace; background: rgba(175, 184, 193, .2); padding: .2em .4em; border-radius: 6px; }
+    pre { background: #f6f8fa; padding: 16px; border-radius: 6px; }
+    pre code { background: none; padding: 0; }
+    th, td { border: 1px solid #d1d9e0; }
+    tr:nth-child(2n) { background: #f6f8fa; }
+    blockquote { margin: 1em 0; padding: 0 1em; color: #59636e; border-left: .25em solid #d1d9e0; }
+  `,
+  minimal: `
+    body { font: 11pt/1.55 Helvetica, Arial, sans-serif; color: #111; }
+    a { color: inherit; }
+    code { font: 9.5pt Menlo, Consolas, monospace; }
+    pre { border-left: 2px solid #ccc; padding-left: 12px; }
+    th { border-bottom: 2px solid #111; }
+    td { border-bottom: 1px solid #ddd; }
+    blockquote { margin: 1em 0; padding-left: 1em; font-style: italic; border-left: 2px solid #ccc; }
+  `,
+  academic: `
+    body { font: 11.5pt/1.65 "Times New Roman", Georgia, serif; color: #000; text-align: justify; hyphens: auto; }
+    h1 { text-align: center; font-size: 20pt; }
+    h2, h3 { font-variant: small-caps; }
+    a { color: #000; }
+    code { font: 9.5pt "Courier New", monospace; }
+    pre { border: 1px solid #999; padding: 8px 10px; }
+    table { border-top: 2px solid #000; border-bottom: 2px solid #000; }
+    th { border-bottom: 1px solid #000; }
+    blockquote { margin: 1em 2em; font-size: 10.5pt; }
+  `
+};
+
+export const DEFAULT_MARKDOWN_THEME = 'default';
+
+export function getMarkdownThemeNames(): string[] {
+  return Object.keys(THEMES);
+}
+
+/**
+ * Print layout and code highlighting rules shared by every theme
+ */
+export function getMarkdownBaseCss(highlight = true): string {
+  return BASE_CSS + (highlight ? HIGHLIGHT_CSS : '');
+}
+
+/**
+ * Full stylesheet for a built-in theme, or null when the name is unknown
+ */
+export function getMarkdownThemeCss(name: string, highlight = true): string | null {
+  const theme = THEMES[name];
+  if (theme === undefined) {
+    return null;
+  }
+  return getMarkdownBaseCss(highlight) + theme;
+}
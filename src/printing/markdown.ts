@@ -0,0 +1,166 @@
+// Markdown rendering - front-matter, GFM tables and highlighted code to themed HTML
+
+import { readFile } from 'fs/promises';
+import { extname } from 'path';
+import { Marked } from 'marked';
+import { markedHighlight } from 'marked-highlight';
+import hljs from 'highlight.js';
+import * as yaml from 'yaml';
+import type { PDFMetadata } from '../config/types/enhanced-config.types';
+import { ConfigurationError } from '../types/errors';
+import { invalidInputError } from '../errors/error-handler';
+import { DEFAULT_MARKDOWN_THEME, getMarkdownBaseCss, getMarkdownThemeCss, getMarkdownThemeNames } from './markdown-themes';
+
+export interface MarkdownRenderOptions {
+  /** Built-in theme name or path to a .css file */
+  theme?: string;
+  /** Syntax-highlight fenced code blocks (default true) */
+  highlight?: boolean;
+}
+
+export interface MarkdownDocument {
+  /** Complete, self-contained HTML document */
+  html: string;
+  title?: string;
+  frontMatter: Record<string, unknown>;
+  /** PDF metadata derived from the front-matter */
+  metadata: PDFMetadata;
+}
+
+const MARKDOWN_EXTENSIONS = ['.md', '.markdown', '.mdown', '.mkd'];
+const FRONT_MATTER = /^\uFEFF?---[ \t]*\r?\n([\s\S]*?)\r?\n(?:---|\.\.\.)[ \t]*(?:\r?\n|$)/;
+
+export function isMarkdownPath(filePath: string): boolean {
+  return MARKDOWN_EXTENSIONS.includes(extname(filePath).toLowerCase());
+}
+
+/**
+ * Split a YAML front-matter block from the Markdown body
+ */
+export function parseFrontMatter(source: string): { data: Record<string, unknown>; body: string } {
+  const match = FRONT_MATTER.exec(source);
+  if (!match) {
+    return { data: {}, body: source };
+  }
+
+  let data: unknown;
+  try {
+    data = yaml.parse(match[1]);
+  } catch (error) {
+    throw invalidInputError(`Invalid Markdown front-matter: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  return {
+    data: data && typeof data === 'object' && !Array.isArray(data) ? data as Record<string, unknown> : {},
+    body: source.slice(match[0].length)
+  };
+}
+
+/**
+ * Map front-matter fields onto PDF metadata: title, author(s), subject or
+ * description, keywords or tags, and date
+ */
+export function frontMatterToMetadata(data: Record<string, unknown>): PDFMetadata {
+  const metadata: PDFMetadata = {};
+  const text = (value: unknown): string | undefined => {
+    if (Array.isArray(value)) {
+      const items = value.filter(item => item !== null && item !== undefined).map(String);
+      return items.length > 0 ? items.join(', ') : undefined;
+    }
+    return value === null || value === undefined || value === '' ? undefined : String(value);
+  };
+
+  const title = text(data.title);
+  const author = text(data.author ?? data.authors);
+  const subject = text(data.subject ?? data.description);
+  const keywords = text(data.keywords ?? data.tags);
+
+  if (title) metadata.title = title;
+  if (author) metadata.author = author;
+  if (subject) metadata.subject = subject;
+  if (keywords) metadata.keywords = keywords;
+
+  const date = data.date instanceof Date ? data.date : (typeof data.date === 'string' ? new Date(data.date) : undefined);
+  if (date && !isNaN(date.getTime())) {
+    metadata.creationDate = date;
+  }
+
+  return metadata;
+}
+
+/**
+ * Render Markdown source to a themed HTML document
+ */
+export async function renderMarkdown(source: string, options: MarkdownRenderOptions = {}): Promise<MarkdownDocument> {
+  const { data, body } = parseFrontMatter(source);
+  const metadata = frontMatterToMetadata(data);
+  const highlight = options.highlight !== false;
+
+  const marked = highlight
+    ? new Marked(markedHighlight({
+      langPrefix: 'hljs language-',
+      highlight(code, lang) {
+        const language = hljs.getLanguage(lang) ? lang : 'plaintext';
+        return hljs.highlight(code, { language }).value;
+      }
+    }))
+    : new Marked();
+
+  const content = await marked.parse(body, { gfm: true });
+  const title = metadata.title || firstHeading(body);
+  const css = await loadThemeCss(options.theme || DEFAULT_MARKDOWN_THEME, highlight);
+
+  const head = [
+    '<meta charset="utf-8">',
+    title ? `<title>${escapeHtml(title)}</title>` : '',
+    metadata.author ? `<meta name="author" content="${escapeHtml(metadata.author)}">` : '',
+    metadata.subject ? `<meta name="description" content="${escapeHtml(metadata.subject)}">` : '',
+    metadata.keywords ? `<meta name="keywords" content="${escapeHtml(metadata.keywords)}">` : '',
+    `<style>${css}</style>`
+  ].filter(Boolean).join('\n');
+
+  return {
+    html: `<!DOCTYPE html>\n<html>\n<head>\n${head}\n</head>\n<body class="markdown-body">\n${content}</body>\n</html>\n`,
+    title,
+    frontMatter: data,
+    metadata
+  };
+}
+
+/**
+ * Read and render a Markdown file
+ */
+export async function renderMarkdownFile(filePath: string, options: MarkdownRenderOptions = {}): Promise<MarkdownDocument> {
+  return await renderMarkdown(await readFile(filePath, 'utf-8'), options);
+}
+
+async function loadThemeCss(theme: string, highlight: boolean): Promise<string> {
+  const builtIn = getMarkdownThemeCss(theme, highlight);
+  if (builtIn !== null) {
+    return builtIn;
+  }
+
+  if (extname(theme).toLowerCase() !== '.css') {
+    throw new ConfigurationError(`Unknown Markdown theme: ${theme}. Available themes: ${getMarkdownThemeNames().join(', ')} (or a path to a .css file)`);
+  }
+
+  try {
+    // Custom stylesheets keep the base print layout and code highlighting
+    return getMarkdownBaseCss(highlight) + await readFile(theme, 'utf-8');
+  } catch (error) {
+    throw new ConfigurationError(`Failed to load Markdown theme ${theme}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+function firstHeading(markdown: string): string | undefined {
+  const match = /^#\s+(.+?)\s*#*\s*$/m.exec(markdown);
+  return match ? match[1] : undefined;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
@@ -0,0 +1,120 @@
+// Output formats - which encoder a conversion uses, from its output type or file extension
+
+import { extname, normalize } from 'path';
+import { convertOutputSettings } from './legacy-config';
+import type { OutputList, OutputType } from './types/conversion';
+import type { PageOptions } from './pipeline';
+import { ConfigurationError } from '../types/errors';
+
+export type ImageOutputType = Exclude<OutputType, 'pdf' | 'html' | 'mhtml' | 'text' | 'markdown'>;
+
+export const OUTPUT_TYPES: OutputType[] = ['pdf', 'png', 'jpeg', 'webp', 'html', 'mhtml', 'text', 'markdown'];
+
+/** One file of a multi-output conversion, resolved */
+export interface FileOutput {
+  path: string;
+  outputType: OutputType;
+  /** Render options over the conversion's, in the legacy format */
+  options: PageOptions;
+}
+
+/** File extensions (lowercase, without the dot) and the output type each one selects */
+export const OUTPUT_EXTENSIONS: Record<string, OutputType> = {
+  pdf: 'pdf',
+  png: 'png',
+  jpg: 'jpeg',
+  jpeg: 'jpeg',
+  webp: 'webp',
+  html: 'html',
+  htm: 'html',
+  mhtml: 'mhtml',
+  mht: 'mhtml',
+  txt: 'text',
+  text: 'text',
+  md: 'markdown',
+  markdown: 'markdown'
+};
+
+/** Quality used for lossy formats when none is configured */
+export const DEFAULT_IMAGE_QUALITY: Record<Exclude<ImageOutputType, 'png'>, number> = {
+  jpeg: 90,
+  webp: 80
+};
+
+export function isImageOutput(type: string): type is ImageOutputType {
+  return type === 'png' || type === 'jpeg' || type === 'webp';
+}
+
+/**
+ * Canonical output type for a type name; accepts `jpg` for JPEG
+ */
+export function normalizeOutputType(type: string): OutputType {
+  const outputType = OUTPUT_EXTENSIONS[type.trim().toLowerCase()];
+  if (!outputType) {
+    throw new ConfigurationError(`Invalid output type: ${type} (supported: ${Object.keys(OUTPUT_EXTENSIONS).join(', ')})`);
+  }
+  return outputType;
+}
+
+/**
+ * Decide the output type of a conversion. An explicit type wins, then the
+ * file extension; files without one (and buffers or streams) become PDFs.
+ * `imageType` picks the image format when the type is the generic `png` and
+ * no extension says otherwise. Unsupported types and extensions throw.
+ */
+export function resolveOutputType(filename: string, outputType?: string | null, imageType?: string | null): OutputType {
+  const extension = extname(filename).slice(1);
+  const type = outputType
+    ? normalizeOutputType(outputType)
+    : extension ? normalizeOutputType(extension) : 'pdf';
+
+  if (type === 'png' && imageType && !extension) {
+    const image = normalizeOutputType(imageType);
+    if (!isImageOutput(image)) {
+      throw new ConfigurationError(`Invalid output type: ${imageType} is not an image type`);
+    }
+    return image;
+  }
+  return type;
+}
+
+/**
+ * Screenshot quality for the format: the configured value for JPEG and WebP
+ * (or their default), none for PNG
+ */
+export function imageQuality(type: ImageOutputType, quality?: number): number | undefined {
+  return type === 'png' ? undefined : quality ?? DEFAULT_IMAGE_QUALITY[type];
+}
+
+/**
+ * Resolve an output list: paths are normalized, each format is checked and
+ * spec settings become render option overrides. Empty lists and files
+ * listed twice throw.
+ */
+export function resolveFileOutputs(outputs: OutputList): FileOutput[] {
+  if (outputs.length === 0) {
+    throw new ConfigurationError('Invalid outputs: at least one output file is required');
+  }
+
+  const files = outputs.map(output => {
+    const spec = typeof output === 'string' ? { file: output } : output;
+    if (!spec.file) {
+      throw new ConfigurationError('Invalid outputs: every output needs a file');
+    }
+    const settings = convertOutputSettings(spec);
+    return {
+      path: normalize(spec.file),
+      outputType: resolveOutputType(spec.file, spec.type),
+      options: Object.fromEntries(Object.entries(settings).filter(([, value]) => value !== undefined))
+    };
+  });
+
+  const seen = new Set<string>();
+  for (const file of files) {
+    if (seen.has(file.path)) {
+      throw new ConfigurationError(`Invalid outputs: ${file.path} is listed twice`);
+    }
+    seen.add(file.path);
+  }
+  return files;
+}
@@ -0,0 +1,169 @@
+// Page diagnostics - console messages, uncaught errors and failed requests seen while a page renders
+
+import type { ConsoleMessage, HTTPRequest, HTTPResponse, Page } from 'puppeteer';
+import type { ConsoleLevel, DiagnosticThresholds } from '../config/types/enhanced-config.types';
+import { diagnosticThresholdError } from '../errors/error-handler';
+
+export const CONSOLE_LEVELS: ConsoleLevel[] = ['debug', 'log', 'info', 'warn', 'error'];
+
+/** Entries kept per list; the summary keeps counting past it */
+export const MAX_DIAGNOSTIC_ENTRIES = 100;
+
+export interface ConsoleEntry {
+  level: ConsoleLevel;
+  text: string;
+  /** "url:line:column" of the call, when Chrome reports one */
+  location?: string;
+}
+
+export interface PageErrorEntry {
+  message: string;
+  stack?: string;
+}
+
+/**
+ * A subresource that failed to load (`errorText`) or answered 4xx/5xx (`status`)
+ */
+export interface FailedRequestEntry {
+  url: string;
+  method: string;
+  resourceType: string;
+  status?: number;
+  statusText?: string;
+  errorText?: string;
+}
+
+export interface DiagnosticsSummary {
+  consoleMessages: number;
+  consoleWarnings: number;
+  consoleErrors: number;
+  pageErrors: number;
+  failedRequests: number;
+  brokenImages: number;
+}
+
+export interface PageDiagnostics {
+  summary: DiagnosticsSummary;
+  console: ConsoleEntry[];
+  pageErrors: PageErrorEntry[];
+  failedRequests: FailedRequestEntry[];
+  /** Some entries were left out after MAX_DIAGNOSTIC_ENTRIES */
+  truncated?: boolean;
+}
+
+export interface DiagnosticsOptions {
+  /** Console levels to record (default: all); the summary counts every level */
+  consoleLevels?: ConsoleLevel[];
+  /** Resource types the conversion blocks on purpose; their aborted requests are not failures */
+  blockedResourceTypes?: string[];
+}
+
+export function createEmptyDiagnostics(): PageDiagnostics {
+  return {
+    summary: { consoleMessages: 0, consoleWarnings: 0, consoleErrors: 0, pageErrors: 0, failedRequests: 0, brokenImages: 0 },
+    console: [],
+    pageErrors: [],
+    failedRequests: []
+  };
+}
+
+/**
+ * Listen to a page and collect what it reports while loading and rendering.
+ * The main document is left out of the failed requests; its status is
+ * handled by the status policy.
+ */
+export function collectPageDiagnostics(page: Page, options: DiagnosticsOptions = {}): PageDiagnostics {
+  const diagnostics = createEmptyDiagnostics();
+  const levels = options.consoleLevels || CONSOLE_LEVELS;
+  const blocked = options.blockedResourceTypes || [];
+
+  const push = <T>(list: T[], entry: T) => {
+    if (list.length < MAX_DIAGNOSTIC_ENTRIES) {
+      list.push(entry);
+    } else {
+      diagnostics.truncated = true;
+    }
+  };
+
+  const recordFailure = (request: HTTPRequest, entry: Partial<FailedRequestEntry>) => {
+    if (isMainDocument(page, request)) {
+      return;
+    }
+    const resourceType = request.resourceType();
+    diagnostics.summary.failedRequests++;
+    if (resourceType === 'image') {
+      diagnostics.summary.brokenImages++;
+    }
+    push(diagnostics.failedRequests, { url: request.url(), method: request.method(), resourceType, ...entry });
+  };
+
+  page.on('console', (message: ConsoleMessage) => {
+    const level = toConsoleLevel(message.type());
+    diagnostics.summary.consoleMessages++;
+    if (level === 'warn') diagnostics.summary.consoleWarnings++;
+    if (level === 'error') diagnostics.summary.consoleErrors++;
+    if (levels.includes(level)) {
+      push(diagnostics.console, { level, text: message.text(), ...describeLocation(message) });
+    }
+  });
+
+  page.on('pageerror', (error: Error) => {
+    diagnostics.summary.pageErrors++;
+    push(diagnostics.pageErrors, { message: error.message, ...(error.stack ? { stack: error.stack } : {}) });
+  });
+
+  page.on('requestfailed', (request: HTTPRequest) => {
+    if (blocked.includes(request.resourceType())) {
+      return;
+    }
+    recordFailure(request, { errorText: request.failure()?.errorText || 'unknown error' });
+  });
+
+  page.on('response', (response: HTTPResponse) => {
+    if (response.status() >= 400) {
+      recordFailure(response.request(), { status: response.status(), statusText: response.statusText() });
+    }
+  });
+
+  return diagnostics;
+}
+
+/**
+ * Throw a PrinteerError when the page exceeded any threshold
+ */
+export function checkDiagnosticThresholds(diagnostics: PageDiagnostics, thresholds: DiagnosticThresholds = {}): void {
+  const { summary } = diagnostics;
+  const checks: Array<[number | undefined, number, string]> = [
+    [thresholds.maxPageErrors, summary.pageErrors, 'page errors'],
+    [thresholds.maxConsoleErrors, summary.consoleErrors, 'console errors'],
+    [thresholds.maxFailedRequests, summary.failedRequests, 'failed requests'],
+    [thresholds.maxBrokenImages, summary.brokenImages, 'broken images']
+  ];
+
+  const violations = checks
+    .filter(([limit, count]) => limit !== undefined && count > limit)
+    .map(([limit, count, label]) => `${count} ${label} (limit ${limit})`);
+
+  if (violations.length > 0) {
+    throw diagnosticThresholdError(violations, { summary: { ...summary } });
+  }
+}
+
+function toConsoleLevel(type: string): ConsoleLevel {
+  if (type === 'warning') return 'warn';
+  if (type === 'error' || type === 'assert') return 'error';
+  if (type === 'debug' || type === 'info') return type;
+  return 'log';
+}
+
+function describeLocation(message: ConsoleMessage): { location?: string } {
+  const { url, lineNumber, columnNumber } = message.location();
+  if (!url) {
+    return {};
+  }
+  return { location: lineNumber !== undefined ? `${url}:${lineNumber}:${columnNumber ?? 0}` : url };
+}
+
+function isMainDocument(page: Page, request: HTTPRequest): boolean {
+  return request.isNavigationRequest() && request.frame() === page.mainFrame();
+}
@@ -0,0 +1,163 @@
+// PDF merging - concatenates rendered documents with one bookmark per source
+
+import { PDFDocument, PDFHexString, PDFName, PDFRef, StandardFonts, rgb } from 'pdf-lib';
+import type { PDFMetadata } from '../config/types/enhanced-config.types';
+import { applyPdfMetadata, hasPdfMetadata } from './pdf-metadata';
+
+/**
+ * How pages of the merged document are numbered:
+ * - `none`: pages are left as rendered (each source keeps its own header/footer numbers)
+ * - `continue`: one sequence across the whole document
+ * - `restart`: every source starts again at 1
+ *
+ * `continue` and `restart` stamp "n / total" at the bottom of each page and
+ * set matching PDF page labels.
+ */
+export type PageNumbering = 'none' | 'continue' | 'restart';
+
+export const PAGE_NUMBERING_MODES: PageNumbering[] = ['none', 'continue', 'restart'];
+
+export interface PdfMergeSource {
+  pdf: Buffer | Uint8Array;
+  /** Bookmark title. Falls back to the source PDF's title, then `label` */
+  title?: string;
+  /** Last-resort bookmark title, e.g. the source URL */
+  label?: string;
+}
+
+export interface PdfMergeOptions {
+  /** Add a top-level bookmark for every source (default true) */
+  bookmarks?: boolean;
+  pageNumbering?: PageNumbering;
+  /** Document information for the merged file */
+  metadata?: PDFMetadata;
+}
+
+export interface PdfMergeSection {
+  title: string;
+  /** Zero-based index of the section's first page */
+  startPage: number;
+  pageCount: number;
+}
+
+export interface PdfMergeResult {
+  pdf: Buffer;
+  pageCount: number;
+  sections: PdfMergeSection[];
+}
+
+/**
+ * Concatenate PDFs in the given order
+ */
+export async function mergePdfs(sources: PdfMergeSource[], options: PdfMergeOptions = {}): Promise<PdfMergeResult> {
+  if (sources.length === 0) {
+    throw new Error('At least one PDF is required to merge');
+  }
+
+  const pageNumbering = options.pageNumbering || 'none';
+  if (!PAGE_NUMBERING_MODES.includes(pageNumbering)) {
+    throw new Error(`Invalid page numbering: ${pageNumbering}. Use one of: ${PAGE_NUMBERING_MODES.join(', ')}`);
+  }
+
+  const merged = await PDFDocument.create();
+  const sections: PdfMergeSection[] = [];
+
+  for (const [index, source] of sources.entries()) {
+    let document: PDFDocument;
+    try {
+      document = await PDFDocument.load(source.pdf as Uint8Array, { updateMetadata: false });
+    } catch (error) {
+      throw new Error(`Failed to read PDF ${source.label || index + 1}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    const pages = await merged.copyPages(document, document.getPageIndices());
+    pages.forEach(page => merged.addPage(page));
+
+    sections.push({
+      title: source.title || document.getTitle() || source.label || `Document ${index + 1}`,
+      startPage: merged.getPageCount() - pages.length,
+      pageCount: pages.length
+    });
+  }
+
+  if (options.bookmarks !== false) {
+    addSectionOutline(merged, sections);
+  }
+
+  if (pageNumbering !== 'none') {
+    await stampPageNumbers(merged, sections, pageNumbering);
+    setPageLabels(merged, sections, pageNumbering);
+  }
+
+  let pdf = Buffer.from(await merged.save());
+  if (hasPdfMetadata(options.metadata)) {
+    pdf = await applyPdfMetadata(pdf, options.metadata);
+  }
+
+  return { pdf, pageCount: merged.getPageCount(), sections };
+}
+
+/**
+ * Build a flat /Outlines tree with one entry per section pointing at its first page
+ */
+function addSectionOutline(document: PDFDocument, sections: PdfMergeSection[]): void {
+  const context = document.context;
+  const outlinesRef = context.nextRef();
+  const itemRefs: PDFRef[] = sections.map(() => context.nextRef());
+
+  sections.forEach((section, index) => {
+    const item = context.obj({
+      Title: PDFHexString.fromText(section.title),
+      Parent: outlinesRef,
+      Dest: [document.getPage(section.startPage).ref, 'XYZ', null, null, null]
+    });
+    if (index > 0) item.set(PDFName.of('Prev'), itemRefs[index - 1]);
+    if (index < sections.length - 1) item.set(PDFName.of('Next'), itemRefs[index + 1]);
+    context.assign(itemRefs[index], item);
+  });
+
+  context.assign(outlinesRef, context.obj({
+    Type: 'Outlines',
+    First: itemRefs[0],
+    Last: itemRefs[itemRefs.length - 1],
+    Count: itemRefs.length
+  }));
+
+  document.catalog.set(PDFName.of('Outlines'), outlinesRef);
+  document.catalog.set(PDFName.of('PageMode'), PDFName.of('UseOutlines'));
+}
+
+async function stampPageNumbers(document: PDFDocument, sections: PdfMergeSection[], mode: PageNumbering): Promise<void> {
+  const font = await document.embedFont(StandardFonts.Helvetica);
+  const size = 9;
+  const total = document.getPageCount();
+
+  for (const section of sections) {
+    for (let offset = 0; offset < section.pageCount; offset++) {
+      const page = document.getPage(section.startPage + offset);
+      const text = mode === 'restart'
+        ? `${offset + 1} / ${section.pageCount}`
+        : `${section.startPage + offset + 1} / ${total}`;
+      const { width } = page.getSize();
+
+      page.drawText(text, {
+        x: (width - font.widthOfTextAtSize(text, size)) / 2,
+        y: 18,
+        size,
+        font,
+        color: rgb(0.35, 0.35, 0.35)
+      });
+    }
+  }
+}
+
+/**
+ * Page labels make viewers show the same numbers that are printed on the page
+ */
+function setPageLabels(document: PDFDocument, sections: PdfMergeSection[], mode: PageNumbering): void {
+  const nums = mode === 'restart'
+    ? sections.flatMap(section => [section.startPage, { S: 'D', St: 1 }])
+    : [0, { S: 'D', St: 1 }];
+
+  document.catalog.set(PDFName.of('PageLabels'), document.context.obj({ Nums: nums }));
+}
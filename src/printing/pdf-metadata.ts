@@ -0,0 +1,26 @@
+// PDF document information - Chrome only sets the title, so the rest is written afterwards
+
+import { PDFDocument } from 'pdf-lib';
+import type { PDFMetadata } from '../config/types/enhanced-config.types';
+
+export function hasPdfMetadata(metadata?: PDFMetadata | null): metadata is PDFMetadata {
+  return !!metadata && Object.values(metadata).some(value => value !== undefined && value !== '');
+}
+
+/**
+ * Write title/author/subject/keywords/creator/producer and dates into a PDF
+ */
+export async function applyPdfMetadata(pdf: Buffer | Uint8Array, metadata: PDFMetadata): Promise<Buffer> {
+  const document = await PDFDocument.load(pdf as Uint8Array, { updateMetadata: false });
+
+  if (metadata.title) document.setTitle(metadata.title, { showInWindowTitleBar: true });
+  if (metadata.author) document.setAuthor(metadata.author);
+  if (metadata.subject) document.setSubject(metadata.subject);
+  if (metadata.keywords) document.setKeywords(metadata.keywords.split(',').map(keyword => keyword.trim()).filter(Boolean));
+  if (metadata.creator) document.setCreator(metadata.creator);
+  if (metadata.producer) document.setProducer(metadata.producer);
+  if (metadata.creationDate) document.setCreationDate(new Date(metadata.creationDate));
+  if (metadata.modificationDate) document.setModificationDate(new Date(metadata.modificationDate));
+
+  return Buffer.from(await document.save());
+}
@@ -0,0 +1,765 @@
+// Render pipeline - acquire → prepare → navigate → wait → render → write → release,
+// shared by every browser strategy
+
+import type { HTTPRequest, HTTPResponse, Page, PaperFormat, PDFMargin, PDFOptions, ScreenshotOptions } from 'puppeteer';
+import { normalize } from 'path';
+import { writeFile } from 'fs/promises';
+import { Readable } from 'stream';
+import { loadInput, describeInput } from './input-source';
+import type { InputSource, LoadedInput, LoadedDocument } from './input-source';
+import { applyPdfMetadata, hasPdfMetadata } from './pdf-metadata';
+import type { ConversionBudget } from './cancellation';
+import type { BrowserLease, BrowserStrategy } from './browser-strategy';
+import { PluginRunner } from '../plugins/plugin-manager';
+import { httpStatusError } from '../errors/error-handler';
+import { isAcceptedStatus } from './http-status';
+import { getRedirectChain, checkRedirectPolicy } from './redirects';
+import type { RedirectHop } from './redirects';
+import { collectPageDiagnostics, checkDiagnosticThresholds } from './page-diagnostics';
+import type { PageDiagnostics } from './page-diagnostics';
+import { NetworkRecorder, harPathFor, writeHar } from './har';
+import type { NetworkSummary } from './har';
+import { isImageOutput, imageQuality } from './output-format';
+import { captureHtmlArchive, captureMhtml } from './html-archive';
+import { extractContent } from './content-extraction';
+import { resolveElementSelection, locateElements, elementFilenames } from './element-screenshot';
+import type { ElementImage } from './element-screenshot';
+import { resolveResponsiveOptions, captureBreakpoints } from './responsive';
+import { applyEmulation, closePage, openPage } from './emulation';
+import { resolveStabilityCheck, waitForStability } from './stability';
+import type { BreakpointFile, ResponsiveCaptures } from './responsive';
+import type { FileOutput } from './output-format';
+import { TemplateManager } from '../templates/template-manager';
+import type {
+  BasicAuth,
+  ClipRegion,
+  ColorScheme,
+  ConsoleLevel,
+  CookieConfig,
+  CustomPageSize,
+  DiagnosticThresholds,
+  EnhancedPrintConfiguration,
+  ExtractedLinkStyle,
+  ExtractedTableStyle,
+  GeolocationConfig,
+  HttpStatusRange,
+  MarginConfig,
+  MediaType,
+  NamedViewport,
+  NetworkProfile,
+  NetworkThrottling,
+  PageOrientation,
+  PDFMetadata,
+  ReducedMotion,
+  ResourceType,
+  StabilityCheck,
+  ViewportConfiguration,
+  WaitCondition
+} from '../config/types/enhanced-config.types';
+import type { Margin } from './types/conversion';
+
+export type PipelineStage = 'acquire' | 'prepare' | 'navigate' | 'wait' | 'render' | 'write' | 'release';
+
+export const PIPELINE_STAGES: PipelineStage[] = ['acquire', 'prepare', 'navigate', 'wait', 'render', 'write', 'release'];
+
+/** Milliseconds spent in each stage that ran */
+export type StageTimings = Partial<Record<PipelineStage, number>>;
+
+/**
+ * Where a conversion delivers its output: a file on disk, an in-memory Buffer,
+ * or a Readable that streams the rendered bytes.
+ */
+export type OutputTarget = { kind: 'file'; path: string } | { kind: 'buffer' } | { kind: 'stream' };
+export type RenderedOutput = string | Buffer | Readable;
+
+export interface PipelineReport {
+  /** Streamed outputs record `release` once the stream is done */
+  timings: StageTimings;
+  /** Page details when `describePage` is set; after a failure only the URL */
+  page?: {
+    title?: string;
+    url: string;
+    browserVersion?: string;
+  };
+  /** The main document response, for http(s) inputs */
+  response?: {
+    status: number;
+    statusText: string;
+    /** URL that answered after following redirects */
+    url: string;
+    /** Redirects that led there, oldest first */
+    redirectChain: RedirectHop[];
+  };
+  /** Problems that did not fail the conversion, e.g. a rendered error page */
+  warnings?: string[];
+  /** Console messages, page errors and failed requests of the page */
+  diagnostics?: PageDiagnostics;
+  /** Request count, bytes and load time, when the network was recorded */
+  network?: NetworkSummary;
+  /** Where the HAR log was written */
+  harFile?: string;
+  /** Files written for the request's `outputs`, in order */
+  outputFiles?: string[];
+  /** Files written by selector-all screenshots, one per matched element */
+  elementFiles?: string[];
+  /** Captures of a responsive screenshot, one per breakpoint */
+  breakpoints?: BreakpointFile[];
+  /** Where the contact sheet of the breakpoint captures was written */
+  contactSheet?: string;
+}
+
+/**
+ * Forget what an earlier attempt recorded, so a retried conversion reports
+ * only its last attempt. The report and its timings stay the same objects.
+ */
+export function resetReport(report: PipelineReport): void {
+  for (const key of Object.keys(report) as (keyof PipelineReport)[]) {
+    if (key !== 'timings') delete report[key];
+  }
+  for (const stage of Object.keys(report.timings) as PipelineStage[]) {
+    delete report.timings[stage];
+  }
+}
+
+/**
+ * Page, wait and render options of one conversion, in the flat format built by
+ * convertToLegacyConfig and DefaultConverter.getPageOptions
+ */
+export interface PageOptions {
+  viewport?: ViewportConfiguration;
+  userAgent?: string;
+  headers?: Record<string, string>;
+  cookies?: CookieConfig | CookieConfig[];
+  auth?: BasicAuth;
+  locale?: string;
+  timezone?: string;
+  mediaType?: MediaType;
+  colorScheme?: ColorScheme;
+  reducedMotion?: ReducedMotion;
+  geolocation?: GeolocationConfig;
+  networkThrottling?: NetworkProfile | NetworkThrottling;
+  javascriptEnabled?: boolean;
+  cacheEnabled?: boolean;
+  blockResources?: ResourceType[];
+  /** Browser launch flags; fallbacks that change them need a fresh browser */
+  args?: string[];
+
+  waitUntil?: WaitCondition;
+  waitTimeout?: number;
+  loadTimeout?: number;
+  waitSelector?: string;
+  waitFunction?: string;
+  waitDelay?: number;
+  stabilityCheck?: StabilityCheck;
+  markdownTheme?: string;
+  markdownHighlight?: boolean;
+
+  acceptedStatuses?: HttpStatusRange[];
+  renderErrorPages?: boolean;
+  maxRedirects?: number;
+  allowCrossOriginRedirects?: boolean;
+  loginUrlPatterns?: string[];
+  consoleLevels?: ConsoleLevel[];
+  diagnosticThresholds?: DiagnosticThresholds;
+  /** `true` writes the HAR log next to a file output, a string to that path */
+  har?: boolean | string;
+  /** Summarize the network activity in the report without writing a HAR log */
+  recordNetwork?: boolean;
+
+  format?: string | CustomPageSize;
+  orientation?: PageOrientation;
+  /** A single CSS length applies to every side */
+  margin?: Margin | MarginConfig | string;
+  scale?: number;
+  printBackground?: boolean;
+  omitBackground?: boolean;
+  preferCSSPageSize?: boolean;
+  generateTaggedPDF?: boolean;
+  outline?: boolean;
+  displayHeaderFooter?: boolean;
+  headerTemplate?: string;
+  footerTemplate?: string;
+  metadata?: PDFMetadata;
+
+  quality?: number;
+  fullPage?: boolean;
+  imageType?: string;
+  clip?: ClipRegion;
+  selector?: string;
+  selectorAll?: string;
+  selectorPadding?: number;
+  optimizeForSize?: boolean;
+  breakpoints?: Array<string | NamedViewport>;
+  contactSheet?: boolean | string;
+
+  readerMode?: boolean;
+  extractLinks?: ExtractedLinkStyle;
+  extractTables?: ExtractedTableStyle;
+
+  /** Handed to plugins as the conversion's configuration */
+  printConfig?: EnhancedPrintConfiguration;
+}
+
+export interface RenderRequest {
+  source: InputSource;
+  target: OutputTarget;
+  /** 'pdf', 'png', 'jpeg', 'webp', 'html', 'mhtml', 'text' or 'markdown' (see resolveOutputType) */
+  outputType: string;
+  /** Page, wait and render options in the legacy format (see convertToLegacyConfig) */
+  options: PageOptions;
+  /** More files rendered from the same page once the target is rendered (see resolveFileOutputs) */
+  outputs?: FileOutput[];
+  strategy: BrowserStrategy;
+  budget: ConversionBudget;
+  plugins?: PluginRunner;
+  /** Filled in while the pipeline runs, so timings survive failures */
+  report?: PipelineReport;
+  /** Record the page title, final URL and browser version in the report */
+  describePage?: boolean;
+}
+
+/**
+ * Run one conversion through every stage. The strategy only decides how the
+ * browser is acquired and released; everything in between is shared.
+ * Streamed outputs keep the page open until the stream ends, errors or is
+ * destroyed, so always consume or destroy them.
+ */
+export async function runRenderPipeline(request: RenderRequest): Promise<RenderedOutput> {
+  const { source, target, outputType, options: opts, strategy, budget } = request;
+  const outputs = request.outputs || [];
+  const report = request.report || { timings: {} };
+  const plugins = request.plugins
+    || new PluginRunner([], { config: opts.printConfig || {}, input: describeInput(source), outputType });
+  const clock = new StageClock(report.timings);
+
+  let lease: BrowserLease | null = null;
+  let page: Page | null = null;
+  let loaded: LoadedInput | null = null;
+  let network: NetworkRecorder | null = null;
+  let releaseDeferred = false;
+
+  const enter = (stage: PipelineStage) => {
+    budget.enter(stage);
+    clock.start(stage);
+  };
+
+  const release = async () => {
+    clock.start('release');
+    if (page) {
+      try {
+        await closePage(page);
+      } catch (error) {
+        console.warn('Failed to close page:', error);
+      }
+    }
+    // Stops the static server for local inputs
+    if (loaded) {
+      await loaded.close();
+    }
+    if (lease) {
+      await lease.release();
+    }
+    clock.stop();
+  };
+
+  try {
+    enter('acquire');
+    lease = await budget.race(strategy.acquire(), late => late.release());
+    await budget.race(plugins.browserLaunched(lease.browser));
+
+    enter('prepare');
+    page = await budget.race(openPage(lease.browser, opts), late => closePage(late));
+    const diagnostics = collectPageDiagnostics(page, { consoleLevels: opts.consoleLevels, blockedResourceTypes: opts.blockResources });
+    report.diagnostics = diagnostics;
+    if (opts.har || opts.recordNetwork) {
+      network = await budget.race(NetworkRecorder.start(page, { blockedResourceTypes: opts.blockResources }));
+    }
+    await budget.race(preparePage(page, opts));
+    await budget.race(plugins.pageCreated(page));
+
+    enter('navigate');
+    await budget.race(plugins.beforeNavigate(page));
+    const waitTimeout = opts.waitTimeout || 30000;
+    loaded = await budget.race(loadInput(page, source, {
+      waitUntil: opts.waitUntil || 'networkidle0',
+      timeout: budget.timeout(opts.loadTimeout || waitTimeout),
+      markdown: { theme: opts.markdownTheme, highlight: opts.markdownHighlight }
+    }), late => late.close());
+
+    enter('wait');
+    // Rejected responses fail before waiting for selectors the page lacks
+    const res = loaded.response;
+    if (loaded.isHttp && res) {
+      checkResponse(res, describeInput(source), opts, report);
+    }
+    await waitForPage(page, opts, budget, waitTimeout);
+    await budget.race(plugins.afterNavigate(page, res));
+
+    // Auto-scroll full pages so lazy-loaded content is rendered
+    if (opts.fullPage || outputs.some(output => output.options.fullPage)) {
+      await budget.race(autoScroll(page));
+    }
+    // Pages that keep animating after the network is idle are rendered once they settle
+    const stability = resolveStabilityCheck(opts);
+    const stabilize = async (target: Page) => {
+      if (stability && !await waitForStability(target, stability, budget)) {
+        addWarning(report, `Page did not settle within ${stability.timeout}ms; rendered it while it was still changing`);
+      }
+    };
+    await stabilize(page);
+    if (opts.diagnosticThresholds) {
+      checkDiagnosticThresholds(diagnostics, opts.diagnosticThresholds);
+    }
+
+    // Breakpoints that switch touch or mobile emulation reload the page, which then needs the same waits
+    const input = loaded;
+    const loadedPage = page;
+    const settle = async (reloaded: boolean) => {
+      if (reloaded && source.type === 'html' && !input.response) {
+        await budget.race(loadInput(loadedPage, source, { waitUntil: opts.waitUntil || 'networkidle0', timeout: budget.timeout(waitTimeout) }));
+      }
+      await budget.race(loadedPage.waitForNetworkIdle({ idleTime: 250, timeout: budget.timeout(5000) }).catch(() => undefined));
+      if (reloaded) {
+        await waitForPage(loadedPage, opts, budget, waitTimeout);
+        if (opts.fullPage) {
+          await budget.race(autoScroll(loadedPage));
+        }
+      }
+      await stabilize(loadedPage);
+    };
+
+    enter('render');
+    await budget.race(plugins.beforeRender(page));
+    const rendered = await budget.race(renderPage(page, target, outputType, opts, loaded.document, settle), destroyLateStream);
+    // Every output comes from the same navigation, so they show the same data; breakpoints belong to the first
+    const extras: Rendered[] = [];
+    for (const extra of outputs) {
+      const file: OutputTarget = { kind: 'file', path: extra.path };
+      extras.push(await budget.race(renderPage(page, file, extra.outputType, { ...opts, breakpoints: undefined, ...extra.options }, loaded.document)));
+    }
+    if (request.describePage) {
+      report.page = {
+        title: await budget.race(page.title()),
+        url: loaded.sourceUrl(page.url()),
+        browserVersion: await budget.race(lease.browser.version())
+      };
+    }
+
+    enter('write');
+    const output = await budget.race(writeOutput(rendered, target, report), destroyLateStream);
+    if (outputs.length > 0) {
+      const written: string[] = [];
+      for (const [index, extra] of outputs.entries()) {
+        written.push(await budget.race(writeOutput(extras[index], { kind: 'file', path: extra.path }, report)) as string);
+      }
+      report.outputFiles = written;
+    }
+    if (network) {
+      await saveNetworkLog(network, target, opts, report);
+    }
+    try {
+      await plugins.afterRender(page, output);
+    } catch (error) {
+      destroyLateStream(output);
+      throw error;
+    }
+    clock.stop();
+
+    if (output instanceof Readable) {
+      releaseDeferred = true;
+      releaseWhenDone(output, release);
+    }
+    return output;
+  } catch (error) {
+    clock.stop();
+    if (page && !report.page) {
+      const url = safePageUrl(page, describeInput(source));
+      report.page = { url: loaded ? loaded.sourceUrl(url) : url };
+    }
+    // The network log of a failed render is the one worth reading
+    if (network) {
+      await saveNetworkLog(network, target, opts, report);
+    }
+    await plugins.error(error, page);
+    throw error;
+  } finally {
+    if (!releaseDeferred) {
+      await release();
+    }
+  }
+}
+
+/**
+ * Accumulates the time spent in each stage
+ */
+class StageClock {
+  private current: { stage: PipelineStage; startedAt: number } | null = null;
+
+  constructor(private timings: StageTimings) {}
+
+  start(stage: PipelineStage): void {
+    this.stop();
+    this.current = { stage, startedAt: Date.now() };
+  }
+
+  stop(): void {
+    if (this.current) {
+      const { stage, startedAt } = this.current;
+      this.timings[stage] = (this.timings[stage] || 0) + (Date.now() - startedAt);
+      this.current = null;
+    }
+  }
+}
+
+/**
+ * Record the document response and apply the redirect and status policies.
+ * Statuses outside `acceptedStatuses` fail the conversion, unless
+ * `renderErrorPages` is set, in which case the page is rendered and a
+ * warning recorded.
+ */
+function checkResponse(res: HTTPResponse, url: string, opts: PageOptions, report: PipelineReport): void {
+  const status = res.status();
+  const statusText = res.statusText();
+  const { chain, finalUrl } = getRedirectChain(res);
+  report.response = { status, statusText, url: finalUrl, redirectChain: chain };
+
+  checkRedirectPolicy(chain, finalUrl, {
+    maxRedirects: opts.maxRedirects,
+    allowCrossOrigin: opts.allowCrossOriginRedirects,
+    loginUrlPatterns: opts.loginUrlPatterns
+  });
+
+  if (isAcceptedStatus(status, opts.acceptedStatuses)) {
+    return;
+  }
+  if (!opts.renderErrorPages) {
+    throw httpStatusError(status, statusText, url);
+  }
+  addWarning(report, `Rendered error page: ${url} returned ${status} ${statusText}`.trim());
+}
+
+/**
+ * Fallback attempts share the report, so record each warning once
+ */
+function addWarning(report: PipelineReport, warning: string): void {
+  if (!report.warnings?.includes(warning)) {
+    report.warnings = [...(report.warnings || []), warning];
+  }
+}
+
+/**
+ * Stop recording and summarize the network activity. With `har`, the log is
+ * written next to a file output or to the given path; a HAR that cannot be
+ * written is a warning, not a failed conversion.
+ */
+async function saveNetworkLog(network: NetworkRecorder, target: OutputTarget, opts: PageOptions, report: PipelineReport): Promise<void> {
+  await network.stop();
+  report.network = network.summary();
+  if (!opts.har) {
+    return;
+  }
+
+  const harPath = typeof opts.har === 'string' ? opts.har : target.kind === 'file' ? harPathFor(target.path) : null;
+  if (!harPath) {
+    addWarning(report, 'HAR not written: the output is not a file, so pass a HAR path');
+    return;
+  }
+  try {
+    await writeHar(harPath, network.toHar({ title: report.page?.title, browserVersion: report.page?.browserVersion }));
+    report.harFile = normalize(harPath);
+  } catch (error) {
+    addWarning(report, `HAR not written to ${harPath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+async function preparePage(page: Page, opts: PageOptions): Promise<void> {
+  if (opts.viewport) {
+    await page.setViewport({
+      width: opts.viewport.width || 1920,
+      height: opts.viewport.height || 1080,
+      deviceScaleFactor: opts.viewport.deviceScaleFactor || 1,
+      isMobile: !!opts.viewport.isMobile,
+      hasTouch: !!opts.viewport.hasTouch,
+      isLandscape: !!opts.viewport.isLandscape
+    });
+  }
+
+  const headers = { ...opts.headers };
+  if (opts.locale) {
+    headers['Accept-Language'] = opts.locale;
+  }
+  if (Object.keys(headers).length > 0) {
+    await page.setExtraHTTPHeaders(headers);
+  }
+
+  if (opts.cookies) await page.setCookie(...(Array.isArray(opts.cookies) ? opts.cookies : [opts.cookies]));
+  if (opts.auth) await page.authenticate(opts.auth);
+  if (opts.userAgent) await page.setUserAgent(opts.userAgent);
+  if (opts.mediaType) await page.emulateMediaType(opts.mediaType);
+  if (opts.timezone) await page.emulateTimezone(opts.timezone);
+  await applyEmulation(page, opts);
+  if (opts.javascriptEnabled === false) await page.setJavaScriptEnabled(false);
+  if (opts.cacheEnabled === false) await page.setCacheEnabled(false);
+
+  const blocked: string[] = opts.blockResources || [];
+  if (blocked.length > 0) {
+    await page.setRequestInterception(true);
+    page.on('request', (req: HTTPRequest) => {
+      if (blocked.includes(req.resourceType())) {
+        req.abort();
+      } else {
+        req.continue();
+      }
+    });
+  }
+}
+
+async function waitForPage(page: Page, opts: PageOptions, budget: ConversionBudget, timeout: number): Promise<void> {
+  if (opts.waitSelector) {
+    await budget.race(page.waitForSelector(opts.waitSelector, { timeout: budget.timeout(timeout) }));
+  }
+  if (opts.waitFunction) {
+    await budget.race(page.waitForFunction(opts.waitFunction, { timeout: budget.timeout(timeout) }));
+  }
+  if (opts.waitDelay) {
+    await budget.delay(opts.waitDelay);
+  }
+}
+
+/**
+ * Render the loaded page. PDFs bound for a stream come straight from the
+ * browser; everything else is rendered into memory for the write stage.
+ * HTML and MHTML outputs archive the DOM after scripts and waits have run;
+ * text and Markdown outputs extract its readable content. Screenshots with a
+ * selector are clipped to the element; selector-all screenshots render one
+ * image per matched element, and screenshots with breakpoints one per
+ * viewport.
+ * Header/footer options are resolved through the TemplateManager with the
+ * document's front-matter as variables.
+ */
+async function renderPage(
+  page: Page,
+  target: OutputTarget,
+  outputType: string,
+  opts: PageOptions,
+  document?: LoadedDocument,
+  settle: (reloaded: boolean) => Promise<void> = async () => undefined
+): Promise<Rendered> {
+  if (outputType === 'html') {
+    return await captureHtmlArchive(page);
+  }
+  if (outputType === 'mhtml') {
+    return await captureMhtml(page);
+  }
+  if (outputType === 'text' || outputType === 'markdown') {
+    const content = await extractContent(page, outputType, {
+      readerMode: opts.readerMode,
+      links: opts.extractLinks,
+      tables: opts.extractTables
+    });
+    return Buffer.from(content, 'utf8');
+  }
+
+  if (isImageOutput(outputType)) {
+    const screenshotOptions: ScreenshotOptions & NewerScreenshotOptions = {
+      path: undefined, // files are saved by the write stage
+      fullPage: !!opts.fullPage,
+      omitBackground: !!opts.omitBackground,
+      type: outputType as ScreenshotOptions['type'],
+      clip: opts.clip,
+      optimizeForSize: opts.optimizeForSize
+    };
+    const quality = imageQuality(outputType, opts.quality);
+    if (quality !== undefined) {
+      screenshotOptions.quality = quality;
+    }
+
+    const responsive = resolveResponsiveOptions(opts, target.kind === 'file' ? target.path : null);
+    if (responsive) {
+      const single = { ...opts, breakpoints: undefined };
+      return await captureBreakpoints(page, responsive, (target as { path: string }).path, outputType,
+        async () => await renderPage(page, target, outputType, single, document) as Buffer, settle);
+    }
+
+    const selection = resolveElementSelection(opts, target.kind === 'file');
+    if (!selection) {
+      return await page.screenshot(screenshotOptions) as Buffer;
+    }
+    const regions = await locateElements(page, selection);
+    if (!selection.all) {
+      return await page.screenshot({ ...screenshotOptions, fullPage: false, clip: regions[0].clip }) as Buffer;
+    }
+    const files = elementFilenames((target as { path: string }).path, regions);
+    const images: ElementImage[] = [];
+    for (const [index, region] of regions.entries()) {
+      images.push({ path: files[index], data: await page.screenshot({ ...screenshotOptions, fullPage: false, clip: region.clip }) as Buffer });
+    }
+    return images;
+  }
+
+  const variables = document?.variables || {};
+  const headerTemplate = opts.headerTemplate ? await getTemplateManager().resolveTemplate(opts.headerTemplate, variables) : undefined;
+  const footerTemplate = opts.footerTemplate ? await getTemplateManager().resolveTemplate(opts.footerTemplate, variables) : undefined;
+
+  // Explicit metadata wins over Markdown front-matter
+  const metadata = { ...document?.metadata, ...opts.metadata };
+
+  const pdfOptions: PDFOptions & NewerPdfOptions = {
+    path: undefined, // files are saved by the write stage
+    ...pageSize(opts.format),
+    printBackground: opts.printBackground !== undefined ? opts.printBackground : true,
+    omitBackground: opts.omitBackground,
+    landscape: opts.orientation === 'landscape',
+    margin: pdfMargin(opts.margin),
+    scale: opts.scale,
+    displayHeaderFooter: opts.displayHeaderFooter !== undefined ? opts.displayHeaderFooter : (!!headerTemplate || !!footerTemplate),
+    headerTemplate,
+    footerTemplate,
+    preferCSSPageSize: opts.preferCSSPageSize,
+    tagged: opts.generateTaggedPDF,
+    outline: opts.outline
+  };
+
+  // Chrome cannot embed author/keywords, so those PDFs are post-processed in memory
+  if (hasPdfMetadata(metadata)) {
+    return await applyPdfMetadata(await page.pdf(pdfOptions), metadata);
+  }
+
+  if (target.kind === 'stream') {
+    return await page.createPDFStream(pdfOptions);
+  }
+
+  return await page.pdf(pdfOptions);
+}
+
+/** Options of newer puppeteer releases; older ones ignore them */
+type NewerPdfOptions = { tagged?: boolean; outline?: boolean };
+type NewerScreenshotOptions = { optimizeForSize?: boolean };
+
+/**
+ * Named formats go to Chrome as they are; custom sizes set the page width and height
+ */
+function pageSize(format: PageOptions['format']): Pick<PDFOptions, 'format' | 'width' | 'height'> {
+  if (format && typeof format === 'object') {
+    return { width: format.width, height: format.height };
+  }
+  return { format: (format || 'A4') as PaperFormat };
+}
+
+function pdfMargin(margin: PageOptions['margin']): PDFMargin | undefined {
+  if (typeof margin === 'string') {
+    return { top: margin, right: margin, bottom: margin, left: margin };
+  }
+  return margin;
+}
+
+/** What the render stage produced for one output */
+type Rendered = Buffer | Readable | ElementImage[] | ResponsiveCaptures;
+
+/**
+ * Selector-all images and breakpoint captures are written next to each other
+ * and the first file stands for the output
+ */
+async function writeOutput(rendered: Rendered, target: OutputTarget, report: PipelineReport): Promise<RenderedOutput> {
+  if (rendered instanceof Readable) {
+    return rendered;
+  }
+  if ('captures' in rendered) {
+    const files: BreakpointFile[] = [];
+    for (const { data, ...capture } of rendered.captures) {
+      await writeFile(capture.path, data as Uint8Array);
+      files.push({ ...capture, path: normalize(capture.path) });
+    }
+    report.breakpoints = [...(report.breakpoints || []), ...files];
+    if (rendered.contactSheet) {
+      await writeFile(rendered.contactSheet.path, rendered.contactSheet.data as Uint8Array);
+      report.contactSheet = normalize(rendered.contactSheet.path);
+    }
+    return files[0].path;
+  }
+  if (Array.isArray(rendered)) {
+    const files: string[] = [];
+    for (const image of rendered) {
+      await writeFile(image.path, image.data as Uint8Array);
+      files.push(normalize(image.path));
+    }
+    report.elementFiles = [...(report.elementFiles || []), ...files];
+    return files[0];
+  }
+
+  switch (target.kind) {
+    case 'file':
+      await writeFile(target.path, rendered as Uint8Array);
+      return normalize(target.path);
+    case 'buffer':
+      return rendered;
+    case 'stream':
+      return Readable.from([rendered]);
+  }
+}
+
+let templateManager: TemplateManager | null = null;
+
+function getTemplateManager(): TemplateManager {
+  if (!templateManager) {
+    templateManager = new TemplateManager();
+  }
+  return templateManager;
+}
+
+/**
+ * A stream that arrives after cancellation is never handed out, so end it
+ */
+function destroyLateStream(output: unknown): void {
+  if (output instanceof Readable) {
+    output.destroy();
+  }
+}
+
+/**
+ * Run `cleanup` once the stream has been fully consumed, failed or destroyed.
+ */
+export function releaseWhenDone(stream: Readable, cleanup: () => Promise<void>): void {
+  let released = false;
+  const release = () => {
+    if (released) return;
+    released = true;
+    cleanup().catch(error => console.warn('Failed to clean up after streaming output:', error));
+  };
+
+  stream.once('end', release);
+  stream.once('close', release);
+  stream.once('error', release);
+}
+
+function safePageUrl(page: Page, fallback: string): string {
+  try {
+    const url = page.url();
+    return url && url !== 'about:blank' ? url : fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+/**
+ * Auto-scroll the page to trigger lazy loading
+ */
+async function autoScroll(page: Page): Promise<void> {
+  await page.evaluate(async () => {
+    const view = globalThis.window;
+    await new Promise<void>((resolve) => {
+      let totalHeight = 0;
+      const distance = 100;
+      const timer = setInterval(() => {
+        const scrollHeight = view.document.body.scrollHeight;
+        view.scrollBy(0, distance);
+        totalHeight += distance;
+
+        if (totalHeight >= scrollHeight) {
+          clearInterval(timer);
+          resolve();
+        }
+      }, 100);
+    });
+  });
+}
@@ -0,0 +1,89 @@
+// Redirect policy - records the redirect chain of the main document and enforces limits on it
+
+import type { HTTPResponse } from 'puppeteer';
+import { redirectPolicyError } from '../errors/error-handler';
+import { ConfigurationError } from '../types/errors';
+
+/**
+ * A document request that was answered with a redirect
+ */
+export interface RedirectHop {
+  url: string;
+  status: number;
+}
+
+export interface RedirectPolicy {
+  /** Fail after more redirects than this (default: no limit) */
+  maxRedirects?: number;
+  /** Follow redirects to another origin (default true) */
+  allowCrossOrigin?: boolean;
+  /** Case-insensitive regular expressions for login pages that redirects must not land on */
+  loginUrlPatterns?: string[];
+}
+
+/**
+ * The redirects that led to `response`, oldest first, and the URL that
+ * finally answered
+ */
+export function getRedirectChain(response: HTTPResponse): { chain: RedirectHop[]; finalUrl: string } {
+  const chain = response.request().redirectChain().map(request => ({
+    url: request.url(),
+    status: request.response()?.status() ?? 0
+  }));
+  return { chain, finalUrl: response.url() };
+}
+
+/**
+ * Compile login URL patterns, rejecting invalid regular expressions
+ */
+export function parseLoginUrlPatterns(patterns: string[]): RegExp[] {
+  return patterns.map(pattern => {
+    try {
+      return new RegExp(pattern, 'i');
+    } catch {
+      throw new ConfigurationError(`Invalid login URL pattern: ${pattern}`);
+    }
+  });
+}
+
+/**
+ * Throw a PrinteerError when the chain breaks the policy. Login patterns are
+ * only checked for redirect targets, so a login page can still be requested
+ * directly.
+ */
+export function checkRedirectPolicy(chain: RedirectHop[], finalUrl: string, policy: RedirectPolicy): void {
+  if (chain.length === 0) {
+    return;
+  }
+
+  const urls = [...chain.map(hop => hop.url), finalUrl];
+  const details = { redirectChain: chain, finalUrl };
+
+  if (policy.maxRedirects !== undefined && chain.length > policy.maxRedirects) {
+    throw redirectPolicyError('limit', `Redirected ${chain.length} times, more than the limit of ${policy.maxRedirects}: ${urls.join(' -> ')}`, details);
+  }
+
+  if (policy.allowCrossOrigin === false) {
+    const origin = originOf(urls[0]);
+    const foreign = urls.find(url => originOf(url) !== origin);
+    if (foreign) {
+      throw redirectPolicyError('cross-origin', `Redirected from ${origin} to another origin: ${foreign}`, details);
+    }
+  }
+
+  if (policy.loginUrlPatterns && policy.loginUrlPatterns.length > 0) {
+    const patterns = parseLoginUrlPatterns(policy.loginUrlPatterns);
+    const login = urls.slice(1).find(url => patterns.some(pattern => pattern.test(url)));
+    if (login) {
+      throw redirectPolicyError('login', `Redirected to a login page: ${login}`, details);
+    }
+  }
+}
+
+function originOf(url: string): string {
+  try {
+    return new URL(url).origin;
+  } catch {
+    return url;
+  }
+}
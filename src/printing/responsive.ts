@@ -0,0 +1,194 @@
+// Responsive captures - one screenshot per breakpoint from the same page load, and a contact sheet
+
+import { basename, dirname, extname, join, relative } from 'path';
+import type { Page, Viewport } from 'puppeteer';
+import { resolveBreakpoints } from '../config/breakpoints';
+import type { Breakpoint } from '../config/breakpoints';
+import { isImageOutput, resolveOutputType } from './output-format';
+import { ConfigurationError } from '../types/errors';
+import type { PageOptions } from './pipeline';
+
+/** Breakpoints of an image output and where its contact sheet goes */
+export interface ResponsiveOptions {
+  breakpoints: Breakpoint[];
+  /** Null when the sheet is turned off */
+  contactSheet: string | null;
+}
+
+/** A capture's file and the viewport it was taken at */
+export interface BreakpointFile {
+  name: string;
+  width: number;
+  height: number;
+  path: string;
+}
+
+export interface ResponsiveCaptures {
+  captures: Array<BreakpointFile & { data: Buffer }>;
+  contactSheet?: { path: string; data: Buffer };
+}
+
+/** Width of the page the contact sheet is rendered on when it is an image */
+const CONTACT_SHEET_WIDTH = 1600;
+
+/**
+ * The responsive options of the legacy options (`breakpoints`,
+ * `contactSheet`), or null without breakpoints. Captures are named after
+ * the output file, so one is required.
+ */
+export function resolveResponsiveOptions(
+  opts: Pick<PageOptions, 'breakpoints' | 'contactSheet' | 'selectorAll'>,
+  outputPath: string | null
+): ResponsiveOptions | null {
+  if (!opts.breakpoints) {
+    return null;
+  }
+  const breakpoints = resolveBreakpoints(opts.breakpoints);
+  if (outputPath === null) {
+    throw new ConfigurationError('Invalid configuration: breakpoints write one file per breakpoint and need an output file');
+  }
+  if (opts.selectorAll) {
+    throw new ConfigurationError('Invalid configuration: breakpoints cannot be combined with image.selectorAll');
+  }
+
+  if (opts.contactSheet === false) {
+    return { breakpoints, contactSheet: null };
+  }
+  const contactSheet = typeof opts.contactSheet === 'string' ? opts.contactSheet : defaultContactSheet(outputPath);
+  const type = resolveOutputType(contactSheet);
+  if (type !== 'html' && !isImageOutput(type)) {
+    throw new ConfigurationError(`Invalid configuration: the contact sheet ${contactSheet} must be an .html file or an image`);
+  }
+  return { breakpoints, contactSheet };
+}
+
+/**
+ * The file of one breakpoint's capture: `{breakpoint}` and `{width}` in the
+ * output name are filled in; names without them get `-<breakpoint>` before
+ * the extension
+ */
+export function breakpointFilename(pattern: string, breakpoint: Breakpoint): string {
+  const name = basename(pattern);
+  if (!/\{breakpoint\}|\{width\}/.test(name)) {
+    const extension = extname(name);
+    return join(dirname(pattern), `${basename(name, extension)}-${breakpoint.name}${extension}`);
+  }
+  return join(dirname(pattern), name
+    .replace(/\{breakpoint\}/g, breakpoint.name)
+    .replace(/\{width\}/g, String(breakpoint.viewport.width)));
+}
+
+/** `home.png` → `home-contact-sheet.html`, `shots/{breakpoint}.png` → `shots/contact-sheet.html` */
+function defaultContactSheet(pattern: string): string {
+  const extension = extname(pattern);
+  const stem = basename(pattern, extension)
+    .replace(/\{(breakpoint|width)\}/g, '')
+    .replace(/^[-_.\s]+|[-_.\s]+$/g, '');
+  return join(dirname(pattern), `${stem ? `${stem}-` : ''}contact-sheet.html`);
+}
+
+/**
+ * Capture the page at every breakpoint, in order, then restore its viewport.
+ * Chrome reloads the page when touch or mobile emulation changes; `settle`
+ * is told so it can repeat the waits.
+ */
+export async function captureBreakpoints(
+  page: Page,
+  options: ResponsiveOptions,
+  outputPath: string,
+  outputType: string,
+  capture: () => Promise<Buffer>,
+  settle: (reloaded: boolean) => Promise<void>
+): Promise<ResponsiveCaptures> {
+  const original = page.viewport();
+  let current: Viewport | null = original;
+  const captures: ResponsiveCaptures['captures'] = [];
+
+  try {
+    for (const breakpoint of options.breakpoints) {
+      const viewport: Viewport = { deviceScaleFactor: 1, isMobile: false, hasTouch: false, isLandscape: false, ...breakpoint.viewport };
+      const reloaded = !!current?.isMobile !== !!viewport.isMobile || !!current?.hasTouch !== !!viewport.hasTouch;
+      await page.setViewport(viewport);
+      current = viewport;
+      await settle(reloaded);
+      captures.push({
+        name: breakpoint.name,
+        width: viewport.width,
+        height: viewport.height,
+        path: breakpointFilename(outputPath, breakpoint),
+        data: await capture()
+      });
+    }
+  } finally {
+    if (original && current !== original) {
+      await page.setViewport(original);
+    }
+  }
+
+  if (!options.contactSheet) {
+    return { captures };
+  }
+  return { captures, contactSheet: { path: options.contactSheet, data: await renderContactSheet(page, options.contactSheet, captures, outputType) } };
+}
+
+/**
+ * The contact sheet: every capture side by side at the same scale, labeled
+ * with its breakpoint. HTML sheets link the image files; image sheets are
+ * rendered in a page of their own with the captures inlined.
+ */
+async function renderContactSheet(page: Page, sheetPath: string, captures: ResponsiveCaptures['captures'], outputType: string): Promise<Buffer> {
+  const type = resolveOutputType(sheetPath);
+  const title = await page.title().catch(() => '') || page.url();
+
+  if (type === 'html') {
+    const sources = captures.map(capture => relative(dirname(sheetPath), capture.path).split('\\').join('/'));
+    return Buffer.from(contactSheetHtml(title, page.url(), captures, sources), 'utf8');
+  }
+
+  const sources = captures.map(capture => `data:image/${outputType};base64,${capture.data.toString('base64')}`);
+  const sheet = await page.browser().newPage();
+  try {
+    await sheet.setViewport({ width: CONTACT_SHEET_WIDTH, height: 900 });
+    await sheet.setContent(contactSheetHtml(title, page.url(), captures, sources), { waitUntil: 'load' });
+    return await sheet.screenshot({ fullPage: true, type: type as 'png' | 'jpeg' | 'webp' }) as Buffer;
+  } finally {
+    await sheet.close().catch(() => undefined);
+  }
+}
+
+export function contactSheetHtml(title: string, url: string, captures: BreakpointFile[], sources: string[]): string {
+  // Figures grow with their viewport width, so every capture has the same scale
+  const figures = captures.map((capture, index) => `    <figure style="flex-grow: ${capture.width}">
+      <img src="${escapeHtml(sources[index])}" alt="${escapeHtml(capture.name)}">
+      <figcaption><strong>${escapeHtml(capture.name)}</strong> ${capture.width}×${capture.height}</figcaption>
+    </figure>`).join('\n');
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <title>${escapeHtml(title)} - contact sheet</title>
+  <style>
+    body { margin: 24px; font: 14px/1.4 system-ui, sans-serif; color: #1f2328; background: #f6f8fa; }
+    h1 { font-size: 18px; margin: 0 0 4px; }
+    p { margin: 0 0 24px; color: #57606a; }
+    main { display: flex; gap: 24px; align-items: flex-start; }
+    figure { margin: 0; flex: 1 1 0; min-width: 0; }
+    img { display: block; width: 100%; border: 1px solid #d0d7de; background: #fff; }
+    figcaption { margin-top: 8px; }
+  </style>
+</head>
+<body>
+  <h1>${escapeHtml(title)}</h1>
+  <p>${escapeHtml(url)}</p>
+  <main>
+${figures}
+  </main>
+</body>
+</html>
+`;
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"]/g, char => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;' })[char] as string);
+}
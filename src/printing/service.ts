@@ -0,0 +1,172 @@
+// Long-running Printeer service - owns a browser pool and tracks request activity
+
+import { PuppeteerLaunchOptions } from 'puppeteer';
+import { ConfigurationLoader, EnvironmentDetector } from '../config';
+import type { Configuration } from '../config/types/configuration';
+import type { ServiceStatus } from '../config/types/command-manager';
+import type { DiagnosticResult } from '../diagnostics/types/diagnostics';
+import { DefaultBrowserManager, DefaultBrowserFactory } from './browser';
+import { DefaultConverter } from './converter';
+import { BrowserManager } from './types/browser';
+import { PrinteerOptions, ConversionResult } from './types/conversion';
+import { PrinteerService, ServiceFactory } from './types/service';
+
+export class DefaultPrinteerService implements PrinteerService {
+  private browserManager: BrowserManager | null = null;
+  private converter: DefaultConverter | null = null;
+  private running = false;
+  private startedAt = 0;
+  private activeRequests = 0;
+  private totalRequests = 0;
+  private lastActivity?: Date;
+
+  /**
+   * @param config Fully resolved configuration (see DefaultServiceFactory for partial input)
+   * @param managerFactory Creates the pool owned by this service; defaults to a
+   * DefaultBrowserManager sized from `config.browser.pool`
+   */
+  constructor(
+    private readonly config: Configuration,
+    private readonly managerFactory: (config: Configuration) => BrowserManager = createBrowserManager
+  ) {}
+
+  async start(): Promise<void> {
+    if (this.running) {
+      return;
+    }
+
+    const browserManager = this.managerFactory(this.config);
+    await browserManager.initialize();
+
+    this.browserManager = browserManager;
+    this.converter = new DefaultConverter(browserManager);
+    this.startedAt = Date.now();
+    this.running = true;
+  }
+
+  async convert(options: PrinteerOptions): Promise<ConversionResult> {
+    if (!this.running || !this.converter) {
+      throw new Error('Printeer service is not running. Call start() first.');
+    }
+
+    this.activeRequests++;
+    this.totalRequests++;
+    this.lastActivity = new Date();
+
+    try {
+      return await this.converter.convert(options);
+    } finally {
+      this.activeRequests--;
+      this.lastActivity = new Date();
+    }
+  }
+
+  async doctor(): Promise<DiagnosticResult[]> {
+    // Imported lazily: the doctor module depends on the API entry point
+    const { DefaultDoctorModule } = await import('../diagnostics/doctor');
+    return await new DefaultDoctorModule().runFullDiagnostics();
+  }
+
+  async stop(): Promise<void> {
+    if (!this.running) {
+      return;
+    }
+
+    this.running = false;
+    const browserManager = this.browserManager;
+    this.browserManager = null;
+    this.converter = null;
+
+    if (browserManager) {
+      await browserManager.shutdown();
+    }
+  }
+
+  getStatus(): ServiceStatus {
+    return {
+      isRunning: this.running,
+      uptime: this.running ? Date.now() - this.startedAt : 0,
+      mode: this.config.mode,
+      activeRequests: this.activeRequests,
+      totalRequests: this.totalRequests,
+      lastActivity: this.lastActivity
+    };
+  }
+
+  /**
+   * Healthy while running with the configured minimum of browsers and at
+   * least one healthy browser (an empty pool is fine when `pool.min` is 0).
+   */
+  isHealthy(): boolean {
+    if (!this.running || !this.browserManager) {
+      return false;
+    }
+
+    const pool = this.browserManager.getPoolStatus();
+    if (pool.totalBrowsers < this.config.browser.pool.min) {
+      return false;
+    }
+
+    return pool.totalBrowsers === 0 || pool.healthyBrowsers > 0;
+  }
+}
+
+export class DefaultServiceFactory implements ServiceFactory {
+  createService(config: Partial<Configuration> = {}): PrinteerService {
+    if (!this.validateConfiguration(config)) {
+      throw new Error('Invalid service configuration: check browser.pool sizes and browser.timeout');
+    }
+
+    const resolved = ConfigurationLoader.mergeConfigurations({ mode: 'long-running' }, config);
+    return new DefaultPrinteerService(resolved);
+  }
+
+  validateConfiguration(config: Partial<Configuration>): boolean {
+    const pool = config.browser?.pool;
+
+    if (pool) {
+      if (pool.min !== undefined && (!Number.isInteger(pool.min) || pool.min < 0)) {
+        return false;
+      }
+      if (pool.max !== undefined && (!Number.isInteger(pool.max) || pool.max < 1)) {
+        return false;
+      }
+      if (pool.min !== undefined && pool.max !== undefined && pool.min > pool.max) {
+        return false;
+      }
+      if (pool.idleTimeout !== undefined && pool.idleTimeout < 0) {
+        return false;
+      }
+    }
+
+    if (config.browser?.timeout !== undefined && config.browser.timeout <= 0) {
+      return false;
+    }
+
+    return true;
+  }
+
+  getDefaultConfiguration(): Configuration {
+    return {
+      ...ConfigurationLoader.getDefaultConfiguration(EnvironmentDetector.detectEnvironment()),
+      mode: 'long-running'
+    };
+  }
+}
+
+function createBrowserManager(config: Configuration): BrowserManager {
+  const launchOptions: PuppeteerLaunchOptions = {
+    headless: config.browser.headless === 'auto' ? 'new' : config.browser.headless,
+    args: config.browser.args,
+    timeout: config.browser.timeout
+  };
+  if (config.browser.executablePath) {
+    launchOptions.executablePath = config.browser.executablePath;
+  }
+
+  return new DefaultBrowserManager(new DefaultBrowserFactory(launchOptions), {
+    minSize: config.browser.pool.min,
+    maxSize: config.browser.pool.max,
+    idleTimeout: config.browser.pool.idleTimeout
+  });
+}
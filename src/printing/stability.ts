@@ -0,0 +1,126 @@
+// Stability wait - holds the render until the DOM, the layout and the pixels stop changing
+
+import type { Page } from 'puppeteer';
+import type { ConversionBudget } from './cancellation';
+import type { PageOptions } from './pipeline';
+
+/** How long the page has to stay unchanged, and how long to wait for that */
+export interface StabilityOptions {
+  /** Milliseconds without DOM mutations, layout shifts or pixel changes */
+  threshold: number;
+  /** Milliseconds after which the page is rendered as it is */
+  timeout: number;
+}
+
+export const DEFAULT_STABILITY_THRESHOLD = 500;
+export const DEFAULT_STABILITY_TIMEOUT = 10000;
+
+/** Pause between two compared frames */
+const FRAME_INTERVAL = 100;
+
+/** What the in-page observer keeps on the window between evaluations */
+interface ObserverState {
+  lastChange: number;
+  disconnect(): void;
+}
+
+type ObservedWindow = typeof globalThis & { __printeerStability?: ObserverState };
+
+/**
+ * The stability check of the legacy options (`stabilityCheck`), or null
+ * when it is not set or turned off
+ */
+export function resolveStabilityCheck(opts: Pick<PageOptions, 'stabilityCheck'>): StabilityOptions | null {
+  const check = opts.stabilityCheck;
+  if (!check || check.enabled === false) {
+    return null;
+  }
+  return {
+    threshold: check.threshold ?? DEFAULT_STABILITY_THRESHOLD,
+    timeout: check.timeout ?? DEFAULT_STABILITY_TIMEOUT
+  };
+}
+
+/**
+ * Wait until the page has been quiet for the threshold: no DOM mutations and
+ * layout shifts in the page, and identical consecutive frames of the
+ * viewport, which also catches canvas and CSS animations. Resolves false
+ * when the timeout passes first.
+ */
+export async function waitForStability(page: Page, options: StabilityOptions, budget: ConversionBudget): Promise<boolean> {
+  const deadline = Date.now() + options.timeout;
+  await budget.race(page.evaluate(observeChanges));
+
+  try {
+    let frame = await budget.race(captureFrame(page));
+    let frameChangedAt = Date.now();
+    for (;;) {
+      await budget.delay(FRAME_INTERVAL);
+      const next = await budget.race(captureFrame(page));
+      if (!next.equals(frame as Uint8Array)) {
+        frame = next;
+        frameChangedAt = Date.now();
+      }
+      // A page that navigated away lost the observer and counts as changed
+      const domQuiet = Number(await budget.race(page.evaluate(sinceLastChange))) || 0;
+      if (Math.min(domQuiet, Date.now() - frameChangedAt) >= options.threshold) {
+        return true;
+      }
+      if (Date.now() >= deadline) {
+        return false;
+      }
+    }
+  } finally {
+    await page.evaluate(stopObserving).catch(() => undefined);
+  }
+}
+
+async function captureFrame(page: Page): Promise<Buffer> {
+  return await page.screenshot({ type: 'jpeg', quality: 50 }) as Buffer;
+}
+
+/** In-page: record the time of the last DOM mutation or layout shift */
+function observeChanges(): void {
+  const win = globalThis as ObservedWindow;
+  win.__printeerStability?.disconnect();
+
+  const state: ObserverState = { lastChange: win.performance.now(), disconnect: () => undefined };
+  const touch = () => {
+    state.lastChange = win.performance.now();
+  };
+  const mutations = new win.MutationObserver(touch);
+  mutations.observe(win.document, { subtree: true, childList: true, attributes: true, characterData: true });
+
+  let shifts: InstanceType<typeof win.PerformanceObserver> | null = null;
+  try {
+    shifts = new win.PerformanceObserver(list => {
+      // Layout-shift entries carry the shift score in `value`
+      if (list.getEntries().some(entry => ((entry as { value?: number }).value ?? 0) > 0)) {
+        touch();
+      }
+    });
+    shifts.observe({ type: 'layout-shift' });
+  } catch {
+    // Layout shifts are not reported by every browser; mutations still are
+  }
+
+  state.disconnect = () => {
+    mutations.disconnect();
+    shifts?.disconnect();
+  };
+  win.__printeerStability = state;
+}
+
+/** In-page: milliseconds since the last recorded change */
+function sinceLastChange(): number {
+  const win = globalThis as ObservedWindow;
+  const state = win.__printeerStability;
+  return state ? win.performance.now() - state.lastChange : 0;
+}
+
+/** In-page */
+function stopObserving(): void {
+  const win = globalThis as ObservedWindow;
+  win.__printeerStability?.disconnect();
+  delete win.__printeerStability;
+}
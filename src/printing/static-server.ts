@@ -0,0 +1,163 @@
+// Ephemeral static file server used to render local directories over http
+
+import { createServer, Server, IncomingMessage, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { createReadStream } from 'fs';
+import { stat } from 'fs/promises';
+import { extname, join, resolve, sep } from 'path';
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.htm': 'text/html; charset=utf-8',
+  '.css': 'text/css; charset=utf-8',
+  '.js': 'text/javascript; charset=utf-8',
+  '.mjs': 'text/javascript; charset=utf-8',
+  '.json': 'application/json; charset=utf-8',
+  '.txt': 'text/plain; charset=utf-8',
+  '.md': 'text/markdown; charset=utf-8',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.ico': 'image/x-icon',
+  '.woff': 'font/woff',
+  '.woff2': 'font/woff2',
+  '.ttf': 'font/ttf',
+  '.otf': 'font/otf',
+  '.pdf': 'application/pdf'
+};
+
+interface VirtualFile {
+  body: Buffer;
+  contentType: string;
+}
+
+/**
+ * Serves a single directory on 127.0.0.1 with an OS-assigned port. Only
+ * files below the root are reachable; directories resolve to index.html.
+ */
+export class StaticFileServer {
+  private server: Server | null = null;
+  private readonly root: string;
+  private readonly virtualFiles = new Map<string, VirtualFile>();
+
+  constructor(root: string) {
+    this.root = resolve(root);
+  }
+
+  /**
+   * Start listening and return the base URL (with a trailing slash)
+   */
+  async start(): Promise<string> {
+    if (this.server) {
+      return this.getBaseUrl();
+    }
+
+    const server = createServer((req, res) => {
+      this.handleRequest(req, res).catch(() => {
+        if (!res.headersSent) {
+          res.writeHead(500);
+        }
+        res.end();
+      });
+    });
+
+    await new Promise<void>((resolvePromise, reject) => {
+      server.once('error', reject);
+      server.listen(0, '127.0.0.1', () => {
+        server.off('error', reject);
+        resolvePromise();
+      });
+    });
+
+    this.server = server;
+    return this.getBaseUrl();
+  }
+
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) {
+      return;
+    }
+
+    this.server = null;
+    await new Promise<void>(resolvePromise => {
+      server.close(() => resolvePromise());
+      server.closeAllConnections?.();
+    });
+  }
+
+  /**
+   * Serve generated content at a URL path (e.g. a rendered document next to
+   * the assets it references). Virtual files take precedence over the disk.
+   */
+  addVirtualFile(urlPath: string, body: string | Buffer, contentType = 'text/html; charset=utf-8'): void {
+    const normalized = '/' + urlPath.replace(/^\/+/, '');
+    this.virtualFiles.set(normalized, { body: Buffer.isBuffer(body) ? body : Buffer.from(body), contentType });
+  }
+
+  getBaseUrl(): string {
+    if (!this.server) {
+      throw new Error('Static server is not running');
+    }
+    const { port } = this.server.address() as AddressInfo;
+    return `http://127.0.0.1:${port}/`;
+  }
+
+  private async handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    if (req.method !== 'GET' && req.method !== 'HEAD') {
+      res.writeHead(405, { Allow: 'GET, HEAD' });
+      res.end();
+      return;
+    }
+
+    const requestPath = decodeURIComponent(new URL(req.url || '/', 'http://localhost').pathname);
+
+    const virtualFile = this.virtualFiles.get(requestPath);
+    if (virtualFile) {
+      res.writeHead(200, {
+        'Content-Type': virtualFile.contentType,
+        'Content-Length': virtualFile.body.length,
+        'Cache-Control': 'no-store'
+      });
+      res.end(req.method === 'HEAD' ? undefined : virtualFile.body);
+      return;
+    }
+
+    let filePath = resolve(join(this.root, requestPath));
+
+    // Never serve anything outside the root
+    if (filePath !== this.root && !filePath.startsWith(this.root + sep)) {
+      res.writeHead(403);
+      res.end();
+      return;
+    }
+
+    let stats = await stat(filePath).catch(() => null);
+    if (stats?.isDirectory()) {
+      filePath = join(filePath, 'index.html');
+      stats = await stat(filePath).catch(() => null);
+    }
+
+    if (!stats || !stats.isFile()) {
+      res.writeHead(404, { 'Content-Type': 'text/plain; charset=utf-8' });
+      res.end('Not Found');
+      return;
+    }
+
+    res.writeHead(200, {
+      'Content-Type': CONTENT_TYPES[extname(filePath).toLowerCase()] || 'application/octet-stream',
+      'Content-Length': stats.size,
+      'Cache-Control': 'no-store'
+    });
+
+    if (req.method === 'HEAD') {
+      res.end();
+      return;
+    }
+
+    createReadStream(filePath).pipe(res);
+  }
+}
@@ -1,6 +1,20 @@
 // Conversion-related interfaces and types
 
-export type OutputType = 'pdf' | 'png';
+import type { StageTimings } from '../pipeline';
+import type { AppliedFallback, ErrorInfo, FailedAttempt } from '../../types/errors';
+import type {
+  DiagnosticsConfiguration,
+  ExtractionConfiguration,
+  HttpStatusRange,
+  ImageConfiguration,
+  PageConfiguration,
+  PDFConfiguration,
+  StabilityCheck
+} from '../../config/types/enhanced-config.types';
+import type { RedirectHop, RedirectPolicy } from '../redirects';
+import type { PageDiagnostics } from '../page-diagnostics';
+
+export type OutputType = 'pdf' | 'png' | 'jpeg' | 'webp' | 'html' | 'mhtml' | 'text' | 'markdown';
 export type WaitUntilOption = 'load' | 'networkidle0' | 'networkidle2';
 
 export interface Viewport {
@@ -31,19 +45,77 @@ export interface BrowserOptions {
 export interface RenderOptions {
   waitUntil?: WaitUntilOption;
   timeout?: number;
+  /** Render once the DOM, layout and pixels have been unchanged for a while */
+  stabilityCheck?: StabilityCheck;
   quality?: number;
   format?: string;
   margin?: Margin;
   fullPage?: boolean;
   omitBackground?: boolean;
+  /** Theme and code highlighting for Markdown inputs */
+  markdown?: {
+    theme?: string;
+    highlight?: boolean;
+  };
+  /** Document statuses that count as success: 304, "2xx" or "200-299" (default 2xx and 304) */
+  acceptedStatuses?: HttpStatusRange[];
+  /** Render pages with other statuses and add a warning instead of failing */
+  renderErrorPages?: boolean;
+  /** Limits on redirects of the main document; violations fail with a REDIRECT_* code */
+  redirects?: RedirectPolicy;
+  /** Console levels to record, counts of errors that fail the conversion, and the HAR log */
+  diagnostics?: DiagnosticsConfiguration;
+  /** Reader mode, links and tables of text and Markdown outputs */
+  extraction?: ExtractionConfiguration;
+}
+
+/**
+ * One of several files rendered from the same page load. Settings override
+ * the conversion's for this file only; PDF settings apply to PDFs, image
+ * settings to screenshots and extraction settings to text and Markdown.
+ */
+export interface OutputSpec {
+  /** File to write; its extension picks the format */
+  file: string;
+  /** Format when the extension does not say it (pdf, png, jpeg, webp, html, mhtml, text or markdown) */
+  type?: string;
+  page?: PageConfiguration;
+  pdf?: PDFConfiguration;
+  image?: ImageConfiguration;
+  extraction?: ExtractionConfiguration;
 }
 
+/** Output files as paths or specs; the first one is the primary output */
+export type OutputList = Array<string | OutputSpec>;
+
 export interface PrinteerOptions {
-  url: string;
-  outputFile: string;
+  /** http(s) URL, file:// URL, or local HTML file/directory path. Required unless `html` is given */
+  url?: string;
+  /** Raw HTML to render instead of navigating to `url` */
+  html?: string;
+  /** Base URL for relative assets in `html` */
+  baseUrl?: string;
+  /** When omitted, nothing is written and the bytes are returned in `ConversionResult.buffer` */
+  outputFile?: string;
   outputType?: OutputType;
+  /** More files rendered from the same navigation and wait cycle as `outputFile` */
+  outputs?: OutputList;
   browserOptions?: BrowserOptions;
   renderOptions?: RenderOptions;
+  /** Cancel the conversion; the page is closed and the browser released */
+  signal?: AbortSignal;
+  /** End-to-end time budget in milliseconds, shared by every stage */
+  deadline?: number;
+  /** Retry failures with the registered fallback strategies (default true) */
+  fallbacks?: boolean;
+  /** Retries of retryable failures after the first attempt (default 0); `deadline` covers them all */
+  retryAttempts?: number;
+  /** Delay before the first retry, in milliseconds; later delays grow exponentially */
+  retryDelay?: number;
+  /** Upper bound for any single retry delay, in milliseconds */
+  retryMaxDelay?: number;
+  /** Fraction of each retry delay that is randomized, 0 to 1 */
+  retryJitter?: number;
 }
 
 export interface ConversionResult {
@@ -53,11 +125,36 @@ export interface ConversionResult {
   duration: number;
   success: boolean;
   error?: string;
+  /** Classification of the failure: stable code, retryable flag and remediation */
+  errorInfo?: ErrorInfo;
+  /** Fallbacks applied before the conversion succeeded or finally failed, in order */
+  fallbacks?: AppliedFallback[];
+  /** The failed attempts, in order, when the conversion was retried */
+  attempts?: FailedAttempt[];
+  /** Files written for `outputs`, in order */
+  outputFiles?: string[];
+  /** Rendered bytes, present when no outputFile was given */
+  buffer?: Buffer;
+  /** Milliseconds spent in each pipeline stage (acquire, prepare, navigate, wait, render, write, release) */
+  timings?: StageTimings;
+  /** Problems that did not fail the conversion, e.g. a rendered error page */
+  warnings?: string[];
+  /** Console messages, uncaught page errors and failed requests, for failed conversions too */
+  diagnostics?: PageDiagnostics;
+  /** The HAR log of the conversion, when `renderOptions.diagnostics.har` is set */
+  harFile?: string;
   metadata?: {
     pageTitle?: string;
     pageUrl: string;
     timestamp: Date;
     browserVersion?: string;
+    /** Status of the main document response (http(s) inputs only) */
+    httpStatus?: number;
+    httpStatusText?: string;
+    /** URL that answered after following redirects */
+    finalUrl?: string;
+    /** Redirects of the main document, oldest first */
+    redirectChain?: RedirectHop[];
   };
 }
 
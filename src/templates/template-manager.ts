@@ -5,6 +5,7 @@
 
 import * as fs from 'fs/promises';
 import * as path from 'path';
+import { fileURLToPath } from 'url';
 import type {
   Template,
   TemplateType,
@@ -69,6 +70,54 @@ export class TemplateManager {
     return this.renderTemplateContent(template.content, variables);
   }
 
+  /**
+   * Resolve a header/footer option to HTML: a template name, a template file
+   * (`file:` and its path, or the path of an existing file), or inline
+   * template HTML, rendered with variables. A file that cannot be read is
+   * used as inline content, like any other text.
+   */
+  async resolveTemplate(
+    nameOrContent: string,
+    variables: Record<string, any> = {}
+  ): Promise<string> {
+    if (this.templates.has(nameOrContent) || this.builtInTemplates.has(nameOrContent)) {
+      return this.renderTemplate(nameOrContent, variables);
+    }
+
+    const file = await this.findTemplateFile(nameOrContent);
+    if (file) {
+      try {
+        const content = await fs.readFile(file, 'utf-8');
+        return this.renderTemplateContent(content, variables);
+      } catch (error) {
+        console.warn(`Template file ${file} could not be read, using the text as inline content:`, error instanceof Error ? error.message : error);
+      }
+    }
+
+    return this.renderTemplateContent(nameOrContent, variables);
+  }
+
+  /**
+   * The file a header/footer option names, or null for inline content
+   */
+  private async findTemplateFile(value: string): Promise<string | null> {
+    if (/^file:\/\//i.test(value)) {
+      try {
+        return fileURLToPath(value);
+      } catch {
+        return null;
+      }
+    }
+    if (/^file:/i.test(value)) {
+      return value.slice('file:'.length);
+    }
+    if (value.includes('<')) {
+      return null;
+    }
+    const stats = await fs.stat(value).catch(() => null);
+    return stats?.isFile() ? value : null;
+  }
+
   /**
    * Render template content with variable substitution
    */
@@ -3,6 +3,8 @@
  * Type definitions for HTML template management and rendering
  */
 
+import { ErrorType, PrinteerError } from '../../types/errors';
+
 export type TemplateType = 'header' | 'footer' | 'content';
 
 export interface Template {
@@ -38,23 +40,28 @@ export interface BuiltInTemplate {
   category: 'corporate' | 'simple' | 'minimal' | 'invoice' | 'report';
 }
 
-export class TemplateError extends Error {
+const TEMPLATE_REMEDIATION = 'Check the template name or path; `printeer template list` shows the available templates.';
+
+export class TemplateError extends PrinteerError {
   constructor(message: string, public templateName?: string) {
-    super(message);
+    super(message, ErrorType.CONFIGURATION, 'TEMPLATE_ERROR', {
+      details: templateName ? { templateName } : undefined,
+      remediation: TEMPLATE_REMEDIATION
+    });
     this.name = 'TemplateError';
   }
 }
 
-export class TemplateValidationError extends Error {
+export class TemplateValidationError extends PrinteerError {
   constructor(message: string, public errors: string[]) {
-    super(message);
+    super(message, ErrorType.CONFIGURATION, 'TEMPLATE_ERROR', { details: { errors }, remediation: TEMPLATE_REMEDIATION });
     this.name = 'TemplateValidationError';
   }
 }
 
-export class TemplateLoadError extends Error {
-  constructor(message: string, public cause?: Error) {
-    super(message);
+export class TemplateLoadError extends PrinteerError {
+  constructor(message: string, cause?: Error) {
+    super(message, ErrorType.CONFIGURATION, 'TEMPLATE_ERROR', { remediation: TEMPLATE_REMEDIATION, cause });
     this.name = 'TemplateLoadError';
   }
-}
\ No newline at end of file
+}
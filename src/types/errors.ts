@@ -1,5 +1,7 @@
 // Error handling interfaces and types
 
+import type { ValidationError } from '../config/types/enhanced-config.types';
+
 export enum ErrorType {
   CONFIGURATION = 'configuration',
   BROWSER_LAUNCH = 'browser_launch',
@@ -11,12 +13,73 @@ export enum ErrorType {
   SYSTEM = 'system'
 }
 
-export interface PrinteerError extends Error {
+/**
+ * Serializable form of a PrinteerError, as found in results and batch reports
+ */
+export interface ErrorInfo {
+  type: ErrorType;
+  code: string;
+  message: string;
+  retryable: boolean;
+  remediation?: string;
+  details?: Record<string, any>;
+}
+
+export interface PrinteerErrorOptions {
+  details?: Record<string, any>;
+  remediation?: string;
+  retryable?: boolean;
+  /** The underlying error, e.g. the Puppeteer error that was classified */
+  cause?: unknown;
+}
+
+/**
+ * Base class for classified failures. `code` is stable and meant for
+ * automation; `message` is for people.
+ */
+export class PrinteerError extends Error {
   type: ErrorType;
   code: string;
   details: Record<string, any>;
   remediation?: string;
   retryable: boolean;
+  cause?: unknown;
+
+  constructor(message: string, type: ErrorType, code: string, options: PrinteerErrorOptions = {}) {
+    super(message);
+    this.name = 'PrinteerError';
+    this.type = type;
+    this.code = code;
+    this.details = options.details || {};
+    this.remediation = options.remediation;
+    this.retryable = options.retryable ?? false;
+    this.cause = options.cause;
+  }
+
+  toJSON(): ErrorInfo {
+    const info: ErrorInfo = {
+      type: this.type,
+      code: this.code,
+      message: this.message,
+      retryable: this.retryable
+    };
+    if (this.remediation) info.remediation = this.remediation;
+    if (Object.keys(this.details).length > 0) info.details = this.details;
+    return info;
+  }
+}
+
+/**
+ * Options or configuration that cannot work, found before anything is rendered
+ */
+export class ConfigurationError extends PrinteerError {
+  constructor(message: string, public errors?: ValidationError[]) {
+    super(message, ErrorType.CONFIGURATION, 'INVALID_CONFIGURATION', {
+      details: errors && errors.length > 0 ? { errors } : {},
+      remediation: 'Fix the reported options; `printeer config validate` checks configuration files.'
+    });
+    this.name = 'ConfigurationError';
+  }
 }
 
 export interface ErrorHandler {
@@ -26,8 +89,37 @@ export interface ErrorHandler {
   shouldRetry(error: PrinteerError): boolean;
 }
 
+/**
+ * Adjusts the options of a failed conversion so it can be tried again.
+ * Strategies with a higher priority are tried first.
+ */
 export interface FallbackStrategy {
+  /** Recorded in results when the fallback is applied; required for registration */
+  readonly name?: string;
   canHandle(error: PrinteerError): boolean;
+  /**
+   * Return the options for the next attempt, or null when the fallback would
+   * change nothing (e.g. JavaScript is already disabled)
+   */
   execute(originalOptions: any): Promise<any>;
   getPriority(): number;
-}
\ No newline at end of file
+}
+
+/**
+ * A fallback that was applied, and the code of the error that triggered it
+ */
+export interface AppliedFallback {
+  name: string;
+  code: string;
+}
+
+/**
+ * A failed attempt of a retried conversion
+ */
+export interface FailedAttempt {
+  /** 1-based attempt number */
+  attempt: number;
+  error: ErrorInfo;
+  /** Wait before the next attempt, in milliseconds (absent for the last attempt) */
+  retryDelay?: number;
+}
@@ -0,0 +1,177 @@
+import { describe, it, expect, vi, afterEach, afterAll } from 'vitest';
+import { writeFile } from 'fs/promises';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { BatchOptions } from '../../src/batch/types/batch.types';
+import { httpStatusError } from '../../src/errors';
+
+const { printeer } = vi.hoisted(() => ({ printeer: vi.fn() }));
+
+vi.mock('../../src/api', () => ({ default: printeer }));
+
+import { BatchProcessor } from '../../src/batch/batch-processor';
+
+describe('BatchProcessor error reporting', () => {
+  const outputDir = mkdtempSync(join(tmpdir(), 'printeer-batch-errors-'));
+  const options: BatchOptions = {
+    concurrency: 1,
+    retryAttempts: 0,
+    continueOnError: true,
+    outputDirectory: outputDir,
+    reportFormat: 'json',
+    progressTracking: false,
+    dryRun: false,
+    cleanup: true
+  };
+
+  afterEach(() => {
+    printeer.mockReset();
+  });
+
+  afterAll(() => {
+    rmSync(outputDir, { recursive: true, force: true });
+  });
+
+  it('should record the error code of each failed job and summarize them', async () => {
+    printeer.mockImplementation(async (url: string, output: string) => {
+      if (url.includes('unknown-host')) throw new Error('net::ERR_NAME_NOT_RESOLVED at ' + url);
+      if (url.includes('down')) throw httpStatusError(503, 'Service Unavailable', url);
+      await writeFile(output, 'pdf');
+      return output;
+    });
+
+    const failed = vi.fn();
+    const processor = new BatchProcessor(options);
+    processor.on('job-failed', failed);
+
+    const report = await processor.processBatch([
+      { id: 'ok', url: 'https://example.com/', output: 'ok.pdf' },
+      { id: 'dns', url: 'https://unknown-host.invalid/', output: 'dns.pdf' },
+      { id: 'down-1', url: 'https://down.example.com/1', output: 'down-1.pdf' },
+      { id: 'down-2', url: 'https://down.example.com/2', output: 'down-2.pdf' }
+    ], options);
+
+    const byId = Object.fromEntries(report.results.map(result => [result.jobId, result]));
+    expect(byId.ok.errorInfo).toBeUndefined();
+    expect(byId.dns.error).toBe('net::ERR_NAME_NOT_RESOLVED at https://unknown-host.invalid/');
+    expect(byId.dns.errorInfo).toMatchObject({ code: 'DNS_LOOKUP_FAILED', type: 'network', retryable: false });
+    expect(byId['down-1'].errorInfo).toMatchObject({ code: 'HTTP_SERVER_ERROR', details: { status: 503 } });
+    expect(report.errorSummary).toEqual({ DNS_LOOKUP_FAILED: 1, HTTP_SERVER_ERROR: 2 });
+    expect(failed.mock.calls[0][1].code).toBe('DNS_LOOKUP_FAILED');
+  });
+
+  it('should record the response status and warnings of each job', async () => {
+    printeer.mockImplementation(async (url: string, output: string, _type: unknown, config: any) => {
+      const status = url.includes('missing') ? 404 : 200;
+      config.report.response = { status, statusText: status === 200 ? 'OK' : 'Not Found', url, redirectChain: [] };
+      if (status !== 200) {
+        if (!config.renderErrorPages) throw httpStatusError(status, 'Not Found', url);
+        config.report.warnings = [`Rendered error page: ${url} returned 404 Not Found`];
+      }
+      await writeFile(output, 'pdf');
+      return output;
+    });
+
+    const report = await new BatchProcessor(options).processBatch([
+      { id: 'ok', url: 'https://example.com/', output: 'ok.pdf' },
+      { id: 'missing', url: 'https://example.com/missing', output: 'missing.pdf' },
+      { id: 'branded', url: 'https://example.com/missing', output: 'branded.pdf', config: { http: { renderErrorPages: true } } }
+    ], options);
+
+    const byId = Object.fromEntries(report.results.map(result => [result.jobId, result]));
+    expect(byId.ok).toMatchObject({ status: 'completed', httpStatus: 200, httpStatusText: 'OK' });
+    expect(byId.ok.warnings).toBeUndefined();
+    expect(byId.missing).toMatchObject({ status: 'failed', httpStatus: 404, httpStatusText: 'Not Found' });
+    expect(byId.branded).toMatchObject({
+      status: 'completed',
+      httpStatus: 404,
+      warnings: ['Rendered error page: https://example.com/missing returned 404 Not Found']
+    });
+  });
+
+  it('should report the page metrics and HAR file of each job', async () => {
+    printeer.mockImplementation(async (_url: string, output: string, _type: unknown, config: any) => {
+      // The pipeline records the network for a HAR log or when asked to
+      if (config.har || config.recordNetwork) {
+        config.report.network = { resourceCount: 12, totalSize: 48213, loadTime: 840 };
+      }
+      if (config.har) {
+        config.report.harFile = output.replace(/\.pdf$/, '.har');
+      }
+      await writeFile(output, 'pdf');
+      return output;
+    });
+    const jobs = [
+      { id: 'plain', url: 'https://example.com/', output: 'plain.pdf' },
+      { id: 'traced', url: 'https://example.com/', output: 'traced.pdf', config: { diagnostics: { har: true } } }
+    ];
+
+    const report = await new BatchProcessor(options).processBatch(jobs, options);
+
+    const byId = Object.fromEntries(report.results.map(result => [result.jobId, result]));
+    expect(printeer.mock.calls.every(call => call[3].recordNetwork === undefined)).toBe(true);
+    expect(byId.plain.pageMetrics).toBeUndefined();
+    expect(byId.plain.harFile).toBeUndefined();
+    expect(byId.traced.pageMetrics).toEqual({ resourceCount: 12, totalSize: 48213, loadTime: 840 });
+    expect(byId.traced.harFile).toBe(join(outputDir, 'traced.har'));
+
+    const measured = { ...options, pageMetrics: true };
+    const withMetrics = await new BatchProcessor(measured).processBatch(jobs.slice(0, 1), measured);
+    expect(withMetrics.results[0].pageMetrics).toEqual({ resourceCount: 12, totalSize: 48213, loadTime: 840 });
+  });
+
+  it('should render every file of an output list in one call per job', async () => {
+    printeer.mockImplementation(async (_url: string, outputs: any, _type: unknown, config: any) => {
+      const files = outputs.map((output: any) => typeof output === 'string' ? output : output.file);
+      await Promise.all(files.map((file: string) => writeFile(file, 'bytes')));
+      config.report.outputFiles = files.slice(1);
+      return files;
+    });
+
+    const report = await new BatchProcessor(options).processBatch([{
+      id: 'bundle',
+      url: 'https://example.com/{slug}',
+      output: ['{slug}.pdf', { file: '{slug}-thumb.png', image: { fullPage: true } }, '{slug}.html'],
+      variables: { slug: 'home' }
+    }], options);
+
+    expect(printeer).toHaveBeenCalledTimes(1);
+    expect(printeer.mock.calls[0][1]).toEqual([
+      join(outputDir, 'home.pdf'),
+      { file: join(outputDir, 'home-thumb.png'), image: { fullPage: true } },
+      join(outputDir, 'home.html')
+    ]);
+    expect(report.results[0]).toMatchObject({
+      status: 'completed',
+      outputFile: join(outputDir, 'home.pdf'),
+      outputFiles: [join(outputDir, 'home.pdf'), join(outputDir, 'home-thumb.png'), join(outputDir, 'home.html')]
+    });
+  });
+
+  it('should reject unsupported output extensions before rendering any job', async () => {
+    const pending = new BatchProcessor(options).processBatch([
+      { id: 'photo', url: 'https://example.com/', output: 'photo.jpg' },
+      { id: 'anim', url: 'https://example.com/', output: 'anim.gif' }
+    ], options);
+
+    await expect(pending).rejects.toMatchObject({
+      name: 'BatchValidationError',
+      errors: ['Job anim: Invalid output type: gif (supported: pdf, png, jpg, jpeg, webp, html, htm, mhtml, mht, txt, text, md, markdown)']
+    });
+    expect(printeer).not.toHaveBeenCalled();
+  });
+
+  it('should leave the summary out when every job succeeds', async () => {
+    printeer.mockImplementation(async (_url: string, output: string) => {
+      await writeFile(output, 'pdf');
+      return output;
+    });
+
+    const report = await new BatchProcessor(options).processBatch([
+      { id: 'ok', url: 'https://example.com/', output: 'ok.pdf' }
+    ], options);
+
+    expect(report.errorSummary).toBeUndefined();
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, existsSync, readFileSync } from 'fs';
+import { writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { PDFDocument } from 'pdf-lib';
+import type { BatchOptions } from '../../src/batch/types/batch.types';
+
+const { printeer } = vi.hoisted(() => ({ printeer: vi.fn() }));
+
+vi.mock('../../src/api', () => ({ default: printeer }));
+
+import { BatchProcessor } from '../../src/batch/batch-processor';
+
+describe('BatchProcessor merge', () => {
+  let outputDir: string;
+  let options: BatchOptions;
+
+  beforeEach(() => {
+    outputDir = mkdtempSync(join(tmpdir(), 'printeer-merge-'));
+    options = {
+      concurrency: 3,
+      retryAttempts: 0,
+      continueOnError: true,
+      outputDirectory: outputDir,
+      reportFormat: 'json',
+      progressTracking: false,
+      dryRun: false,
+      cleanup: true
+    };
+
+    // Each source renders as many pages as the digit in its URL, with a delay
+    // that finishes later jobs first
+    printeer.mockImplementation(async (url: string, output: string) => {
+      const pages = Number(/(\d)/.exec(url)![1]);
+      await new Promise(resolve => setTimeout(resolve, (4 - pages) * 20));
+      if (url.includes('fail')) {
+        throw new Error('Navigation failed');
+      }
+      const document = await PDFDocument.create();
+      document.setTitle(`Doc ${pages}`);
+      for (let i = 0; i < pages; i++) document.addPage();
+      await writeFile(output, await document.save());
+      return output;
+    });
+  });
+
+  afterEach(() => {
+    rmSync(outputDir, { recursive: true, force: true });
+    printeer.mockReset();
+  });
+
+  it('should merge completed PDFs in job order', async () => {
+    const processor = new BatchProcessor(options);
+    const report = await processor.processBatch([
+      { id: 'one', url: 'https://example.com/1', output: 'one.pdf' },
+      { id: 'three', url: 'https://example.com/3', output: 'three.pdf', title: 'Third' },
+      { id: 'two', url: 'https://example.com/2', output: 'two.pdf' }
+    ], { ...options, merge: { output: 'book.pdf', keepSources: false } });
+
+    expect(report.merge).toEqual({
+      outputFile: join(outputDir, 'book.pdf'),
+      pageCount: 6,
+      sources: ['one', 'three', 'two'],
+      skipped: []
+    });
+    const merged = await PDFDocument.load(readFileSync(join(outputDir, 'book.pdf')));
+    expect(merged.getPageCount()).toBe(6);
+    expect(existsSync(join(outputDir, 'one.pdf'))).toBe(false);
+    expect(report.results[0].outputFile).toBeUndefined();
+    expect(report.results[0].mergedInto).toBe(join(outputDir, 'book.pdf'));
+  });
+
+  it('should merge the jobs expanded from a listed job, and only those', async () => {
+    const report = await new BatchProcessor(options).processBatch([
+      { id: 'report', url: 'https://example.com/{n}', output: 'report-{n}.pdf', variables: { n: [1, 2] } },
+      { id: 'report-summary', url: 'https://example.com/3', output: 'summary.pdf' }
+    ], { ...options, merge: { output: 'reports.pdf', jobs: ['report'] } });
+
+    expect(report.merge).toMatchObject({ pageCount: 3, sources: ['report-1', 'report-2'], skipped: [] });
+  });
+
+  it('should only merge partially when allowed', async () => {
+    const jobs = [
+      { id: 'ok', url: 'https://example.com/1', output: 'ok.pdf' },
+      { id: 'bad', url: 'https://example.com/fail2', output: 'bad.pdf' }
+    ];
+
+    const report = await new BatchProcessor(options).processBatch(jobs, { ...options, merge: { output: 'all.pdf' } });
+    expect(report.merge?.sources).toEqual(['ok']);
+    expect(report.merge?.skipped).toEqual(['bad']);
+
+    const strict = await new BatchProcessor(options).processBatch(jobs, { ...options, merge: { output: 'all.pdf', allowPartial: false } });
+    expect(strict.merge).toBeUndefined();
+    expect(strict.results).toHaveLength(2);
+    expect(strict.mergeError).toMatchObject({
+      code: 'MERGE_INCOMPLETE',
+      message: 'Merge failed: jobs did not complete: bad',
+      details: { skipped: ['bad'] }
+    });
+  });
+
+  it('should validate the merge section before rendering', async () => {
+    await expect(new BatchProcessor(options).processBatch(
+      [{ id: 'shot', url: 'https://example.com/1', output: 'shot.png' }],
+      { ...options, merge: { output: 'all.pdf', jobs: ['shot', 'missing'] } }
+    )).rejects.toThrow('Invalid merge configuration');
+    expect(printeer).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,154 @@
+import { describe, it, expect, vi, afterEach, afterAll } from 'vitest';
+import { writeFile } from 'fs/promises';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { BatchOptions } from '../../src/batch/types/batch.types';
+import { httpStatusError } from '../../src/errors';
+
+const { printeer } = vi.hoisted(() => ({ printeer: vi.fn() }));
+
+vi.mock('../../src/api', () => ({ default: printeer }));
+
+import { BatchProcessor } from '../../src/batch/batch-processor';
+
+describe('BatchProcessor retries', () => {
+  const outputDir = mkdtempSync(join(tmpdir(), 'printeer-batch-retry-'));
+  const options: BatchOptions = {
+    concurrency: 2,
+    retryAttempts: 2,
+    retryDelay: 1,
+    continueOnError: true,
+    outputDirectory: outputDir,
+    reportFormat: 'json',
+    progressTracking: false,
+    dryRun: false,
+    cleanup: true
+  };
+
+  const succeed = async (_input: string, output: string) => {
+    await writeFile(output, 'pdf');
+    return output;
+  };
+
+  afterEach(() => {
+    printeer.mockReset();
+  });
+
+  afterAll(() => {
+    rmSync(outputDir, { recursive: true, force: true });
+  });
+
+  it('should retry retryable failures and record each failed attempt', async () => {
+    printeer
+      .mockRejectedValueOnce(httpStatusError(502, 'Bad Gateway'))
+      .mockRejectedValueOnce(new Error('Navigation timeout of 30000 ms exceeded'))
+      .mockImplementationOnce(succeed);
+
+    const retried = vi.fn();
+    const processor = new BatchProcessor(options);
+    processor.on('job-retry', retried);
+
+    const report = await processor.processBatch([{ id: 'flaky', url: 'https://staging.example.com/', output: 'flaky.pdf' }], options);
+    const [result] = report.results;
+
+    expect(result.status).toBe('completed');
+    expect(result.retryCount).toBe(2);
+    expect(result.attempts?.map(attempt => attempt.error.code)).toEqual(['HTTP_SERVER_ERROR', 'NAVIGATION_TIMEOUT']);
+    expect(result.attempts?.every(attempt => attempt.retryDelay! >= 0)).toBe(true);
+    expect(retried.mock.calls.map(call => call[2].attempt)).toEqual([1, 2]);
+    expect(retried.mock.calls[0][2].maxAttempts).toBe(3);
+    // The API's own retries are turned off so attempts are counted once
+    expect(printeer.mock.calls[0][3].retryAttempts).toBe(0);
+  });
+
+  it('should not retry errors that are not retryable', async () => {
+    printeer.mockRejectedValue(httpStatusError(404, 'Not Found'));
+
+    const report = await new BatchProcessor(options).processBatch([
+      { id: 'missing', url: 'https://example.com/missing', output: 'missing.pdf' }
+    ], options);
+
+    expect(printeer).toHaveBeenCalledTimes(1);
+    expect(report.results[0]).toMatchObject({ status: 'failed', retryCount: 0 });
+    expect(report.results[0].attempts).toBeUndefined();
+  });
+
+  it('should record every attempt when a job keeps failing', async () => {
+    printeer.mockRejectedValue(httpStatusError(503, 'Service Unavailable'));
+
+    const report = await new BatchProcessor(options).processBatch([
+      { id: 'down', url: 'https://down.example.com/', output: 'down.pdf' }
+    ], options);
+    const [result] = report.results;
+
+    expect(printeer).toHaveBeenCalledTimes(3);
+    expect(result.retryCount).toBe(2);
+    expect(result.attempts?.map(attempt => attempt.attempt)).toEqual([1, 2, 3]);
+    expect(result.attempts?.[2].retryDelay).toBeUndefined();
+  });
+
+  it('should let a job override the number of retries', async () => {
+    printeer.mockRejectedValue(httpStatusError(503, 'Service Unavailable'));
+
+    const report = await new BatchProcessor(options).processBatch([
+      { id: 'once', url: 'https://down.example.com/', output: 'once.pdf', retryCount: 0 },
+      { id: 'config', url: 'https://down.example.com/', output: 'config.pdf', config: { performance: { retryAttempts: 1 } } }
+    ], options);
+
+    const byId = Object.fromEntries(report.results.map(result => [result.jobId, result]));
+    expect(byId.once.retryCount).toBe(0);
+    expect(byId.config.retryCount).toBe(1);
+    expect(printeer).toHaveBeenCalledTimes(3);
+  });
+
+  it('should fall back to the configured retries when the batch does not set them', async () => {
+    printeer.mockRejectedValue(httpStatusError(503, 'Service Unavailable'));
+    const { retryAttempts: _unset, ...unset } = options;
+
+    const report = await new BatchProcessor(unset).processBatch([
+      { id: 'preset', url: 'https://down.example.com/', output: 'preset.pdf', preset: 'fast-batch' },
+      { id: 'defaults', url: 'https://down.example.com/', output: 'defaults.pdf' }
+    ], unset);
+
+    const byId = Object.fromEntries(report.results.map(result => [result.jobId, result]));
+    expect(byId.preset.retryCount).toBe(1);
+    expect(byId.defaults.retryCount).toBe(2);
+    expect(printeer).toHaveBeenCalledTimes(5);
+  });
+
+  it('should share the job timeout between attempts and stop retrying once it has passed', async () => {
+    printeer.mockImplementation(async () => {
+      await new Promise(resolve => setTimeout(resolve, 60));
+      throw new Error('Navigation timeout of 30000 ms exceeded');
+    });
+
+    const report = await new BatchProcessor(options).processBatch([
+      { id: 'slow', url: 'https://slow.example.com/', output: 'slow.pdf', timeout: 100 }
+    ], options);
+
+    expect(printeer).toHaveBeenCalledTimes(2);
+    expect(printeer.mock.calls[0][3].deadline).toBe(100);
+    expect(printeer.mock.calls[1][3].deadline).toBeLessThanOrEqual(40);
+    expect(report.results[0]).toMatchObject({ status: 'failed', retryCount: 1 });
+  });
+
+  it('should stop scheduling after the first failure without continueOnError', async () => {
+    printeer.mockImplementation(async (input: string, output: string) => {
+      if (input.includes('broken')) throw httpStatusError(404, 'Not Found');
+      return succeed(input, output);
+    });
+
+    const failed = vi.fn();
+    const processor = new BatchProcessor({ ...options, concurrency: 1 });
+    processor.on('job-failed', failed);
+
+    await expect(processor.processBatch([
+      { id: 'broken', url: 'https://example.com/broken', output: 'broken.pdf' },
+      { id: 'later', url: 'https://example.com/later', output: 'later.pdf' }
+    ], { ...options, concurrency: 1, continueOnError: false })).rejects.toMatchObject({ code: 'HTTP_NOT_FOUND' });
+
+    expect(failed).toHaveBeenCalledTimes(1);
+    expect(printeer).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest';
+import { buildCliOptionsFromConfig, buildConfigFromCliOptions, parseCliOptions } from '../../src/cli/config-mapping';
+import { EnhancedConfigurationManager } from '../../src/config/enhanced-config-manager';
+import type { EnhancedPrintConfiguration } from '../../src/config/types/enhanced-config.types';
+
+async function roundTrip(config: Partial<EnhancedPrintConfiguration>): Promise<Partial<EnhancedPrintConfiguration>> {
+  return await buildConfigFromCliOptions(parseCliOptions(buildCliOptionsFromConfig(config)), new EnhancedConfigurationManager());
+}
+
+describe('CLI and configuration mapping', () => {
+  it('should write flags that turn an option off only for false', () => {
+    expect(buildCliOptionsFromConfig({ http: { redirects: { allowCrossOrigin: false } } })).toEqual(['--same-origin-redirects']);
+    expect(buildCliOptionsFromConfig({ http: { redirects: { allowCrossOrigin: true } } })).toEqual([]);
+    expect(buildCliOptionsFromConfig({ performance: { javascriptEnabled: true, cacheEnabled: false } })).toEqual(['--no-cache']);
+  });
+
+  it('should write a bare --har for true and the path for a HAR file name', async () => {
+    expect(buildCliOptionsFromConfig({ diagnostics: { har: true } })).toEqual(['--har']);
+    expect(buildCliOptionsFromConfig({ diagnostics: { har: 'logs/run.har' } })).toEqual(['--har', 'logs/run.har']);
+    expect(buildCliOptionsFromConfig({ diagnostics: { har: false } })).toEqual([]);
+
+    expect(await roundTrip({ diagnostics: { har: true } })).toEqual({ diagnostics: { har: true } });
+    expect(await roundTrip({ diagnostics: { har: 'logs/run.har' } })).toEqual({ diagnostics: { har: 'logs/run.har' } });
+  });
+
+  it('should keep the redirect policy through config -> CLI -> config', async () => {
+    expect(await roundTrip({ http: { redirects: { allowCrossOrigin: false } } }))
+      .toEqual({ http: { redirects: { allowCrossOrigin: false } } });
+    // Cross-origin redirects are the default, so allowing them needs no flag
+    expect((await roundTrip({ http: { redirects: { allowCrossOrigin: true } } })).http?.redirects?.allowCrossOrigin).not.toBe(false);
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { BUILT_IN_DEVICES, applyDevice, deviceCatalog, findDevice } from '../../src/config/devices';
+import { EnhancedConfigurationManager } from '../../src/config/enhanced-config-manager';
+import { toPrinteerError } from '../../src/errors';
+
+const kiosk = { viewport: { width: 1080, height: 1920 }, description: 'Lobby kiosk' };
+
+describe('findDevice', () => {
+  it('should find devices whatever the case and spacing of the name', () => {
+    expect(findDevice('iPhone 15')).toBe(BUILT_IN_DEVICES['iPhone 15']);
+    expect(findDevice('  iphone   15 pro max')).toBe(BUILT_IN_DEVICES['iPhone 15 Pro Max']);
+    expect(BUILT_IN_DEVICES['iPhone 15'].viewport).toEqual({ width: 393, height: 852, deviceScaleFactor: 3, isMobile: true, hasTouch: true, isLandscape: false });
+  });
+
+  it('should prefer configured devices and reject unknown names as configuration errors', () => {
+    const custom = { 'IPAD': kiosk, Kiosk: kiosk };
+
+    expect(findDevice('ipad', custom)).toBe(kiosk);
+    expect(Object.keys(deviceCatalog(custom)).filter(name => /ipad$/i.test(name))).toEqual(['IPAD']);
+    expect(() => findDevice('Nokia 3310')).toThrow('unknown device Nokia 3310');
+
+    try {
+      findDevice('Nokia 3310');
+    } catch (error) {
+      expect(toPrinteerError(error).code).toBe('INVALID_CONFIGURATION');
+    }
+  });
+});
+
+describe('applyDevice', () => {
+  it('should set the viewport and user agent of the device', () => {
+    const config = applyDevice({ emulation: { device: 'Pixel 8' } });
+
+    expect(config.viewport).toEqual(BUILT_IN_DEVICES['Pixel 8'].viewport);
+    expect(config.auth?.userAgent).toContain('Android 14; Pixel 8');
+  });
+
+  it('should keep the viewport settings and user agent given next to the device', () => {
+    const config = applyDevice({
+      emulation: { device: 'iPhone 15' },
+      viewport: { isLandscape: true, deviceScaleFactor: 2 },
+      auth: { userAgent: 'printeer-bot' }
+    });
+
+    expect(config.viewport).toEqual({ width: 852, height: 393, deviceScaleFactor: 2, isMobile: true, hasTouch: true, isLandscape: true });
+    expect(config.auth?.userAgent).toBe('printeer-bot');
+    expect(applyDevice({ viewport: { width: 800 } })).toEqual({ viewport: { width: 800 } });
+  });
+});
+
+describe('EnhancedConfigurationManager devices', () => {
+  let workDir: string | undefined;
+
+  afterEach(() => {
+    if (workDir) rmSync(workDir, { recursive: true, force: true });
+  });
+
+  it('should resolve custom devices from the configuration file, with later layers overriding them', async () => {
+    workDir = mkdtempSync(join(tmpdir(), 'printeer-devices-'));
+    const configPath = join(workDir, 'printeer.config.json');
+    writeFileSync(configPath, JSON.stringify({ defaults: { emulation: { device: 'Kiosk' } }, devices: { Kiosk: kiosk } }));
+    const manager = new EnhancedConfigurationManager();
+
+    const { config } = await manager.loadConfiguration(configPath);
+
+    expect(config.viewport).toMatchObject({ width: 1080, height: 1920 });
+    expect(manager.getAvailableDevices().Kiosk).toEqual(kiosk);
+    expect(manager.mergeConfigurations(config, { emulation: { device: 'iPhone SE' } }).viewport).toMatchObject({ width: 375, height: 667, isMobile: true });
+    expect(manager.mergeConfigurations(config, { viewport: { width: 720 } }).viewport).toMatchObject({ width: 720, height: 1920 });
+  });
+
+  it('should reject devices without a viewport size', () => {
+    const result = new EnhancedConfigurationManager().validateConfiguration({ devices: { Watch: { viewport: { width: 200 } } } });
+
+    expect(result.valid).toBe(false);
+  });
+});
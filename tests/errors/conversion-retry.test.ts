@@ -0,0 +1,54 @@
+/**
+ * Tests for retrying conversions through the public API
+ */
+
+import { describe, test, expect, vi, beforeEach } from 'vitest';
+
+const { launch } = vi.hoisted(() => ({ launch: vi.fn() }));
+vi.mock('puppeteer', () => ({ default: { launch } }));
+
+import { renderToBuffer, PrinteerError } from '../../src/api/index';
+import { createFakeBrowser } from '../shared/fake-browser';
+
+describe('Retrying conversions', () => {
+  beforeEach(() => {
+    launch.mockReset();
+  });
+
+  test('retries retryable failures with a fresh attempt', async () => {
+    const { browser, page } = createFakeBrowser([503, 200]);
+    launch.mockResolvedValue(browser);
+    const onRetry = vi.fn();
+
+    const pdf = await renderToBuffer('https://staging.example.com', 'pdf', { retryAttempts: 2, retryDelay: 1, onRetry });
+
+    expect(pdf.toString()).toBe('%PDF-1.4');
+    expect(page.goto).toHaveBeenCalledTimes(2);
+    expect(onRetry).toHaveBeenCalledTimes(1);
+    expect(onRetry.mock.calls[0][0].code).toBe('HTTP_SERVER_ERROR');
+    expect(onRetry.mock.calls[0][1]).toBe(1);
+  });
+
+  test('does not retry by default', async () => {
+    const { browser, page } = createFakeBrowser([503, 200]);
+    launch.mockResolvedValue(browser);
+
+    const error = await renderToBuffer('https://staging.example.com').catch(e => e);
+
+    expect(error).toBeInstanceOf(PrinteerError);
+    expect(error.code).toBe('HTTP_SERVER_ERROR');
+    expect(page.goto).toHaveBeenCalledTimes(1);
+  });
+
+  test('stops retrying once the deadline has passed', async () => {
+    const { browser, page } = createFakeBrowser([503]);
+    launch.mockResolvedValue(browser);
+
+    await expect(renderToBuffer('https://staging.example.com', 'pdf', {
+      retryAttempts: 5,
+      retryDelay: 5000,
+      deadline: 300
+    })).rejects.toMatchObject({ code: 'DEADLINE_EXCEEDED' });
+    expect(page.goto).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,143 @@
+import { describe, it, expect, vi } from 'vitest';
+import { DefaultErrorHandler, httpStatusError, toPrinteerError, formatError } from '../../src/errors';
+import { ErrorType, PrinteerError } from '../../src/types/errors';
+import { ConversionAbortedError } from '../../src/printing/cancellation';
+import { ConfigurationError } from '../../src/config/enhanced-config-manager';
+import { PluginError } from '../../src/plugins';
+import { BatchValidationError } from '../../src/batch/types/batch.types';
+import { resolveInputSource } from '../../src/printing/input-source';
+import { TemplateLoadError } from '../../src/templates/types/template.types';
+
+function errno(message: string, code: string): Error {
+  return Object.assign(new Error(message), { code });
+}
+
+describe('DefaultErrorHandler', () => {
+  const handler = new DefaultErrorHandler();
+
+  it.each([
+    ['Could not find Chrome (ver. 110.0.5481.0). This can occur if either...', 'BROWSER_NOT_FOUND', ErrorType.BROWSER_LAUNCH, false],
+    ['Failed to launch the browser process!\nNo usable sandbox!', 'BROWSER_SANDBOX', ErrorType.BROWSER_LAUNCH, false],
+    ['chrome: error while loading shared libraries: libnss3.so', 'BROWSER_MISSING_LIBRARIES', ErrorType.BROWSER_LAUNCH, false],
+    ['Navigation timeout of 30000 ms exceeded', 'NAVIGATION_TIMEOUT', ErrorType.PAGE_LOAD, true],
+    ['Waiting for selector `#ready` failed: Waiting failed: 5000ms exceeded', 'WAIT_TIMEOUT', ErrorType.PAGE_LOAD, true],
+    ['net::ERR_NAME_NOT_RESOLVED at https://nope.invalid', 'DNS_LOOKUP_FAILED', ErrorType.NETWORK, false],
+    ['net::ERR_CERT_AUTHORITY_INVALID at https://self-signed.test', 'TLS_ERROR', ErrorType.NETWORK, false],
+    ['net::ERR_CONNECTION_REFUSED at http://localhost:1', 'CONNECTION_FAILED', ErrorType.NETWORK, true],
+    ['net::ERR_BLOCKED_BY_CLIENT at https://ads.example.com', 'REQUEST_BLOCKED', ErrorType.SECURITY, false],
+    ['Page crashed!', 'RENDERER_CRASHED', ErrorType.RENDERING, true],
+    ['Protocol error (Page.printToPDF): Target closed.', 'BROWSER_DISCONNECTED', ErrorType.RENDERING, true],
+    ['Protocol error (Page.printToPDF): Printing failed', 'RENDER_FAILED', ErrorType.RENDERING, true],
+    ['something odd happened', 'UNKNOWN_ERROR', ErrorType.SYSTEM, false]
+  ])('classifies "%s" as %s', (message, code, type, retryable) => {
+    const error = handler.normalize(new Error(message));
+
+    expect(error).toBeInstanceOf(PrinteerError);
+    expect(error.code).toBe(code);
+    expect(error.type).toBe(type);
+    expect(error.retryable).toBe(retryable);
+    expect(error.message).toBe(message);
+    expect(error.remediation).toBeTruthy();
+    expect(handler.classifyError(new Error(message))).toBe(type);
+  });
+
+  it('classifies file-system errors by errno code', () => {
+    expect(handler.normalize(errno('open /out/a.pdf', 'EACCES')).code).toBe('PERMISSION_DENIED');
+    expect(handler.normalize(errno('write failed', 'ENOSPC')).code).toBe('DISK_FULL');
+    expect(handler.normalize(errno('spawn /usr/bin/chromium ENOENT', 'ENOENT')).code).toBe('BROWSER_NOT_FOUND');
+
+    const missing = handler.normalize(errno('open /in/a.html', 'ENOENT'));
+    expect(missing.code).toBe('FILE_NOT_FOUND');
+    expect(missing.details).toEqual({ errno: 'ENOENT' });
+  });
+
+  it('keeps the original error as the cause', () => {
+    const original = new TypeError('Cannot read properties of undefined');
+    const error = handler.normalize(original);
+
+    expect(error.cause).toBe(original);
+    expect(error.details).toEqual({ name: 'TypeError' });
+  });
+
+  it('returns classified errors unchanged', () => {
+    const aborted = new ConversionAbortedError('Conversion exceeded its 100ms deadline during wait', 'deadline', 'wait');
+    expect(handler.normalize(aborted)).toBe(aborted);
+    expect(aborted.code).toBe('DEADLINE_EXCEEDED');
+    expect(aborted.retryable).toBe(true);
+
+    expect(new ConversionAbortedError('Conversion aborted during navigate', 'aborted').code).toBe('CONVERSION_ABORTED');
+    expect(new ConfigurationError('bad config').code).toBe('INVALID_CONFIGURATION');
+    expect(new BatchValidationError('Invalid job outputs', ['Job a: no file']).toJSON()).toMatchObject({
+      code: 'INVALID_CONFIGURATION',
+      retryable: false,
+      details: { errors: ['Job a: no file'] }
+    });
+    expect(new PluginError('boom', 'watermark', 'beforeRender').toJSON()).toMatchObject({
+      code: 'PLUGIN_FAILED',
+      details: { plugin: 'watermark', hook: 'beforeRender' }
+    });
+  });
+
+  it('throws coded errors for invalid inputs and templates', () => {
+    expect(() => resolveInputSource('./missing.html')).toThrow(expect.objectContaining({
+      code: 'INVALID_INPUT',
+      type: ErrorType.CONFIGURATION,
+      retryable: false
+    }));
+
+    const cause = new Error('ENOENT');
+    const template = new TemplateLoadError('Template not found: letterhead', cause);
+    expect(handler.normalize(template)).toBe(template);
+    expect(template.code).toBe('TEMPLATE_ERROR');
+    expect(template.cause).toBe(cause);
+  });
+
+  it('wraps non-Error values', () => {
+    const error = toPrinteerError('plain string');
+    expect(error.message).toBe('plain string');
+    expect(error.code).toBe('UNKNOWN_ERROR');
+  });
+
+  it('creates errors with the default code of a type', () => {
+    const error = handler.createError(ErrorType.NETWORK, 'offline', { host: 'example.com' });
+
+    expect(error.code).toBe('NETWORK_ERROR');
+    expect(error.details).toEqual({ host: 'example.com' });
+    expect(handler.shouldRetry(error)).toBe(true);
+    expect(handler.shouldRetry(handler.createError(ErrorType.SECURITY, 'denied'))).toBe(false);
+  });
+
+  it('logs the code and remediation', async () => {
+    const log = vi.fn();
+    await new DefaultErrorHandler(log).handleError(httpStatusError(404, 'Not Found'));
+
+    expect(log).toHaveBeenCalledWith(expect.stringContaining('Error code: HTTP_NOT_FOUND (page_load)'));
+    expect(log).toHaveBeenCalledWith(expect.stringContaining('Hint: '));
+  });
+});
+
+describe('httpStatusError', () => {
+  it.each([
+    [401, 'HTTP_ACCESS_DENIED', false],
+    [403, 'HTTP_ACCESS_DENIED', false],
+    [404, 'HTTP_NOT_FOUND', false],
+    [400, 'HTTP_CLIENT_ERROR', false],
+    [429, 'HTTP_RATE_LIMITED', true],
+    [503, 'HTTP_SERVER_ERROR', true]
+  ])('classifies status %d as %s', (status, code, retryable) => {
+    const error = httpStatusError(status, 'Status', 'https://example.com/');
+
+    expect(error.code).toBe(code);
+    expect(error.retryable).toBe(retryable);
+    expect(error.message).toBe(`Error: ${status}: Status`);
+    expect(error.details).toEqual({ status, statusText: 'Status', url: 'https://example.com/' });
+  });
+
+  it('formats the code and hint on separate lines', () => {
+    const lines = formatError(httpStatusError(403, 'Forbidden')).split('\n');
+
+    expect(lines[0]).toBe('Error: 403: Forbidden');
+    expect(lines[1]).toBe('  Error code: HTTP_ACCESS_DENIED (security)');
+    expect(lines[2]).toMatch(/^ {2}Hint: .*--auth/);
+  });
+});
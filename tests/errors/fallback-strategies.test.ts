@@ -0,0 +1,140 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  FallbackRegistry,
+  ContainerFlagsFallback,
+  LoadEventFallback,
+  DisableJavaScriptFallback,
+  LowerScaleFactorFallback,
+  CONTAINER_LAUNCH_ARGS,
+  registerFallback,
+  getRegisteredFallbacks,
+  resetFallbacks,
+  runWithFallbacks,
+  httpStatusError,
+  toPrinteerError
+} from '../../src/errors';
+import type { FallbackStrategy } from '../../src/types/errors';
+import { ConversionAbortedError } from '../../src/printing/cancellation';
+
+describe('built-in fallbacks', () => {
+  it('adds container flags once on launch failures', async () => {
+    const fallback = new ContainerFlagsFallback();
+    const error = toPrinteerError(new Error('Failed to launch the browser process!\nNo usable sandbox!'));
+
+    expect(fallback.canHandle(error)).toBe(true);
+    const options = await fallback.execute({ args: ['--lang=de'] });
+    expect(options.args).toEqual(['--lang=de', ...CONTAINER_LAUNCH_ARGS]);
+    expect(options.args).not.toContain('--disable-web-security');
+    expect(await fallback.execute(options)).toBeNull();
+  });
+
+  it('waits for the load event after a navigation timeout', async () => {
+    const fallback = new LoadEventFallback();
+
+    expect(fallback.canHandle(toPrinteerError(new Error('Navigation timeout of 30000 ms exceeded')))).toBe(true);
+    expect(await fallback.execute({ format: 'A4' })).toEqual({ format: 'A4', waitUntil: 'load' });
+    expect(await fallback.execute({ waitUntil: 'load' })).toBeNull();
+  });
+
+  it('disables JavaScript after a renderer crash', async () => {
+    const fallback = new DisableJavaScriptFallback();
+
+    expect(fallback.canHandle(toPrinteerError(new Error('Page crashed!')))).toBe(true);
+    expect(await fallback.execute({})).toEqual({ javascriptEnabled: false });
+    expect(await fallback.execute({ javascriptEnabled: false })).toBeNull();
+  });
+
+  it('renders at 1x after running out of memory', async () => {
+    const fallback = new LowerScaleFactorFallback();
+    const viewport = { width: 1280, height: 800, deviceScaleFactor: 3 };
+
+    expect(fallback.canHandle(toPrinteerError(new Error('Array buffer allocation failed: out of memory')))).toBe(true);
+    expect(await fallback.execute({ viewport })).toEqual({ viewport: { ...viewport, deviceScaleFactor: 1 } });
+    expect(viewport.deviceScaleFactor).toBe(3);
+    expect(await fallback.execute({ viewport: { width: 800, height: 600 } })).toBeNull();
+  });
+
+  it('ignores errors a fallback cannot fix', () => {
+    const notFound = httpStatusError(404, 'Not Found');
+    expect(getRegisteredFallbacks().some(fallback => fallback.canHandle(notFound))).toBe(false);
+  });
+});
+
+describe('FallbackRegistry', () => {
+  afterEach(() => {
+    resetFallbacks();
+  });
+
+  it('orders strategies by priority and rejects duplicates', () => {
+    const registry = new FallbackRegistry([new LowerScaleFactorFallback(), new ContainerFlagsFallback()]);
+
+    expect(registry.getStrategies().map(strategy => strategy.name)).toEqual(['container-flags', 'lower-scale-factor']);
+    expect(() => registry.register(new ContainerFlagsFallback())).toThrow(/already registered/);
+    expect(() => registry.register({ canHandle: () => true, execute: async () => ({}), getPriority: () => 1 })).toThrow(/name/);
+    expect(registry.unregister('container-flags')).toBe(true);
+    expect(registry.getStrategies()).toHaveLength(1);
+  });
+
+  it('keeps custom strategies until reset', () => {
+    registerFallback({ name: 'custom', canHandle: () => false, execute: async () => null, getPriority: () => 1000 });
+
+    expect(getRegisteredFallbacks()[0].name).toBe('custom');
+    resetFallbacks();
+    expect(getRegisteredFallbacks().map(strategy => strategy.name)).toEqual([
+      'container-flags', 'wait-until-load', 'disable-javascript', 'lower-scale-factor'
+    ]);
+  });
+});
+
+describe('runWithFallbacks', () => {
+  it('retries with adjusted options and reports each applied fallback', async () => {
+    const attempt = vi.fn()
+      .mockRejectedValueOnce(new Error('Navigation timeout of 30000 ms exceeded'))
+      .mockRejectedValueOnce(new Error('Page crashed!'))
+      .mockResolvedValueOnce('done');
+    const onFallback = vi.fn();
+
+    const result = await runWithFallbacks({ waitUntil: 'networkidle0' }, attempt, { onFallback });
+
+    expect(result).toBe('done');
+    expect(attempt.mock.calls.map(call => call[1])).toEqual([0, 1, 2]);
+    expect(attempt).toHaveBeenLastCalledWith({ waitUntil: 'load', javascriptEnabled: false }, 2);
+    expect(onFallback.mock.calls.map(call => call[0])).toEqual([
+      { name: 'wait-until-load', code: 'NAVIGATION_TIMEOUT' },
+      { name: 'disable-javascript', code: 'RENDERER_CRASHED' }
+    ]);
+  });
+
+  it('prefers the highest-priority strategy that changes something', async () => {
+    const low: FallbackStrategy = { name: 'low', canHandle: () => true, execute: async options => ({ ...options, low: true }), getPriority: () => 1 };
+    const noop: FallbackStrategy = { name: 'noop', canHandle: () => true, execute: async () => null, getPriority: () => 10 };
+    const attempt = vi.fn().mockRejectedValueOnce(new Error('boom')).mockResolvedValueOnce('ok');
+
+    await runWithFallbacks({}, attempt, { strategies: [low, noop] });
+
+    expect(attempt).toHaveBeenLastCalledWith({ low: true }, 1);
+  });
+
+  it('applies each strategy once and rethrows the classified error', async () => {
+    const attempt = vi.fn().mockRejectedValue(new Error('Navigation timeout of 30000 ms exceeded'));
+
+    await expect(runWithFallbacks({}, attempt)).rejects.toMatchObject({ code: 'NAVIGATION_TIMEOUT' });
+    expect(attempt).toHaveBeenCalledTimes(2);
+  });
+
+  it('never retries cancelled conversions', async () => {
+    const aborted = new ConversionAbortedError('Conversion exceeded its 10ms deadline during navigate', 'deadline', 'navigate');
+    const always: FallbackStrategy = { name: 'always', canHandle: () => true, execute: async () => ({}), getPriority: () => 1 };
+    const attempt = vi.fn().mockRejectedValue(aborted);
+
+    await expect(runWithFallbacks({}, attempt, { strategies: [always] })).rejects.toBe(aborted);
+    expect(attempt).toHaveBeenCalledTimes(1);
+  });
+
+  it('does nothing when no strategies are given', async () => {
+    const attempt = vi.fn().mockRejectedValue(new Error('Page crashed!'));
+
+    await expect(runWithFallbacks({}, attempt, { strategies: [] })).rejects.toMatchObject({ code: 'RENDERER_CRASHED' });
+    expect(attempt).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  DEFAULT_RETRY_POLICY,
+  createRetryPolicy,
+  computeBackoff,
+  retryWithBackoff,
+  httpStatusError
+} from '../../src/errors';
+
+describe('createRetryPolicy', () => {
+  it('fills in defaults and ignores undefined settings', () => {
+    expect(createRetryPolicy()).toEqual(DEFAULT_RETRY_POLICY);
+    expect(createRetryPolicy({ attempts: 3, initialDelay: undefined })).toEqual({ ...DEFAULT_RETRY_POLICY, attempts: 3 });
+  });
+
+  it('rejects negative or non-numeric values', () => {
+    expect(() => createRetryPolicy({ attempts: -1 })).toThrow('Retry attempts must be a non-negative number, got -1');
+    expect(() => createRetryPolicy({ maxDelay: NaN })).toThrow(/maxDelay/);
+  });
+});
+
+describe('computeBackoff', () => {
+  const policy = createRetryPolicy({ initialDelay: 100, maxDelay: 1000, jitter: 0 });
+
+  it('doubles the delay per retry up to the maximum', () => {
+    expect([1, 2, 3, 4, 5].map(retry => computeBackoff(retry, policy))).toEqual([100, 200, 400, 800, 1000]);
+  });
+
+  it('randomizes the jittered fraction of the delay', () => {
+    const jittered = { ...policy, jitter: 0.5 };
+
+    expect(computeBackoff(2, jittered, () => 0)).toBe(100);
+    expect(computeBackoff(2, jittered, () => 1)).toBe(200);
+    expect(computeBackoff(2, { ...policy, jitter: 1 }, () => 0.25)).toBe(50);
+  });
+});
+
+describe('retryWithBackoff', () => {
+  const policy = createRetryPolicy({ attempts: 2, initialDelay: 100, jitter: 0 });
+
+  it('retries retryable failures and reports every failed attempt', async () => {
+    const operation = vi.fn()
+      .mockRejectedValueOnce(new Error('Navigation timeout of 30000 ms exceeded'))
+      .mockRejectedValueOnce(httpStatusError(503, 'Service Unavailable'))
+      .mockResolvedValueOnce('ok');
+    const sleep = vi.fn().mockResolvedValue(undefined);
+    const onFailure = vi.fn();
+
+    await expect(retryWithBackoff(operation, policy, { sleep, onFailure })).resolves.toBe('ok');
+
+    expect(operation.mock.calls.map(call => call[0])).toEqual([1, 2, 3]);
+    expect(sleep.mock.calls).toEqual([[100], [200]]);
+    expect(onFailure.mock.calls.map(([error, attempt, delay]) => [error.code, attempt, delay])).toEqual([
+      ['NAVIGATION_TIMEOUT', 1, 100],
+      ['HTTP_SERVER_ERROR', 2, 200]
+    ]);
+  });
+
+  it('does not retry errors that are not retryable', async () => {
+    const operation = vi.fn().mockRejectedValue(httpStatusError(404, 'Not Found'));
+    const sleep = vi.fn();
+    const onFailure = vi.fn();
+
+    await expect(retryWithBackoff(operation, policy, { sleep, onFailure })).rejects.toMatchObject({ code: 'HTTP_NOT_FOUND' });
+    expect(operation).toHaveBeenCalledTimes(1);
+    expect(sleep).not.toHaveBeenCalled();
+    expect(onFailure).toHaveBeenCalledWith(expect.objectContaining({ code: 'HTTP_NOT_FOUND' }), 1);
+  });
+
+  it('gives up after the configured attempts', async () => {
+    const operation = vi.fn().mockRejectedValue(new Error('Protocol error: Target closed.'));
+
+    await expect(retryWithBackoff(operation, policy, { sleep: async () => {} }))
+      .rejects.toMatchObject({ code: 'BROWSER_DISCONNECTED' });
+    expect(operation).toHaveBeenCalledTimes(3);
+  });
+
+  it('lets the caller veto a retry', async () => {
+    const operation = vi.fn().mockRejectedValue(new Error('Page crashed!'));
+
+    await expect(retryWithBackoff(operation, policy, { shouldRetry: () => false })).rejects.toMatchObject({ code: 'RENDERER_CRASHED' });
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+});
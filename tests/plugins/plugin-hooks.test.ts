@@ -0,0 +1,120 @@
+/**
+ * Tests for plugin hooks around the render pipeline
+ */
+
+import { describe, test, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+const { launch } = vi.hoisted(() => ({ launch: vi.fn() }));
+vi.mock('puppeteer', () => ({ default: { launch } }));
+
+import { renderToBuffer, registerPlugin, clearPlugins, PluginError } from '../../src/api/index';
+import type { PrinteerPlugin } from '../../src/api/index';
+import { createFakeBrowser, fakeResponse } from '../shared/fake-browser';
+
+function recordingPlugin(name: string, calls: string[]): PrinteerPlugin {
+  return {
+    name,
+    onBrowserLaunch: () => { calls.push(`${name}:onBrowserLaunch`); },
+    onPageCreated: () => { calls.push(`${name}:onPageCreated`); },
+    beforeNavigate: () => { calls.push(`${name}:beforeNavigate`); },
+    afterNavigate: ({ response }) => { calls.push(`${name}:afterNavigate:${response?.status()}`); },
+    beforeRender: () => { calls.push(`${name}:beforeRender`); },
+    afterRender: () => { calls.push(`${name}:afterRender`); },
+    onError: error => { calls.push(`${name}:onError:${error.message}`); }
+  };
+}
+
+describe('Plugin hooks', () => {
+  beforeEach(() => {
+    launch.mockReset();
+  });
+
+  afterEach(() => {
+    clearPlugins();
+  });
+
+  test('hooks run around each stage, registered plugins first', async () => {
+    const { browser, page } = createFakeBrowser();
+    launch.mockResolvedValue(browser);
+    const calls: string[] = [];
+    page.goto.mockImplementation(async () => {
+      calls.push('goto');
+      return fakeResponse();
+    });
+
+    registerPlugin(recordingPlugin('global', calls));
+    await renderToBuffer('https://example.com', 'pdf', { plugins: [recordingPlugin('local', calls)] });
+
+    expect(calls).toEqual([
+      'global:onBrowserLaunch', 'local:onBrowserLaunch',
+      'global:onPageCreated', 'local:onPageCreated',
+      'global:beforeNavigate', 'local:beforeNavigate',
+      'goto',
+      'global:afterNavigate:200', 'local:afterNavigate:200',
+      'global:beforeRender', 'local:beforeRender',
+      'global:afterRender', 'local:afterRender'
+    ]);
+  });
+
+  test('hooks receive the page and the resolved configuration', async () => {
+    const { browser, page } = createFakeBrowser();
+    launch.mockResolvedValue(browser);
+    const beforeRender = vi.fn();
+    const printConfig = { page: { format: 'Letter' as const } };
+
+    await renderToBuffer('https://example.com', 'pdf', { printConfig, plugins: [{ name: 'inspect', beforeRender }] });
+
+    expect(beforeRender).toHaveBeenCalledWith({
+      page,
+      config: printConfig,
+      input: 'https://example.com',
+      outputType: 'pdf'
+    });
+  });
+
+  test('a failing hook fails the conversion and notifies onError', async () => {
+    const { browser, page } = createFakeBrowser();
+    launch.mockResolvedValue(browser);
+    const calls: string[] = [];
+
+    const pending = renderToBuffer('https://example.com', 'pdf', {
+      plugins: [
+        { name: 'strict', beforeRender: () => { throw new Error('consent banner still visible'); } },
+        recordingPlugin('observer', calls)
+      ]
+    });
+
+    await expect(pending).rejects.toBeInstanceOf(PluginError);
+    expect(calls).toContain("observer:onError:Plugin 'strict' failed in beforeRender: consent banner still visible");
+    expect(page.pdf).not.toHaveBeenCalled();
+    expect(browser.close).toHaveBeenCalled();
+  });
+
+  test('plugins listed in the print configuration are loaded from their module path', async () => {
+    const { browser, page } = createFakeBrowser();
+    launch.mockResolvedValue(browser);
+    const workDir = mkdtempSync(join(tmpdir(), 'printeer-plugin-config-'));
+    const modulePath = join(workDir, 'hide-banner.mjs');
+    writeFileSync(modulePath, [
+      'export default (options) => ({',
+      "  name: 'hide-banner',",
+      '  async beforeRender({ page }) { await page.addStyleTag({ content: `${options.selector} { display: none }` }); }',
+      '});'
+    ].join('\n'));
+    const addStyleTag = vi.fn().mockResolvedValue(undefined);
+    Object.assign(page, { addStyleTag });
+
+    try {
+      await renderToBuffer('https://example.com', 'pdf', {
+        printConfig: { plugins: [{ module: modulePath, options: { selector: '#cookies' } }] }
+      });
+    } finally {
+      rmSync(workDir, { recursive: true, force: true });
+    }
+
+    expect(addStyleTag).toHaveBeenCalledWith({ content: '#cookies { display: none }' });
+  });
+});
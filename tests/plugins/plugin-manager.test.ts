@@ -0,0 +1,109 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { PluginManager, PluginRunner, loadPlugin, loadPlugins } from '../../src/plugins/plugin-manager';
+import { PluginError, PluginLoadError } from '../../src/plugins/types/plugin.types';
+import type { PrinteerPlugin } from '../../src/plugins/types/plugin.types';
+
+const context = { config: {}, input: 'https://example.com', outputType: 'pdf' };
+
+describe('PluginManager', () => {
+  it('should register, list and unregister plugins by name', () => {
+    const manager = new PluginManager();
+    manager.register({ name: 'watermark' });
+    manager.register({ name: 'cookie-banner' });
+
+    expect(manager.getPlugins().map(plugin => plugin.name)).toEqual(['watermark', 'cookie-banner']);
+    expect(() => manager.register({ name: 'watermark' })).toThrow("Plugin 'watermark' is already registered");
+
+    expect(manager.unregister('watermark')).toBe(true);
+    expect(manager.unregister('watermark')).toBe(false);
+    expect(manager.getPlugins()).toHaveLength(1);
+  });
+
+  it('should reject plugins without a name or with non-function hooks', () => {
+    const manager = new PluginManager();
+    expect(() => manager.register({ name: '' })).toThrow(PluginError);
+    expect(() => manager.register({ name: 'bad', beforeRender: 'nope' } as unknown as PrinteerPlugin))
+      .toThrow('hook beforeRender must be a function');
+  });
+});
+
+describe('loadPlugin', () => {
+  let workDir: string;
+
+  beforeEach(() => {
+    workDir = mkdtempSync(join(tmpdir(), 'printeer-plugins-'));
+  });
+
+  afterEach(() => {
+    rmSync(workDir, { recursive: true, force: true });
+  });
+
+  it('should load a factory export relative to the base directory with its options', async () => {
+    writeFileSync(join(workDir, 'stamp.mjs'),
+      'export default (options) => ({ name: `stamp-${options.label}`, beforeRender() {} });\n');
+
+    const plugin = await loadPlugin({ module: './stamp.mjs', options: { label: 'draft' } }, workDir);
+    expect(plugin.name).toBe('stamp-draft');
+    expect(typeof plugin.beforeRender).toBe('function');
+  });
+
+  it('should load module namespaces that are plugins themselves', async () => {
+    writeFileSync(join(workDir, 'named.mjs'), "export const name = 'named';\nexport function afterRender() {}\n");
+
+    const plugins = await loadPlugins(['./named.mjs'], workDir);
+    expect(plugins.map(plugin => plugin.name)).toEqual(['named']);
+  });
+
+  it('should report modules that are missing or export no plugin', async () => {
+    writeFileSync(join(workDir, 'empty.mjs'), 'export default 42;\n');
+
+    await expect(loadPlugin('./missing.mjs', workDir)).rejects.toBeInstanceOf(PluginLoadError);
+    await expect(loadPlugin('./empty.mjs', workDir)).rejects.toThrow("Plugin module './empty.mjs' does not export a valid plugin");
+    await expect(loadPlugin('printeer-plugin-that-does-not-exist', workDir)).rejects.toThrow('Cannot find plugin module');
+  });
+});
+
+describe('PluginRunner', () => {
+  it('should run hooks in order and wrap failures with the plugin name', async () => {
+    const calls: string[] = [];
+    const runner = new PluginRunner([
+      { name: 'first', beforeRender: () => { calls.push('first'); } },
+      { name: 'second', beforeRender: async () => { calls.push('second'); throw new Error('boom'); } }
+    ], context);
+
+    const error = await runner.beforeRender({} as never).catch(e => e);
+    expect(calls).toEqual(['first', 'second']);
+    expect(error).toBeInstanceOf(PluginError);
+    expect(error).toMatchObject({ pluginName: 'second', hook: 'beforeRender' });
+    expect(error.message).toBe("Plugin 'second' failed in beforeRender: boom");
+  });
+
+  it('should fire onBrowserLaunch once per browser', async () => {
+    const onBrowserLaunch = vi.fn();
+    const plugins = [{ name: 'launch', onBrowserLaunch }];
+    const browser = {} as never;
+
+    await new PluginRunner(plugins, context).browserLaunched(browser);
+    await new PluginRunner(plugins, context).browserLaunched(browser);
+    await new PluginRunner(plugins, context).browserLaunched({} as never);
+
+    expect(onBrowserLaunch).toHaveBeenCalledTimes(2);
+    expect(onBrowserLaunch).toHaveBeenCalledWith(browser, context);
+  });
+
+  it('should never throw from onError hooks', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const seen = vi.fn();
+    const runner = new PluginRunner([
+      { name: 'broken', onError: () => { throw new Error('also broken'); } },
+      { name: 'logger', onError: seen }
+    ], context);
+
+    await expect(runner.error(new Error('navigation failed'), null)).resolves.toBeUndefined();
+    expect(seen).toHaveBeenCalledWith(expect.objectContaining({ message: 'navigation failed' }), { ...context, page: null });
+    warn.mockRestore();
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, it, expect, vi } from 'vitest';
+import { ConversionBudget, ConversionAbortedError } from '../../src/printing/cancellation';
+
+describe('ConversionBudget', () => {
+  it('should pass stage timeouts through without a deadline', () => {
+    const budget = new ConversionBudget();
+    expect(budget.timeout(30000)).toBe(30000);
+    budget.dispose();
+  });
+
+  it('should clamp stage timeouts to the remaining deadline', () => {
+    const budget = new ConversionBudget({ deadline: 1000 });
+    const timeout = budget.timeout(30000);
+    expect(timeout).toBeGreaterThan(0);
+    expect(timeout).toBeLessThanOrEqual(1000);
+    expect(budget.timeout(10)).toBe(10);
+    budget.dispose();
+  });
+
+  it('should reject invalid deadlines', () => {
+    expect(() => new ConversionBudget({ deadline: 0 })).toThrow('positive');
+    expect(() => new ConversionBudget({ deadline: -5 })).toThrow('positive');
+  });
+
+  it('should reject in-flight work when the signal aborts', async () => {
+    const controller = new AbortController();
+    const budget = new ConversionBudget({ signal: controller.signal });
+    budget.enter('navigate');
+
+    const pending = budget.race(new Promise(() => {}));
+    controller.abort();
+
+    await expect(pending).rejects.toThrow(ConversionAbortedError);
+    await expect(pending).rejects.toMatchObject({ reason: 'aborted', stage: 'navigate' });
+    expect(() => budget.enter('render')).toThrow('aborted during navigate');
+    budget.dispose();
+  });
+
+  it('should fail fast for an already aborted signal', () => {
+    const budget = new ConversionBudget({ signal: AbortSignal.abort() });
+    expect(() => budget.enter('launch')).toThrow(ConversionAbortedError);
+    budget.dispose();
+  });
+
+  it('should reject when the deadline passes and release late results', async () => {
+    const budget = new ConversionBudget({ deadline: 20 });
+    budget.enter('wait');
+    const release = vi.fn();
+
+    let resolveLate!: (value: string) => void;
+    const late = new Promise<string>(resolve => { resolveLate = resolve; });
+    const pending = budget.race(late, release);
+
+    await expect(pending).rejects.toMatchObject({ reason: 'deadline', stage: 'wait' });
+    resolveLate('browser');
+    await vi.waitFor(() => expect(release).toHaveBeenCalledWith('browser'));
+    budget.dispose();
+  });
+
+  it('should cut delays short and notify abort listeners', async () => {
+    const controller = new AbortController();
+    const budget = new ConversionBudget({ signal: controller.signal });
+    const listener = vi.fn();
+    budget.onAbort(listener);
+
+    const started = Date.now();
+    const delay = budget.delay(5000);
+    setTimeout(() => controller.abort(), 10);
+
+    await expect(delay).rejects.toThrow(ConversionAbortedError);
+    expect(Date.now() - started).toBeLessThan(1000);
+    expect(listener).toHaveBeenCalledWith(expect.any(ConversionAbortedError));
+    budget.dispose();
+  });
+});
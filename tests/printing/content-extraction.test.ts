@@ -0,0 +1,109 @@
+import { describe, it, expect, vi } from 'vitest';
+import { extractContent, renderContent } from '../../src/printing/content-extraction';
+import type { ContentNode, ContentSnapshot } from '../../src/printing/content-extraction';
+
+const text = (value: string): ContentNode => ({ tag: '#text', text: value });
+const element = (tag: string, children: ContentNode[] = [], extra: Partial<ContentNode> = {}): ContentNode => ({ tag, children, ...extra });
+
+function snapshot(children: ContentNode[], title = 'Release notes'): ContentSnapshot {
+  return { title, url: 'https://example.com/notes', root: element('body', children) };
+}
+
+const article = snapshot([
+  element('h1', [text('Version 2.0')]),
+  element('p', [
+    text('Read the '),
+    element('a', [text('migration guide')], { href: 'https://example.com/guide' }),
+    text(' before\n   upgrading, see '),
+    element('strong', [text(' breaking changes ')]),
+    text('and '),
+    element('code', [text('printeer()')]),
+    text('.')
+  ]),
+  element('ul', [
+    element('li', [text('Faster '), element('em', [text('startup')])]),
+    element('li', [text('New outputs'), element('ol', [element('li', [text('Text')]), element('li', [text('Markdown')])])])
+  ]),
+  element('pre', [], { text: 'npm install printeer\n', language: 'bash' }),
+  element('table', [
+    element('thead', [element('tr', [element('th', [text('Format')]), element('th', [text('Extension')])])]),
+    element('tbody', [element('tr', [element('td', [text('Markdown')]), element('td', [text('.md | .markdown')])])])
+  ]),
+  element('img', [], { src: 'https://example.com/chart.png', alt: 'Speed chart' }),
+  element('div', [element('p', [element('a', [text('Docs')], { href: 'https://example.com/guide' })])])
+]);
+
+describe('renderContent', () => {
+  it('should write Markdown with inline links, nested lists, fenced code and pipe tables', () => {
+    expect(renderContent(article, 'markdown')).toBe([
+      '# Version 2.0',
+      '',
+      'Read the [migration guide](https://example.com/guide) before upgrading, see **breaking changes** and `printeer()`.',
+      '',
+      '- Faster *startup*',
+      '- New outputs',
+      '  1. Text',
+      '  2. Markdown',
+      '',
+      '```bash',
+      'npm install printeer',
+      '```',
+      '',
+      '| Format | Extension |',
+      '| --- | --- |',
+      '| Markdown | .md \\| .markdown |',
+      '',
+      '![Speed chart](https://example.com/chart.png)',
+      '',
+      '[Docs](https://example.com/guide)',
+      ''
+    ].join('\n'));
+  });
+
+  it('should write plain text with tab-separated tables and links after their text', () => {
+    const output = renderContent(article, 'text');
+
+    expect(output).toContain('Version 2.0\n\nRead the migration guide (https://example.com/guide) before upgrading, see breaking changes and printeer().');
+    expect(output).toContain('Format\tExtension\nMarkdown\t.md | .markdown');
+    expect(output).toContain('\n\nnpm install printeer\n\n');
+    expect(output).not.toContain('Speed chart');
+  });
+
+  it('should number reference links once per target and list them at the end', () => {
+    const output = renderContent(article, 'markdown', { links: 'reference', tables: 'none' });
+
+    expect(output).toContain('Read the [migration guide][1] before');
+    expect(output).toContain('[Docs][1]');
+    expect(output).not.toContain('| Format |');
+    expect(output.endsWith('[1]: https://example.com/guide\n')).toBe(true);
+  });
+
+  it('should keep only link text without links and skip script links', () => {
+    const output = renderContent(snapshot([
+      element('p', [
+        element('a', [text('Open menu')], { href: 'javascript:void(0)' }),
+        text(' and '),
+        element('a', [text('home')], { href: 'https://example.com/' })
+      ])
+    ]), 'markdown', { links: 'none' });
+
+    expect(output).toBe('# Release notes\n\nOpen menu and home\n');
+  });
+
+  it('should lead with the page title when the content has no h1', () => {
+    const output = renderContent(snapshot([element('h2', [text('Changes')]), element('p', [text('Use *stars* and [brackets].')])]), 'markdown');
+
+    expect(output).toBe('# Release notes\n\n## Changes\n\nUse \\*stars\\* and \\[brackets\\].\n');
+  });
+});
+
+describe('extractContent', () => {
+  it('should snapshot the page in reader mode and render the result', async () => {
+    const page = { evaluate: vi.fn().mockResolvedValue(snapshot([element('p', [text('Main content')])])) };
+
+    const output = await extractContent(page as any, 'text', { readerMode: true });
+
+    expect(output).toBe('Release notes\n\nMain content\n');
+    expect(page.evaluate).toHaveBeenCalledWith(expect.any(Function), true);
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * Tests for cancelling conversions with an AbortSignal or deadline
+ */
+
+import { describe, test, expect, vi, beforeEach } from 'vitest';
+import { Readable } from 'stream';
+
+const { launch } = vi.hoisted(() => ({ launch: vi.fn() }));
+vi.mock('puppeteer', () => ({ default: { launch } }));
+
+import { renderToBuffer, renderToStream, ConversionAbortedError } from '../../src/api/index';
+import { createFakeBrowser } from '../shared/fake-browser';
+
+describe('Cancelling conversions', () => {
+  beforeEach(() => {
+    launch.mockReset();
+  });
+
+  test('aborting mid-wait closes the page and the browser', async () => {
+    const { browser, page } = createFakeBrowser();
+    page.waitForSelector.mockReturnValue(new Promise(() => {}));
+    launch.mockResolvedValue(browser);
+
+    const controller = new AbortController();
+    const pending = renderToBuffer('https://example.com', 'pdf', { waitSelector: '#ready', signal: controller.signal });
+    await vi.waitFor(() => expect(page.waitForSelector).toHaveBeenCalled());
+    controller.abort();
+
+    await expect(pending).rejects.toBeInstanceOf(ConversionAbortedError);
+    expect(page.close).toHaveBeenCalled();
+    expect(browser.close).toHaveBeenCalled();
+    expect(page.pdf).not.toHaveBeenCalled();
+  });
+
+  test('an already aborted signal never launches a browser', async () => {
+    await expect(renderToBuffer('https://example.com', 'pdf', { signal: AbortSignal.abort() }))
+      .rejects.toThrow('aborted during');
+    expect(launch).not.toHaveBeenCalled();
+  });
+
+  test('stage timeouts share one deadline', async () => {
+    const { browser, page } = createFakeBrowser();
+    launch.mockResolvedValue(browser);
+
+    await renderToBuffer('https://example.com', 'pdf', { waitSelector: '#ready', waitTimeout: 60000, deadline: 5000 });
+
+    const navigationTimeout = page.goto.mock.calls[0][1].timeout;
+    const selectorTimeout = page.waitForSelector.mock.calls[0][1].timeout;
+    expect(navigationTimeout).toBeLessThanOrEqual(5000);
+    expect(selectorTimeout).toBeLessThanOrEqual(navigationTimeout);
+  });
+
+  test('the deadline cuts a long wait delay short', async () => {
+    const { browser, page } = createFakeBrowser();
+    launch.mockResolvedValue(browser);
+
+    await expect(renderToBuffer('https://example.com', 'pdf', { waitDelay: 10000, deadline: 50 }))
+      .rejects.toMatchObject({ reason: 'deadline', stage: 'wait' });
+    expect(page.close).toHaveBeenCalled();
+  });
+
+  test('aborting while streaming destroys the stream and releases the page', async () => {
+    const { browser, page } = createFakeBrowser();
+    page.createPDFStream.mockResolvedValue(new Readable({ read() {} }));
+    launch.mockResolvedValue(browser);
+
+    const controller = new AbortController();
+    const stream = await renderToStream('https://example.com', 'pdf', { signal: controller.signal });
+    const errored = new Promise(resolve => stream.once('error', resolve));
+    controller.abort();
+
+    expect(await errored).toBeInstanceOf(ConversionAbortedError);
+    await vi.waitFor(() => expect(page.close).toHaveBeenCalled());
+    await vi.waitFor(() => expect(browser.close).toHaveBeenCalled());
+  });
+});
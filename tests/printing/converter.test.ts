@@ -0,0 +1,379 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { DefaultConverter } from '../../src/printing/converter';
+import type { BrowserManager, BrowserInstance } from '../../src/printing/types/browser';
+
+function writeOutput(path: string | undefined, size: number): Buffer {
+  const output = Buffer.alloc(size);
+  if (path) {
+    writeFileSync(path, output);
+  }
+  return output;
+}
+
+function createFakePage(status = 200) {
+  return {
+    setViewport: vi.fn().mockResolvedValue(undefined),
+    on: vi.fn(),
+    setUserAgent: vi.fn().mockResolvedValue(undefined),
+    setContent: vi.fn().mockResolvedValue(undefined),
+    goto: vi.fn().mockResolvedValue({ url: () => 'https://example.com/', request: () => ({ redirectChain: () => [] }), status: () => status, statusText: () => (status === 200 ? 'OK' : 'Not Found') }),
+    title: vi.fn().mockResolvedValue('Example Domain'),
+    url: vi.fn().mockReturnValue('https://example.com/final'),
+    pdf: vi.fn().mockImplementation(async (opts: { path?: string }) => writeOutput(opts.path, 2048)),
+    screenshot: vi.fn().mockImplementation(async (opts: { path?: string }) => writeOutput(opts.path, 512)),
+    evaluate: vi.fn().mockResolvedValue(undefined),
+    browserContext: () => ({ isIncognito: () => false }),
+    close: vi.fn().mockResolvedValue(undefined)
+  };
+}
+
+function createFakeManager(page: ReturnType<typeof createFakePage>) {
+  const instance = {
+    id: 'browser-1',
+    browser: {
+      newPage: vi.fn().mockResolvedValue(page),
+      version: vi.fn().mockResolvedValue('HeadlessChrome/110.0.0.0')
+    },
+    createdAt: new Date(),
+    lastUsed: new Date(),
+    isHealthy: true
+  } as unknown as BrowserInstance;
+
+  const manager = {
+    initialize: vi.fn(),
+    getBrowser: vi.fn().mockResolvedValue(instance),
+    releaseBrowser: vi.fn().mockResolvedValue(undefined),
+    shutdown: vi.fn(),
+    getPoolStatus: vi.fn(),
+    warmUp: vi.fn()
+  } as unknown as BrowserManager;
+
+  return { manager, instance };
+}
+
+describe('DefaultConverter', () => {
+  let workDir: string;
+
+  beforeEach(() => {
+    workDir = mkdtempSync(join(tmpdir(), 'printeer-converter-'));
+  });
+
+  afterEach(() => {
+    rmSync(workDir, { recursive: true, force: true });
+  });
+
+  it('should return a complete ConversionResult for a PDF conversion', async () => {
+    const page = createFakePage();
+    const { manager, instance } = createFakeManager(page);
+    const converter = new DefaultConverter(manager);
+
+    const result = await converter.convert({
+      url: 'https://example.com',
+      outputFile: join(workDir, 'out.pdf')
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.outputType).toBe('pdf');
+    expect(result.fileSize).toBe(2048);
+    expect(result.duration).toBeGreaterThanOrEqual(0);
+    expect(result.metadata?.pageTitle).toBe('Example Domain');
+    expect(result.metadata?.pageUrl).toBe('https://example.com/final');
+    expect(result.metadata?.browserVersion).toBe('HeadlessChrome/110.0.0.0');
+    expect(result.metadata?.timestamp).toBeInstanceOf(Date);
+    expect(page.close).toHaveBeenCalled();
+    expect(manager.releaseBrowser).toHaveBeenCalledWith(instance);
+  });
+
+  it('should report how long each pipeline stage took', async () => {
+    const { manager } = createFakeManager(createFakePage());
+    const converter = new DefaultConverter(manager);
+
+    const result = await converter.convert({ url: 'https://example.com', outputFile: join(workDir, 'timed.pdf') });
+
+    expect(Object.keys(result.timings || {})).toEqual(['acquire', 'prepare', 'navigate', 'wait', 'render', 'write', 'release']);
+    expect(Object.values(result.timings || {}).every(ms => ms >= 0)).toBe(true);
+  });
+
+  it('should detect PNG output from the file extension', async () => {
+    const page = createFakePage();
+    const { manager } = createFakeManager(page);
+    const converter = new DefaultConverter(manager);
+
+    const result = await converter.convert({
+      url: 'https://example.com',
+      outputFile: join(workDir, 'out.png')
+    });
+
+    expect(result.outputType).toBe('png');
+    expect(result.fileSize).toBe(512);
+    expect(page.screenshot).toHaveBeenCalled();
+    expect(page.pdf).not.toHaveBeenCalled();
+  });
+
+  it('should encode JPEG and WebP outputs with their own quality defaults', async () => {
+    const page = createFakePage();
+    const { manager } = createFakeManager(page);
+    const converter = new DefaultConverter(manager);
+
+    const jpeg = await converter.convert({ url: 'https://example.com', outputFile: join(workDir, 'report.jpg') });
+    const webp = await converter.convert({
+      url: 'https://example.com',
+      outputFile: join(workDir, 'card.webp'),
+      renderOptions: { quality: 60 }
+    });
+
+    expect(jpeg.outputType).toBe('jpeg');
+    expect(webp.outputType).toBe('webp');
+    expect(page.screenshot).toHaveBeenNthCalledWith(1, expect.objectContaining({ type: 'jpeg', quality: 90 }));
+    expect(page.screenshot).toHaveBeenNthCalledWith(2, expect.objectContaining({ type: 'webp', quality: 60 }));
+  });
+
+  it('should reject unsupported output extensions without rendering', async () => {
+    const { manager } = createFakeManager(createFakePage());
+    const converter = new DefaultConverter(manager);
+
+    const result = await converter.convert({ url: 'https://example.com', outputFile: join(workDir, 'report.gif') });
+
+    expect(result.success).toBe(false);
+    expect(result.errorInfo?.code).toBe('INVALID_CONFIGURATION');
+    expect(result.error).toContain('Invalid output type: gif');
+    expect(manager.getBrowser).not.toHaveBeenCalled();
+  });
+
+  it('should write extra outputs from the same page load', async () => {
+    const page = createFakePage();
+    const { manager } = createFakeManager(page);
+    const converter = new DefaultConverter(manager);
+
+    const result = await converter.convert({
+      url: 'https://example.com',
+      outputFile: join(workDir, 'report.pdf'),
+      outputs: [{ file: join(workDir, 'thumb.webp'), image: { fullPage: true, quality: 50 } }]
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.outputFiles).toEqual([join(workDir, 'thumb.webp')]);
+    expect(page.goto).toHaveBeenCalledTimes(1);
+    expect(page.screenshot).toHaveBeenCalledWith(expect.objectContaining({ type: 'webp', quality: 50, fullPage: true }));
+
+    const duplicate = await converter.convert({
+      url: 'https://example.com',
+      outputFile: join(workDir, 'report.pdf'),
+      outputs: [join(workDir, 'report.pdf')]
+    });
+    expect(duplicate.errorInfo?.code).toBe('INVALID_CONFIGURATION');
+  });
+
+  it('should return the rendered bytes when no outputFile is given', async () => {
+    const page = createFakePage();
+    const { manager } = createFakeManager(page);
+    const converter = new DefaultConverter(manager);
+
+    const result = await converter.convert({ url: 'https://example.com' });
+
+    expect(result.success).toBe(true);
+    expect(result.outputFile).toBe('');
+    expect(result.buffer).toBeInstanceOf(Buffer);
+    expect(result.fileSize).toBe(2048);
+    expect(page.pdf).toHaveBeenCalledWith(expect.objectContaining({ path: undefined }));
+  });
+
+  it('should render raw HTML without navigating', async () => {
+    const page = createFakePage(500);
+    const { manager } = createFakeManager(page);
+    const converter = new DefaultConverter(manager);
+
+    const result = await converter.convert({
+      html: '<h1>Invoice</h1>',
+      baseUrl: 'https://assets.example.com/',
+      outputFile: join(workDir, 'invoice.pdf')
+    });
+
+    expect(result.success).toBe(true);
+    expect(page.goto).not.toHaveBeenCalled();
+    expect(page.setContent).toHaveBeenCalledWith(
+      '<base href="https://assets.example.com/"><h1>Invoice</h1>',
+      expect.objectContaining({ waitUntil: 'networkidle0' })
+    );
+  });
+
+  it('should report failures through the result instead of throwing', async () => {
+    const page = createFakePage(404);
+    const { manager } = createFakeManager(page);
+    const converter = new DefaultConverter(manager);
+
+    const result = await converter.convert({
+      url: 'https://example.com/missing',
+      outputFile: join(workDir, 'missing.pdf')
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('Error: 404: Not Found');
+    expect(result.errorInfo).toMatchObject({ code: 'HTTP_NOT_FOUND', type: 'page_load', retryable: false });
+    expect(result.metadata).toMatchObject({ httpStatus: 404, httpStatusText: 'Not Found' });
+    expect(result.fileSize).toBe(0);
+    expect(manager.releaseBrowser).toHaveBeenCalled();
+  });
+
+  it('should record the document status and final URL in the metadata', async () => {
+    const { manager } = createFakeManager(createFakePage());
+    const converter = new DefaultConverter(manager);
+
+    const result = await converter.convert({ url: 'https://example.com', outputFile: join(workDir, 'status.pdf') });
+
+    expect(result.metadata).toMatchObject({ httpStatus: 200, httpStatusText: 'OK', finalUrl: 'https://example.com/' });
+    expect(result.metadata?.redirectChain).toBeUndefined();
+    expect(result.warnings).toBeUndefined();
+  });
+
+  it('should render error pages with a warning when asked to', async () => {
+    const page = createFakePage(404);
+    const { manager } = createFakeManager(page);
+    const converter = new DefaultConverter(manager);
+
+    const result = await converter.convert({
+      url: 'https://example.com/missing',
+      outputFile: join(workDir, 'branded-404.pdf'),
+      renderOptions: { renderErrorPages: true }
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.metadata).toMatchObject({ httpStatus: 404, httpStatusText: 'Not Found' });
+    expect(result.warnings).toEqual(['Rendered error page: https://example.com/missing returned 404 Not Found']);
+  });
+
+  it('should accept configured statuses and reject malformed ranges up front', async () => {
+    const { manager } = createFakeManager(createFakePage(404));
+    const converter = new DefaultConverter(manager);
+
+    const accepted = await converter.convert({ url: 'https://example.com/gone', renderOptions: { acceptedStatuses: ['2xx', 404] } });
+    expect(accepted.success).toBe(true);
+    expect(accepted.warnings).toBeUndefined();
+
+    const invalid = await converter.convert({ url: 'https://example.com', renderOptions: { acceptedStatuses: ['9xx'] } });
+    expect(invalid.success).toBe(false);
+    expect(invalid.errorInfo?.code).toBe('INVALID_CONFIGURATION');
+  });
+
+  it('should return page diagnostics and fail on configured thresholds', async () => {
+    const page = createFakePage();
+    page.goto.mockImplementation(async () => {
+      const onPageError = page.on.mock.calls.find(([event]) => event === 'pageerror')![1];
+      onPageError(new Error('chart is not defined'));
+      return { url: () => 'https://example.com/', request: () => ({ redirectChain: () => [] }), status: () => 200, statusText: () => 'OK' };
+    });
+    const { manager } = createFakeManager(page);
+    const converter = new DefaultConverter(manager);
+
+    const lenient = await converter.convert({ url: 'https://example.com' });
+    expect(lenient.success).toBe(true);
+    expect(lenient.diagnostics?.summary.pageErrors).toBe(1);
+    expect(lenient.diagnostics?.pageErrors[0].message).toBe('chart is not defined');
+
+    page.on.mockClear();
+    const strict = await converter.convert({ url: 'https://example.com', renderOptions: { diagnostics: { failOn: { maxPageErrors: 0 } } } });
+    expect(strict.success).toBe(false);
+    expect(strict.errorInfo?.code).toBe('DIAGNOSTICS_THRESHOLD_EXCEEDED');
+    expect(strict.diagnostics?.summary.pageErrors).toBe(1);
+  });
+
+  it('should retry navigation timeouts with the load event and record the fallback', async () => {
+    const page = createFakePage();
+    page.goto.mockRejectedValueOnce(new Error('Navigation timeout of 30000 ms exceeded'));
+    const { manager } = createFakeManager(page);
+    const converter = new DefaultConverter(manager);
+
+    const result = await converter.convert({ url: 'https://example.com', outputFile: join(workDir, 'slow.pdf') });
+
+    expect(result.success).toBe(true);
+    expect(result.fallbacks).toEqual([{ name: 'wait-until-load', code: 'NAVIGATION_TIMEOUT' }]);
+    expect(page.goto).toHaveBeenLastCalledWith('https://example.com', expect.objectContaining({ waitUntil: 'load' }));
+    expect(manager.getBrowser).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not retry when fallbacks are disabled', async () => {
+    const page = createFakePage();
+    page.goto.mockRejectedValueOnce(new Error('Navigation timeout of 30000 ms exceeded'));
+    const { manager } = createFakeManager(page);
+    const converter = new DefaultConverter(manager);
+
+    const result = await converter.convert({ url: 'https://example.com', fallbacks: false });
+
+    expect(result.success).toBe(false);
+    expect(result.errorInfo?.code).toBe('NAVIGATION_TIMEOUT');
+    expect(result.fallbacks).toBeUndefined();
+  });
+
+  it('should retry retryable failures with backoff and record every failed attempt', async () => {
+    const page = createFakePage();
+    page.goto.mockResolvedValueOnce(null).mockResolvedValueOnce(null);
+    const { manager } = createFakeManager(page);
+    const converter = new DefaultConverter(manager);
+
+    const retried = await converter.convert({ url: 'https://example.com', outputFile: join(workDir, 'flaky.pdf'), retryAttempts: 2, retryDelay: 0 });
+    page.goto.mockResolvedValueOnce(null);
+    const single = await converter.convert({ url: 'https://example.com', outputFile: join(workDir, 'once.pdf') });
+
+    expect(retried.success).toBe(true);
+    expect(retried.attempts).toEqual([
+      { attempt: 1, error: expect.objectContaining({ code: 'NO_RESPONSE' }), retryDelay: 0 },
+      { attempt: 2, error: expect.objectContaining({ code: 'NO_RESPONSE' }), retryDelay: 0 }
+    ]);
+    expect(page.goto).toHaveBeenCalledTimes(4);
+    expect(single.success).toBe(false);
+    expect(single.attempts).toBeUndefined();
+  });
+
+  it('should close the page and release the browser when aborted', async () => {
+    const page = createFakePage();
+    page.goto.mockReturnValue(new Promise(() => {}));
+    const { manager, instance } = createFakeManager(page);
+    const converter = new DefaultConverter(manager);
+
+    const controller = new AbortController();
+    const pending = converter.convert({ url: 'https://example.com', signal: controller.signal });
+    await vi.waitFor(() => expect(page.goto).toHaveBeenCalled());
+    controller.abort();
+
+    const result = await pending;
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('Conversion aborted during navigate');
+    expect(result.errorInfo?.code).toBe('CONVERSION_ABORTED');
+    expect(page.close).toHaveBeenCalled();
+    expect(manager.releaseBrowser).toHaveBeenCalledWith(instance);
+  });
+
+  it('should reject invalid options without acquiring a browser', async () => {
+    const page = createFakePage();
+    const { manager } = createFakeManager(page);
+    const converter = new DefaultConverter(manager);
+
+    expect(await converter.validateOptions({ url: 'ftp://example.com', outputFile: '' })).toBe(false);
+
+    const result = await converter.convert({ url: 'ftp://example.com', outputFile: '' });
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('Unsupported URL scheme');
+    expect(manager.getBrowser).not.toHaveBeenCalled();
+  });
+
+  it('should keep running conversion metrics', async () => {
+    const { manager } = createFakeManager(createFakePage());
+    const converter = new DefaultConverter(manager);
+
+    await converter.convert({ url: 'https://example.com', outputFile: join(workDir, 'a.pdf') });
+    await converter.convert({ url: 'invalid', outputFile: join(workDir, 'b.pdf') });
+
+    const metrics = converter.getMetrics();
+    expect(metrics.totalConversions).toBe(2);
+    expect(metrics.successfulConversions).toBe(1);
+    expect(metrics.failedConversions).toBe(1);
+    expect(metrics.averageDuration).toBe(metrics.totalProcessingTime / 2);
+    expect(metrics.lastConversion).toBeInstanceOf(Date);
+
+    converter.resetMetrics();
+    expect(converter.getMetrics().totalConversions).toBe(0);
+  });
+});
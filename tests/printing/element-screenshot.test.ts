@@ -0,0 +1,55 @@
+import { describe, it, expect, vi } from 'vitest';
+import { join } from 'path';
+import { resolveElementSelection, locateElements, elementFilename, elementFilenames } from '../../src/printing/element-screenshot';
+import { toPrinteerError } from '../../src/errors';
+
+describe('resolveElementSelection', () => {
+  it('should read the selector, selector-all mode and padding from the options', () => {
+    expect(resolveElementSelection({ fullPage: true }, true)).toBeNull();
+    expect(resolveElementSelection({ selector: '#chart', selectorPadding: 8 }, false)).toEqual({ selector: '#chart', all: false, padding: 8 });
+    expect(resolveElementSelection({ selectorAll: '.card' }, true)).toEqual({ selector: '.card', all: true, padding: 0 });
+  });
+
+  it('should reject conflicting or unusable selections as configuration errors', () => {
+    expect(() => resolveElementSelection({ selector: '#a', selectorAll: '.b' }, true)).toThrow('image.selector and image.selectorAll cannot be combined');
+    expect(() => resolveElementSelection({ selector: '#a', clip: { x: 0, y: 0, width: 10, height: 10 } }, true)).toThrow('image.clip cannot be combined');
+    expect(() => resolveElementSelection({ selector: '#a', selectorPadding: -4 }, true)).toThrow('image.padding must be a non-negative number');
+    expect(() => resolveElementSelection({ selectorAll: '.card' }, false)).toThrow('needs an output file');
+
+    try {
+      resolveElementSelection({ selectorAll: '.card' }, false);
+    } catch (error) {
+      expect(toPrinteerError(error).code).toBe('INVALID_CONFIGURATION');
+    }
+  });
+});
+
+describe('locateElements', () => {
+  it('should fail with ELEMENT_NOT_FOUND when nothing matches', async () => {
+    const page = { evaluate: vi.fn().mockResolvedValue([]) };
+
+    const error = await locateElements(page as any, { selector: '.widget', all: true, padding: 0 }).catch(caught => caught);
+
+    expect(error.message).toBe('No element matches screenshot selector .widget');
+    expect(toPrinteerError(error)).toMatchObject({ code: 'ELEMENT_NOT_FOUND', retryable: false });
+    expect(page.evaluate).toHaveBeenCalledWith(expect.any(Function), '.widget', true, 0);
+  });
+});
+
+describe('elementFilename', () => {
+  it('should fill in the position and attribute values of each element', () => {
+    expect(elementFilename(join('cards', 'card-{index}.png'), 0, {})).toBe(join('cards', 'card-1.png'));
+    expect(elementFilename(join('cards', '{attr:data-sku}.png'), 2, { 'data-sku': 'AB 12/x' })).toBe(join('cards', 'AB-12-x.png'));
+    expect(elementFilename('{attr:id}.webp', 4, {})).toBe('5.webp');
+  });
+
+  it('should number files of patterns without placeholders', () => {
+    expect(elementFilename(join('out', 'widget.png'), 1, {})).toBe(join('out', 'widget-2.png'));
+  });
+
+  it('should keep colliding attribute values apart', () => {
+    const region = (id: string) => ({ clip: { x: 0, y: 0, width: 1, height: 1 }, attributes: { 'data-id': id } });
+
+    expect(elementFilenames('{attr:data-id}.png', [region('a'), region('b'), region('a')])).toEqual(['a.png', 'b.png', 'a-3.png']);
+  });
+});
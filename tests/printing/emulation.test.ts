@@ -0,0 +1,81 @@
+import { describe, it, expect, vi } from 'vitest';
+import { applyEmulation, openPage, closePage, resolveNetworkThrottling, NETWORK_PROFILES } from '../../src/printing/emulation';
+import { toPrinteerError } from '../../src/errors';
+
+function createPage() {
+  const session = { send: vi.fn().mockResolvedValue({}), detach: vi.fn().mockResolvedValue(undefined) };
+  const context = { id: 'context-1', isIncognito: () => true, close: vi.fn().mockResolvedValue(undefined) };
+  const page = {
+    emulateMediaFeatures: vi.fn().mockResolvedValue(undefined),
+    setGeolocation: vi.fn().mockResolvedValue(undefined),
+    setOfflineMode: vi.fn().mockResolvedValue(undefined),
+    emulateNetworkConditions: vi.fn().mockResolvedValue(undefined),
+    close: vi.fn().mockResolvedValue(undefined),
+    browser: () => ({ target: () => ({ createCDPSession: vi.fn().mockResolvedValue(session) }) }),
+    browserContext: () => context
+  };
+  return { page, session, context };
+}
+
+describe('resolveNetworkThrottling', () => {
+  it('should resolve profiles and fill in unthrottled defaults of custom conditions', () => {
+    expect(resolveNetworkThrottling('slow-3g')).toBe(NETWORK_PROFILES['slow-3g']);
+    expect(resolveNetworkThrottling({ latency: 300 })).toEqual({ offline: false, downloadThroughput: -1, uploadThroughput: -1, latency: 300 });
+  });
+
+  it('should reject unknown profiles as configuration errors', () => {
+    try {
+      resolveNetworkThrottling('5g' as any);
+      expect.unreachable();
+    } catch (error) {
+      expect((error as Error).message).toContain('unknown network profile 5g (supported: offline, slow-3g, fast-3g, 4g)');
+      expect(toPrinteerError(error).code).toBe('INVALID_CONFIGURATION');
+    }
+  });
+});
+
+describe('applyEmulation', () => {
+  it('should emulate the color scheme and reduced motion together', async () => {
+    const { page } = createPage();
+
+    await applyEmulation(page as any, { colorScheme: 'dark', reducedMotion: 'reduce' });
+
+    expect(page.emulateMediaFeatures).toHaveBeenCalledTimes(1);
+    expect(page.emulateMediaFeatures).toHaveBeenCalledWith([
+      { name: 'prefers-color-scheme', value: 'dark' },
+      { name: 'prefers-reduced-motion', value: 'reduce' }
+    ]);
+  });
+
+  it('should grant the geolocation permission in a context of its own and close it afterwards', async () => {
+    const { page, session, context } = createPage();
+    const browser = {
+      newPage: vi.fn(),
+      createIncognitoBrowserContext: vi.fn().mockResolvedValue({ ...context, newPage: vi.fn().mockResolvedValue(page) })
+    };
+    const opts = { geolocation: { latitude: 52.52, longitude: 13.405 } };
+
+    const opened = await openPage(browser as any, opts);
+    await applyEmulation(opened, opts);
+    await closePage(opened);
+
+    expect(browser.newPage).not.toHaveBeenCalled();
+    expect(session.send).toHaveBeenCalledWith('Browser.grantPermissions', { permissions: ['geolocation'], browserContextId: 'context-1' });
+    expect(page.setGeolocation).toHaveBeenCalledWith({ latitude: 52.52, longitude: 13.405, accuracy: 0 });
+    expect(page.close).toHaveBeenCalled();
+    expect(context.close).toHaveBeenCalled();
+    expect(page.emulateMediaFeatures).not.toHaveBeenCalled();
+  });
+
+  it('should throttle the network or take it offline', async () => {
+    const throttled = createPage().page;
+    const offline = createPage().page;
+
+    await applyEmulation(throttled as any, { networkThrottling: 'fast-3g' });
+    await applyEmulation(offline as any, { networkThrottling: 'offline' });
+
+    expect(throttled.emulateNetworkConditions).toHaveBeenCalledWith({ download: 180000, upload: 84375, latency: 562.5 });
+    expect(offline.setOfflineMode).toHaveBeenCalledWith(true);
+    expect(offline.emulateNetworkConditions).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,154 @@
+import { describe, it, expect, vi } from 'vitest';
+import { EventEmitter } from 'events';
+import type { Page } from 'puppeteer';
+import { NetworkRecorder, harPathFor } from '../../src/printing/har';
+
+function createFakeSession() {
+  const session = new EventEmitter() as EventEmitter & { send: ReturnType<typeof vi.fn>; detach: ReturnType<typeof vi.fn> };
+  session.send = vi.fn().mockResolvedValue(undefined);
+  session.detach = vi.fn().mockResolvedValue(undefined);
+  return session;
+}
+
+async function startRecorder(blockedResourceTypes?: string[]) {
+  const session = createFakeSession();
+  const page = { target: () => ({ createCDPSession: async () => session }) };
+  const recorder = await NetworkRecorder.start(page as unknown as Page, { blockedResourceTypes });
+  return { session, recorder };
+}
+
+function requestSent(requestId: string, url: string, timestamp: number, extra: Record<string, unknown> = {}) {
+  return {
+    requestId,
+    request: { url, method: 'GET', headers: { Accept: 'text/html' } },
+    timestamp,
+    wallTime: 1700000000 + timestamp,
+    type: 'Document',
+    ...extra
+  };
+}
+
+function response(url: string, status: number, statusText: string, extra: Record<string, unknown> = {}) {
+  return {
+    url,
+    status,
+    statusText,
+    headers: { 'content-type': 'text/html', 'set-cookie': 'a=1\nb=2' },
+    mimeType: 'text/html',
+    protocol: 'h2',
+    remoteIPAddress: '93.184.216.34',
+    encodedDataLength: 200,
+    ...extra
+  };
+}
+
+describe('NetworkRecorder', () => {
+  it('should record requests with headers, timings and sizes as HAR 1.2', async () => {
+    const { session, recorder } = await startRecorder();
+    expect(session.send).toHaveBeenCalledWith('Network.enable');
+
+    session.emit('Network.requestWillBeSent', requestSent('1', 'https://example.com/?lang=en', 10));
+    session.emit('Network.responseReceived', {
+      requestId: '1',
+      timestamp: 10.12,
+      response: response('https://example.com/?lang=en', 200, 'OK', {
+        timing: {
+          requestTime: 10, dnsStart: 1, dnsEnd: 11, connectStart: 11, connectEnd: 41, sslStart: 21, sslEnd: 41,
+          sendStart: 42, sendEnd: 43, receiveHeadersEnd: 120, proxyStart: -1, proxyEnd: -1
+        }
+      })
+    });
+    session.emit('Network.dataReceived', { requestId: '1', timestamp: 10.13, dataLength: 1256, encodedDataLength: 600 });
+    session.emit('Network.loadingFinished', { requestId: '1', timestamp: 10.15, encodedDataLength: 800 });
+    session.emit('Page.loadEventFired', { timestamp: 10.5 });
+
+    const har = recorder.toHar({ title: 'Example Domain', browserVersion: 'HeadlessChrome/110.0.0.0' });
+    expect(har.log.version).toBe('1.2');
+    expect(har.log.browser).toEqual({ name: 'HeadlessChrome', version: '110.0.0.0' });
+    expect(har.log.pages).toEqual([{
+      startedDateTime: new Date(1700000010 * 1000).toISOString(),
+      id: 'page_1',
+      title: 'Example Domain',
+      pageTimings: { onContentLoad: -1, onLoad: 500 }
+    }]);
+
+    const [entry] = har.log.entries;
+    expect(entry.request).toMatchObject({
+      method: 'GET',
+      url: 'https://example.com/?lang=en',
+      httpVersion: 'h2',
+      headers: [{ name: 'Accept', value: 'text/html' }],
+      queryString: [{ name: 'lang', value: 'en' }]
+    });
+    expect(entry.response).toMatchObject({
+      status: 200,
+      headers: [
+        { name: 'content-type', value: 'text/html' },
+        { name: 'set-cookie', value: 'a=1' },
+        { name: 'set-cookie', value: 'b=2' }
+      ],
+      content: { size: 1256, mimeType: 'text/html' },
+      bodySize: 600,
+      _transferSize: 800
+    });
+    expect(entry.timings).toEqual({ blocked: 1, dns: 10, connect: 30, send: 1, wait: 77, receive: 30, ssl: 20 });
+    expect(entry.time).toBe(149);
+    expect(entry.serverIPAddress).toBe('93.184.216.34');
+    expect(entry._resourceType).toBe('document');
+
+    expect(recorder.summary()).toEqual({ resourceCount: 1, totalSize: 800, loadTime: 500 });
+  });
+
+  it('should record each redirect as its own entry', async () => {
+    const { session, recorder } = await startRecorder();
+
+    session.emit('Network.requestWillBeSent', requestSent('1', 'http://example.com/', 1));
+    session.emit('Network.requestWillBeSent', requestSent('1', 'https://example.com/', 1.05, {
+      redirectResponse: response('http://example.com/', 301, 'Moved Permanently', { encodedDataLength: 150 })
+    }));
+    session.emit('Network.responseReceived', { requestId: '1', timestamp: 1.1, response: response('https://example.com/', 200, 'OK') });
+    session.emit('Network.loadingFinished', { requestId: '1', timestamp: 1.2, encodedDataLength: 1000 });
+
+    const entries = recorder.toHar().log.entries;
+    expect(entries.map(entry => [entry.request.url, entry.response.status, entry.response.redirectURL])).toEqual([
+      ['http://example.com/', 301, 'https://example.com/'],
+      ['https://example.com/', 200, '']
+    ]);
+    expect(entries[1].timings).toMatchObject({ wait: 50, receive: 100 });
+    expect(recorder.summary()).toEqual({ resourceCount: 2, totalSize: 1150, loadTime: 200 });
+  });
+
+  it('should mark requests blocked by configuration and keep other failures', async () => {
+    const { session, recorder } = await startRecorder(['font']);
+
+    session.emit('Network.requestWillBeSent', requestSent('2', 'https://fonts.example.com/a.woff2', 2, { type: 'Font' }));
+    session.emit('Network.loadingFailed', { requestId: '2', timestamp: 2.01, type: 'Font', errorText: 'net::ERR_FAILED' });
+    session.emit('Network.requestWillBeSent', requestSent('3', 'https://cdn.example.com/logo.png', 2, { type: 'Image' }));
+    session.emit('Network.loadingFailed', { requestId: '3', timestamp: 2.3, type: 'Image', errorText: 'net::ERR_NAME_NOT_RESOLVED' });
+
+    const [font, image] = recorder.toHar().log.entries;
+    expect(font).toMatchObject({ _resourceType: 'font', _error: 'net::ERR_FAILED', _blockedByConfig: true });
+    expect(font.response.status).toBe(0);
+    expect(image._error).toBe('net::ERR_NAME_NOT_RESOLVED');
+    expect(image._blockedByConfig).toBeUndefined();
+    expect(image.timings.wait).toBe(300);
+  });
+
+  it('should detach its session when stopped', async () => {
+    const { session, recorder } = await startRecorder();
+
+    await recorder.stop();
+
+    expect(session.detach).toHaveBeenCalled();
+    expect(recorder.toHar().log.pages).toEqual([]);
+    expect(recorder.summary()).toEqual({ resourceCount: 0, totalSize: 0, loadTime: 0 });
+  });
+});
+
+describe('harPathFor', () => {
+  it('should place the HAR next to the output', () => {
+    expect(harPathFor('/reports/q3.pdf')).toBe('/reports/q3.har');
+    expect(harPathFor('shots/home.png')).toBe('shots/home.har');
+    expect(harPathFor('archive')).toBe('archive.har');
+  });
+});
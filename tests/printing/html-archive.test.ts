@@ -0,0 +1,90 @@
+import { describe, it, expect, vi } from 'vitest';
+import { captureMhtml, captureHtmlArchive, collectResources, MAX_INLINED_RESOURCE_SIZE } from '../../src/printing/html-archive';
+
+function createFakeSession(contents: Record<string, { content: string; base64Encoded: boolean }> = {}) {
+  const frameTree = {
+    frame: { id: 'main' },
+    resources: [
+      { url: 'https://example.com/site.css', type: 'Stylesheet', mimeType: 'text/css' },
+      { url: 'https://example.com/logo.png', type: 'Image', mimeType: 'image/png' },
+      { url: 'https://example.com/app.js', type: 'Script', mimeType: 'text/javascript' },
+      { url: 'https://example.com/missing.png', type: 'Image', mimeType: 'image/png', failed: true },
+      { url: 'https://example.com/huge.woff2', type: 'Font', mimeType: 'font/woff2', contentSize: MAX_INLINED_RESOURCE_SIZE + 1 }
+    ],
+    childFrames: [{
+      frame: { id: 'child' },
+      resources: [
+        { url: 'https://cdn.example.com/font.woff2', type: 'Font', mimeType: 'font/woff2' },
+        { url: 'https://example.com/evicted.png', type: 'Image', mimeType: 'image/png' }
+      ]
+    }]
+  };
+
+  return {
+    send: vi.fn(async (method: string, params?: any) => {
+      if (method === 'Page.getResourceTree') return { frameTree };
+      if (method === 'Page.captureSnapshot') return { data: 'MIME-Version: 1.0\r\n' };
+      if (method === 'Page.getResourceContent') {
+        const content = contents[params.url];
+        if (!content) throw new Error('No resource with given URL found');
+        return content;
+      }
+      return undefined;
+    }),
+    detach: vi.fn().mockResolvedValue(undefined)
+  };
+}
+
+const contents = {
+  'https://example.com/site.css': { content: 'body { background: url(bg.png) }', base64Encoded: false },
+  'https://example.com/logo.png': { content: Buffer.from('PNG').toString('base64'), base64Encoded: true },
+  'https://cdn.example.com/font.woff2': { content: Buffer.from('WOFF').toString('base64'), base64Encoded: true }
+};
+
+describe('collectResources', () => {
+  it('should read stylesheets as text and images and fonts of every frame as data URIs', async () => {
+    const session = createFakeSession(contents);
+
+    const resources = await collectResources(session as any);
+
+    expect(resources.stylesheets).toEqual({ 'https://example.com/site.css': 'body { background: url(bg.png) }' });
+    expect(resources.dataUris).toEqual({
+      'https://example.com/logo.png': `data:image/png;base64,${Buffer.from('PNG').toString('base64')}`,
+      'https://cdn.example.com/font.woff2': `data:font/woff2;base64,${Buffer.from('WOFF').toString('base64')}`
+    });
+    expect(session.send).toHaveBeenCalledWith('Page.getResourceContent', { frameId: 'child', url: 'https://cdn.example.com/font.woff2' });
+    const requested = session.send.mock.calls.filter(([method]) => method === 'Page.getResourceContent').map(([, params]) => params.url);
+    expect(requested).not.toContain('https://example.com/app.js');
+    expect(requested).not.toContain('https://example.com/missing.png');
+    expect(requested).not.toContain('https://example.com/huge.woff2');
+  });
+});
+
+describe('page archives', () => {
+  it('should capture MHTML through the DevTools protocol', async () => {
+    const session = createFakeSession();
+    const page = { target: () => ({ createCDPSession: async () => session }) };
+
+    const mhtml = await captureMhtml(page as any);
+
+    expect(mhtml.toString()).toBe('MIME-Version: 1.0\r\n');
+    expect(session.send).toHaveBeenCalledWith('Page.captureSnapshot', { format: 'mhtml' });
+    expect(session.detach).toHaveBeenCalled();
+  });
+
+  it('should serialize the document in the page with the collected resources', async () => {
+    const session = createFakeSession(contents);
+    const page = {
+      target: () => ({ createCDPSession: async () => session }),
+      evaluate: vi.fn().mockResolvedValue('<!DOCTYPE html>\n<html><head><meta charset="utf-8"></head></html>')
+    };
+
+    const html = await captureHtmlArchive(page as any);
+
+    expect(html.toString()).toContain('<meta charset="utf-8">');
+    expect(page.evaluate).toHaveBeenCalledWith(expect.any(Function), expect.objectContaining({
+      stylesheets: { 'https://example.com/site.css': 'body { background: url(bg.png) }' }
+    }));
+    expect(session.detach).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { isAcceptedStatus, parseStatusList, parseStatusRanges } from '../../src/printing/http-status';
+import { toPrinteerError } from '../../src/errors';
+
+describe('HTTP status policy', () => {
+  it('should accept 2xx and 304 by default', () => {
+    expect(isAcceptedStatus(200)).toBe(true);
+    expect(isAcceptedStatus(201)).toBe(true);
+    expect(isAcceptedStatus(304)).toBe(true);
+    expect(isAcceptedStatus(301)).toBe(false);
+    expect(isAcceptedStatus(404)).toBe(false);
+  });
+
+  it('should resolve codes, classes and inclusive ranges', () => {
+    expect(parseStatusRanges([404, '5xx', '200-203', '410'])).toEqual([[404, 404], [500, 599], [200, 203], [410, 410]]);
+    expect(isAcceptedStatus(404, ['2xx', 404])).toBe(true);
+    expect(isAcceptedStatus(503, ['200-299'])).toBe(false);
+  });
+
+  it('should reject malformed ranges as configuration errors', () => {
+    for (const range of ['6xx', '299-200', 'abc', 99]) {
+      expect(() => parseStatusRanges([range])).toThrow(`Invalid HTTP status range: ${range}`);
+    }
+
+    let failure: unknown;
+    try {
+      parseStatusRanges(['2XX-3']);
+    } catch (error) {
+      failure = error;
+    }
+    expect(toPrinteerError(failure).code).toBe('INVALID_CONFIGURATION');
+  });
+
+  it('should parse comma-separated CLI lists', () => {
+    expect(parseStatusList('2xx, 304,404')).toEqual(['2xx', 304, 404]);
+    expect(() => parseStatusList('2xx,nope')).toThrow('Invalid HTTP status range: nope');
+  });
+});
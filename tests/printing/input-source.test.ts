@@ -0,0 +1,168 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, mkdirSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { pathToFileURL } from 'url';
+import type { Page } from 'puppeteer';
+import { resolveInputSource, loadInput, describeInput } from '../../src/printing/input-source';
+import { StaticFileServer } from '../../src/printing/static-server';
+
+describe('Input sources', () => {
+  let workDir: string;
+
+  beforeEach(() => {
+    workDir = mkdtempSync(join(tmpdir(), 'printeer-input-'));
+    writeFileSync(join(workDir, 'report.html'), '<h1>Report</h1>');
+    mkdirSync(join(workDir, 'site'));
+    writeFileSync(join(workDir, 'site', 'index.html'), '<link rel="stylesheet" href="style.css"><h1>Site</h1>');
+    writeFileSync(join(workDir, 'site', 'style.css'), 'h1 { color: red; }');
+    writeFileSync(join(workDir, 'secret.txt'), 'outside the root');
+  });
+
+  afterEach(() => {
+    rmSync(workDir, { recursive: true, force: true });
+  });
+
+  describe('resolveInputSource', () => {
+    it('should classify remote URLs, files, directories and HTML', () => {
+      expect(resolveInputSource('https://example.com')).toEqual({ type: 'url', url: 'https://example.com' });
+
+      const file = resolveInputSource(join(workDir, 'report.html'));
+      expect(file).toMatchObject({ type: 'file', url: pathToFileURL(join(workDir, 'report.html')).href });
+
+      const fileUrl = resolveInputSource(pathToFileURL(join(workDir, 'report.html')).href);
+      expect(fileUrl.type).toBe('file');
+
+      writeFileSync(join(workDir, 'notes.md'), '# Notes');
+      expect(resolveInputSource(join(workDir, 'notes.md'))).toMatchObject({ type: 'markdown', path: join(workDir, 'notes.md') });
+
+      expect(resolveInputSource(join(workDir, 'site'))).toEqual({ type: 'directory', path: join(workDir, 'site'), entry: 'index.html' });
+
+      expect(resolveInputSource({ html: '<p>Hi</p>', baseUrl: 'https://cdn.example.com/' }))
+        .toEqual({ type: 'html', html: '<p>Hi</p>', baseUrl: 'https://cdn.example.com/' });
+    });
+
+    it('should reject unsupported schemes, missing paths and directories without an index', () => {
+      expect(() => resolveInputSource('ftp://example.com/file')).toThrow('Unsupported URL scheme');
+      expect(() => resolveInputSource(join(workDir, 'missing.html'))).toThrow('Input not found');
+      expect(() => resolveInputSource(workDir)).toThrow('has no index.html');
+      expect(() => resolveInputSource('')).toThrow('required');
+    });
+
+    it('should describe inputs for metadata', () => {
+      expect(describeInput(resolveInputSource(join(workDir, 'site')))).toBe(pathToFileURL(join(workDir, 'site', 'index.html')).href);
+      expect(describeInput({ type: 'html', html: '' })).toBe('about:blank');
+    });
+  });
+
+  describe('StaticFileServer', () => {
+    it('should serve files below the root only', async () => {
+      const server = new StaticFileServer(join(workDir, 'site'));
+      const baseUrl = await server.start();
+
+      try {
+        const index = await fetch(baseUrl);
+        expect(index.status).toBe(200);
+        expect(index.headers.get('content-type')).toContain('text/html');
+        expect(await index.text()).toContain('<h1>Site</h1>');
+
+        const css = await fetch(`${baseUrl}style.css`);
+        expect(css.headers.get('content-type')).toContain('text/css');
+
+        expect((await fetch(`${baseUrl}missing.png`)).status).toBe(404);
+        expect((await fetch(`${baseUrl}..%2Fsecret.txt`)).status).toBe(403);
+      } finally {
+        await server.stop();
+      }
+
+      expect(() => server.getBaseUrl()).toThrow('not running');
+    });
+  });
+
+  describe('loadInput', () => {
+    function createFakePage() {
+      return {
+        goto: vi.fn().mockImplementation(async (url: string) => {
+          const response = await fetch(url);
+          return { url: () => 'https://example.com/', request: () => ({ redirectChain: () => [] }), status: () => response.status, statusText: () => response.statusText };
+        }),
+        setContent: vi.fn().mockResolvedValue(undefined)
+      };
+    }
+
+    it('should set raw HTML with an injected base href', async () => {
+      const page = createFakePage();
+      const loaded = await loadInput(page as unknown as Page, {
+        type: 'html',
+        html: '<html><head><title>T</title></head><body><img src="logo.png"></body></html>',
+        baseUrl: 'https://cdn.example.com/assets/'
+      }, { waitUntil: 'load', timeout: 1000 });
+
+      expect(page.setContent).toHaveBeenCalledWith(
+        '<html><head><base href="https://cdn.example.com/assets/"><title>T</title></head><body><img src="logo.png"></body></html>',
+        { waitUntil: 'load', timeout: 1000 }
+      );
+      expect(loaded.response).toBeNull();
+      expect(loaded.isHttp).toBe(false);
+    });
+
+    it('should serve a directory for the duration of the render', async () => {
+      const page = createFakePage();
+      const loaded = await loadInput(page as unknown as Page, resolveInputSource(join(workDir, 'site')));
+
+      const servedUrl = page.goto.mock.calls[0][0] as string;
+      expect(servedUrl).toMatch(/^http:\/\/127\.0\.0\.1:\d+\/index\.html$/);
+      expect(loaded.isHttp).toBe(false);
+      expect(loaded.response?.status()).toBe(200);
+      expect(loaded.sourceUrl(servedUrl)).toBe(pathToFileURL(join(workDir, 'site', 'index.html')).href);
+      expect(loaded.sourceUrl(servedUrl.replace('index.html', 'style.css?v=2'))).toBe(pathToFileURL(join(workDir, 'site', 'style.css')).href);
+      expect(loaded.sourceUrl('https://example.com/')).toBe('https://example.com/');
+
+      await loaded.close();
+      await expect(fetch(servedUrl)).rejects.toThrow();
+    });
+
+    it('should serve rendered Markdown next to its assets and expose front-matter', async () => {
+      writeFileSync(join(workDir, 'site', 'guide.md'), '---\ntitle: Guide\nauthor: Ada\n---\n![logo](logo.png)\n');
+      const bodies: string[] = [];
+      const page = {
+        goto: vi.fn().mockImplementation(async (url: string) => {
+          const response = await fetch(url);
+          bodies.push(await response.text());
+          return { url: () => 'https://example.com/', request: () => ({ redirectChain: () => [] }), status: () => response.status, statusText: () => response.statusText };
+        })
+      };
+
+      const loaded = await loadInput(page as unknown as Page, resolveInputSource(join(workDir, 'site', 'guide.md')), {
+        markdown: { theme: 'minimal' }
+      });
+
+      try {
+        expect(page.goto.mock.calls[0][0]).toMatch(/^http:\/\/127\.0\.0\.1:\d+\/guide\.md$/);
+        expect(bodies[0]).toContain('<title>Guide</title>');
+        expect(bodies[0]).toContain('<img src="logo.png"');
+        expect(loaded.document?.metadata).toEqual({ title: 'Guide', author: 'Ada' });
+        expect(loaded.document?.variables).toMatchObject({ title: 'Guide', author: 'Ada' });
+      } finally {
+        await loaded.close();
+      }
+    });
+
+    it('should serve HTML with a local base directory instead of setting content', async () => {
+      const page = createFakePage();
+      const loaded = await loadInput(page as unknown as Page, {
+        type: 'html',
+        html: '<link rel="stylesheet" href="style.css"><p>Inline</p>',
+        baseUrl: pathToFileURL(join(workDir, 'site')).href
+      });
+
+      try {
+        expect(page.setContent).not.toHaveBeenCalled();
+        expect(page.goto.mock.calls[0][0]).toMatch(/__printeer_inline__\.html$/);
+        expect(loaded.response?.status()).toBe(200);
+      } finally {
+        await loaded.close();
+      }
+    });
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, it, expect, vi } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { PDFDocument } from 'pdf-lib';
+import { parseFrontMatter, frontMatterToMetadata, renderMarkdown, isMarkdownPath } from '../../src/printing/markdown';
+import { getMarkdownThemeNames } from '../../src/printing/markdown-themes';
+import { applyPdfMetadata, hasPdfMetadata } from '../../src/printing/pdf-metadata';
+import { TemplateManager } from '../../src/templates/template-manager';
+
+describe('Markdown rendering', () => {
+  it('should detect Markdown paths by extension', () => {
+    expect(isMarkdownPath('README.md')).toBe(true);
+    expect(isMarkdownPath('/docs/guide.MARKDOWN')).toBe(true);
+    expect(isMarkdownPath('index.html')).toBe(false);
+  });
+
+  it('should map front-matter onto PDF metadata', () => {
+    const { data, body } = parseFrontMatter('---\ntitle: Annual Report\nauthors: [Ada, Grace]\ntags:\n  - finance\n  - 2024\ndescription: Numbers\ndate: 2024-03-01\n---\n# Body\n');
+
+    expect(body).toBe('# Body\n');
+    const metadata = frontMatterToMetadata(data);
+    expect(metadata).toMatchObject({
+      title: 'Annual Report',
+      author: 'Ada, Grace',
+      subject: 'Numbers',
+      keywords: 'finance, 2024'
+    });
+    expect(metadata.creationDate).toBeInstanceOf(Date);
+  });
+
+  it('should leave documents without front-matter untouched and reject invalid YAML', () => {
+    expect(parseFrontMatter('# Title\n')).toEqual({ data: {}, body: '# Title\n' });
+    expect(() => parseFrontMatter('---\ntitle: [unclosed\n---\n')).toThrow('Invalid Markdown front-matter');
+  });
+
+  it('should render tables and highlighted code into a themed document', async () => {
+    const doc = await renderMarkdown('# Heading\n\n| a | b |\n|---|---|\n| 1 | 2 |\n\n```js\nconst x = 1;\n```\n', { theme: 'github' });
+
+    expect(doc.title).toBe('Heading');
+    expect(doc.html).toContain('<title>Heading</title>');
+    expect(doc.html).toContain('<table>');
+    expect(doc.html).toContain('<code class="hljs language-js">');
+    expect(doc.html).toContain('<span class="hljs-keyword">const</span>');
+    expect(doc.html).toContain('class="markdown-body"');
+  });
+
+  it('should skip highlighting when disabled', async () => {
+    const doc = await renderMarkdown('```js\nconst x = 1;\n```\n', { highlight: false });
+    expect(doc.html).not.toContain('hljs-keyword');
+  });
+
+  it('should accept custom stylesheets and reject unknown themes', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'printeer-md-'));
+    try {
+      writeFileSync(join(dir, 'brand.css'), 'body { color: rebeccapurple; }');
+      const doc = await renderMarkdown('text', { theme: join(dir, 'brand.css') });
+      expect(doc.html).toContain('rebeccapurple');
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+
+    expect(getMarkdownThemeNames()).toEqual(expect.arrayContaining(['default', 'github', 'minimal', 'academic']));
+    await expect(renderMarkdown('text', { theme: 'neon' })).rejects.toThrow('Unknown Markdown theme: neon');
+  });
+});
+
+describe('PDF metadata', () => {
+  it('should write document information into an existing PDF', async () => {
+    const source = await PDFDocument.create();
+    source.addPage();
+    const pdf = await source.save();
+
+    expect(hasPdfMetadata({})).toBe(false);
+    const updated = await applyPdfMetadata(pdf, {
+      title: 'Annual Report',
+      author: 'Ada',
+      keywords: 'finance, 2024',
+      creator: 'printeer'
+    });
+
+    const reloaded = await PDFDocument.load(updated);
+    expect(reloaded.getTitle()).toBe('Annual Report');
+    expect(reloaded.getAuthor()).toBe('Ada');
+    expect(reloaded.getKeywords()).toBe('finance 2024');
+    expect(reloaded.getCreator()).toBe('printeer');
+  });
+});
+
+describe('Header and footer templates', () => {
+  it('should resolve template names, files and inline HTML with variables', async () => {
+    const manager = new TemplateManager();
+
+    expect(await manager.resolveTemplate('simple-header', { title: 'Guide' })).toContain('Guide');
+    expect(await manager.resolveTemplate('<div>{{author}}</div>', { author: 'Ada' })).toBe('<div>Ada</div>');
+
+    const dir = mkdtempSync(join(tmpdir(), 'printeer-tpl-'));
+    try {
+      writeFileSync(join(dir, 'footer.html'), '<span>{{version}}</span>');
+      expect(await manager.resolveTemplate(join(dir, 'footer.html'), { version: '1.2' })).toBe('<span>1.2</span>');
+      expect(await manager.resolveTemplate(`file:${join(dir, 'footer.html')}`, { version: '1.3' })).toBe('<span>1.3</span>');
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should keep text that only looks like a path as inline content', async () => {
+    const manager = new TemplateManager();
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const dir = mkdtempSync(join(tmpdir(), 'printeer-tpl-'));
+    try {
+      expect(await manager.resolveTemplate('Q3/Q4 report')).toBe('Q3/Q4 report');
+      expect(await manager.resolveTemplate(join(dir, 'missing.html'))).toBe(join(dir, 'missing.html'));
+      expect(await manager.resolveTemplate(`file:${join(dir, 'missing.html')}`)).toBe(`file:${join(dir, 'missing.html')}`);
+      expect(warn).toHaveBeenCalledTimes(1);
+    } finally {
+      warn.mockRestore();
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
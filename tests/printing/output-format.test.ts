@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { join } from 'path';
+import { resolveOutputType, resolveFileOutputs, imageQuality } from '../../src/printing/output-format';
+import { toPrinteerError } from '../../src/errors';
+
+describe('resolveOutputType', () => {
+  it('should pick the encoder from the file extension', () => {
+    expect(resolveOutputType('report.pdf')).toBe('pdf');
+    expect(resolveOutputType('/shots/home.PNG')).toBe('png');
+    expect(resolveOutputType('report.jpg')).toBe('jpeg');
+    expect(resolveOutputType('report.jpeg')).toBe('jpeg');
+    expect(resolveOutputType('card.webp')).toBe('webp');
+    expect(resolveOutputType('snapshot.html')).toBe('html');
+    expect(resolveOutputType('page.txt')).toBe('text');
+    expect(resolveOutputType('page.md')).toBe('markdown');
+  });
+
+  it('should default to PDF only when there is no extension', () => {
+    expect(resolveOutputType('')).toBe('pdf');
+    expect(resolveOutputType('/tmp/archive.d/report')).toBe('pdf');
+  });
+
+  it('should let an explicit type win over the extension', () => {
+    expect(resolveOutputType('capture.bin', 'jpg')).toBe('jpeg');
+    expect(resolveOutputType('', 'WEBP')).toBe('webp');
+  });
+
+  it('should refine png with the image type when no extension says otherwise', () => {
+    expect(resolveOutputType('', 'png', 'webp')).toBe('webp');
+    expect(resolveOutputType('shot.png', null, 'jpeg')).toBe('png');
+    expect(resolveOutputType('', 'pdf', 'jpeg')).toBe('pdf');
+    expect(() => resolveOutputType('', 'png', 'pdf')).toThrow('Invalid output type: pdf is not an image type');
+  });
+
+  it('should reject unsupported extensions and types as configuration errors', () => {
+    expect(() => resolveOutputType('report.gif')).toThrow('Invalid output type: gif (supported: pdf, png, jpg, jpeg, webp, html, htm, mhtml, mht, txt, text, md, markdown)');
+    expect(() => resolveOutputType('report.pdf', 'tiff')).toThrow('Invalid output type: tiff');
+
+    try {
+      resolveOutputType('notes.docx');
+    } catch (error) {
+      expect(toPrinteerError(error).code).toBe('INVALID_CONFIGURATION');
+    }
+    expect.assertions(3);
+  });
+});
+
+describe('resolveFileOutputs', () => {
+  it('should resolve each output with only the settings it sets', () => {
+    expect(resolveFileOutputs([
+      'out/report.pdf',
+      { file: 'out/thumb.png', image: { fullPage: true, clip: { x: 0, y: 0, width: 400, height: 300 } } },
+      { file: 'out/page', type: 'html' },
+      { file: 'out/landscape.pdf', page: { orientation: 'landscape' }, pdf: { scale: 0.8 } }
+    ])).toEqual([
+      { path: join('out', 'report.pdf'), outputType: 'pdf', options: {} },
+      { path: join('out', 'thumb.png'), outputType: 'png', options: { fullPage: true, clip: { x: 0, y: 0, width: 400, height: 300 } } },
+      { path: join('out', 'page'), outputType: 'html', options: {} },
+      { path: join('out', 'landscape.pdf'), outputType: 'pdf', options: { orientation: 'landscape', scale: 0.8 } }
+    ]);
+  });
+
+  it('should reject empty lists, duplicate files and unsupported formats', () => {
+    expect(() => resolveFileOutputs([])).toThrow('Invalid outputs: at least one output file is required');
+    expect(() => resolveFileOutputs(['a.pdf', './a.pdf'])).toThrow('Invalid outputs: a.pdf is listed twice');
+    expect(() => resolveFileOutputs(['a.pdf', { file: 'a.gif' }])).toThrow('Invalid output type: gif');
+  });
+});
+
+describe('imageQuality', () => {
+  it('should default the quality per lossy format and leave PNG without one', () => {
+    expect(imageQuality('jpeg')).toBe(90);
+    expect(imageQuality('webp')).toBe(80);
+    expect(imageQuality('webp', 55)).toBe(55);
+    expect(imageQuality('png', 55)).toBeUndefined();
+  });
+});
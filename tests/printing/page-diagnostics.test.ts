@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest';
+import { EventEmitter } from 'events';
+import type { Page } from 'puppeteer';
+import {
+  collectPageDiagnostics,
+  checkDiagnosticThresholds,
+  createEmptyDiagnostics,
+  MAX_DIAGNOSTIC_ENTRIES
+} from '../../src/printing/page-diagnostics';
+
+const mainFrame = {};
+
+function createFakePage() {
+  const page = new EventEmitter() as EventEmitter & { mainFrame: () => unknown };
+  page.mainFrame = () => mainFrame;
+  return page;
+}
+
+function consoleMessage(type: string, text: string, location: { url?: string; lineNumber?: number; columnNumber?: number } = {}) {
+  return { type: () => type, text: () => text, location: () => location };
+}
+
+function request(url: string, resourceType: string, options: { errorText?: string; navigation?: boolean } = {}) {
+  return {
+    url: () => url,
+    method: () => 'GET',
+    resourceType: () => resourceType,
+    failure: () => (options.errorText ? { errorText: options.errorText } : null),
+    isNavigationRequest: () => !!options.navigation,
+    frame: () => (options.navigation ? mainFrame : null)
+  };
+}
+
+function response(req: ReturnType<typeof request>, status: number, statusText: string) {
+  return { status: () => status, statusText: () => statusText, request: () => req };
+}
+
+describe('collectPageDiagnostics', () => {
+  it('should record console messages, page errors and failed requests', () => {
+    const page = createFakePage();
+    const diagnostics = collectPageDiagnostics(page as unknown as Page);
+
+    page.emit('console', consoleMessage('log', 'booting'));
+    page.emit('console', consoleMessage('warning', 'deprecated API'));
+    page.emit('console', consoleMessage('error', 'Failed to fetch', { url: 'https://example.com/app.js', lineNumber: 12, columnNumber: 4 }));
+    page.emit('pageerror', new Error('chart is not defined'));
+    page.emit('requestfailed', request('https://cdn.example.com/logo.png', 'image', { errorText: 'net::ERR_NAME_NOT_RESOLVED' }));
+    page.emit('response', response(request('https://example.com/api/data', 'fetch'), 500, 'Internal Server Error'));
+    page.emit('response', response(request('https://example.com/style.css', 'stylesheet'), 200, 'OK'));
+
+    expect(diagnostics.summary).toEqual({
+      consoleMessages: 3,
+      consoleWarnings: 1,
+      consoleErrors: 1,
+      pageErrors: 1,
+      failedRequests: 2,
+      brokenImages: 1
+    });
+    expect(diagnostics.console[1]).toEqual({ level: 'warn', text: 'deprecated API' });
+    expect(diagnostics.console[2].location).toBe('https://example.com/app.js:12:4');
+    expect(diagnostics.pageErrors[0].message).toBe('chart is not defined');
+    expect(diagnostics.failedRequests).toEqual([
+      { url: 'https://cdn.example.com/logo.png', method: 'GET', resourceType: 'image', errorText: 'net::ERR_NAME_NOT_RESOLVED' },
+      { url: 'https://example.com/api/data', method: 'GET', resourceType: 'fetch', status: 500, statusText: 'Internal Server Error' }
+    ]);
+  });
+
+  it('should filter console levels but keep counting every message', () => {
+    const page = createFakePage();
+    const diagnostics = collectPageDiagnostics(page as unknown as Page, { consoleLevels: ['error'] });
+
+    page.emit('console', consoleMessage('info', 'hello'));
+    page.emit('console', consoleMessage('error', 'boom'));
+
+    expect(diagnostics.console).toEqual([{ level: 'error', text: 'boom' }]);
+    expect(diagnostics.summary.consoleMessages).toBe(2);
+  });
+
+  it('should ignore the main document and resource types blocked on purpose', () => {
+    const page = createFakePage();
+    const diagnostics = collectPageDiagnostics(page as unknown as Page, { blockedResourceTypes: ['font'] });
+
+    page.emit('response', response(request('https://example.com/missing', 'document', { navigation: true }), 404, 'Not Found'));
+    page.emit('requestfailed', request('https://fonts.example.com/a.woff2', 'font', { errorText: 'net::ERR_FAILED' }));
+
+    expect(diagnostics.summary.failedRequests).toBe(0);
+    expect(diagnostics.failedRequests).toEqual([]);
+  });
+
+  it('should cap the entries it keeps', () => {
+    const page = createFakePage();
+    const diagnostics = collectPageDiagnostics(page as unknown as Page);
+
+    for (let i = 0; i <= MAX_DIAGNOSTIC_ENTRIES; i++) {
+      page.emit('console', consoleMessage('log', `line ${i}`));
+    }
+
+    expect(diagnostics.console).toHaveLength(MAX_DIAGNOSTIC_ENTRIES);
+    expect(diagnostics.summary.consoleMessages).toBe(MAX_DIAGNOSTIC_ENTRIES + 1);
+    expect(diagnostics.truncated).toBe(true);
+  });
+});
+
+describe('checkDiagnosticThresholds', () => {
+  it('should pass without thresholds or within them', () => {
+    const diagnostics = createEmptyDiagnostics();
+    diagnostics.summary.brokenImages = 2;
+
+    expect(() => checkDiagnosticThresholds(diagnostics)).not.toThrow();
+    expect(() => checkDiagnosticThresholds(diagnostics, { maxBrokenImages: 2 })).not.toThrow();
+  });
+
+  it('should list every exceeded threshold in one error', () => {
+    const diagnostics = createEmptyDiagnostics();
+    diagnostics.summary.pageErrors = 1;
+    diagnostics.summary.brokenImages = 3;
+
+    expect(() => checkDiagnosticThresholds(diagnostics, { maxPageErrors: 0, maxBrokenImages: 2, maxFailedRequests: 5 }))
+      .toThrow(expect.objectContaining({
+        code: 'DIAGNOSTICS_THRESHOLD_EXCEEDED',
+        message: 'Page diagnostics exceeded thresholds: 1 page errors (limit 0); 3 broken images (limit 2)',
+        retryable: false
+      }));
+  });
+});
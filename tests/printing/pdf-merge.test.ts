@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { PDFDocument, PDFDict, PDFName, PDFHexString, PDFRef } from 'pdf-lib';
+import { mergePdfs } from '../../src/printing/pdf-merge';
+
+async function createPdf(pages: number, title?: string): Promise<Uint8Array> {
+  const document = await PDFDocument.create();
+  if (title) document.setTitle(title);
+  for (let i = 0; i < pages; i++) {
+    document.addPage([300, 400]);
+  }
+  return await document.save();
+}
+
+function outlineTitles(document: PDFDocument): string[] {
+  const outlines = document.context.lookup(document.catalog.get(PDFName.of('Outlines')), PDFDict);
+  const titles: string[] = [];
+  let ref = outlines.get(PDFName.of('First')) as PDFRef | undefined;
+  while (ref) {
+    const item = document.context.lookup(ref, PDFDict);
+    titles.push((item.get(PDFName.of('Title')) as PDFHexString).decodeText());
+    ref = item.get(PDFName.of('Next')) as PDFRef | undefined;
+  }
+  return titles;
+}
+
+describe('mergePdfs', () => {
+  it('should concatenate documents in order with one bookmark per source', async () => {
+    const result = await mergePdfs([
+      { pdf: await createPdf(2, 'Introduction') },
+      { pdf: await createPdf(1), label: 'https://example.com/setup' },
+      { pdf: await createPdf(3, 'Ignored'), title: 'Reference' }
+    ]);
+
+    expect(result.pageCount).toBe(6);
+    expect(result.sections).toEqual([
+      { title: 'Introduction', startPage: 0, pageCount: 2 },
+      { title: 'https://example.com/setup', startPage: 2, pageCount: 1 },
+      { title: 'Reference', startPage: 3, pageCount: 3 }
+    ]);
+
+    const merged = await PDFDocument.load(result.pdf);
+    expect(merged.getPageCount()).toBe(6);
+    expect(outlineTitles(merged)).toEqual(['Introduction', 'https://example.com/setup', 'Reference']);
+  });
+
+  it('should set page labels for continued and restarted numbering', async () => {
+    const sources = [{ pdf: await createPdf(2) }, { pdf: await createPdf(2) }];
+
+    const restarted = await PDFDocument.load((await mergePdfs(sources, { pageNumbering: 'restart' })).pdf);
+    const restartLabels = restarted.context.lookup(restarted.catalog.get(PDFName.of('PageLabels')), PDFDict);
+    expect(restartLabels.toString()).toContain('[ 0 <<');
+    expect(restartLabels.toString()).toContain('2 <<');
+
+    const continued = await PDFDocument.load((await mergePdfs(sources, { pageNumbering: 'continue' })).pdf);
+    const continueLabels = continued.context.lookup(continued.catalog.get(PDFName.of('PageLabels')), PDFDict);
+    expect(continueLabels.toString()).not.toContain('2 <<');
+
+    const plain = await PDFDocument.load((await mergePdfs(sources, { bookmarks: false })).pdf);
+    expect(plain.catalog.get(PDFName.of('PageLabels'))).toBeUndefined();
+    expect(plain.catalog.get(PDFName.of('Outlines'))).toBeUndefined();
+  });
+
+  it('should reject empty input, unknown numbering and unreadable PDFs', async () => {
+    await expect(mergePdfs([])).rejects.toThrow('At least one PDF');
+    await expect(mergePdfs([{ pdf: await createPdf(1) }], { pageNumbering: 'roman' as never })).rejects.toThrow('Invalid page numbering');
+    await expect(mergePdfs([{ pdf: Buffer.from('not a pdf'), label: 'broken.pdf' }])).rejects.toThrow('Failed to read PDF broken.pdf');
+  });
+});
@@ -0,0 +1,573 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { pathToFileURL } from 'url';
+import { Readable } from 'stream';
+import { EventEmitter } from 'events';
+import { runRenderPipeline, resetReport, PIPELINE_STAGES } from '../../src/printing/pipeline';
+import type { PipelineReport } from '../../src/printing/pipeline';
+import { ConversionBudget } from '../../src/printing/cancellation';
+import { PooledBrowserStrategy } from '../../src/printing/browser-strategy';
+import type { BrowserStrategy } from '../../src/printing/browser-strategy';
+
+function createResponse(status: number, statusText: string, url = 'https://example.com/', redirects: Array<[string, number]> = []) {
+  return {
+    url: () => url,
+    request: () => ({
+      redirectChain: () => redirects.map(([from, code]) => ({ url: () => from, response: () => ({ status: () => code }) }))
+    }),
+    status: () => status,
+    statusText: () => statusText
+  };
+}
+
+function createFakeStrategy() {
+  const events = new EventEmitter();
+  const page = {
+    on: (event: string, listener: (...args: any[]) => void) => events.on(event, listener),
+    emit: (event: string, ...args: unknown[]) => events.emit(event, ...args),
+    mainFrame: () => null,
+    setViewport: vi.fn().mockResolvedValue(undefined),
+    viewport: vi.fn().mockReturnValue({ width: 800, height: 600 }),
+    waitForNetworkIdle: vi.fn().mockResolvedValue(undefined),
+    goto: vi.fn().mockResolvedValue(createResponse(200, 'OK')),
+    waitForSelector: vi.fn().mockResolvedValue(undefined),
+    pdf: vi.fn().mockResolvedValue(Buffer.from('%PDF-1.4 pipeline')),
+    createPDFStream: vi.fn().mockResolvedValue(Readable.from([Buffer.from('%PDF-1.4 streamed')])),
+    screenshot: vi.fn().mockResolvedValue(Buffer.from('PNG bytes')),
+    evaluate: vi.fn().mockResolvedValue(undefined),
+    title: vi.fn().mockResolvedValue('Pipeline'),
+    url: vi.fn().mockReturnValue('https://example.com/'),
+    browserContext: () => ({ isIncognito: () => false }),
+    close: vi.fn().mockResolvedValue(undefined)
+  };
+  const browser = {
+    newPage: vi.fn().mockResolvedValue(page),
+    version: vi.fn().mockResolvedValue('HeadlessChrome/110.0.0.0')
+  };
+  const release = vi.fn().mockResolvedValue(undefined);
+  const strategy: BrowserStrategy = {
+    name: 'pool',
+    acquire: vi.fn().mockResolvedValue({ browser, release })
+  };
+  return { strategy, page, release };
+}
+
+const source = { type: 'url' as const, url: 'https://example.com' };
+
+describe('runRenderPipeline', () => {
+  let workDir: string;
+
+  beforeEach(() => {
+    workDir = mkdtempSync(join(tmpdir(), 'printeer-pipeline-'));
+  });
+
+  afterEach(() => {
+    rmSync(workDir, { recursive: true, force: true });
+  });
+
+  it('should time every stage and release through the strategy', async () => {
+    const { strategy, page, release } = createFakeStrategy();
+    const report: PipelineReport = { timings: {} };
+    const path = join(workDir, 'out.pdf');
+
+    const output = await runRenderPipeline({
+      source,
+      target: { kind: 'file', path },
+      outputType: 'pdf',
+      options: { viewport: { width: 800, height: 600 }, waitSelector: '#ready' },
+      strategy,
+      budget: new ConversionBudget(),
+      report,
+      describePage: true
+    });
+
+    expect(output).toBe(path);
+    expect(readFileSync(path, 'utf8')).toBe('%PDF-1.4 pipeline');
+    expect(Object.keys(report.timings)).toEqual(PIPELINE_STAGES);
+    expect(report.page).toEqual({ title: 'Pipeline', url: 'https://example.com/', browserVersion: 'HeadlessChrome/110.0.0.0' });
+    expect(page.waitForSelector).toHaveBeenCalledWith('#ready', expect.any(Object));
+    expect(page.close).toHaveBeenCalled();
+    expect(release).toHaveBeenCalledTimes(1);
+  });
+
+  it('should print custom page sizes and uniform margins', async () => {
+    const { strategy, page } = createFakeStrategy();
+
+    await runRenderPipeline({
+      source,
+      target: { kind: 'buffer' },
+      outputType: 'pdf',
+      options: { format: { width: '8in', height: '4in' }, margin: '1cm' },
+      strategy,
+      budget: new ConversionBudget()
+    });
+
+    const options = page.pdf.mock.calls[0][0];
+    expect(options).toMatchObject({ width: '8in', height: '4in', margin: { top: '1cm', right: '1cm', bottom: '1cm', left: '1cm' } });
+    expect(options.format).toBeUndefined();
+  });
+
+  it('should keep timings and the page URL when a stage fails', async () => {
+    const { strategy, page, release } = createFakeStrategy();
+    page.goto.mockResolvedValue(createResponse(503, 'Service Unavailable'));
+    const report: PipelineReport = { timings: {} };
+
+    await expect(runRenderPipeline({
+      source,
+      target: { kind: 'buffer' },
+      outputType: 'pdf',
+      options: {},
+      strategy,
+      budget: new ConversionBudget(),
+      report
+    })).rejects.toThrow('503');
+
+    expect(Object.keys(report.timings)).toEqual(['acquire', 'prepare', 'navigate', 'wait', 'release']);
+    expect(report.page).toEqual({ url: 'https://example.com/' });
+    expect(page.pdf).not.toHaveBeenCalled();
+    expect(release).toHaveBeenCalledTimes(1);
+  });
+
+  it('should accept statuses in the configured ranges and record the response', async () => {
+    const { strategy, page } = createFakeStrategy();
+    page.goto.mockResolvedValue(createResponse(203, 'Non-Authoritative Information'));
+    const report: PipelineReport = { timings: {} };
+
+    await runRenderPipeline({
+      source,
+      target: { kind: 'buffer' },
+      outputType: 'pdf',
+      options: { acceptedStatuses: ['200-203'] },
+      strategy,
+      budget: new ConversionBudget(),
+      report
+    });
+
+    expect(report.response).toEqual({
+      status: 203,
+      statusText: 'Non-Authoritative Information',
+      url: 'https://example.com/',
+      redirectChain: []
+    });
+    expect(report.warnings).toBeUndefined();
+  });
+
+  it('should render error pages with a warning when renderErrorPages is set', async () => {
+    const { strategy, page } = createFakeStrategy();
+    page.goto.mockResolvedValue(createResponse(404, 'Not Found'));
+    const report: PipelineReport = { timings: {} };
+
+    const output = await runRenderPipeline({
+      source,
+      target: { kind: 'buffer' },
+      outputType: 'pdf',
+      options: { renderErrorPages: true, waitSelector: '#ready' },
+      strategy,
+      budget: new ConversionBudget(),
+      report
+    });
+
+    expect(output).toEqual(Buffer.from('%PDF-1.4 pipeline'));
+    expect(report.response).toMatchObject({ status: 404, statusText: 'Not Found' });
+    expect(report.warnings).toEqual(['Rendered error page: https://example.com returned 404 Not Found']);
+  });
+
+  it('should reject a status before waiting for the selector', async () => {
+    const { strategy, page } = createFakeStrategy();
+    page.goto.mockResolvedValue(createResponse(500, 'Internal Server Error'));
+
+    await expect(runRenderPipeline({
+      source,
+      target: { kind: 'buffer' },
+      outputType: 'pdf',
+      options: { waitSelector: '#ready' },
+      strategy,
+      budget: new ConversionBudget()
+    })).rejects.toMatchObject({ code: 'HTTP_SERVER_ERROR' });
+
+    expect(page.waitForSelector).not.toHaveBeenCalled();
+  });
+
+  it('should record the redirect chain and the final URL', async () => {
+    const { strategy, page } = createFakeStrategy();
+    page.goto.mockResolvedValue(createResponse(200, 'OK', 'https://example.com/report', [['https://example.com', 301]]));
+    const report: PipelineReport = { timings: {} };
+
+    await runRenderPipeline({
+      source,
+      target: { kind: 'buffer' },
+      outputType: 'pdf',
+      options: { maxRedirects: 1 },
+      strategy,
+      budget: new ConversionBudget(),
+      report
+    });
+
+    expect(report.response).toEqual({
+      status: 200,
+      statusText: 'OK',
+      url: 'https://example.com/report',
+      redirectChain: [{ url: 'https://example.com', status: 301 }]
+    });
+  });
+
+  it('should fail instead of rendering a login page that a redirect landed on', async () => {
+    const { strategy, page } = createFakeStrategy();
+    page.goto.mockResolvedValue(createResponse(200, 'OK', 'https://sso.example.com/login?next=%2Freport', [['https://example.com', 302]]));
+    const report: PipelineReport = { timings: {} };
+
+    await expect(runRenderPipeline({
+      source,
+      target: { kind: 'buffer' },
+      outputType: 'pdf',
+      options: { loginUrlPatterns: ['/login\\b'] },
+      strategy,
+      budget: new ConversionBudget(),
+      report
+    })).rejects.toMatchObject({ code: 'REDIRECT_TO_LOGIN', type: 'security' });
+
+    expect(report.response?.url).toBe('https://sso.example.com/login?next=%2Freport');
+    expect(page.pdf).not.toHaveBeenCalled();
+  });
+
+  it('should fail before rendering when the page exceeds a diagnostics threshold', async () => {
+    const { strategy, page } = createFakeStrategy();
+    page.goto.mockImplementation(async () => {
+      page.emit('pageerror', new Error('chart is not defined'));
+      return createResponse(200, 'OK');
+    });
+    const report: PipelineReport = { timings: {} };
+
+    await expect(runRenderPipeline({
+      source,
+      target: { kind: 'buffer' },
+      outputType: 'pdf',
+      options: { diagnosticThresholds: { maxPageErrors: 0 } },
+      strategy,
+      budget: new ConversionBudget(),
+      report
+    })).rejects.toMatchObject({ code: 'DIAGNOSTICS_THRESHOLD_EXCEEDED' });
+
+    expect(report.diagnostics?.pageErrors).toEqual([expect.objectContaining({ message: 'chart is not defined' })]);
+    expect(page.pdf).not.toHaveBeenCalled();
+  });
+
+  it('should write the network log next to the output, for failed renders too', async () => {
+    const { strategy, page } = createFakeStrategy();
+    const session = Object.assign(new EventEmitter(), {
+      send: vi.fn().mockResolvedValue(undefined),
+      detach: vi.fn().mockResolvedValue(undefined)
+    });
+    Object.assign(page, { target: () => ({ createCDPSession: async () => session }) });
+    page.goto.mockImplementation(async () => {
+      session.emit('Network.requestWillBeSent', {
+        requestId: '1', request: { url: 'https://example.com/', method: 'GET', headers: {} }, timestamp: 1, wallTime: 1700000000, type: 'Document'
+      });
+      session.emit('Network.loadingFinished', { requestId: '1', timestamp: 1.25, encodedDataLength: 4096 });
+      return createResponse(200, 'OK');
+    });
+
+    const report: PipelineReport = { timings: {} };
+    await runRenderPipeline({
+      source,
+      target: { kind: 'file', path: join(workDir, 'out.pdf') },
+      outputType: 'pdf',
+      options: { har: true },
+      strategy,
+      budget: new ConversionBudget(),
+      report,
+      describePage: true
+    });
+
+    expect(report.harFile).toBe(join(workDir, 'out.har'));
+    expect(report.network).toEqual({ resourceCount: 1, totalSize: 4096, loadTime: 250 });
+    const har = JSON.parse(readFileSync(join(workDir, 'out.har'), 'utf8'));
+    expect(har.log.pages[0].title).toBe('Pipeline');
+    expect(har.log.entries).toHaveLength(1);
+
+    page.pdf.mockRejectedValueOnce(new Error('Printing failed'));
+    const failed: PipelineReport = { timings: {} };
+    await expect(runRenderPipeline({
+      source,
+      target: { kind: 'file', path: join(workDir, 'failed.pdf') },
+      outputType: 'pdf',
+      options: { har: join(workDir, 'debug.har') },
+      strategy,
+      budget: new ConversionBudget(),
+      report: failed
+    })).rejects.toThrow('Printing failed');
+
+    expect(failed.harFile).toBe(join(workDir, 'debug.har'));
+    expect(JSON.parse(readFileSync(join(workDir, 'debug.har'), 'utf8')).log.entries).toHaveLength(1);
+  });
+
+  it('should only summarize the network when no HAR is requested', async () => {
+    const { strategy, page } = createFakeStrategy();
+    const session = Object.assign(new EventEmitter(), {
+      send: vi.fn().mockResolvedValue(undefined),
+      detach: vi.fn().mockResolvedValue(undefined)
+    });
+    Object.assign(page, { target: () => ({ createCDPSession: async () => session }) });
+    const report: PipelineReport = { timings: {} };
+
+    await runRenderPipeline({
+      source,
+      target: { kind: 'buffer' },
+      outputType: 'pdf',
+      options: { recordNetwork: true },
+      strategy,
+      budget: new ConversionBudget(),
+      report
+    });
+
+    expect(report.network).toEqual({ resourceCount: 0, totalSize: 0, loadTime: 0 });
+    expect(report.harFile).toBeUndefined();
+    expect(report.warnings).toBeUndefined();
+  });
+
+  it('should render every output from one navigation with its own settings', async () => {
+    const { strategy, page } = createFakeStrategy();
+    const session = {
+      send: vi.fn(async (method: string) => method === 'Page.getResourceTree' ? { frameTree: { frame: { id: 'main' }, resources: [] } } : undefined),
+      detach: vi.fn().mockResolvedValue(undefined)
+    };
+    Object.assign(page, { target: () => ({ createCDPSession: async () => session }) });
+    page.evaluate.mockResolvedValue('<html><body>Rendered</body></html>');
+    const report: PipelineReport = { timings: {} };
+    const path = join(workDir, 'report.pdf');
+
+    const output = await runRenderPipeline({
+      source,
+      target: { kind: 'file', path },
+      outputType: 'pdf',
+      options: { format: 'A4', quality: 90 },
+      outputs: [
+        { path: join(workDir, 'thumb.jpg'), outputType: 'jpeg', options: { fullPage: true, quality: 60 } },
+        { path: join(workDir, 'page.html'), outputType: 'html', options: {} }
+      ],
+      strategy,
+      budget: new ConversionBudget(),
+      report
+    });
+
+    expect(output).toBe(path);
+    expect(page.goto).toHaveBeenCalledTimes(1);
+    expect(page.pdf).toHaveBeenCalledWith(expect.objectContaining({ format: 'A4' }));
+    expect(page.screenshot).toHaveBeenCalledWith(expect.objectContaining({ type: 'jpeg', fullPage: true, quality: 60 }));
+    expect(report.outputFiles).toEqual([join(workDir, 'thumb.jpg'), join(workDir, 'page.html')]);
+    expect(readFileSync(join(workDir, 'thumb.jpg'), 'utf8')).toBe('PNG bytes');
+    expect(readFileSync(join(workDir, 'page.html'), 'utf8')).toBe('<html><body>Rendered</body></html>');
+  });
+
+  it('should extract the content of the waited-for page as Markdown', async () => {
+    const { strategy, page } = createFakeStrategy();
+    page.evaluate.mockResolvedValue({
+      title: 'Pricing',
+      url: 'https://example.com/',
+      root: { tag: 'main', children: [{ tag: 'p', children: [{ tag: 'a', href: 'https://example.com/plans', children: [{ tag: '#text', text: 'Plans' }] }] }] }
+    });
+    const path = join(workDir, 'page.md');
+
+    await runRenderPipeline({
+      source,
+      target: { kind: 'file', path },
+      outputType: 'markdown',
+      options: { waitSelector: '#prices', readerMode: true, extractLinks: 'reference' },
+      strategy,
+      budget: new ConversionBudget()
+    });
+
+    expect(page.waitForSelector).toHaveBeenCalledWith('#prices', expect.anything());
+    expect(page.evaluate).toHaveBeenLastCalledWith(expect.any(Function), true);
+    expect(readFileSync(path, 'utf8')).toBe('# Pricing\n\n[Plans][1]\n\n[1]: https://example.com/plans\n');
+  });
+
+  it('should capture selected elements, one file per match in selector-all mode', async () => {
+    const { strategy, page } = createFakeStrategy();
+    page.evaluate.mockResolvedValue([
+      { clip: { x: 0, y: 120, width: 300, height: 200 }, attributes: { 'data-sku': 'lamp' } },
+      { clip: { x: 320, y: 120, width: 300, height: 200 }, attributes: { 'data-sku': 'desk' } }
+    ]);
+    const report: PipelineReport = { timings: {} };
+
+    const output = await runRenderPipeline({
+      source,
+      target: { kind: 'file', path: join(workDir, 'product-{attr:data-sku}.png') },
+      outputType: 'png',
+      options: { selectorAll: '.product-card', selectorPadding: 10, fullPage: true },
+      strategy,
+      budget: new ConversionBudget(),
+      report
+    });
+
+    expect(output).toBe(join(workDir, 'product-lamp.png'));
+    expect(report.elementFiles).toEqual([join(workDir, 'product-lamp.png'), join(workDir, 'product-desk.png')]);
+    expect(page.evaluate).toHaveBeenCalledWith(expect.any(Function), '.product-card', true, 10);
+    expect(page.screenshot).toHaveBeenCalledWith(expect.objectContaining({ fullPage: false, clip: { x: 320, y: 120, width: 300, height: 200 } }));
+    expect(readFileSync(join(workDir, 'product-desk.png'), 'utf8')).toBe('PNG bytes');
+  });
+
+  it('should capture every breakpoint from one page load and link the captures from a contact sheet', async () => {
+    const { strategy, page } = createFakeStrategy();
+    const report: PipelineReport = { timings: {} };
+
+    const output = await runRenderPipeline({
+      source,
+      target: { kind: 'file', path: join(workDir, 'home.png') },
+      outputType: 'png',
+      options: { breakpoints: ['mobile', '1280x800'], waitSelector: '#hero' },
+      strategy,
+      budget: new ConversionBudget(),
+      report
+    });
+
+    expect(output).toBe(join(workDir, 'home-mobile.png'));
+    expect(page.goto).toHaveBeenCalledTimes(1);
+    expect(page.setViewport).toHaveBeenCalledWith(expect.objectContaining({ width: 375, height: 667, isMobile: true, hasTouch: true }));
+    expect(page.setViewport).toHaveBeenCalledWith(expect.objectContaining({ width: 1280, height: 800, isMobile: false }));
+    expect(page.setViewport).toHaveBeenLastCalledWith({ width: 800, height: 600 });
+    // Switching to and from mobile emulation reloads the page, so the waits run again
+    expect(page.waitForSelector).toHaveBeenCalledTimes(3);
+    expect(report.breakpoints).toEqual([
+      { name: 'mobile', width: 375, height: 667, path: join(workDir, 'home-mobile.png') },
+      { name: '1280x800', width: 1280, height: 800, path: join(workDir, 'home-1280x800.png') }
+    ]);
+    expect(report.contactSheet).toBe(join(workDir, 'home-contact-sheet.html'));
+    const sheet = readFileSync(join(workDir, 'home-contact-sheet.html'), 'utf8');
+    expect(sheet).toContain('<img src="home-mobile.png" alt="mobile">');
+    expect(sheet).toContain('<img src="home-1280x800.png" alt="1280x800">');
+  });
+
+  it('should render a page that does not settle with a warning', async () => {
+    const { strategy, page } = createFakeStrategy();
+    page.evaluate.mockImplementation(async (fn: () => unknown) => fn.name === 'sinceLastChange' ? 0 : undefined);
+    const report: PipelineReport = { timings: {} };
+
+    await runRenderPipeline({
+      source,
+      target: { kind: 'file', path: join(workDir, 'dashboard.png') },
+      outputType: 'png',
+      options: { stabilityCheck: { threshold: 200, timeout: 250 } },
+      strategy,
+      budget: new ConversionBudget(),
+      report
+    });
+
+    expect(report.warnings).toEqual(['Page did not settle within 250ms; rendered it while it was still changing']);
+    expect(page.screenshot.mock.calls.length).toBeGreaterThan(2);
+  });
+
+  it('should not apply HTTP policies to served local inputs and report their own location', async () => {
+    const { strategy, page } = createFakeStrategy();
+    const site = join(workDir, 'site');
+    mkdirSync(site);
+    writeFileSync(join(site, 'index.html'), '<h1>Site</h1>');
+    let servedUrl = '';
+    page.goto.mockImplementation(async (url: string) => {
+      servedUrl = url;
+      return createResponse(404, 'Not Found', url);
+    });
+    page.url.mockImplementation(() => servedUrl);
+    const report: PipelineReport = { timings: {} };
+
+    await runRenderPipeline({
+      source: { type: 'directory', path: site, entry: 'index.html' },
+      target: { kind: 'file', path: join(workDir, 'site.pdf') },
+      outputType: 'pdf',
+      options: {},
+      strategy,
+      budget: new ConversionBudget(),
+      report,
+      describePage: true
+    });
+
+    expect(servedUrl).toMatch(/^http:\/\/127\.0\.0\.1:/);
+    expect(report.response).toBeUndefined();
+    expect(report.page?.url).toBe(pathToFileURL(join(site, 'index.html')).href);
+  });
+
+  it('should keep the geolocation of overlapping pooled conversions in their own contexts', async () => {
+    const session = { send: vi.fn().mockResolvedValue({}), detach: vi.fn().mockResolvedValue(undefined) };
+    let finishSecond = () => {};
+    const contexts: Array<{ id: string; close: ReturnType<typeof vi.fn> }> = [];
+    const browser = {
+      target: () => ({ createCDPSession: vi.fn().mockResolvedValue(session) }),
+      version: vi.fn().mockResolvedValue('HeadlessChrome/110.0.0.0'),
+      createIncognitoBrowserContext: vi.fn().mockImplementation(async () => {
+        const { page } = createFakeStrategy();
+        const context = { id: `context-${contexts.length + 1}`, isIncognito: () => true, close: vi.fn().mockResolvedValue(undefined), newPage: async () => page };
+        Object.assign(page, { browser: () => browser, browserContext: () => context, setGeolocation: vi.fn().mockResolvedValue(undefined) });
+        if (contexts.length === 1) {
+          page.pdf.mockImplementation(() => new Promise(resolve => { finishSecond = () => resolve(Buffer.from('%PDF-1.4 second')); }));
+        }
+        contexts.push(context);
+        return context;
+      })
+    };
+    const manager = { getBrowser: vi.fn().mockResolvedValue({ browser }), releaseBrowser: vi.fn().mockResolvedValue(undefined) };
+    const strategy = new PooledBrowserStrategy(manager as any);
+    const convert = (name: string, latitude: number) => runRenderPipeline({
+      source,
+      target: { kind: 'file', path: join(workDir, `${name}.pdf`) },
+      outputType: 'pdf',
+      options: { geolocation: { latitude, longitude: 13.405 } },
+      strategy,
+      budget: new ConversionBudget()
+    });
+
+    const conversions = [convert('berlin', 52.52), convert('equator', 0)];
+    await Promise.race(conversions);
+
+    expect(contexts[0].close).toHaveBeenCalled();
+    expect(contexts[1].close).not.toHaveBeenCalled();
+    finishSecond();
+    await Promise.all(conversions);
+
+    expect(contexts[1].close).toHaveBeenCalled();
+    expect(session.send.mock.calls).toEqual([
+      ['Browser.grantPermissions', { permissions: ['geolocation'], browserContextId: 'context-1' }],
+      ['Browser.grantPermissions', { permissions: ['geolocation'], browserContextId: 'context-2' }]
+    ]);
+  });
+
+  it('should record the release of streamed outputs once the stream ends', async () => {
+    const { strategy, release } = createFakeStrategy();
+    const report: PipelineReport = { timings: {} };
+
+    const stream = await runRenderPipeline({
+      source,
+      target: { kind: 'stream' },
+      outputType: 'pdf',
+      options: {},
+      strategy,
+      budget: new ConversionBudget(),
+      report
+    }) as Readable;
+
+    expect(release).not.toHaveBeenCalled();
+    expect(report.timings.release).toBeUndefined();
+
+    stream.resume();
+    await vi.waitFor(() => expect(release).toHaveBeenCalled());
+    await vi.waitFor(() => expect(report.timings.release).toBeGreaterThanOrEqual(0));
+  });
+});
+
+describe('resetReport', () => {
+  it('clears an earlier attempt but keeps the report and timings objects', () => {
+    const timings = { navigate: 120, render: 40 };
+    const report: PipelineReport = {
+      timings,
+      page: { url: 'https://example.com/' },
+      response: { status: 503, statusText: 'Service Unavailable', url: 'https://example.com/', redirectChain: [] },
+      warnings: ['Rendered an error page']
+    };
+
+    resetReport(report);
+
+    expect(report).toEqual({ timings: {} });
+    expect(report.timings).toBe(timings);
+  });
+});
@@ -0,0 +1,131 @@
+import { describe, it, expect, vi } from 'vitest';
+import { DefaultPrinteerService, DefaultServiceFactory } from '../../src/printing/service';
+import type { BrowserManager, BrowserInstance, PoolStatus } from '../../src/printing/types/browser';
+import type { Configuration } from '../../src/config/types/configuration';
+
+function createFakeManager(poolStatus: Partial<PoolStatus> = {}) {
+  const page = {
+    goto: vi.fn().mockResolvedValue({ url: () => 'https://example.com/', request: () => ({ redirectChain: () => [] }), status: () => 200, statusText: () => 'OK' }),
+    title: vi.fn().mockResolvedValue('Example'),
+    url: vi.fn().mockReturnValue('https://example.com'),
+    pdf: vi.fn().mockRejectedValue(new Error('render failed')),
+    browserContext: () => ({ isIncognito: () => false }),
+    close: vi.fn().mockResolvedValue(undefined)
+  };
+  const instance = {
+    id: 'browser-1',
+    browser: { newPage: vi.fn().mockResolvedValue(page), version: vi.fn().mockResolvedValue('test') },
+    createdAt: new Date(),
+    lastUsed: new Date(),
+    isHealthy: true
+  } as unknown as BrowserInstance;
+
+  return {
+    initialize: vi.fn().mockResolvedValue(undefined),
+    getBrowser: vi.fn().mockResolvedValue(instance),
+    releaseBrowser: vi.fn().mockResolvedValue(undefined),
+    shutdown: vi.fn().mockResolvedValue(undefined),
+    getPoolStatus: vi.fn().mockReturnValue({
+      totalBrowsers: 1,
+      availableBrowsers: 1,
+      busyBrowsers: 0,
+      healthyBrowsers: 1,
+      unhealthyBrowsers: 0,
+      uptime: 0,
+      metrics: { created: 1, destroyed: 0, reused: 0, errors: 0 },
+      ...poolStatus
+    }),
+    warmUp: vi.fn().mockResolvedValue(undefined)
+  } as unknown as BrowserManager;
+}
+
+describe('DefaultPrinteerService', () => {
+  const factory = new DefaultServiceFactory();
+
+  it('should size its browser pool from the configuration', async () => {
+    const manager = createFakeManager();
+    const managerFactory = vi.fn().mockReturnValue(manager);
+    const config = factory.getDefaultConfiguration();
+    config.browser.pool = { min: 1, max: 4, idleTimeout: 1000 };
+
+    const service = new DefaultPrinteerService(config, managerFactory);
+    await service.start();
+
+    expect(managerFactory).toHaveBeenCalledWith(config);
+    expect(manager.initialize).toHaveBeenCalled();
+    expect(service.getStatus().isRunning).toBe(true);
+    expect(service.getStatus().mode).toBe('long-running');
+  });
+
+  it('should reject conversions before start()', async () => {
+    const service = new DefaultPrinteerService(factory.getDefaultConfiguration(), () => createFakeManager());
+
+    await expect(service.convert({ url: 'https://example.com', outputFile: 'out.pdf' }))
+      .rejects.toThrow('not running');
+  });
+
+  it('should track request counters and last activity', async () => {
+    const service = new DefaultPrinteerService(factory.getDefaultConfiguration(), () => createFakeManager());
+    await service.start();
+
+    const result = await service.convert({ url: 'https://example.com', outputFile: 'out.pdf' });
+    expect(result.success).toBe(false);
+
+    const status = service.getStatus();
+    expect(status.totalRequests).toBe(1);
+    expect(status.activeRequests).toBe(0);
+    expect(status.lastActivity).toBeInstanceOf(Date);
+    expect(status.uptime).toBeGreaterThanOrEqual(0);
+  });
+
+  it('should answer isHealthy() from pool health', async () => {
+    const config: Configuration = factory.getDefaultConfiguration();
+    config.browser.pool = { min: 1, max: 2, idleTimeout: 1000 };
+
+    const healthy = new DefaultPrinteerService(config, () => createFakeManager());
+    expect(healthy.isHealthy()).toBe(false);
+    await healthy.start();
+    expect(healthy.isHealthy()).toBe(true);
+
+    const unhealthy = new DefaultPrinteerService(config, () => createFakeManager({ healthyBrowsers: 0, unhealthyBrowsers: 1 }));
+    await unhealthy.start();
+    expect(unhealthy.isHealthy()).toBe(false);
+
+    const empty = new DefaultPrinteerService(config, () => createFakeManager({ totalBrowsers: 0, healthyBrowsers: 0 }));
+    await empty.start();
+    expect(empty.isHealthy()).toBe(false);
+  });
+
+  it('should shut down its pool on stop()', async () => {
+    const manager = createFakeManager();
+    const service = new DefaultPrinteerService(factory.getDefaultConfiguration(), () => manager);
+    await service.start();
+    await service.stop();
+
+    expect(manager.shutdown).toHaveBeenCalled();
+    expect(service.getStatus().isRunning).toBe(false);
+    expect(service.isHealthy()).toBe(false);
+  });
+});
+
+describe('DefaultServiceFactory', () => {
+  const factory = new DefaultServiceFactory();
+
+  it('should validate pool sizes and timeouts', () => {
+    expect(factory.validateConfiguration({})).toBe(true);
+    expect(factory.validateConfiguration({ browser: { headless: true, args: [], timeout: 1000, pool: { min: 3, max: 1, idleTimeout: 0 } } })).toBe(false);
+    expect(factory.validateConfiguration({ browser: { headless: true, args: [], timeout: 0, pool: { min: 0, max: 1, idleTimeout: 0 } } })).toBe(false);
+  });
+
+  it('should build a service from a partial configuration', () => {
+    const service = factory.createService({ logging: { level: 'error', format: 'text', destination: 'console' } });
+    expect(service).toBeInstanceOf(DefaultPrinteerService);
+    expect(service.getStatus().mode).toBe('long-running');
+  });
+
+  it('should throw for an invalid configuration', () => {
+    expect(() => factory.createService({
+      browser: { headless: true, args: [], timeout: 1000, pool: { min: -1, max: 1, idleTimeout: 0 } }
+    })).toThrow('Invalid service configuration');
+  });
+});
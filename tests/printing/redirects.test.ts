@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { checkRedirectPolicy, parseLoginUrlPatterns } from '../../src/printing/redirects';
+import type { RedirectHop } from '../../src/printing/redirects';
+import { toPrinteerError } from '../../src/errors';
+
+function violation(chain: RedirectHop[], finalUrl: string, policy: Parameters<typeof checkRedirectPolicy>[2]) {
+  try {
+    checkRedirectPolicy(chain, finalUrl, policy);
+  } catch (error) {
+    return toPrinteerError(error);
+  }
+  return null;
+}
+
+// The mock server's /redirect/chain?n=2 route
+const chain: RedirectHop[] = [
+  { url: 'http://localhost:4000/redirect/chain?n=2&to=%2Fstatic%2Fsimple', status: 302 },
+  { url: 'http://localhost:4000/redirect/chain?n=2&to=%2Fstatic%2Fsimple&current=2', status: 302 }
+];
+
+describe('checkRedirectPolicy', () => {
+  it('should allow any redirects by default', () => {
+    expect(violation(chain, 'http://127.0.0.1:4000/login', {})).toBeNull();
+  });
+
+  it('should enforce the maximum number of redirects', () => {
+    expect(violation(chain, 'http://localhost:4000/static/simple', { maxRedirects: 2 })).toBeNull();
+
+    const failure = violation(chain, 'http://localhost:4000/static/simple', { maxRedirects: 1 });
+    expect(failure?.code).toBe('REDIRECT_LIMIT_EXCEEDED');
+    expect(failure?.message).toContain('Redirected 2 times, more than the limit of 1');
+    expect(failure?.details).toMatchObject({ finalUrl: 'http://localhost:4000/static/simple', redirectChain: chain });
+  });
+
+  it('should reject redirects to another origin when cross-origin redirects are disallowed', () => {
+    expect(violation(chain, 'http://localhost:4000/static/simple', { allowCrossOrigin: false })).toBeNull();
+
+    const failure = violation(chain, 'http://127.0.0.1:4000/static/simple', { allowCrossOrigin: false });
+    expect(failure?.code).toBe('REDIRECT_CROSS_ORIGIN');
+    expect(failure?.retryable).toBe(false);
+  });
+
+  it('should reject redirects to login pages but not a login page requested directly', () => {
+    const policy = { loginUrlPatterns: ['/auth/login', '^https://sso\\.'] };
+
+    expect(violation(chain, 'http://localhost:4000/AUTH/LOGIN?next=/report', policy)?.code).toBe('REDIRECT_TO_LOGIN');
+    expect(violation([{ url: 'https://app.example.com/report', status: 302 }], 'https://sso.example.com/', policy)?.code).toBe('REDIRECT_TO_LOGIN');
+    expect(violation([], 'http://localhost:4000/auth/login', policy)).toBeNull();
+  });
+
+  it('should reject invalid login URL patterns as configuration errors', () => {
+    expect(() => parseLoginUrlPatterns(['(unclosed'])).toThrow('Invalid login URL pattern: (unclosed');
+    expect(violation(chain, 'http://localhost:4000/', { loginUrlPatterns: ['[z-a]'] })?.code).toBe('INVALID_CONFIGURATION');
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * Tests for returning rendered output as a Buffer or Readable instead of a file
+ */
+
+import { describe, test, expect, vi, beforeEach } from 'vitest';
+import { Readable } from 'stream';
+
+const { launch } = vi.hoisted(() => ({ launch: vi.fn() }));
+vi.mock('puppeteer', () => ({ default: { launch } }));
+
+import { renderToBuffer, renderToStream } from '../../src/api/index';
+import { createFakeBrowser } from '../shared/fake-browser';
+
+async function readAll(stream: Readable): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks).toString();
+}
+
+describe('Rendering without an output file', () => {
+  beforeEach(() => {
+    launch.mockReset();
+  });
+
+  test('renderToBuffer returns the PDF bytes without a path', async () => {
+    const { browser, page } = createFakeBrowser();
+    page.pdf.mockResolvedValue(Buffer.from('%PDF-1.4 buffered'));
+    launch.mockResolvedValue(browser);
+
+    const pdf = await renderToBuffer('https://example.com');
+
+    expect(pdf.toString()).toBe('%PDF-1.4 buffered');
+    expect(page.pdf).toHaveBeenCalledWith(expect.objectContaining({ path: undefined }));
+    expect(browser.close).toHaveBeenCalled();
+  });
+
+  test('renderToBuffer returns screenshots for png', async () => {
+    const { browser, page } = createFakeBrowser();
+    launch.mockResolvedValue(browser);
+
+    const png = await renderToBuffer('https://example.com', 'png');
+
+    expect(png.toString()).toBe('PNG bytes');
+    expect(page.screenshot).toHaveBeenCalled();
+  });
+
+  test('renderToBuffer encodes JPEG and WebP screenshots', async () => {
+    const { browser, page } = createFakeBrowser();
+    launch.mockResolvedValue(browser);
+
+    await renderToBuffer('https://example.com', 'jpg');
+    await renderToBuffer('https://example.com', 'png', { imageType: 'webp', quality: 70 });
+
+    expect(page.screenshot).toHaveBeenNthCalledWith(1, expect.objectContaining({ type: 'jpeg', quality: 90 }));
+    expect(page.screenshot).toHaveBeenNthCalledWith(2, expect.objectContaining({ type: 'webp', quality: 70 }));
+  });
+
+  test('unsupported output types fail before a browser is launched', async () => {
+    await expect(renderToBuffer('https://example.com', 'gif')).rejects.toMatchObject({ code: 'INVALID_CONFIGURATION' });
+    expect(launch).not.toHaveBeenCalled();
+  });
+
+  test('renderToStream keeps the page open until the stream is consumed', async () => {
+    const { browser, page } = createFakeBrowser();
+    page.createPDFStream.mockResolvedValue(Readable.from([Buffer.from('%PDF-1.4 '), Buffer.from('streamed')]));
+    launch.mockResolvedValue(browser);
+
+    const stream = await renderToStream('https://example.com');
+
+    expect(page.createPDFStream).toHaveBeenCalled();
+    expect(page.close).not.toHaveBeenCalled();
+
+    expect(await readAll(stream)).toBe('%PDF-1.4 streamed');
+    await vi.waitFor(() => expect(browser.close).toHaveBeenCalled());
+    expect(page.close).toHaveBeenCalled();
+  });
+
+  test('failed navigations clean up and reject', async () => {
+    const { browser } = createFakeBrowser([500]);
+    launch.mockResolvedValue(browser);
+
+    await expect(renderToStream('https://example.com')).rejects.toThrow('500');
+    expect(browser.close).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { join } from 'path';
+import { resolveBreakpoints, BUILT_IN_BREAKPOINTS } from '../../src/config/breakpoints';
+import { resolveResponsiveOptions, breakpointFilename, contactSheetHtml } from '../../src/printing/responsive';
+import { toPrinteerError } from '../../src/errors';
+
+describe('resolveBreakpoints', () => {
+  it('should resolve built-in names, widths and sizes in the given order', () => {
+    expect(resolveBreakpoints(['desktop', ' Mobile ', '1024', '1280x800'])).toEqual([
+      { name: 'desktop', viewport: BUILT_IN_BREAKPOINTS.desktop },
+      { name: 'mobile', viewport: BUILT_IN_BREAKPOINTS.mobile },
+      { name: '1024', viewport: { width: 1024, height: 900 } },
+      { name: '1280x800', viewport: { width: 1280, height: 800 } }
+    ]);
+  });
+
+  it('should let named viewports override or extend the built-in breakpoints', () => {
+    expect(resolveBreakpoints([{ name: 'tablet', isLandscape: true, width: 1024, height: 768 }, { name: 'kiosk', width: 1080 }])).toEqual([
+      { name: 'tablet', viewport: { ...BUILT_IN_BREAKPOINTS.tablet, isLandscape: true, width: 1024, height: 768 } },
+      { name: 'kiosk', viewport: { width: 1080, height: 900 } }
+    ]);
+  });
+
+  it('should reject unknown, incomplete and repeated breakpoints as configuration errors', () => {
+    expect(() => resolveBreakpoints([])).toThrow('at least one breakpoint is required');
+    expect(() => resolveBreakpoints(['phablet'])).toThrow('unknown breakpoint phablet (built-in: mobile, tablet, desktop, wide');
+    expect(() => resolveBreakpoints([{ name: 'kiosk' }])).toThrow('breakpoint kiosk needs a width');
+    expect(() => resolveBreakpoints(['mobile', { name: 'mobile', width: 390 }])).toThrow('breakpoint mobile is listed twice');
+
+    try {
+      resolveBreakpoints(['phablet']);
+    } catch (error) {
+      expect(toPrinteerError(error).code).toBe('INVALID_CONFIGURATION');
+    }
+  });
+});
+
+describe('resolveResponsiveOptions', () => {
+  it('should put the contact sheet next to the output unless it is named or turned off', () => {
+    expect(resolveResponsiveOptions({ fullPage: true }, 'home.png')).toBeNull();
+    expect(resolveResponsiveOptions({ breakpoints: ['mobile'] }, join('shots', 'home.png'))?.contactSheet).toBe(join('shots', 'home-contact-sheet.html'));
+    expect(resolveResponsiveOptions({ breakpoints: ['mobile'] }, join('shots', '{breakpoint}.png'))?.contactSheet).toBe(join('shots', 'contact-sheet.html'));
+    expect(resolveResponsiveOptions({ breakpoints: ['mobile'], contactSheet: 'sheet.jpg' }, 'home.png')?.contactSheet).toBe('sheet.jpg');
+    expect(resolveResponsiveOptions({ breakpoints: ['mobile'], contactSheet: false }, 'home.png')?.contactSheet).toBeNull();
+  });
+
+  it('should reject breakpoints it cannot write', () => {
+    expect(() => resolveResponsiveOptions({ breakpoints: ['mobile'] }, null)).toThrow('need an output file');
+    expect(() => resolveResponsiveOptions({ breakpoints: ['mobile'], selectorAll: '.card' }, 'card.png')).toThrow('cannot be combined with image.selectorAll');
+    expect(() => resolveResponsiveOptions({ breakpoints: ['mobile'], contactSheet: 'sheet.pdf' }, 'home.png')).toThrow('must be an .html file or an image');
+  });
+});
+
+describe('breakpointFilename', () => {
+  it('should fill in the breakpoint name and width, or suffix the name', () => {
+    const [mobile] = resolveBreakpoints(['mobile']);
+
+    expect(breakpointFilename(join('shots', '{breakpoint}-{width}.png'), mobile)).toBe(join('shots', 'mobile-375.png'));
+    expect(breakpointFilename(join('shots', 'home.webp'), mobile)).toBe(join('shots', 'home-mobile.webp'));
+  });
+});
+
+describe('contactSheetHtml', () => {
+  it('should label every capture and size it by its viewport width', () => {
+    const html = contactSheetHtml('Home <beta>', 'https://example.com/', [
+      { name: 'mobile', width: 375, height: 667, path: 'home-mobile.png' },
+      { name: 'desktop', width: 1440, height: 900, path: 'home-desktop.png' }
+    ], ['home-mobile.png', 'home-desktop.png']);
+
+    expect(html).toContain('<title>Home &lt;beta&gt; - contact sheet</title>');
+    expect(html).toContain('<figure style="flex-grow: 375">');
+    expect(html).toContain('<figure style="flex-grow: 1440">');
+    expect(html).toContain('<figcaption><strong>desktop</strong> 1440×900</figcaption>');
+  });
+});
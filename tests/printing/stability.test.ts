@@ -0,0 +1,43 @@
+import { describe, it, expect, vi } from 'vitest';
+import { resolveStabilityCheck, waitForStability } from '../../src/printing/stability';
+import { ConversionBudget } from '../../src/printing/cancellation';
+
+/** A page whose frames and DOM change for the given number of polls */
+function createPage({ changingFrames = 0, quietFor = 10000 } = {}) {
+  let frames = 0;
+  const page = {
+    screenshot: vi.fn().mockImplementation(async () => Buffer.from(frames++ < changingFrames ? `frame ${frames}` : 'still')),
+    evaluate: vi.fn().mockImplementation(async (fn: () => unknown) => fn.name === 'sinceLastChange' ? quietFor : undefined)
+  };
+  return page;
+}
+
+describe('resolveStabilityCheck', () => {
+  it('should turn the check on when it is configured and fill in the defaults', () => {
+    expect(resolveStabilityCheck({})).toBeNull();
+    expect(resolveStabilityCheck({ stabilityCheck: { enabled: false, threshold: 800 } })).toBeNull();
+    expect(resolveStabilityCheck({ stabilityCheck: { enabled: true } })).toEqual({ threshold: 500, timeout: 10000 });
+    expect(resolveStabilityCheck({ stabilityCheck: { threshold: 800 } })).toEqual({ threshold: 800, timeout: 10000 });
+  });
+});
+
+describe('waitForStability', () => {
+  it('should wait for consecutive frames to stay the same for the threshold', async () => {
+    const page = createPage({ changingFrames: 3 });
+
+    const settled = await waitForStability(page as any, { threshold: 150, timeout: 5000 }, new ConversionBudget());
+
+    expect(settled).toBe(true);
+    expect(page.screenshot.mock.calls.length).toBeGreaterThanOrEqual(5);
+    expect(page.evaluate).toHaveBeenLastCalledWith(expect.objectContaining({ name: 'stopObserving' }));
+  });
+
+  it('should give up after the timeout while the DOM keeps changing', async () => {
+    const page = createPage({ quietFor: 20 });
+
+    const settled = await waitForStability(page as any, { threshold: 150, timeout: 300 }, new ConversionBudget());
+
+    expect(settled).toBe(false);
+    expect(page.evaluate).toHaveBeenCalledWith(expect.objectContaining({ name: 'observeChanges' }));
+  });
+});
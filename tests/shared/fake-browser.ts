@@ -0,0 +1,51 @@
+/**
+ * Puppeteer doubles for tests that render through the public API with
+ * `puppeteer.launch` mocked.
+ */
+
+import { vi } from 'vitest';
+import { Readable } from 'stream';
+
+const STATUS_TEXT: Record<number, string> = {
+  200: 'OK',
+  404: 'Not Found',
+  500: 'Internal Server Error',
+  503: 'Service Unavailable'
+};
+
+/**
+ * Main document response of a navigation without redirects
+ */
+export function fakeResponse(status = 200, url = 'https://example.com/') {
+  return {
+    url: () => url,
+    request: () => ({ redirectChain: () => [] }),
+    status: () => status,
+    statusText: () => STATUS_TEXT[status] || ''
+  };
+}
+
+/**
+ * A browser with one page that renders a small PDF. Navigations answer with
+ * `statuses` in order; the last status repeats.
+ */
+export function createFakeBrowser(statuses: number[] = [200]) {
+  const page = {
+    setViewport: vi.fn().mockResolvedValue(undefined),
+    on: vi.fn(),
+    setExtraHTTPHeaders: vi.fn().mockResolvedValue(undefined),
+    goto: vi.fn().mockImplementation(async () => fakeResponse(statuses.length > 1 ? statuses.shift()! : statuses[0])),
+    waitForSelector: vi.fn().mockResolvedValue(undefined),
+    pdf: vi.fn().mockResolvedValue(Buffer.from('%PDF-1.4')),
+    createPDFStream: vi.fn().mockImplementation(async () => Readable.from([Buffer.from('%PDF-1.4')])),
+    screenshot: vi.fn().mockResolvedValue(Buffer.from('PNG bytes')),
+    browserContext: () => ({ isIncognito: () => false }),
+    close: vi.fn().mockResolvedValue(undefined)
+  };
+  const browser = {
+    newPage: vi.fn().mockResolvedValue(page),
+    close: vi.fn().mockResolvedValue(undefined),
+    process: vi.fn().mockReturnValue(null)
+  };
+  return { browser, page };
+}